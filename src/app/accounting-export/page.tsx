@@ -0,0 +1,468 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { format, startOfMonth, subMonths, endOfMonth } from "date-fns";
+import { useRouter } from "next/navigation";
+import { FileDown, FileSpreadsheet, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/app/auth/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import api from "@/lib/api/axios";
+import { AxiosError } from "axios";
+import { bankAccountLabel } from "@/lib/bankAccounts";
+import {
+  ACCOUNT_ROLE_LABELS,
+  SOURCE_TYPE_LABELS,
+  buildJournal,
+  journalToCsv,
+  journalToImportCsv,
+  unmappedAccounts,
+  withDefaultAccounts,
+} from "@/lib/journalExport";
+import { BankAccount } from "@/types/bankAccount";
+import {
+  AccountRole,
+  ChartOfAccountsMapping,
+  JournalSourceTransaction,
+  JournalSourceType,
+  LedgerAccount,
+} from "@/types/journalExport";
+
+interface ExpenseCategory {
+  ExpenseCategoryID: number;
+  Name: string;
+}
+
+const PREVIEW_JOURNALS = 50;
+
+const formatCurrency = (amount: number) =>
+  `Rs. ${Number(amount).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const downloadCsv = (content: string, fileName: string) => {
+  const blob = new Blob([content], { type: "text/csv" });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+};
+
+export default function AccountingExportPage() {
+  const { user, getBusinessLineID } = useAuth();
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const canManage = ["superuser", "admin", "management"].includes(user?.userType || "");
+
+  // Defaults to last month, the period the accountant usually closes
+  const [startDate, setStartDate] = useState(() => format(startOfMonth(subMonths(new Date(), 1)), "yyyy-MM-dd"));
+  const [endDate, setEndDate] = useState(() => format(endOfMonth(subMonths(new Date(), 1)), "yyyy-MM-dd"));
+  const [mapping, setMapping] = useState<ChartOfAccountsMapping>(() => withDefaultAccounts());
+  const [categories, setCategories] = useState<ExpenseCategory[]>([]);
+  const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
+  const [transactions, setTransactions] = useState<JournalSourceTransaction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (user && !canManage) {
+      router.push("/dashboard");
+    }
+  }, [user, canManage, router]);
+
+  const fetchMapping = useCallback(() => {
+    const businessLineId = getBusinessLineID();
+    if (!businessLineId) return Promise.resolve();
+
+    return Promise.all([
+      api.get("/accounting-export/mapping", { params: { businessLineId } }),
+      api.get("/cashbook/expense-categories", { params: { businessLineId } }),
+      api.get("/bank-accounts", { params: { businessLineId } }),
+    ])
+      .then(([mappingRes, categoriesRes, bankAccountsRes]) => {
+        setMapping(withDefaultAccounts(mappingRes.data.data));
+        setCategories(categoriesRes.data.data || []);
+        setBankAccounts(bankAccountsRes.data.data || []);
+      })
+      .catch((error: AxiosError<{ message?: string }>) => {
+        toast({
+          title: "Error",
+          description: error.response?.data?.message || "Failed to load chart of accounts mapping",
+          variant: "destructive",
+        });
+      });
+  }, [getBusinessLineID, toast]);
+
+  const fetchTransactions = useCallback(() => {
+    const businessLineId = getBusinessLineID();
+    if (!businessLineId || !startDate || !endDate) return Promise.resolve();
+
+    return api
+      .get("/accounting-export/transactions", {
+        params: { businessLineId, startDate, endDate },
+      })
+      .then((response) => setTransactions(response.data.data || []))
+      .catch((error: AxiosError<{ message?: string }>) => {
+        toast({
+          title: "Error",
+          description: error.response?.data?.message || "Failed to load transactions",
+          variant: "destructive",
+        });
+        setTransactions([]);
+      })
+      .finally(() => setLoading(false));
+  }, [getBusinessLineID, startDate, endDate, toast]);
+
+  const handlePeriodChange = (nextStart: string, nextEnd: string) => {
+    if (nextStart && nextEnd && (nextStart !== startDate || nextEnd !== endDate)) {
+      setLoading(true);
+    }
+    setStartDate(nextStart);
+    setEndDate(nextEnd);
+  };
+
+  useEffect(() => {
+    if (canManage) {
+      fetchMapping();
+    }
+  }, [canManage, fetchMapping]);
+
+  useEffect(() => {
+    if (canManage) {
+      fetchTransactions();
+    }
+  }, [canManage, fetchTransactions]);
+
+  const journal = useMemo(() => buildJournal(transactions, mapping), [transactions, mapping]);
+  const missingAccounts = useMemo(() => unmappedAccounts(journal), [journal]);
+
+  const summary = useMemo(() => {
+    const bySource = new Map<JournalSourceType, { count: number; amount: number }>();
+    journal.forEach((entry) => {
+      const current = bySource.get(entry.SourceType) || { count: 0, amount: 0 };
+      bySource.set(entry.SourceType, {
+        count: current.count + 1,
+        amount: current.amount + entry.Lines.reduce((sum, line) => sum + line.Debit, 0),
+      });
+    });
+    return Array.from(bySource.entries());
+  }, [journal]);
+
+  const totals = journal.reduce(
+    (sum, entry) => {
+      entry.Lines.forEach((line) => {
+        sum.debit += line.Debit;
+        sum.credit += line.Credit;
+      });
+      return sum;
+    },
+    { debit: 0, credit: 0 }
+  );
+
+  const updateAccount = (
+    group: "accounts" | "expenseCategories" | "bankAccounts",
+    key: string,
+    field: keyof LedgerAccount,
+    value: string
+  ) => {
+    setMapping((prev) => {
+      const current: LedgerAccount = (prev[group] as Record<string, LedgerAccount>)[key] || { code: "", name: "" };
+      return { ...prev, [group]: { ...prev[group], [key]: { ...current, [field]: value } } };
+    });
+  };
+
+  const handleSaveMapping = async () => {
+    const businessLineId = getBusinessLineID();
+    if (!businessLineId) return;
+
+    setSaving(true);
+    try {
+      await api.put("/accounting-export/mapping", { businessLineId, mapping });
+      toast({ title: "Mapping saved", description: "Chart of accounts mapping updated." });
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message?: string }>;
+      toast({
+        title: "Error",
+        description: axiosError.response?.data?.message || "Failed to save mapping",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleExport = (layout: "lines" | "import") => {
+    if (missingAccounts.length > 0) {
+      toast({
+        title: "Accounts not mapped",
+        description: `Add account codes for: ${missingAccounts.join(", ")}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    const content = layout === "lines" ? journalToCsv(journal) : journalToImportCsv(journal);
+    const suffix = layout === "lines" ? "Journal" : "Journal_Import";
+    downloadCsv(content, `${suffix}_${startDate}_to_${endDate}.csv`);
+  };
+
+  const renderAccountInputs = (
+    group: "accounts" | "expenseCategories" | "bankAccounts",
+    key: string,
+    label: string,
+    placeholder?: LedgerAccount
+  ) => {
+    const account = (mapping[group] as Record<string, LedgerAccount>)[key];
+    return (
+      <TableRow key={`${group}-${key}`}>
+        <TableCell className="font-medium">{label}</TableCell>
+        <TableCell>
+          <Input
+            className="h-8"
+            value={account?.code ?? ""}
+            onChange={(e) => updateAccount(group, key, "code", e.target.value)}
+            placeholder={placeholder ? placeholder.code : "Code"}
+          />
+        </TableCell>
+        <TableCell>
+          <Input
+            className="h-8"
+            value={account?.name ?? ""}
+            onChange={(e) => updateAccount(group, key, "name", e.target.value)}
+            placeholder={placeholder ? placeholder.name : "Account name"}
+          />
+        </TableCell>
+      </TableRow>
+    );
+  };
+
+  if (!canManage) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="bg-gray-50 border-b border-gray-200 flex flex-row items-center justify-between gap-4">
+          <CardTitle className="text-xl font-semibold text-gray-800">Accounting Export</CardTitle>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleExport("lines")}
+              disabled={loading || journal.length === 0}
+            >
+              <FileSpreadsheet className="h-4 w-4 mr-1" />
+              Export CSV
+            </Button>
+            <Button size="sm" onClick={() => handleExport("import")} disabled={loading || journal.length === 0}>
+              <FileDown className="h-4 w-4 mr-1" />
+              Export Journal Import
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent className="p-4 space-y-4">
+          <div className="flex items-end gap-3">
+            <div>
+              <Label htmlFor="export-start">From</Label>
+              <Input
+                id="export-start"
+                type="date"
+                value={startDate}
+                max={endDate}
+                onChange={(e) => handlePeriodChange(e.target.value, endDate)}
+                className="w-[170px]"
+              />
+            </div>
+            <div>
+              <Label htmlFor="export-end">To</Label>
+              <Input
+                id="export-end"
+                type="date"
+                value={endDate}
+                min={startDate}
+                onChange={(e) => handlePeriodChange(startDate, e.target.value)}
+                className="w-[170px]"
+              />
+            </div>
+            <p className="text-sm text-muted-foreground pb-2">
+              Journal numbers come from the source records, so exporting the same period again gives the same file.
+            </p>
+          </div>
+
+          {missingAccounts.length > 0 && (
+            <Alert variant="destructive">
+              <AlertDescription>
+                These accounts have no code in the mapping below: {missingAccounts.join(", ")}.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader className="bg-gray-50">
+                <TableRow>
+                  <TableHead className="font-bold text-black">Source</TableHead>
+                  <TableHead className="font-bold text-black text-right">Journals</TableHead>
+                  <TableHead className="font-bold text-black text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center py-6">
+                      Loading transactions...
+                    </TableCell>
+                  </TableRow>
+                ) : summary.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center py-6 text-muted-foreground">
+                      No transactions in this period
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  <>
+                    {summary.map(([sourceType, row]) => (
+                      <TableRow key={sourceType}>
+                        <TableCell>{SOURCE_TYPE_LABELS[sourceType]}</TableCell>
+                        <TableCell className="text-right tabular-nums">{row.count}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatCurrency(row.amount)}</TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow className="bg-gray-50 font-bold">
+                      <TableCell>Total (Dr {formatCurrency(totals.debit)} / Cr {formatCurrency(totals.credit)})</TableCell>
+                      <TableCell className="text-right tabular-nums">{journal.length}</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatCurrency(totals.debit)}</TableCell>
+                    </TableRow>
+                  </>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {!loading && journal.length > 0 && (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader className="bg-gray-50">
+                  <TableRow>
+                    <TableHead className="font-bold text-black">Date</TableHead>
+                    <TableHead className="font-bold text-black">Journal</TableHead>
+                    <TableHead className="font-bold text-black">Narration</TableHead>
+                    <TableHead className="font-bold text-black">Account</TableHead>
+                    <TableHead className="font-bold text-black text-right">Debit</TableHead>
+                    <TableHead className="font-bold text-black text-right">Credit</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {journal.slice(0, PREVIEW_JOURNALS).flatMap((entry) =>
+                    entry.Lines.map((line, index) => (
+                      <TableRow key={`${entry.JournalNumber}-${index}`}>
+                        <TableCell className="whitespace-nowrap">{index === 0 ? entry.Date : ""}</TableCell>
+                        <TableCell className="whitespace-nowrap">{index === 0 ? entry.JournalNumber : ""}</TableCell>
+                        <TableCell className="text-muted-foreground">{index === 0 ? entry.Narration : ""}</TableCell>
+                        <TableCell className={line.Credit ? "pl-8" : ""}>
+                          {line.AccountCode || "—"} {line.AccountName}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {line.Debit ? formatCurrency(line.Debit) : ""}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {line.Credit ? formatCurrency(line.Credit) : ""}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+              {journal.length > PREVIEW_JOURNALS && (
+                <p className="text-sm text-muted-foreground p-3 border-t">
+                  Showing the first {PREVIEW_JOURNALS} of {journal.length} journals. The export includes all of them.
+                </p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="bg-gray-50 border-b border-gray-200 flex flex-row items-center justify-between gap-4">
+          <CardTitle className="text-xl font-semibold text-gray-800">Chart of Accounts Mapping</CardTitle>
+          <Button size="sm" onClick={handleSaveMapping} disabled={saving}>
+            <Save className="h-4 w-4 mr-1" />
+            {saving ? "Saving..." : "Save Mapping"}
+          </Button>
+        </CardHeader>
+        <CardContent className="p-4 space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Use the account codes from your accounting package. Bank accounts and expense categories left blank
+            post to the default Bank and Other expenses accounts.
+          </p>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader className="bg-gray-50">
+                <TableRow>
+                  <TableHead className="font-bold text-black">Account</TableHead>
+                  <TableHead className="font-bold text-black w-[160px]">Code</TableHead>
+                  <TableHead className="font-bold text-black">Name in accounting package</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(Object.keys(ACCOUNT_ROLE_LABELS) as AccountRole[]).map((accountRole) =>
+                  renderAccountInputs("accounts", accountRole, ACCOUNT_ROLE_LABELS[accountRole])
+                )}
+                {bankAccounts.length > 0 && (
+                  <TableRow className="bg-gray-50">
+                    <TableCell colSpan={3} className="font-semibold">
+                      Bank accounts
+                    </TableCell>
+                  </TableRow>
+                )}
+                {bankAccounts.map((account) =>
+                  renderAccountInputs(
+                    "bankAccounts",
+                    String(account.BankAccountID),
+                    bankAccountLabel(account),
+                    mapping.accounts.BANK
+                  )
+                )}
+                {categories.length > 0 && (
+                  <TableRow className="bg-gray-50">
+                    <TableCell colSpan={3} className="font-semibold">
+                      Expense categories
+                    </TableCell>
+                  </TableRow>
+                )}
+                {categories.map((category) =>
+                  renderAccountInputs(
+                    "expenseCategories",
+                    String(category.ExpenseCategoryID),
+                    category.Name,
+                    mapping.accounts.OTHER_EXPENSES
+                  )
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
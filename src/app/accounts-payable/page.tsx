@@ -0,0 +1,691 @@
+"use client"
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Table, TableHeader, TableHead, TableBody, TableCell, TableRow } from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from "@/components/ui/dialog";
+import { useAuth } from '../auth/auth-context';
+import axios from '@/lib/api/axios';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { differenceInCalendarDays, format } from 'date-fns';
+import { AxiosError } from 'axios';
+import { toast } from '@/hooks/use-toast';
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import BankAccountSelect from '@/components/BankAccountSelect';
+import { closedDayMessage, isCashDayClosed } from '@/lib/cashClose';
+
+interface Vendor {
+  VendorID: number;
+  VendorName: string;
+}
+
+interface VendorCredit {
+  VendorCreditID: string | number;
+  PurchaseID: number;
+  InvoiceNumber: string;
+  VendorID: number;
+  VendorName: string;
+  PurchaseDate: string;
+  DueDate: string;
+  OriginalAmount: number;
+  Amount: number;
+}
+
+interface VendorSettlement {
+  SettlementID: string | number;
+  VendorCreditID: string | number;
+  InvoiceNumber: string;
+  VendorName: string;
+  SettledDate: string;
+  Amount: number;
+  PaymentMethod: PayablePaymentMethod;
+  ChequeNumber?: string | null;
+  Reference?: string | null;
+}
+
+interface PayablesState {
+  pendingCredits: VendorCredit[];
+  settlements: VendorSettlement[];
+}
+
+type PayablePaymentMethod = 'CASH' | 'BANK_TRANSFER' | 'CHEQUE';
+
+interface SettleDialogState {
+  isOpen: boolean;
+  credit: VendorCredit | null;
+  amount: string;
+  paymentMethod: PayablePaymentMethod;
+  settledDate: string;
+  chequeNumber: string;
+  bankAccountId: string;
+  chequeDate: string;
+  reference: string;
+}
+
+interface VendorPayableSummary {
+  vendorId: number;
+  vendorName: string;
+  invoiceCount: number;
+  outstanding: number;
+  overdue: number;
+  nextDueDate: string | null;
+}
+
+const paymentMethodLabels: Record<PayablePaymentMethod, string> = {
+  CASH: 'Cash',
+  BANK_TRANSFER: 'Bank transfer',
+  CHEQUE: 'Cheque',
+};
+
+const formatCurrency = (amount: number) =>
+  `Rs. ${Number(amount).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const getDaysOverdue = (dueDate: string) =>
+  differenceInCalendarDays(new Date(), new Date(dueDate));
+
+const buildVendorSummaries = (credits: VendorCredit[]): VendorPayableSummary[] => {
+  const summaries = new Map<number, VendorPayableSummary>();
+
+  for (const credit of credits) {
+    const summary = summaries.get(credit.VendorID) ?? {
+      vendorId: credit.VendorID,
+      vendorName: credit.VendorName,
+      invoiceCount: 0,
+      outstanding: 0,
+      overdue: 0,
+      nextDueDate: null,
+    };
+
+    summary.invoiceCount += 1;
+    summary.outstanding += Number(credit.Amount);
+    if (getDaysOverdue(credit.DueDate) > 0) {
+      summary.overdue += Number(credit.Amount);
+    }
+    if (!summary.nextDueDate || new Date(credit.DueDate) < new Date(summary.nextDueDate)) {
+      summary.nextDueDate = credit.DueDate;
+    }
+
+    summaries.set(credit.VendorID, summary);
+  }
+
+  return [...summaries.values()].sort((a, b) => b.outstanding - a.outstanding);
+};
+
+const createSettleDialogState = (credit: VendorCredit | null = null): SettleDialogState => ({
+  isOpen: credit !== null,
+  credit,
+  amount: credit ? Number(credit.Amount).toFixed(2) : '',
+  paymentMethod: 'CASH',
+  settledDate: format(new Date(), 'yyyy-MM-dd'),
+  chequeNumber: '',
+  bankAccountId: '',
+  chequeDate: format(new Date(), 'yyyy-MM-dd'),
+  reference: '',
+});
+
+const AccountsPayable = () => {
+  const { getBusinessLineID } = useAuth();
+  const [payables, setPayables] = useState<PayablesState>({
+    pendingCredits: [],
+    settlements: []
+  });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [processingIds, setProcessingIds] = useState<Set<string | number>>(new Set());
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [selectedVendor, setSelectedVendor] = useState<string>("all");
+  const [settleDialog, setSettleDialog] = useState<SettleDialogState>(createSettleDialogState());
+
+  const vendorSummaries = useMemo(
+    () => buildVendorSummaries(payables.pendingCredits),
+    [payables.pendingCredits]
+  );
+
+  const totals = useMemo(() => {
+    let outstanding = 0;
+    let overdue = 0;
+    let dueThisWeek = 0;
+
+    for (const credit of payables.pendingCredits) {
+      const amount = Number(credit.Amount || 0);
+      const daysOverdue = getDaysOverdue(credit.DueDate);
+      outstanding += amount;
+      if (daysOverdue > 0) {
+        overdue += amount;
+      } else if (daysOverdue >= -7) {
+        dueThisWeek += amount;
+      }
+    }
+
+    return { outstanding, overdue, dueThisWeek };
+  }, [payables.pendingCredits]);
+
+  const fetchVendors = useCallback(() => {
+    const businessLineId = getBusinessLineID();
+    return axios.get(`${process.env.NEXT_PUBLIC_API_URL}/vendors?businessLineId=${businessLineId}`)
+      .then(response => setVendors(Array.isArray(response.data) ? response.data : []))
+      .catch((err: unknown) => console.error('Error fetching vendors:', err));
+  }, [getBusinessLineID]);
+
+  const fetchPayables = useCallback(() => {
+    const businessLineId = getBusinessLineID();
+
+    const params = new URLSearchParams();
+    if (selectedVendor && selectedVendor !== "all") {
+      params.append('vendorId', selectedVendor);
+    }
+
+    return axios.get(`${process.env.NEXT_PUBLIC_API_URL}/purchases/payables/${businessLineId}?${params.toString()}`)
+      .then(response => {
+        setError('');
+        setPayables({
+          pendingCredits: response.data.pendingCredits || [],
+          settlements: response.data.settlements || [],
+        });
+      })
+      .catch((err: unknown) => {
+        if (err instanceof AxiosError) {
+          const errorMessage = err.response?.data?.message || 'Failed to fetch vendor payables';
+          setError(`Error: ${errorMessage}`);
+        } else {
+          console.error('Unexpected error:', err);
+        }
+      })
+      .finally(() => setLoading(false));
+  }, [selectedVendor, getBusinessLineID]);
+
+  const handleVendorChange = (vendorId: string) => {
+    if (vendorId === selectedVendor) return;
+    setLoading(true);
+    setSelectedVendor(vendorId);
+  };
+
+  useEffect(() => {
+    fetchVendors();
+  }, [fetchVendors]);
+
+  useEffect(() => {
+    fetchPayables();
+  }, [fetchPayables]);
+
+  const openSettleDialog = (credit: VendorCredit) => {
+    setSettleDialog(createSettleDialogState(credit));
+  };
+
+  const closeSettleDialog = () => {
+    setSettleDialog(createSettleDialogState());
+  };
+
+  const handleSettleCredit = async () => {
+    const { credit, amount, paymentMethod, settledDate, chequeNumber, bankAccountId, chequeDate, reference } = settleDialog;
+    if (!credit) return;
+
+    const settleAmount = parseFloat(amount);
+    if (isNaN(settleAmount) || settleAmount <= 0 || settleAmount - Number(credit.Amount) > 0.009) {
+      toast({
+        variant: 'destructive',
+        title: 'Invalid amount',
+        description: `Enter an amount between Rs. 0.01 and ${formatCurrency(credit.Amount)}.`,
+        duration: 3000,
+      });
+      return;
+    }
+
+    if (paymentMethod === 'BANK_TRANSFER' && !bankAccountId) {
+      toast({
+        variant: 'destructive',
+        title: 'Missing bank account',
+        description: 'Select the account the transfer is paid from.',
+        duration: 3000,
+      });
+      return;
+    }
+
+    if (paymentMethod === 'CHEQUE' && (!chequeNumber.trim() || !bankAccountId || !chequeDate)) {
+      toast({
+        variant: 'destructive',
+        title: 'Missing cheque details',
+        description: 'Cheque number, bank account and cheque date are required.',
+        duration: 3000,
+      });
+      return;
+    }
+
+    try {
+      setProcessingIds(prev => new Set(prev).add(credit.VendorCreditID));
+      if (paymentMethod === 'CASH' && await isCashDayClosed(getBusinessLineID(), settledDate)) {
+        toast({
+          variant: "destructive",
+          title: "Day closed",
+          description: closedDayMessage(settledDate),
+          duration: 3000,
+        });
+        return;
+      }
+
+      await axios.put(
+        `${process.env.NEXT_PUBLIC_API_URL}/purchases/credit/${credit.VendorCreditID}/settle`,
+        {
+          businessLineId: getBusinessLineID(),
+          amount: parseFloat(settleAmount.toFixed(2)),
+          paymentMethod,
+          settledDate,
+          reference: reference.trim() || undefined,
+          ...(paymentMethod !== 'CASH' && { bankAccountId: Number(bankAccountId) }),
+          ...(paymentMethod === 'CHEQUE' && {
+            chequeNumber: chequeNumber.trim(),
+            chequeDate,
+          }),
+        }
+      );
+      closeSettleDialog();
+      await fetchPayables();
+      toast({
+        title: "Success",
+        description: paymentMethod === 'CHEQUE'
+          ? `Cheque #${chequeNumber.trim()} to ${credit.VendorName} added to the issued cheque register`
+          : settleAmount < Number(credit.Amount)
+            ? `Partially settled ${formatCurrency(settleAmount)} to ${credit.VendorName}`
+            : `Settled invoice ${credit.InvoiceNumber} for ${credit.VendorName}`,
+        duration: 3000,
+      });
+    } catch (err: unknown) {
+      if (err instanceof AxiosError) {
+        const errorMessage = err.response?.data?.message || 'Error settling vendor credit';
+        setError(`Error: ${errorMessage}`);
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: errorMessage,
+          duration: 3000,
+        });
+      } else {
+        console.error('Unexpected error:', err);
+      }
+    } finally {
+      setProcessingIds(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(credit.VendorCreditID);
+        return newSet;
+      });
+    }
+  };
+
+  const renderDueBadge = (dueDate: string) => {
+    const daysOverdue = getDaysOverdue(dueDate);
+    if (daysOverdue > 0) {
+      return <Badge className="bg-red-100 text-red-800">{daysOverdue} days overdue</Badge>;
+    }
+    if (daysOverdue >= -7) {
+      return <Badge className="bg-yellow-100 text-yellow-800">
+        {daysOverdue === 0 ? 'Due today' : `Due in ${-daysOverdue} days`}
+      </Badge>;
+    }
+    return <Badge className="bg-green-100 text-green-800">Not due</Badge>;
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex justify-center items-center">
+            Loading payables...
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="bg-gray-50 border-b border-gray-200 flex flex-row items-start justify-between">
+          <CardTitle className="text-xl font-semibold text-gray-800">
+            Accounts Payable
+          </CardTitle>
+
+          <Select
+            value={selectedVendor}
+            onValueChange={handleVendorChange}
+          >
+            <SelectTrigger className="w-[200px]">
+              <SelectValue placeholder="Select Vendor" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Vendors</SelectItem>
+              {vendors.map((vendor) => (
+                <SelectItem
+                  key={vendor.VendorID}
+                  value={vendor.VendorID.toString()}
+                >
+                  {vendor.VendorName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+
+        <div className="mx-4 mt-4 grid grid-cols-1 gap-4 sm:grid-cols-3">
+          <Card className="border-blue-100 bg-blue-50">
+            <CardContent className="pt-6">
+              <p className="text-sm text-blue-700">Total Payable</p>
+              <p className="text-2xl font-bold tabular-nums text-blue-900">
+                {formatCurrency(totals.outstanding)}
+              </p>
+            </CardContent>
+          </Card>
+          <Card className="border-red-100 bg-red-50">
+            <CardContent className="pt-6">
+              <p className="text-sm text-red-700">Overdue</p>
+              <p className="text-2xl font-bold tabular-nums text-red-900">
+                {formatCurrency(totals.overdue)}
+              </p>
+            </CardContent>
+          </Card>
+          <Card className="border-amber-100 bg-amber-50">
+            <CardContent className="pt-6">
+              <p className="text-sm text-amber-700">Due in next 7 days</p>
+              <p className="text-2xl font-bold tabular-nums text-amber-900">
+                {formatCurrency(totals.dueThisWeek)}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        {error && (
+          <Alert variant="destructive" className="m-4">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Tabs defaultValue="pending" className="mt-4 ml-4">
+          <TabsList>
+            <TabsTrigger value="pending">
+              Pending Credits ({payables.pendingCredits.length})
+            </TabsTrigger>
+            <TabsTrigger value="vendors">
+              By Vendor ({vendorSummaries.length})
+            </TabsTrigger>
+            <TabsTrigger value="settled">
+              Settlements ({payables.settlements.length})
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="pending">
+            <CardContent className="mt-6">
+              <Table className="border">
+                <TableHeader className="bg-gray-50">
+                  <TableRow>
+                    <TableHead className="text-black font-bold">Vendor</TableHead>
+                    <TableHead className="text-black font-bold">Invoice #</TableHead>
+                    <TableHead className="text-black font-bold">Purchase Date</TableHead>
+                    <TableHead className="text-black font-bold">Due Date</TableHead>
+                    <TableHead className="text-black font-bold">Status</TableHead>
+                    <TableHead className="text-black font-bold text-right">Original</TableHead>
+                    <TableHead className="text-black font-bold text-right">Outstanding</TableHead>
+                    <TableHead className="text-black font-bold text-center">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[...payables.pendingCredits]
+                    .sort((a, b) => new Date(a.DueDate).getTime() - new Date(b.DueDate).getTime())
+                    .map((credit) => (
+                      <TableRow key={credit.VendorCreditID}>
+                        <TableCell>{credit.VendorName}</TableCell>
+                        <TableCell>{credit.InvoiceNumber}</TableCell>
+                        <TableCell>{format(new Date(credit.PurchaseDate), 'yyyy-MM-dd')}</TableCell>
+                        <TableCell>{format(new Date(credit.DueDate), 'yyyy-MM-dd')}</TableCell>
+                        <TableCell>{renderDueBadge(credit.DueDate)}</TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatCurrency(credit.OriginalAmount ?? credit.Amount)}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatCurrency(credit.Amount)}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex justify-center items-center gap-2">
+                            <Button
+                              variant="default"
+                              onClick={() => openSettleDialog(credit)}
+                              disabled={processingIds.has(credit.VendorCreditID)}
+                              size="sm"
+                            >
+                              {processingIds.has(credit.VendorCreditID) ? 'Processing...' : 'Settle'}
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  {payables.pendingCredits.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={8} className="text-center py-4">
+                        No pending vendor credits
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </TabsContent>
+
+          <TabsContent value="vendors">
+            <CardContent className="mt-6">
+              <Table className="border">
+                <TableHeader className="bg-gray-50">
+                  <TableRow>
+                    <TableHead className="text-black font-bold">Vendor</TableHead>
+                    <TableHead className="text-black font-bold text-right">Invoices</TableHead>
+                    <TableHead className="text-black font-bold">Next Due</TableHead>
+                    <TableHead className="text-black font-bold text-right">Overdue</TableHead>
+                    <TableHead className="text-black font-bold text-right">Outstanding</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {vendorSummaries.map((summary) => (
+                    <TableRow
+                      key={summary.vendorId}
+                      className="cursor-pointer hover:bg-gray-50"
+                      onClick={() => handleVendorChange(summary.vendorId.toString())}
+                    >
+                      <TableCell>{summary.vendorName}</TableCell>
+                      <TableCell className="text-right">{summary.invoiceCount}</TableCell>
+                      <TableCell>
+                        {summary.nextDueDate ? format(new Date(summary.nextDueDate), 'yyyy-MM-dd') : '—'}
+                      </TableCell>
+                      <TableCell className={`text-right tabular-nums ${summary.overdue > 0 ? 'text-red-600' : ''}`}>
+                        {formatCurrency(summary.overdue)}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums font-medium">
+                        {formatCurrency(summary.outstanding)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {vendorSummaries.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-4">
+                        Nothing owed to vendors
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </TabsContent>
+
+          <TabsContent value="settled">
+            <CardContent className="mt-6">
+              <Table className="border">
+                <TableHeader className="bg-gray-50">
+                  <TableRow>
+                    <TableHead className="text-black font-bold">Date</TableHead>
+                    <TableHead className="text-black font-bold">Vendor</TableHead>
+                    <TableHead className="text-black font-bold">Invoice #</TableHead>
+                    <TableHead className="text-black font-bold">Method</TableHead>
+                    <TableHead className="text-black font-bold">Reference</TableHead>
+                    <TableHead className="text-black font-bold text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {payables.settlements.map((settlement) => (
+                    <TableRow key={settlement.SettlementID}>
+                      <TableCell>{format(new Date(settlement.SettledDate), 'yyyy-MM-dd')}</TableCell>
+                      <TableCell>{settlement.VendorName}</TableCell>
+                      <TableCell>{settlement.InvoiceNumber}</TableCell>
+                      <TableCell>{paymentMethodLabels[settlement.PaymentMethod] || settlement.PaymentMethod}</TableCell>
+                      <TableCell>
+                        {settlement.ChequeNumber ? `Cheque #${settlement.ChequeNumber}` : settlement.Reference || '—'}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {formatCurrency(settlement.Amount)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {payables.settlements.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-4">
+                        No settlements recorded
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </TabsContent>
+        </Tabs>
+      </Card>
+
+      {/* Settle Vendor Credit Dialog */}
+      <Dialog open={settleDialog.isOpen} onOpenChange={(open) => !open && closeSettleDialog()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Settle vendor credit</DialogTitle>
+            <DialogDescription>
+              {settleDialog.credit && (
+                <>
+                  Pay {settleDialog.credit.VendorName} against invoice {settleDialog.credit.InvoiceNumber}.
+                  Outstanding: {formatCurrency(settleDialog.credit.Amount)}. Cash and transfers are posted to the cashbook as an OUT entry; cheques go to the issued cheque register and post when cleared.
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div>
+              <Label htmlFor="settle-amount">Amount (Rs.)</Label>
+              <Input
+                id="settle-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={settleDialog.amount}
+                onChange={(e) => setSettleDialog((prev) => ({ ...prev, amount: e.target.value }))}
+              />
+              <p className="mt-1 text-xs text-muted-foreground">
+                Enter less than the outstanding amount for a partial settlement.
+              </p>
+            </div>
+            <div>
+              <Label>Payment method</Label>
+              <Select
+                value={settleDialog.paymentMethod}
+                onValueChange={(value) =>
+                  setSettleDialog((prev) => ({ ...prev, paymentMethod: value as PayablePaymentMethod }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="CASH">Cash</SelectItem>
+                  <SelectItem value="BANK_TRANSFER">Bank transfer</SelectItem>
+                  <SelectItem value="CHEQUE">Our cheque</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="settle-date">Payment date</Label>
+              <Input
+                id="settle-date"
+                type="date"
+                value={settleDialog.settledDate}
+                onChange={(e) => setSettleDialog((prev) => ({ ...prev, settledDate: e.target.value }))}
+              />
+            </div>
+            {settleDialog.paymentMethod !== 'CASH' && (
+              <div>
+                <Label htmlFor="settle-bank-account">
+                  {settleDialog.paymentMethod === 'CHEQUE' ? 'Drawn on' : 'Paid from'}
+                </Label>
+                <BankAccountSelect
+                  id="settle-bank-account"
+                  value={settleDialog.bankAccountId}
+                  onValueChange={(value) => setSettleDialog((prev) => ({ ...prev, bankAccountId: value }))}
+                />
+              </div>
+            )}
+            {settleDialog.paymentMethod === 'CHEQUE' && (
+              <>
+                <div>
+                  <Label htmlFor="settle-cheque-number">Cheque number</Label>
+                  <Input
+                    id="settle-cheque-number"
+                    value={settleDialog.chequeNumber}
+                    onChange={(e) => setSettleDialog((prev) => ({ ...prev, chequeNumber: e.target.value }))}
+                    placeholder="Enter cheque number"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="settle-cheque-date">Cheque date</Label>
+                  <Input
+                    id="settle-cheque-date"
+                    type="date"
+                    value={settleDialog.chequeDate}
+                    onChange={(e) => setSettleDialog((prev) => ({ ...prev, chequeDate: e.target.value }))}
+                  />
+                </div>
+              </>
+            )}
+            {settleDialog.paymentMethod === 'BANK_TRANSFER' && (
+              <div>
+                <Label htmlFor="settle-reference">Transfer reference</Label>
+                <Input
+                  id="settle-reference"
+                  value={settleDialog.reference}
+                  onChange={(e) => setSettleDialog((prev) => ({ ...prev, reference: e.target.value }))}
+                  placeholder="Optional"
+                />
+              </div>
+            )}
+          </div>
+          <DialogFooter className="mt-4 gap-2">
+            <Button variant="outline" onClick={closeSettleDialog}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSettleCredit}
+              disabled={!settleDialog.credit || processingIds.has(settleDialog.credit.VendorCreditID)}
+            >
+              Settle
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default AccountsPayable;
@@ -0,0 +1,357 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { useRouter } from "next/navigation";
+import { Edit, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/app/auth/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import api from "@/lib/api/axios";
+import { AxiosError } from "axios";
+import { BankAccount } from "@/types/bankAccount";
+
+const formatCurrency = (amount: number) =>
+  `Rs. ${Number(amount).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const emptyForm = () => ({
+  bankName: "",
+  branch: "",
+  accountNumber: "",
+  accountName: "",
+  openingBalance: "0",
+  openingBalanceDate: format(new Date(), "yyyy-MM-dd"),
+});
+
+export default function BankAccountsPage() {
+  const { user, getBusinessLineID } = useAuth();
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const canManage = ["superuser", "admin", "management"].includes(user?.userType || "");
+
+  const [accounts, setAccounts] = useState<BankAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<BankAccount | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [togglingId, setTogglingId] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (user && !canManage) {
+      router.push("/dashboard");
+    }
+  }, [user, canManage, router]);
+
+  const fetchAccounts = useCallback(() => {
+    const businessLineId = getBusinessLineID();
+    if (!businessLineId) return Promise.resolve();
+
+    return api
+      .get("/bank-accounts", { params: { businessLineId, includeBalances: true } })
+      .then((response) => setAccounts(response.data.data || []))
+      .catch((error: AxiosError<{ message?: string }>) => {
+        toast({
+          title: "Error",
+          description: error.response?.data?.message || "Failed to load bank accounts",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [getBusinessLineID, toast]);
+
+  useEffect(() => {
+    if (canManage) {
+      fetchAccounts();
+    }
+  }, [canManage, fetchAccounts]);
+
+  const openCreateDialog = () => {
+    setEditing(null);
+    setForm(emptyForm());
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (account: BankAccount) => {
+    setEditing(account);
+    setForm({
+      bankName: account.BankName,
+      branch: account.Branch || "",
+      accountNumber: account.AccountNumber,
+      accountName: account.AccountName || "",
+      openingBalance: String(account.OpeningBalance ?? 0),
+      openingBalanceDate: format(new Date(account.OpeningBalanceDate), "yyyy-MM-dd"),
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    const businessLineId = getBusinessLineID();
+    if (!businessLineId) return;
+
+    const openingBalance = parseFloat(form.openingBalance);
+    if (!form.bankName.trim() || !form.accountNumber.trim() || isNaN(openingBalance)) {
+      toast({
+        title: "Invalid account",
+        description: "Bank name, account number and opening balance are required.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const payload = {
+      businessLineId,
+      bankName: form.bankName.trim(),
+      branch: form.branch.trim(),
+      accountNumber: form.accountNumber.trim(),
+      accountName: form.accountName.trim() || undefined,
+      openingBalance,
+      openingBalanceDate: form.openingBalanceDate,
+    };
+
+    setSaving(true);
+    try {
+      if (editing) {
+        await api.put(`/bank-accounts/${editing.BankAccountID}`, payload);
+        toast({ title: "Account updated", description: `${payload.bankName} - ${payload.accountNumber} saved.` });
+      } else {
+        await api.post("/bank-accounts", payload);
+        toast({ title: "Account added", description: `${payload.bankName} - ${payload.accountNumber} is ready to use.` });
+      }
+      setDialogOpen(false);
+      await fetchAccounts();
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message?: string }>;
+      toast({
+        title: "Error",
+        description: axiosError.response?.data?.message || "Failed to save bank account",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Accounts with history are deactivated rather than deleted so past entries keep their account
+  const handleToggleActive = async (account: BankAccount) => {
+    setTogglingId(account.BankAccountID);
+    try {
+      await api.put(`/bank-accounts/${account.BankAccountID}`, {
+        businessLineId: getBusinessLineID(),
+        isActive: !account.IsActive,
+      });
+      await fetchAccounts();
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message?: string }>;
+      toast({
+        title: "Error",
+        description: axiosError.response?.data?.message || "Failed to update bank account",
+        variant: "destructive",
+      });
+    } finally {
+      setTogglingId(null);
+    }
+  };
+
+  const totalBalance = accounts
+    .filter((account) => account.IsActive)
+    .reduce((sum, account) => sum + Number(account.Balance ?? 0), 0);
+
+  if (!canManage) {
+    return null;
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="bg-gray-50 border-b border-gray-200 flex flex-row items-center justify-between gap-4">
+          <CardTitle className="text-xl font-semibold text-gray-800">Bank Accounts</CardTitle>
+          <Button size="sm" onClick={openCreateDialog}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Account
+          </Button>
+        </CardHeader>
+
+        <CardContent className="p-4 space-y-4">
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader className="bg-gray-50">
+                <TableRow>
+                  <TableHead className="font-bold text-black">Bank</TableHead>
+                  <TableHead className="font-bold text-black">Branch</TableHead>
+                  <TableHead className="font-bold text-black">Account Number</TableHead>
+                  <TableHead className="font-bold text-black">Account Name</TableHead>
+                  <TableHead className="font-bold text-black text-right">Opening Balance</TableHead>
+                  <TableHead className="font-bold text-black text-right">Current Balance</TableHead>
+                  <TableHead className="font-bold text-black">Status</TableHead>
+                  <TableHead className="font-bold text-black text-center">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center py-6">
+                      Loading bank accounts...
+                    </TableCell>
+                  </TableRow>
+                ) : accounts.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center py-6 text-muted-foreground">
+                      No bank accounts yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  <>
+                    {accounts.map((account) => (
+                      <TableRow key={account.BankAccountID} className={account.IsActive ? "" : "opacity-60"}>
+                        <TableCell className="font-medium">{account.BankName}</TableCell>
+                        <TableCell>{account.Branch || "—"}</TableCell>
+                        <TableCell>{account.AccountNumber}</TableCell>
+                        <TableCell>{account.AccountName || "—"}</TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          <div>{formatCurrency(account.OpeningBalance)}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {format(new Date(account.OpeningBalanceDate), "yyyy-MM-dd")}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums font-medium">
+                          {formatCurrency(Number(account.Balance ?? account.OpeningBalance))}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={account.IsActive ? "default" : "secondary"}>
+                            {account.IsActive ? "Active" : "Inactive"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex justify-center gap-2">
+                            <Button variant="ghost" size="sm" onClick={() => openEditDialog(account)}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleToggleActive(account)}
+                              disabled={togglingId === account.BankAccountID}
+                            >
+                              {account.IsActive ? "Deactivate" : "Activate"}
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow className="bg-gray-50 font-bold">
+                      <TableCell colSpan={5}>Total (active accounts)</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatCurrency(totalBalance)}</TableCell>
+                      <TableCell colSpan={2} />
+                    </TableRow>
+                  </>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Bank Account" : "Add Bank Account"}</DialogTitle>
+            <DialogDescription>
+              Bank cashbook entries, cheque deposits and bank payments are posted to a named account.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 py-2">
+            <div>
+              <Label htmlFor="ba-bank">Bank</Label>
+              <Input
+                id="ba-bank"
+                value={form.bankName}
+                onChange={(e) => setForm((prev) => ({ ...prev, bankName: e.target.value }))}
+                placeholder="e.g. Bank of Ceylon"
+              />
+            </div>
+            <div>
+              <Label htmlFor="ba-branch">Branch</Label>
+              <Input
+                id="ba-branch"
+                value={form.branch}
+                onChange={(e) => setForm((prev) => ({ ...prev, branch: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="ba-number">Account number</Label>
+              <Input
+                id="ba-number"
+                value={form.accountNumber}
+                onChange={(e) => setForm((prev) => ({ ...prev, accountNumber: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="ba-name">Account name</Label>
+              <Input
+                id="ba-name"
+                value={form.accountName}
+                onChange={(e) => setForm((prev) => ({ ...prev, accountName: e.target.value }))}
+                placeholder="Optional"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="ba-opening">Opening balance (Rs.)</Label>
+                <Input
+                  id="ba-opening"
+                  type="number"
+                  step="0.01"
+                  value={form.openingBalance}
+                  onChange={(e) => setForm((prev) => ({ ...prev, openingBalance: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="ba-opening-date">As of</Label>
+                <Input
+                  id="ba-opening-date"
+                  type="date"
+                  value={form.openingBalanceDate}
+                  onChange={(e) => setForm((prev) => ({ ...prev, openingBalanceDate: e.target.value }))}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "Saving..." : "Save Account"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
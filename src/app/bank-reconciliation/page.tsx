@@ -0,0 +1,990 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { addDays, format } from "date-fns";
+import { useRouter } from "next/navigation";
+import { Download, FileDown, Link2, Loader2, Plus, RefreshCw, Unlink, Upload } from "lucide-react";
+import * as XLSX from "xlsx";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/app/auth/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import api from "@/lib/api/axios";
+import { AxiosError } from "axios";
+import { transformPaymentsToStatusChanges } from "@/lib/paymentStatusAdapter";
+import BankAccountSelect from "@/components/BankAccountSelect";
+import { BankAccountBalance } from "@/types/bankAccount";
+import {
+  STATEMENT_TEMPLATE_HEADERS,
+  autoMatchStatement,
+  buildReconciliationSummary,
+  isWithinPeriod,
+  parseBankStatementRows,
+} from "@/lib/bankReconciliation";
+import {
+  BankBookItem,
+  BankStatementLine,
+  ReconciliationMatch,
+  ReconciliationMatchMethod,
+} from "@/types/bankReconciliation";
+
+interface CashbookEntry {
+  EntryID: number;
+  EntryDate: string;
+  Direction: "IN" | "OUT";
+  Amount: number;
+  Category: string;
+  Description: string | null;
+  ReferenceType: string | null;
+  ReferenceID: number | null;
+  AccountType: "CASH" | "BANK";
+}
+
+interface ExpenseCategory {
+  ExpenseCategoryID: number;
+  Name: string;
+}
+
+// Cashbook rows posted by a cheque realization carry this reference type
+const CHEQUE_REFERENCE_TYPE = "CHEQUE";
+
+const formatCurrency = (amount: number) =>
+  `Rs. ${Number(amount).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const formatDate = (date: string) => format(new Date(date), "yyyy-MM-dd");
+
+const matchMethodLabels: Record<ReconciliationMatchMethod, string> = {
+  CHEQUE_NUMBER: "Cheque no.",
+  AMOUNT_DATE: "Amount & date",
+  MANUAL: "Manual",
+};
+
+const emptyRecordForm = {
+  line: null as BankStatementLine | null,
+  description: "",
+  expenseCategoryId: "",
+};
+
+export default function BankReconciliationPage() {
+  const { user, getBusinessLineID } = useAuth();
+  const router = useRouter();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const canManage = ["superuser", "admin", "management"].includes(user?.userType || "");
+
+  const [bankAccountId, setBankAccountId] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [lines, setLines] = useState<BankStatementLine[]>([]);
+  const [importErrors, setImportErrors] = useState<{ row: number; message: string }[]>([]);
+  const [bookItems, setBookItems] = useState<BankBookItem[]>([]);
+  const [bookBalance, setBookBalance] = useState(0);
+  const [matches, setMatches] = useState<ReconciliationMatch[]>([]);
+  const [statementClosingBalance, setStatementClosingBalance] = useState("");
+  const [dateWindow, setDateWindow] = useState("3");
+  const [loadingBook, setLoadingBook] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const [expenseCategories, setExpenseCategories] = useState<ExpenseCategory[]>([]);
+  const [recordForm, setRecordForm] = useState(emptyRecordForm);
+  const [recording, setRecording] = useState(false);
+
+  useEffect(() => {
+    if (user && !canManage) {
+      router.push("/dashboard");
+    }
+  }, [user, canManage, router]);
+
+  const period = useMemo(() => {
+    if (lines.length === 0) return null;
+    const dates = lines.map((line) => line.TransactionDate).sort();
+    return { startDate: dates[0], endDate: dates[dates.length - 1] };
+  }, [lines]);
+
+  const windowDays = Math.max(0, parseInt(dateWindow) || 0);
+
+  /**
+   * Loads the account's cashbook entries and realized cheques for the statement period.
+   * Cheques already posted to the cashbook lend their number to that entry
+   * instead of being listed twice. Cheques never posted are missing from the cashbook
+   * balance, so those realized by the statement end are added to the book balance.
+   */
+  const loadBookItems = async (accountId: string, startDate: string, endDate: string) => {
+    const businessLineId = getBusinessLineID();
+    if (!businessLineId || !accountId) return null;
+
+    // Widen the range so items booked just before/after the statement can still match
+    const params = {
+      startDate: format(addDays(new Date(startDate), -windowDays), "yyyy-MM-dd"),
+      endDate: format(addDays(new Date(endDate), windowDays), "yyyy-MM-dd"),
+    };
+
+    const [entriesRes, historyRes, balancesRes, categoriesRes] = await Promise.all([
+      api.get("/cashbook", {
+        params: { ...params, businessLineId, accountType: "BANK", bankAccountId: accountId },
+      }),
+      api.get(`/payments/history/${businessLineId}`, { params }),
+      api.get("/cashbook/balances", { params: { businessLineId, asOfDate: endDate } }),
+      api.get("/cashbook/expense-categories", { params: { businessLineId } }),
+    ]);
+
+    const entries: CashbookEntry[] = entriesRes.data.data || [];
+    // Cheques deposited before accounts were named have no account and are offered to every account
+    const realizedCheques = transformPaymentsToStatusChanges(historyRes.data.payments || []).filter(
+      (change) =>
+        change.paymentMethod === "CHEQUE" &&
+        change.toStatus === "REALIZED" &&
+        (!change.details.depositBankAccountId || String(change.details.depositBankAccountId) === accountId)
+    );
+
+    const chequeByPaymentId = new Map(
+      realizedCheques
+        .filter((change) => change.chequePaymentId !== undefined)
+        .map((change) => [String(change.chequePaymentId), change])
+    );
+    const postedChequeIds = new Set<string>();
+
+    const items: BankBookItem[] = entries
+      .filter((entry) => entry.AccountType === "BANK")
+      .map((entry) => {
+        const cheque =
+          entry.ReferenceType === CHEQUE_REFERENCE_TYPE && entry.ReferenceID !== null
+            ? chequeByPaymentId.get(String(entry.ReferenceID))
+            : undefined;
+        if (cheque) postedChequeIds.add(String(cheque.chequePaymentId));
+        return {
+          Key: `CASHBOOK-${entry.EntryID}`,
+          Source: "CASHBOOK" as const,
+          SourceID: entry.EntryID,
+          EntryDate: entry.EntryDate,
+          Description: entry.Description || entry.Category.replace(/_/g, " ").toLowerCase(),
+          Direction: entry.Direction,
+          Amount: Number(entry.Amount),
+          ChequeNumber: cheque?.details.chequeNumber,
+        };
+      });
+
+    realizedCheques
+      .filter((change) => !postedChequeIds.has(String(change.chequePaymentId)))
+      .forEach((change) => {
+        items.push({
+          Key: `CHEQUE-${change.chequePaymentId ?? change.paymentId}`,
+          Source: "CHEQUE",
+          SourceID: change.chequePaymentId ?? change.paymentId,
+          EntryDate: change.details.realizeDate || change.date,
+          Description: `Cheque from ${change.customerName}${change.details.bank ? ` - ${change.details.bank}` : ""}`,
+          Direction: "IN",
+          Amount: Number(change.amount),
+          ChequeNumber: change.details.chequeNumber,
+        });
+      });
+
+    const accountBalance = (balancesRes.data.bankAccounts || []).find(
+      (balance: BankAccountBalance) => String(balance.BankAccountID) === accountId
+    );
+
+    const unpostedCheques = items
+      .filter((item) => item.Source === "CHEQUE" && item.EntryDate.slice(0, 10) <= endDate)
+      .reduce((sum, item) => sum + item.Amount, 0);
+
+    setBookItems(items);
+    setBookBalance(Number(accountBalance?.Balance || 0) + unpostedCheques);
+    setExpenseCategories(categoriesRes.data.data || []);
+    return items;
+  };
+
+  const refreshAndMatch = async (
+    statementLines: BankStatementLine[],
+    keep: ReconciliationMatch[],
+    accountId: string = bankAccountId
+  ) => {
+    const dates = statementLines.map((line) => line.TransactionDate).sort();
+    if (dates.length === 0) return;
+
+    setLoadingBook(true);
+    try {
+      const items = await loadBookItems(accountId, dates[0], dates[dates.length - 1]);
+      if (!items) return;
+      const validKeys = new Set(items.map((item) => item.Key));
+      setMatches(
+        autoMatchStatement(
+          statementLines,
+          items,
+          windowDays,
+          keep.filter((match) => validKeys.has(match.BookKey))
+        )
+      );
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message?: string }>;
+      toast({
+        title: "Error",
+        description: axiosError.response?.data?.message || "Failed to load bank entries",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingBook(false);
+    }
+  };
+
+  const downloadTemplate = () => {
+    const ws = XLSX.utils.aoa_to_sheet([
+      STATEMENT_TEMPLATE_HEADERS,
+      ["2026-06-01", "Cheque deposit", "004512", "", 25000, 125000],
+      ["2026-06-02", "Bank charges", "", 150, "", 124850],
+    ]);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, "Bank Statement");
+    XLSX.writeFile(wb, "bank_statement_template.xlsx");
+  };
+
+  const parseStatementFile = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = async (e) => {
+      try {
+        const data = new Uint8Array(e.target?.result as ArrayBuffer);
+        const workbook = XLSX.read(data, { type: "array", cellDates: true });
+        const sheet = workbook.Sheets[workbook.SheetNames[0]];
+        const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet);
+        const parsed = parseBankStatementRows(rows);
+
+        if (parsed.lines.length === 0) {
+          toast({
+            title: "Import Failed",
+            description: "No transactions found. Check the column headers against the template.",
+            variant: "destructive",
+          });
+          return;
+        }
+
+        // Closing balance is the running balance on the last row of the latest date, if the bank provides one
+        const latest = [...parsed.lines]
+          .reverse()
+          .sort((a, b) => b.TransactionDate.localeCompare(a.TransactionDate))[0];
+
+        setFileName(file.name);
+        setLines(parsed.lines);
+        setImportErrors(parsed.errors);
+        setStatementClosingBalance(
+          latest.Balance !== null && latest.Balance !== undefined ? String(latest.Balance) : ""
+        );
+        setMatches([]);
+        await refreshAndMatch(parsed.lines, []);
+
+        toast({
+          title: "Statement Imported",
+          description: `${parsed.lines.length} lines loaded${
+            parsed.errors.length ? `, ${parsed.errors.length} skipped` : ""
+          }.`,
+        });
+      } catch (error) {
+        console.error("Error reading bank statement:", error);
+        toast({
+          title: "Import Failed",
+          description: "Could not read the statement file.",
+          variant: "destructive",
+        });
+      }
+    };
+    reader.readAsArrayBuffer(file);
+  };
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      parseStatementFile(file);
+      event.target.value = "";
+    }
+  };
+
+  const handleAccountChange = (value: string) => {
+    setBankAccountId(value);
+    if (lines.length > 0) {
+      setMatches([]);
+      refreshAndMatch(lines, [], value);
+    }
+  };
+
+  const handleRematch = () => {
+    refreshAndMatch(
+      lines,
+      matches.filter((match) => match.Method === "MANUAL")
+    );
+  };
+
+  const matchedLineIds = useMemo(() => new Set(matches.map((m) => m.LineID)), [matches]);
+  const matchedBookKeys = useMemo(() => new Set(matches.map((m) => m.BookKey)), [matches]);
+  const bookItemByKey = useMemo(
+    () => new Map(bookItems.map((item) => [item.Key, item])),
+    [bookItems]
+  );
+  const lineById = useMemo(() => new Map(lines.map((line) => [line.LineID, line])), [lines]);
+
+  const unmatchedLines = lines.filter((line) => !matchedLineIds.has(line.LineID));
+  const unmatchedItems = bookItems.filter((item) => !matchedBookKeys.has(item.Key));
+  // Items from the widened window are match candidates only; outstanding means dated within the statement
+  const outstandingItems = period ? unmatchedItems.filter((item) => isWithinPeriod(item, period)) : unmatchedItems;
+
+  // Manual matching ignores the date window but still requires direction and amount to agree
+  const manualCandidates = (line: BankStatementLine) =>
+    unmatchedItems.filter(
+      (item) => item.Direction === line.Direction && Math.abs(item.Amount - line.Amount) < 0.005
+    );
+
+  const handleManualMatch = (line: BankStatementLine, bookKey: string) => {
+    setMatches((prev) => [...prev, { LineID: line.LineID, BookKey: bookKey, Method: "MANUAL" }]);
+  };
+
+  const handleUnmatch = (lineId: number) => {
+    setMatches((prev) => prev.filter((match) => match.LineID !== lineId));
+  };
+
+  const openRecordDialog = (line: BankStatementLine) => {
+    setRecordForm({
+      line,
+      description: line.Description || line.Reference,
+      expenseCategoryId: "",
+    });
+  };
+
+  // Bank charges, interest and direct credits exist only on the statement until booked
+  const handleRecordEntry = async () => {
+    const line = recordForm.line;
+    const businessLineId = getBusinessLineID();
+    if (!line || !businessLineId) return;
+
+    if (line.Direction === "OUT" && !recordForm.expenseCategoryId) {
+      toast({
+        title: "Category required",
+        description: "Select an expense category.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setRecording(true);
+    try {
+      await api.post("/cashbook", {
+        businessLineId,
+        entryDate: line.TransactionDate,
+        direction: line.Direction,
+        amount: line.Amount,
+        accountType: "BANK",
+        bankAccountId: Number(bankAccountId),
+        description: recordForm.description || undefined,
+        category: line.Direction === "IN" ? "MANUAL_INCOME" : "MANUAL_EXPENSE",
+        expenseCategoryId:
+          line.Direction === "OUT" ? Number(recordForm.expenseCategoryId) : undefined,
+      });
+      toast({ title: "Entry added", description: "Bank entry recorded in the cashbook." });
+      setRecordForm(emptyRecordForm);
+      await refreshAndMatch(lines, matches);
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message?: string }>;
+      toast({
+        title: "Error",
+        description: axiosError.response?.data?.message || "Failed to create entry",
+        variant: "destructive",
+      });
+    } finally {
+      setRecording(false);
+    }
+  };
+
+  const closingBalance = parseFloat(statementClosingBalance);
+  const summary = useMemo(
+    () =>
+      buildReconciliationSummary(
+        lines,
+        bookItems,
+        matches,
+        isNaN(closingBalance) ? 0 : closingBalance,
+        bookBalance,
+        period
+      ),
+    [lines, bookItems, matches, closingBalance, bookBalance, period]
+  );
+
+  const handleSave = async () => {
+    const businessLineId = getBusinessLineID();
+    if (!businessLineId || !period) return;
+
+    if (isNaN(closingBalance)) {
+      toast({
+        title: "Closing balance required",
+        description: "Enter the closing balance shown on the bank statement.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await api.post("/bank-reconciliations", {
+        businessLineId,
+        bankAccountId: Number(bankAccountId),
+        startDate: period.startDate,
+        endDate: period.endDate,
+        fileName,
+        statementClosingBalance: closingBalance,
+        bookBalance,
+        difference: summary.difference,
+        matches: matches.map((match) => {
+          const line = lineById.get(match.LineID);
+          const item = bookItemByKey.get(match.BookKey);
+          return {
+            transactionDate: line?.TransactionDate,
+            reference: line?.Reference,
+            amount: line?.Amount,
+            direction: line?.Direction,
+            source: item?.Source,
+            sourceId: item?.SourceID,
+            method: match.Method,
+          };
+        }),
+        unmatchedLines: unmatchedLines.map((line) => ({
+          transactionDate: line.TransactionDate,
+          description: line.Description,
+          reference: line.Reference,
+          amount: line.Amount,
+          direction: line.Direction,
+        })),
+      });
+      toast({ title: "Saved", description: "Bank reconciliation saved." });
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message?: string }>;
+      toast({
+        title: "Error",
+        description: axiosError.response?.data?.message || "Failed to save reconciliation",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const exportReport = () => {
+    if (!period) return;
+
+    const wb = XLSX.utils.book_new();
+    const reportRows: (string | number)[][] = [
+      ["Bank Reconciliation"],
+      [`Period: ${period.startDate} to ${period.endDate}`],
+      [],
+      ["Balance per bank statement", summary.statementClosingBalance],
+      ["Add: deposits in transit", summary.depositsInTransit],
+      ["Less: unpresented payments", summary.unpresentedPayments],
+      ["Adjusted bank balance", summary.adjustedBankBalance],
+      [],
+      ["Balance per books", summary.bookBalance],
+      ["Add: credits not in books", summary.unrecordedCredits],
+      ["Less: debits not in books", summary.unrecordedDebits],
+      ["Adjusted book balance", summary.adjustedBookBalance],
+      [],
+      ["Difference", summary.difference],
+    ];
+    const reportSheet = XLSX.utils.aoa_to_sheet(reportRows);
+    reportSheet["!cols"] = [{ wch: 32 }, { wch: 18 }];
+    XLSX.utils.book_append_sheet(wb, reportSheet, "Summary");
+
+    const lineSheet = XLSX.utils.aoa_to_sheet([
+      ["Date", "Description", "Reference", "Direction", "Amount"],
+      ...unmatchedLines.map((line) => [
+        line.TransactionDate,
+        line.Description,
+        line.Reference,
+        line.Direction,
+        line.Amount,
+      ]),
+    ]);
+    XLSX.utils.book_append_sheet(wb, lineSheet, "Not In Books");
+
+    const itemSheet = XLSX.utils.aoa_to_sheet([
+      ["Date", "Description", "Cheque No", "Direction", "Amount"],
+      ...outstandingItems.map((item) => [
+        formatDate(item.EntryDate),
+        item.Description,
+        item.ChequeNumber || "",
+        item.Direction,
+        item.Amount,
+      ]),
+    ]);
+    XLSX.utils.book_append_sheet(wb, itemSheet, "Not On Statement");
+
+    XLSX.writeFile(wb, `bank_reconciliation_${period.endDate}.xlsx`);
+  };
+
+  if (!canManage) {
+    return null;
+  }
+
+  const renderAmount = (direction: "IN" | "OUT", amount: number) => (
+    <span className={`tabular-nums font-medium ${direction === "IN" ? "text-green-700" : "text-red-600"}`}>
+      {direction === "IN" ? "+" : "−"}
+      {formatCurrency(amount)}
+    </span>
+  );
+
+  const summaryRows: { label: string; value: number; bold?: boolean }[] = [
+    { label: "Balance per bank statement", value: summary.statementClosingBalance },
+    { label: "Add: deposits in transit", value: summary.depositsInTransit },
+    { label: "Less: unpresented payments", value: summary.unpresentedPayments },
+    { label: "Adjusted bank balance", value: summary.adjustedBankBalance, bold: true },
+    { label: "Balance per books", value: summary.bookBalance },
+    { label: "Add: credits not in books", value: summary.unrecordedCredits },
+    { label: "Less: debits not in books", value: summary.unrecordedDebits },
+    { label: "Adjusted book balance", value: summary.adjustedBookBalance, bold: true },
+  ];
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="bg-gray-50 border-b border-gray-200 flex flex-row items-center justify-between gap-4">
+          <CardTitle className="text-xl font-semibold text-gray-800">Bank Reconciliation</CardTitle>
+          <div className="flex items-center gap-2">
+            <BankAccountSelect
+              className="w-[240px] h-9"
+              value={bankAccountId}
+              onValueChange={handleAccountChange}
+            />
+            <Button variant="outline" size="sm" onClick={downloadTemplate}>
+              <Download className="h-4 w-4 mr-1" />
+              Template
+            </Button>
+            <Button size="sm" onClick={() => fileInputRef.current?.click()} disabled={!bankAccountId}>
+              <Upload className="h-4 w-4 mr-1" />
+              Import Statement
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".xlsx,.xls,.csv"
+              className="hidden"
+              onChange={handleFileUpload}
+            />
+          </div>
+        </CardHeader>
+
+        <CardContent className="p-4 space-y-4">
+          {lines.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              Select a bank account, then import its statement (CSV or Excel) to match it against
+              the account&apos;s cashbook entries and realized cheques.
+            </div>
+          ) : (
+            <>
+              <div className="flex flex-col lg:flex-row gap-3 lg:items-end flex-wrap">
+                <div className="text-sm">
+                  <div className="font-medium">{fileName}</div>
+                  <div className="text-muted-foreground">
+                    {period && `${formatDate(period.startDate)} to ${formatDate(period.endDate)}`} ·{" "}
+                    {lines.length} lines
+                    {importErrors.length > 0 && ` · ${importErrors.length} rows skipped`}
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="br-closing">Statement closing balance</Label>
+                  <Input
+                    id="br-closing"
+                    type="number"
+                    step="0.01"
+                    className="w-44"
+                    value={statementClosingBalance}
+                    onChange={(e) => setStatementClosingBalance(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="br-window">Date window (days)</Label>
+                  <Input
+                    id="br-window"
+                    type="number"
+                    min="0"
+                    className="w-28"
+                    value={dateWindow}
+                    onChange={(e) => setDateWindow(e.target.value)}
+                  />
+                </div>
+                <Button variant="outline" onClick={handleRematch} disabled={loadingBook}>
+                  {loadingBook ? (
+                    <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  ) : (
+                    <RefreshCw className="h-4 w-4 mr-1" />
+                  )}
+                  Re-run Matching
+                </Button>
+              </div>
+
+              {importErrors.length > 0 && (
+                <div className="rounded-md border border-yellow-300 bg-yellow-50 p-3 text-sm text-yellow-800">
+                  {importErrors.slice(0, 5).map((err) => (
+                    <div key={err.row}>
+                      Row {err.row}: {err.message}
+                    </div>
+                  ))}
+                  {importErrors.length > 5 && <div>…and {importErrors.length - 5} more</div>}
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+                <Card>
+                  <CardContent className="pt-6">
+                    <div className="text-sm text-muted-foreground">Matched</div>
+                    <div className="text-2xl font-bold text-green-700">
+                      {matches.length} / {lines.length}
+                    </div>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="pt-6">
+                    <div className="text-sm text-muted-foreground">Not In Books</div>
+                    <div className="text-2xl font-bold">{unmatchedLines.length}</div>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="pt-6">
+                    <div className="text-sm text-muted-foreground">Not On Statement</div>
+                    <div className="text-2xl font-bold">{outstandingItems.length}</div>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="pt-6">
+                    <div className="text-sm text-muted-foreground">Difference</div>
+                    <div
+                      className={`text-2xl font-bold ${
+                        Math.abs(summary.difference) < 0.005 ? "text-green-700" : "text-red-600"
+                      }`}
+                    >
+                      {formatCurrency(summary.difference)}
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
+
+              <Tabs defaultValue="unmatched-lines">
+                <TabsList>
+                  <TabsTrigger value="unmatched-lines">
+                    Not In Books ({unmatchedLines.length})
+                  </TabsTrigger>
+                  <TabsTrigger value="unmatched-items">
+                    Not On Statement ({outstandingItems.length})
+                  </TabsTrigger>
+                  <TabsTrigger value="matched">Matched ({matches.length})</TabsTrigger>
+                  <TabsTrigger value="report">Report</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="unmatched-lines">
+                  <div className="rounded-md border">
+                    <Table>
+                      <TableHeader className="bg-gray-50">
+                        <TableRow>
+                          <TableHead className="font-bold text-black">Date</TableHead>
+                          <TableHead className="font-bold text-black">Description</TableHead>
+                          <TableHead className="font-bold text-black">Reference</TableHead>
+                          <TableHead className="font-bold text-black text-right">Amount</TableHead>
+                          <TableHead className="font-bold text-black">Resolve</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {unmatchedLines.length === 0 ? (
+                          <TableRow>
+                            <TableCell colSpan={5} className="text-center py-6 text-muted-foreground">
+                              Every statement line is matched
+                            </TableCell>
+                          </TableRow>
+                        ) : (
+                          unmatchedLines.map((line) => {
+                            const candidates = manualCandidates(line);
+                            return (
+                              <TableRow key={line.LineID}>
+                                <TableCell>{formatDate(line.TransactionDate)}</TableCell>
+                                <TableCell className="max-w-xs truncate">{line.Description || "—"}</TableCell>
+                                <TableCell>{line.Reference || "—"}</TableCell>
+                                <TableCell className="text-right">
+                                  {renderAmount(line.Direction, line.Amount)}
+                                </TableCell>
+                                <TableCell>
+                                  <div className="flex items-center gap-2">
+                                    {candidates.length > 0 && (
+                                      <Select onValueChange={(value) => handleManualMatch(line, value)}>
+                                        <SelectTrigger className="w-[220px]">
+                                          <SelectValue placeholder="Match to book entry" />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                          {candidates.map((item) => (
+                                            <SelectItem key={item.Key} value={item.Key}>
+                                              {formatDate(item.EntryDate)} · {item.Description}
+                                              {item.ChequeNumber ? ` #${item.ChequeNumber}` : ""}
+                                            </SelectItem>
+                                          ))}
+                                        </SelectContent>
+                                      </Select>
+                                    )}
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      onClick={() => openRecordDialog(line)}
+                                    >
+                                      <Plus className="h-4 w-4 mr-1" />
+                                      Record
+                                    </Button>
+                                  </div>
+                                </TableCell>
+                              </TableRow>
+                            );
+                          })
+                        )}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </TabsContent>
+
+                <TabsContent value="unmatched-items">
+                  <div className="rounded-md border">
+                    <Table>
+                      <TableHeader className="bg-gray-50">
+                        <TableRow>
+                          <TableHead className="font-bold text-black">Date</TableHead>
+                          <TableHead className="font-bold text-black">Source</TableHead>
+                          <TableHead className="font-bold text-black">Description</TableHead>
+                          <TableHead className="font-bold text-black">Cheque No</TableHead>
+                          <TableHead className="font-bold text-black text-right">Amount</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {loadingBook ? (
+                          <TableRow>
+                            <TableCell colSpan={5} className="text-center py-6">
+                              Loading bank entries...
+                            </TableCell>
+                          </TableRow>
+                        ) : outstandingItems.length === 0 ? (
+                          <TableRow>
+                            <TableCell colSpan={5} className="text-center py-6 text-muted-foreground">
+                              Every book entry appears on the statement
+                            </TableCell>
+                          </TableRow>
+                        ) : (
+                          outstandingItems.map((item) => (
+                            <TableRow key={item.Key}>
+                              <TableCell>{formatDate(item.EntryDate)}</TableCell>
+                              <TableCell>
+                                <Badge variant="outline">
+                                  {item.Source === "CASHBOOK" ? "Cashbook" : "Realized cheque"}
+                                </Badge>
+                              </TableCell>
+                              <TableCell className="max-w-xs truncate">{item.Description}</TableCell>
+                              <TableCell>{item.ChequeNumber || "—"}</TableCell>
+                              <TableCell className="text-right">
+                                {renderAmount(item.Direction, item.Amount)}
+                              </TableCell>
+                            </TableRow>
+                          ))
+                        )}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </TabsContent>
+
+                <TabsContent value="matched">
+                  <div className="rounded-md border">
+                    <Table>
+                      <TableHeader className="bg-gray-50">
+                        <TableRow>
+                          <TableHead className="font-bold text-black">Statement</TableHead>
+                          <TableHead className="font-bold text-black">Book Entry</TableHead>
+                          <TableHead className="font-bold text-black">Matched By</TableHead>
+                          <TableHead className="font-bold text-black text-right">Amount</TableHead>
+                          <TableHead className="font-bold text-black text-center">Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {matches.length === 0 ? (
+                          <TableRow>
+                            <TableCell colSpan={5} className="text-center py-6 text-muted-foreground">
+                              No matches yet
+                            </TableCell>
+                          </TableRow>
+                        ) : (
+                          matches.map((match) => {
+                            const line = lineById.get(match.LineID);
+                            const item = bookItemByKey.get(match.BookKey);
+                            if (!line || !item) return null;
+                            return (
+                              <TableRow key={match.LineID}>
+                                <TableCell>
+                                  <div>{formatDate(line.TransactionDate)}</div>
+                                  <div className="text-xs text-muted-foreground max-w-xs truncate">
+                                    {line.Description} {line.Reference}
+                                  </div>
+                                </TableCell>
+                                <TableCell>
+                                  <div>{formatDate(item.EntryDate)}</div>
+                                  <div className="text-xs text-muted-foreground max-w-xs truncate">
+                                    {item.Description}
+                                    {item.ChequeNumber ? ` #${item.ChequeNumber}` : ""}
+                                  </div>
+                                </TableCell>
+                                <TableCell>
+                                  <Badge variant={match.Method === "MANUAL" ? "secondary" : "default"}>
+                                    <Link2 className="h-3 w-3 mr-1" />
+                                    {matchMethodLabels[match.Method]}
+                                  </Badge>
+                                </TableCell>
+                                <TableCell className="text-right">
+                                  {renderAmount(line.Direction, line.Amount)}
+                                </TableCell>
+                                <TableCell className="text-center">
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="hover:bg-red-50 hover:text-red-600"
+                                    title="Unmatch"
+                                    onClick={() => handleUnmatch(match.LineID)}
+                                  >
+                                    <Unlink className="h-4 w-4" />
+                                  </Button>
+                                </TableCell>
+                              </TableRow>
+                            );
+                          })
+                        )}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </TabsContent>
+
+                <TabsContent value="report">
+                  <div className="max-w-xl space-y-4">
+                    <div className="rounded-md border">
+                      <Table>
+                        <TableBody>
+                          {summaryRows.map((row) => (
+                            <TableRow key={row.label}>
+                              <TableCell className={row.bold ? "font-bold" : ""}>{row.label}</TableCell>
+                              <TableCell className={`text-right tabular-nums ${row.bold ? "font-bold" : ""}`}>
+                                {formatCurrency(row.value)}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                          <TableRow className="bg-gray-50">
+                            <TableCell className="font-bold">Difference</TableCell>
+                            <TableCell
+                              className={`text-right tabular-nums font-bold ${
+                                Math.abs(summary.difference) < 0.005 ? "text-green-700" : "text-red-600"
+                              }`}
+                            >
+                              {formatCurrency(summary.difference)}
+                            </TableCell>
+                          </TableRow>
+                        </TableBody>
+                      </Table>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button variant="outline" onClick={exportReport}>
+                        <FileDown className="h-4 w-4 mr-1" />
+                        Export Excel
+                      </Button>
+                      <Button onClick={handleSave} disabled={saving || loadingBook}>
+                        {saving ? "Saving..." : "Save Reconciliation"}
+                      </Button>
+                    </div>
+                  </div>
+                </TabsContent>
+              </Tabs>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog
+        open={!!recordForm.line}
+        onOpenChange={(open) => !open && setRecordForm(emptyRecordForm)}
+      >
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Record Bank Entry</DialogTitle>
+            <DialogDescription>
+              Add this statement line to the cashbook as a bank{" "}
+              {recordForm.line?.Direction === "IN" ? "receipt" : "payment"} of{" "}
+              {recordForm.line && formatCurrency(recordForm.line.Amount)} on{" "}
+              {recordForm.line && formatDate(recordForm.line.TransactionDate)}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 py-2">
+            {recordForm.line?.Direction === "OUT" && (
+              <div>
+                <Label>Expense Category</Label>
+                <Select
+                  value={recordForm.expenseCategoryId || undefined}
+                  onValueChange={(value) =>
+                    setRecordForm((prev) => ({ ...prev, expenseCategoryId: value }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {expenseCategories.map((cat) => (
+                      <SelectItem key={cat.ExpenseCategoryID} value={String(cat.ExpenseCategoryID)}>
+                        {cat.Name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div>
+              <Label htmlFor="br-desc">Description</Label>
+              <Input
+                id="br-desc"
+                value={recordForm.description}
+                onChange={(e) => setRecordForm((prev) => ({ ...prev, description: e.target.value }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setRecordForm(emptyRecordForm)}
+              disabled={recording}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleRecordEntry} disabled={recording}>
+              {recording ? "Saving..." : "Save Entry"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
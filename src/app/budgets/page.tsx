@@ -0,0 +1,330 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { endOfMonth, format, subMonths } from "date-fns";
+import { useRouter } from "next/navigation";
+import { Copy, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/app/auth/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import api from "@/lib/api/axios";
+import { AxiosError } from "axios";
+import { buildBudgetVariance } from "@/lib/expenseBudgets";
+import { ExpenseBudget } from "@/types/expenseBudget";
+
+interface ExpenseCategory {
+  ExpenseCategoryID: number;
+  Name: string;
+}
+
+interface ExpenseEntry {
+  Direction: "IN" | "OUT";
+  Amount: number;
+  ExpenseCategoryID: number | null;
+  ExpenseCategoryName: string | null;
+  TransferID?: number | null;
+}
+
+const formatCurrency = (amount: number) =>
+  `Rs. ${Number(amount).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const formatPercent = (value: number | null) =>
+  value === null ? "—" : `${value > 0 ? "+" : ""}${value.toFixed(1)}%`;
+
+const budgetInputs = (budgets: ExpenseBudget[]) =>
+  Object.fromEntries(budgets.map((budget) => [String(budget.ExpenseCategoryID), String(budget.Amount)]));
+
+export default function BudgetsPage() {
+  const { user, getBusinessLineID } = useAuth();
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const canManage = ["superuser", "admin", "management"].includes(user?.userType || "");
+
+  const [month, setMonth] = useState(() => format(new Date(), "yyyy-MM"));
+  const [categories, setCategories] = useState<ExpenseCategory[]>([]);
+  const [entries, setEntries] = useState<ExpenseEntry[]>([]);
+  const [inputs, setInputs] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [copying, setCopying] = useState(false);
+
+  useEffect(() => {
+    if (user && !canManage) {
+      router.push("/dashboard");
+    }
+  }, [user, canManage, router]);
+
+  const fetchData = useCallback(() => {
+    const businessLineId = getBusinessLineID();
+    if (!businessLineId || !month) return Promise.resolve();
+
+    const monthStart = new Date(`${month}-01T00:00:00`);
+    return Promise.all([
+      api.get("/cashbook/expense-categories", { params: { businessLineId } }),
+      api.get("/expense-budgets", { params: { businessLineId, month } }),
+      api.get("/cashbook", {
+        params: {
+          businessLineId,
+          direction: "OUT",
+          startDate: format(monthStart, "yyyy-MM-dd"),
+          endDate: format(endOfMonth(monthStart), "yyyy-MM-dd"),
+        },
+      }),
+    ])
+      .then(([categoriesRes, budgetsRes, entriesRes]) => {
+        setCategories(categoriesRes.data.data || []);
+        setInputs(budgetInputs(budgetsRes.data.data || []));
+        setEntries(entriesRes.data.data || []);
+      })
+      .catch((error: AxiosError<{ message?: string }>) => {
+        toast({
+          title: "Error",
+          description: error.response?.data?.message || "Failed to load budgets",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [getBusinessLineID, month, toast]);
+
+  // The inputs still hold the previous month until the new one loads, so block saving meanwhile
+  const handleMonthChange = (value: string) => {
+    if (value && value !== month) setLoading(true);
+    setMonth(value);
+  };
+
+  useEffect(() => {
+    if (canManage) {
+      fetchData();
+    }
+  }, [canManage, fetchData]);
+
+  // Variance follows the inputs so the effect of a change is visible before saving
+  const rows = useMemo(() => {
+    const budgetTotals = new Map<number, number>();
+    Object.entries(inputs).forEach(([id, value]) => {
+      const amount = parseFloat(value);
+      if (amount > 0) budgetTotals.set(Number(id), amount);
+    });
+    const varianceRows = buildBudgetVariance(categories, budgetTotals, entries);
+    // Every category gets a row so budgets can be set before anything is spent
+    const unbudgeted = categories
+      .filter((category) => !varianceRows.some((row) => row.ExpenseCategoryID === category.ExpenseCategoryID))
+      .map((category) => ({
+        ExpenseCategoryID: category.ExpenseCategoryID,
+        Name: category.Name,
+        Budget: 0,
+        Actual: 0,
+        Variance: 0,
+        VariancePercent: null,
+      }));
+    return [...varianceRows, ...unbudgeted];
+  }, [categories, entries, inputs]);
+
+  const totals = rows.reduce(
+    (sum, row) => ({ budget: sum.budget + row.Budget, actual: sum.actual + row.Actual }),
+    { budget: 0, actual: 0 }
+  );
+  const totalVariance = totals.budget - totals.actual;
+
+  const handleCopyPreviousMonth = async () => {
+    const businessLineId = getBusinessLineID();
+    if (!businessLineId) return;
+
+    const previousMonth = format(subMonths(new Date(`${month}-01T00:00:00`), 1), "yyyy-MM");
+    setCopying(true);
+    try {
+      const response = await api.get("/expense-budgets", { params: { businessLineId, month: previousMonth } });
+      const previous: ExpenseBudget[] = response.data.data || [];
+      if (previous.length === 0) {
+        toast({ title: "Nothing to copy", description: `No budgets were set for ${previousMonth}.` });
+        return;
+      }
+      setInputs(budgetInputs(previous));
+      toast({ title: "Budgets copied", description: `Review the ${previousMonth} amounts and save.` });
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message?: string }>;
+      toast({
+        title: "Error",
+        description: axiosError.response?.data?.message || "Failed to load previous budgets",
+        variant: "destructive",
+      });
+    } finally {
+      setCopying(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const businessLineId = getBusinessLineID();
+    if (!businessLineId) return;
+
+    const budgets = categories.map((category) => ({
+      expenseCategoryId: category.ExpenseCategoryID,
+      amount: parseFloat(inputs[String(category.ExpenseCategoryID)] || "0"),
+    }));
+    if (budgets.some((budget) => isNaN(budget.amount) || budget.amount < 0)) {
+      toast({
+        title: "Invalid budget",
+        description: "Budgets must be zero or a positive amount.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      // Zero amounts clear the category's budget for the month
+      await api.put("/expense-budgets", { businessLineId, month, budgets });
+      toast({ title: "Budgets saved", description: `Expense budgets for ${month} updated.` });
+      await fetchData();
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message?: string }>;
+      toast({
+        title: "Error",
+        description: axiosError.response?.data?.message || "Failed to save budgets",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!canManage) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="bg-gray-50 border-b border-gray-200 flex flex-row items-center justify-between gap-4">
+        <CardTitle className="text-xl font-semibold text-gray-800">Expense Budgets</CardTitle>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={handleCopyPreviousMonth} disabled={copying || loading}>
+            <Copy className="h-4 w-4 mr-1" />
+            Copy Previous Month
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={saving || loading}>
+            <Save className="h-4 w-4 mr-1" />
+            {saving ? "Saving..." : "Save Budgets"}
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="p-4 space-y-4">
+        <div className="flex items-end gap-3">
+          <div>
+            <Label htmlFor="budget-month">Month</Label>
+            <Input
+              id="budget-month"
+              type="month"
+              value={month}
+              onChange={(e) => handleMonthChange(e.target.value)}
+              className="w-[180px]"
+            />
+          </div>
+          <p className="text-sm text-muted-foreground pb-2">
+            Actual spend is the month&apos;s cashbook expenses by category. Positive variance means under budget.
+          </p>
+        </div>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader className="bg-gray-50">
+              <TableRow>
+                <TableHead className="font-bold text-black">Category</TableHead>
+                <TableHead className="font-bold text-black w-[180px]">Budget (Rs.)</TableHead>
+                <TableHead className="font-bold text-black text-right">Actual</TableHead>
+                <TableHead className="font-bold text-black text-right">Variance</TableHead>
+                <TableHead className="font-bold text-black text-right">Variance %</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-6">
+                    Loading budgets...
+                  </TableCell>
+                </TableRow>
+              ) : rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-6 text-muted-foreground">
+                    No expense categories yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                <>
+                  {rows.map((row) => {
+                    const isKnownCategory = categories.some(
+                      (category) => category.ExpenseCategoryID === row.ExpenseCategoryID
+                    );
+                    return (
+                      <TableRow key={row.ExpenseCategoryID}>
+                        <TableCell className="font-medium">{row.Name}</TableCell>
+                        <TableCell>
+                          {isKnownCategory ? (
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              className="h-8"
+                              value={inputs[String(row.ExpenseCategoryID)] ?? ""}
+                              onChange={(e) =>
+                                setInputs((prev) => ({ ...prev, [String(row.ExpenseCategoryID)]: e.target.value }))
+                              }
+                              placeholder="0.00"
+                            />
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">{formatCurrency(row.Actual)}</TableCell>
+                        <TableCell
+                          className={`text-right tabular-nums ${row.Variance < 0 ? "text-red-600" : "text-green-700"}`}
+                        >
+                          {row.Budget > 0 || row.Actual > 0 ? formatCurrency(row.Variance) : "—"}
+                        </TableCell>
+                        <TableCell
+                          className={`text-right tabular-nums ${
+                            row.VariancePercent !== null && row.VariancePercent < 0 ? "text-red-600" : ""
+                          }`}
+                        >
+                          {formatPercent(row.VariancePercent)}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                  <TableRow className="bg-gray-50 font-bold">
+                    <TableCell>Total</TableCell>
+                    <TableCell className="tabular-nums">{formatCurrency(totals.budget)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{formatCurrency(totals.actual)}</TableCell>
+                    <TableCell
+                      className={`text-right tabular-nums ${totalVariance < 0 ? "text-red-600" : "text-green-700"}`}
+                    >
+                      {formatCurrency(totalVariance)}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {formatPercent(totals.budget > 0 ? (totalVariance / totals.budget) * 100 : null)}
+                    </TableCell>
+                  </TableRow>
+                </>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
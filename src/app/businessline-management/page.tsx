@@ -19,6 +19,8 @@ import { useState, useEffect, useCallback } from "react";
 import { useToast } from "@/hooks/use-toast";
 import api from '@/lib/api/axios'
 import BusinessLineDialog from "@/components/AddBusinessLine";
+import { COSTING_METHOD_LABELS } from "@/lib/costing";
+import { CostingMethod } from "@/types/costing";
 import { useAuth } from "../auth/auth-context";
 
 interface Vendor {
@@ -29,6 +31,7 @@ interface Vendor {
 interface BusinessLine {
   BusinessLineID: number;
   BusinessLineName: string;
+  CostingMethod?: CostingMethod | null;
   vendors: Vendor[];
 }
 
@@ -158,6 +161,7 @@ export default function BusinessLineManagement() {
               <TableRow className="border-b border-gray-200">
                 <TableCell className="font-bold border-r border-gray-200">Business Line Name</TableCell>
                 <TableCell className="font-bold border-r border-gray-200">Vendors</TableCell>
+                <TableCell className="font-bold border-r border-gray-200">Inventory Costing</TableCell>
                 <TableCell className="font-bold">Actions</TableCell>
               </TableRow>
             </TableHeader>
@@ -183,6 +187,9 @@ export default function BusinessLineManagement() {
                       </Table>
                     </div>
                   </TableCell>
+                  <TableCell className="border-r border-gray-200">
+                    {COSTING_METHOD_LABELS[row.CostingMethod || "WEIGHTED_AVERAGE"]}
+                  </TableCell>
                   <TableCell>
                     <div className="flex space-x-2">
                       <Button variant="outline" size="icon" onClick={() => handleDialogOpen(row)}>
@@ -213,7 +220,7 @@ export default function BusinessLineManagement() {
         open={isDialogOpen} 
         onClose={handleDialogClose}
         businessLineId={selectedBusinessLine?.BusinessLineID}
-        initialData={selectedBusinessLine ? { BusinessLineName: selectedBusinessLine.BusinessLineName } : undefined}
+        initialData={selectedBusinessLine ? { BusinessLineName: selectedBusinessLine.BusinessLineName, CostingMethod: selectedBusinessLine.CostingMethod } : undefined}
       />
       
       {/* Delete Confirmation Dialog */}
@@ -0,0 +1,544 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { addDays, format } from "date-fns";
+import { useRouter } from "next/navigation";
+import { Lock, Printer, Unlock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/app/auth/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import api from "@/lib/api/axios";
+import { AxiosError } from "axios";
+import { APIPayment } from "@/lib/paymentStatusAdapter";
+import { fetchBusinessLineName } from "@/lib/invoicePdf";
+import { generateZReportPDF } from "@/lib/zReportPdf";
+import { CashClose, DenominationCount } from "@/types/cashClose";
+
+interface CashEntry {
+  EntryID: number;
+  Direction: "IN" | "OUT";
+  Amount: number;
+  Category: string;
+  TransferID?: number | null;
+}
+
+interface DayMovements {
+  cashSales: number;
+  cashSettlements: number;
+  otherCashIn: number;
+  cashOut: number;
+}
+
+// Cashbook category of customer credit settlement receipts, including partial settle-amount payments
+const CREDIT_SETTLEMENT_CATEGORY = "CREDIT_SETTLEMENT";
+
+// Sri Lankan rupee notes and coins, largest first
+const DENOMINATIONS = [5000, 2000, 1000, 500, 100, 50, 20, 10, 5, 2, 1];
+
+const formatCurrency = (amount: number) =>
+  `Rs. ${Number(amount).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const toDateKey = (date: string) => format(new Date(date), "yyyy-MM-dd");
+
+export default function CashClosePage() {
+  const { user, getBusinessLineID } = useAuth();
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const canManage = ["superuser", "admin", "management"].includes(user?.userType || "");
+  const canReopen = user?.userType === "superuser";
+
+  const [closeDate, setCloseDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [closes, setCloses] = useState<CashClose[]>([]);
+  const [movements, setMovements] = useState<DayMovements | null>(null);
+  // First day the movements cover: the day after the previous close, so unclosed days are carried in
+  const [movementsFrom, setMovementsFrom] = useState(closeDate);
+  const [loading, setLoading] = useState(true);
+  const [counts, setCounts] = useState<Record<number, string>>({});
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [reopenTarget, setReopenTarget] = useState<CashClose | null>(null);
+  const [reopening, setReopening] = useState(false);
+
+  useEffect(() => {
+    if (user && !canManage) {
+      router.push("/dashboard");
+    }
+  }, [user, canManage, router]);
+
+  const fetchData = useCallback(() => {
+    const businessLineId = getBusinessLineID();
+    if (!businessLineId) return Promise.resolve();
+
+    return api
+      .get("/cash-closes", { params: { businessLineId } })
+      .then(async (closesRes) => {
+        const allCloses: CashClose[] = closesRes.data.data || [];
+        const lastCloseKey = allCloses
+          .map((close) => toDateKey(close.CloseDate))
+          .filter((key) => key < closeDate)
+          .sort()
+          .pop();
+        const startDate = lastCloseKey
+          ? format(addDays(new Date(`${lastCloseKey}T00:00:00`), 1), "yyyy-MM-dd")
+          : closeDate;
+
+        const [historyRes, cashbookRes] = await Promise.all([
+          api.get(`/payments/history/${businessLineId}`, {
+            params: { startDate, endDate: closeDate },
+          }),
+          api.get("/cashbook", {
+            params: { businessLineId, accountType: "CASH", startDate, endDate: closeDate },
+          }),
+        ]);
+
+        const payments: APIPayment[] = historyRes.data.payments || [];
+        const entries: CashEntry[] = cashbookRes.data.data || [];
+
+        setCloses(allCloses);
+        setMovementsFrom(startDate);
+        setMovements({
+          cashSales: payments
+            .filter((payment) => payment.PaymentMethod === "CASH")
+            .reduce((sum, payment) => sum + Number(payment.Amount), 0),
+          // Settlements are counted by the day the cash was received, whenever the credit sale was made
+          cashSettlements: entries
+            .filter((entry) => entry.Direction === "IN" && entry.Category === CREDIT_SETTLEMENT_CATEGORY)
+            .reduce((sum, entry) => sum + Number(entry.Amount), 0),
+          // Sales and settlements are already counted above, so only manual income and
+          // transfers into the drawer are taken from the cashbook
+          otherCashIn: entries
+            .filter(
+              (entry) =>
+                entry.Direction === "IN" && (entry.Category === "MANUAL_INCOME" || !!entry.TransferID)
+            )
+            .reduce((sum, entry) => sum + Number(entry.Amount), 0),
+          cashOut: entries
+            .filter((entry) => entry.Direction === "OUT")
+            .reduce((sum, entry) => sum + Number(entry.Amount), 0),
+        });
+      })
+      .catch((error: AxiosError<{ message?: string }>) => {
+        toast({
+          title: "Error",
+          description: error.response?.data?.message || "Failed to load cash register",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [getBusinessLineID, closeDate, toast]);
+
+  useEffect(() => {
+    if (canManage) {
+      fetchData();
+    }
+  }, [canManage, fetchData]);
+
+  const existingClose = closes.find((close) => toDateKey(close.CloseDate) === closeDate) || null;
+
+  const previousClose = useMemo(
+    () =>
+      closes
+        .filter((close) => toDateKey(close.CloseDate) < closeDate)
+        .sort((a, b) => toDateKey(b.CloseDate).localeCompare(toDateKey(a.CloseDate)))[0] || null,
+    [closes, closeDate]
+  );
+
+  const openingCash = Number(previousClose?.CountedCash ?? 0);
+  const expectedCash = movements
+    ? openingCash + movements.cashSales + movements.cashSettlements + movements.otherCashIn - movements.cashOut
+    : 0;
+
+  const denominations: DenominationCount[] = DENOMINATIONS.map((value) => ({
+    value,
+    count: Math.max(0, parseInt(counts[value] || "0") || 0),
+  }));
+  const countedCash = denominations.reduce((sum, d) => sum + d.value * d.count, 0);
+  const variance = countedCash - expectedCash;
+
+  const handleDateChange = (value: string) => {
+    if (value !== closeDate) setLoading(true);
+    setCloseDate(value);
+    setCounts({});
+    setNotes("");
+  };
+
+  const handleClose = async () => {
+    const businessLineId = getBusinessLineID();
+    if (!businessLineId || !movements) return;
+
+    if (Math.abs(variance) >= 0.01 && !notes.trim()) {
+      toast({
+        title: "Explain the variance",
+        description: "Add a note when the counted cash does not match the expected cash.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await api.post("/cash-closes", {
+        businessLineId,
+        closeDate,
+        periodStartDate: movementsFrom,
+        openingCash,
+        ...movements,
+        expectedCash,
+        countedCash,
+        variance,
+        denominations: denominations.filter((d) => d.count > 0),
+        notes: notes.trim() || undefined,
+      });
+      toast({
+        title: "Register closed",
+        description: `Cash entries for ${closeDate} are now locked.`,
+      });
+      setCounts({});
+      setNotes("");
+      await fetchData();
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message?: string }>;
+      toast({
+        title: "Error",
+        description: axiosError.response?.data?.message || "Failed to close the register",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReopen = async () => {
+    if (!reopenTarget) return;
+    setReopening(true);
+    try {
+      await api.delete(`/cash-closes/${reopenTarget.CashCloseID}`);
+      toast({
+        title: "Register reopened",
+        description: `Cash entries for ${toDateKey(reopenTarget.CloseDate)} can be edited again.`,
+      });
+      setReopenTarget(null);
+      await fetchData();
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message?: string }>;
+      toast({
+        title: "Error",
+        description: axiosError.response?.data?.message || "Failed to reopen the register",
+        variant: "destructive",
+      });
+    } finally {
+      setReopening(false);
+    }
+  };
+
+  const handlePrint = async (close: CashClose) => {
+    const businessLineName = await fetchBusinessLineName(getBusinessLineID());
+    generateZReportPDF(close, businessLineName);
+  };
+
+  if (!canManage) {
+    return null;
+  }
+
+  const summaryRows: { label: string; value: number; sign?: "+" | "−" }[] = existingClose
+    ? [
+        { label: "Opening cash", value: existingClose.OpeningCash },
+        { label: "Cash sales", value: existingClose.CashSales, sign: "+" },
+        { label: "Cash settlements", value: existingClose.CashSettlements, sign: "+" },
+        { label: "Other cash in", value: existingClose.OtherCashIn, sign: "+" },
+        { label: "Cash out", value: existingClose.CashOut, sign: "−" },
+      ]
+    : [
+        { label: `Opening cash${previousClose ? ` (close of ${toDateKey(previousClose.CloseDate)})` : ""}`, value: openingCash },
+        { label: "Cash sales", value: movements?.cashSales ?? 0, sign: "+" },
+        { label: "Cash settlements", value: movements?.cashSettlements ?? 0, sign: "+" },
+        { label: "Other cash in", value: movements?.otherCashIn ?? 0, sign: "+" },
+        { label: "Cash out", value: movements?.cashOut ?? 0, sign: "−" },
+      ];
+
+  const shownExpected = existingClose ? Number(existingClose.ExpectedCash) : expectedCash;
+  const shownCounted = existingClose ? Number(existingClose.CountedCash) : countedCash;
+  const shownVariance = existingClose ? Number(existingClose.Variance) : variance;
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="bg-gray-50 border-b border-gray-200 flex flex-row items-center justify-between gap-4">
+          <CardTitle className="text-xl font-semibold text-gray-800">Cash Register Close</CardTitle>
+          <div className="flex items-center gap-2">
+            <Input
+              type="date"
+              className="w-40"
+              value={closeDate}
+              max={format(new Date(), "yyyy-MM-dd")}
+              onChange={(e) => handleDateChange(e.target.value)}
+            />
+          </div>
+        </CardHeader>
+
+        <CardContent className="p-4 space-y-4">
+          {existingClose && (
+            <div className="flex items-center justify-between gap-2 rounded-md border border-green-200 bg-green-50 p-3 text-sm text-green-800">
+              <span className="flex items-center gap-2">
+                <Lock className="h-4 w-4" />
+                Closed
+                {existingClose.ClosedByName ? ` by ${existingClose.ClosedByName}` : ""}
+                {existingClose.ClosedAt ? ` at ${format(new Date(existingClose.ClosedAt), "yyyy-MM-dd HH:mm")}` : ""}.
+                Cash entries for this day are locked.
+              </span>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => handlePrint(existingClose)}>
+                  <Printer className="h-4 w-4 mr-1" />
+                  Z-Report
+                </Button>
+                {canReopen && (
+                  <Button variant="outline" size="sm" onClick={() => setReopenTarget(existingClose)}>
+                    <Unlock className="h-4 w-4 mr-1" />
+                    Reopen
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {!existingClose && movementsFrom < closeDate && (
+            <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+              The register was not closed from {movementsFrom}. Cash movements since then are included in this close.
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Expected Cash</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {loading ? (
+                  <div className="space-y-2">
+                    <Skeleton className="h-6 w-full" />
+                    <Skeleton className="h-6 w-full" />
+                    <Skeleton className="h-6 w-full" />
+                  </div>
+                ) : (
+                  <div className="text-sm">
+                    {summaryRows.map((row) => (
+                      <div key={row.label} className="flex justify-between py-1.5 border-b last:border-b-0">
+                        <span className="text-muted-foreground">{row.label}</span>
+                        <span className="tabular-nums">
+                          {row.sign === "−" ? `(${formatCurrency(row.value)})` : formatCurrency(row.value)}
+                        </span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between py-2 font-bold text-base border-t-2">
+                      <span>Expected in drawer</span>
+                      <span className="tabular-nums">{formatCurrency(shownExpected)}</span>
+                    </div>
+                    <div className="flex justify-between py-1.5">
+                      <span>Counted</span>
+                      <span className="tabular-nums font-semibold">{formatCurrency(shownCounted)}</span>
+                    </div>
+                    <div
+                      className={`flex justify-between py-1.5 font-bold ${
+                        Math.abs(shownVariance) < 0.01
+                          ? "text-green-700"
+                          : shownVariance < 0
+                            ? "text-red-600"
+                            : "text-yellow-700"
+                      }`}
+                    >
+                      <span>
+                        {Math.abs(shownVariance) < 0.01 ? "Balanced" : shownVariance < 0 ? "Short" : "Over"}
+                      </span>
+                      <span className="tabular-nums">{formatCurrency(shownVariance)}</span>
+                    </div>
+                    {existingClose?.Notes && (
+                      <p className="mt-2 text-xs text-muted-foreground">{existingClose.Notes}</p>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Denomination Count</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader className="bg-gray-50">
+                    <TableRow>
+                      <TableHead className="font-bold text-black">Denomination</TableHead>
+                      <TableHead className="font-bold text-black w-28">Count</TableHead>
+                      <TableHead className="font-bold text-black text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {DENOMINATIONS.map((value) => {
+                      const closedCount =
+                        existingClose?.Denominations.find((d) => Number(d.value) === value)?.count ?? 0;
+                      const count = existingClose
+                        ? closedCount
+                        : denominations.find((d) => d.value === value)?.count ?? 0;
+                      return (
+                        <TableRow key={value}>
+                          <TableCell>Rs. {value.toLocaleString()}</TableCell>
+                          <TableCell className="py-1">
+                            {existingClose ? (
+                              <span className="tabular-nums">{closedCount}</span>
+                            ) : (
+                              <Input
+                                type="number"
+                                min="0"
+                                step="1"
+                                className="h-8"
+                                value={counts[value] ?? ""}
+                                onChange={(e) =>
+                                  setCounts((prev) => ({ ...prev, [value]: e.target.value }))
+                                }
+                              />
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {formatCurrency(value * count)}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+
+                {!existingClose && (
+                  <div className="mt-4 space-y-3">
+                    <div>
+                      <Label htmlFor="close-notes">Notes</Label>
+                      <Textarea
+                        id="close-notes"
+                        rows={2}
+                        value={notes}
+                        onChange={(e) => setNotes(e.target.value)}
+                        placeholder="Required when there is a variance"
+                      />
+                    </div>
+                    <Button className="w-full" onClick={handleClose} disabled={saving || loading}>
+                      <Lock className="h-4 w-4 mr-1" />
+                      {saving ? "Closing..." : `Close Register for ${closeDate}`}
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div>
+            <h3 className="text-lg font-semibold mb-3">Recent Closes</h3>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader className="bg-gray-50">
+                  <TableRow>
+                    <TableHead className="font-bold text-black">Date</TableHead>
+                    <TableHead className="font-bold text-black text-right">Expected</TableHead>
+                    <TableHead className="font-bold text-black text-right">Counted</TableHead>
+                    <TableHead className="font-bold text-black text-right">Variance</TableHead>
+                    <TableHead className="font-bold text-black">Closed By</TableHead>
+                    <TableHead className="font-bold text-black text-center">Z-Report</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {closes.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-6 text-muted-foreground">
+                        No closes recorded yet
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    closes.slice(0, 14).map((close) => (
+                      <TableRow key={close.CashCloseID}>
+                        <TableCell>
+                          <button
+                            type="button"
+                            className="text-blue-600 hover:underline"
+                            onClick={() => handleDateChange(toDateKey(close.CloseDate))}
+                          >
+                            {toDateKey(close.CloseDate)}
+                          </button>
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatCurrency(close.ExpectedCash)}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatCurrency(close.CountedCash)}
+                        </TableCell>
+                        <TableCell
+                          className={`text-right tabular-nums ${
+                            Math.abs(Number(close.Variance)) < 0.01
+                              ? ""
+                              : Number(close.Variance) < 0
+                                ? "text-red-600"
+                                : "text-yellow-700"
+                          }`}
+                        >
+                          {formatCurrency(close.Variance)}
+                        </TableCell>
+                        <TableCell>{close.ClosedByName || "—"}</TableCell>
+                        <TableCell className="text-center">
+                          <Button variant="ghost" size="sm" onClick={() => handlePrint(close)}>
+                            <Printer className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!reopenTarget} onOpenChange={(open) => !open && setReopenTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reopen cash register?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The close for {reopenTarget ? toDateKey(reopenTarget.CloseDate) : ""} will be removed and that
+              day&apos;s cash entries unlocked. Later closes keep their opening cash until they are redone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={reopening}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleReopen} disabled={reopening}>
+              {reopening ? "Reopening..." : "Reopen"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -1,10 +1,10 @@
 "use client";
 
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { addDays, format } from "date-fns";
 import { DateRange } from "react-day-picker";
 import { useRouter } from "next/navigation";
-import { Plus, Trash2 } from "lucide-react";
+import { ArrowLeftRight, Lock, Plus, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -49,6 +49,11 @@ import { useAuth } from "@/app/auth/auth-context";
 import { useToast } from "@/hooks/use-toast";
 import api from "@/lib/api/axios";
 import { AxiosError } from "axios";
+import BankAccountSelect from "@/components/BankAccountSelect";
+import DueRecurringExpenses from "@/components/DueRecurringExpenses";
+import { bankAccountLabel } from "@/lib/bankAccounts";
+import { BankAccountBalance } from "@/types/bankAccount";
+import { CashClose } from "@/types/cashClose";
 
 interface CashbookEntry {
   EntryID: number;
@@ -62,6 +67,14 @@ interface CashbookEntry {
   ReferenceType: string | null;
   ReferenceID: number | null;
   AccountType: "CASH" | "BANK";
+  BankAccountID?: number | null;
+  BankName?: string | null;
+  AccountNumber?: string | null;
+  // Both legs of a transfer share a TransferID; the counterpart is the other leg's account
+  TransferID?: number | null;
+  CounterpartAccountType?: "CASH" | "BANK" | null;
+  CounterpartBankName?: string | null;
+  CounterpartAccountNumber?: string | null;
   CreatedByName?: string | null;
 }
 
@@ -77,17 +90,43 @@ interface CashbookSummary {
   net: number;
   cashBalance: number;
   bankBalance: number;
+  bankAccounts?: BankAccountBalance[];
+  // Moved between our own accounts; not part of totalIn/totalOut
+  totalTransfers?: number;
   entryCount: number;
 }
 
 const CREATE_NEW_CATEGORY = "__create_new__";
 
+// Transfer endpoints are encoded as "CASH" or "BANK:<BankAccountID>"
+const parseTransferAccount = (value: string) =>
+  value.startsWith("BANK:")
+    ? { accountType: "BANK" as const, bankAccountId: Number(value.slice("BANK:".length)) }
+    : { accountType: "CASH" as const, bankAccountId: undefined };
+
+const emptyTransferForm = () => ({
+  transferDate: format(new Date(), "yyyy-MM-dd"),
+  from: "CASH",
+  to: "",
+  amount: "",
+  description: "",
+});
+
 const formatCurrency = (amount: number) =>
   `Rs. ${Number(amount).toLocaleString(undefined, {
     minimumFractionDigits: 2,
     maximumFractionDigits: 2,
   })}`;
 
+const accountLabel = (
+  accountType: "CASH" | "BANK" | null | undefined,
+  bankName?: string | null,
+  accountNumber?: string | null
+) =>
+  accountType === "BANK" && bankName
+    ? bankAccountLabel({ BankName: bankName, AccountNumber: accountNumber || "" })
+    : accountType || "—";
+
 const categoryLabel = (category: string) =>
   category
     .replace(/_/g, " ")
@@ -104,6 +143,8 @@ export default function CashbookPage() {
   const [entries, setEntries] = useState<CashbookEntry[]>([]);
   const [summary, setSummary] = useState<CashbookSummary | null>(null);
   const [expenseCategories, setExpenseCategories] = useState<ExpenseCategory[]>([]);
+  // Days whose cash register has been closed; their cash entries are read-only
+  const [closedDates, setClosedDates] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
   const [directionFilter, setDirectionFilter] = useState<string>("all");
   const [accountFilter, setAccountFilter] = useState<string>("all");
@@ -119,6 +160,10 @@ export default function CashbookPage() {
   const [deleteTarget, setDeleteTarget] = useState<CashbookEntry | null>(null);
   const [deleting, setDeleting] = useState(false);
 
+  const [transferOpen, setTransferOpen] = useState(false);
+  const [transferForm, setTransferForm] = useState(emptyTransferForm);
+  const [transferring, setTransferring] = useState(false);
+
   const [newCategoryOpen, setNewCategoryOpen] = useState(false);
   const [newCategoryName, setNewCategoryName] = useState("");
   const [creatingCategory, setCreatingCategory] = useState(false);
@@ -128,6 +173,7 @@ export default function CashbookPage() {
     direction: "IN" as "IN" | "OUT",
     amount: "",
     accountType: "CASH" as "CASH" | "BANK",
+    bankAccountId: "",
     description: "",
     expenseCategoryId: "",
   });
@@ -160,11 +206,16 @@ export default function CashbookPage() {
       if (dateRange?.from) params.startDate = format(dateRange.from, "yyyy-MM-dd");
       if (dateRange?.to) params.endDate = format(dateRange.to, "yyyy-MM-dd");
       if (directionFilter !== "all") params.direction = directionFilter;
-      if (accountFilter !== "all") params.accountType = accountFilter;
+      if (accountFilter.startsWith("BANK:")) {
+        params.accountType = "BANK";
+        params.bankAccountId = accountFilter.slice("BANK:".length);
+      } else if (accountFilter !== "all") {
+        params.accountType = accountFilter;
+      }
       if (expenseCategoryFilter !== "all") params.expenseCategoryId = expenseCategoryFilter;
       if (search.trim()) params.search = search.trim();
 
-      const [entriesRes, summaryRes] = await Promise.all([
+      const [entriesRes, summaryRes, closesRes] = await Promise.all([
         api.get("/cashbook", { params }),
         api.get("/cashbook/summary", {
           params: {
@@ -173,9 +224,12 @@ export default function CashbookPage() {
             endDate: params.endDate,
           },
         }),
+        api.get("/cash-closes", { params: { businessLineId } }),
         fetchExpenseCategories(),
       ]);
 
+      const closes: CashClose[] = closesRes.data.data || [];
+      setClosedDates(new Set(closes.map((close) => format(new Date(close.CloseDate), "yyyy-MM-dd"))));
       setEntries(entriesRes.data.data || []);
       setSummary(summaryRes.data);
     } catch (error) {
@@ -211,6 +265,7 @@ export default function CashbookPage() {
       direction,
       amount: "",
       accountType: "CASH",
+      bankAccountId: "",
       description: "",
       expenseCategoryId: "",
     });
@@ -281,6 +336,24 @@ export default function CashbookPage() {
       return;
     }
 
+    if (form.accountType === "CASH" && closedDates.has(form.entryDate)) {
+      toast({
+        title: "Day closed",
+        description: `The cash register for ${form.entryDate} is closed. Record the entry on another day or reopen the close.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (form.accountType === "BANK" && !form.bankAccountId) {
+      toast({
+        title: "Account required",
+        description: "Select the bank account for this entry.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     if (form.direction === "OUT" && !form.expenseCategoryId) {
       toast({
         title: "Category required",
@@ -298,6 +371,7 @@ export default function CashbookPage() {
         direction: form.direction,
         amount,
         accountType: form.accountType,
+        bankAccountId: form.accountType === "BANK" ? Number(form.bankAccountId) : undefined,
         description: form.description || undefined,
         category: form.direction === "IN" ? "MANUAL_INCOME" : "MANUAL_EXPENSE",
         expenseCategoryId:
@@ -318,12 +392,83 @@ export default function CashbookPage() {
     }
   };
 
+  const openTransferDialog = () => {
+    setTransferForm(emptyTransferForm());
+    setTransferOpen(true);
+  };
+
+  const handleTransfer = async () => {
+    const businessLineId = getBusinessLineID();
+    if (!businessLineId) return;
+
+    const amount = parseFloat(transferForm.amount);
+    if (!transferForm.transferDate || !(amount > 0) || !transferForm.to) {
+      toast({
+        title: "Invalid transfer",
+        description: "Enter a date, destination account and amount greater than zero.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (
+      (transferForm.from === "CASH" || transferForm.to === "CASH") &&
+      closedDates.has(transferForm.transferDate)
+    ) {
+      toast({
+        title: "Day closed",
+        description: `The cash register for ${transferForm.transferDate} is closed.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (transferForm.from === transferForm.to) {
+      toast({
+        title: "Invalid transfer",
+        description: "Choose two different accounts.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setTransferring(true);
+    try {
+      // Both legs are written in one request so a failure never leaves half a transfer
+      await api.post("/cashbook/transfers", {
+        businessLineId,
+        transferDate: transferForm.transferDate,
+        amount,
+        from: parseTransferAccount(transferForm.from),
+        to: parseTransferAccount(transferForm.to),
+        description: transferForm.description || undefined,
+      });
+      toast({ title: "Transfer recorded", description: `${formatCurrency(amount)} moved between accounts.` });
+      setTransferOpen(false);
+      await fetchData();
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message?: string }>;
+      toast({
+        title: "Error",
+        description: axiosError.response?.data?.message || "Failed to record transfer",
+        variant: "destructive",
+      });
+    } finally {
+      setTransferring(false);
+    }
+  };
+
   const handleDelete = async () => {
     if (!deleteTarget) return;
     setDeleting(true);
     try {
-      await api.delete(`/cashbook/${deleteTarget.EntryID}`);
-      toast({ title: "Deleted", description: "Manual entry removed." });
+      if (deleteTarget.TransferID) {
+        await api.delete(`/cashbook/transfers/${deleteTarget.TransferID}`);
+      } else {
+        await api.delete(`/cashbook/${deleteTarget.EntryID}`);
+      }
+      toast({
+        title: "Deleted",
+        description: deleteTarget.TransferID ? "Transfer removed from both accounts." : "Manual entry removed.",
+      });
       setDeleteTarget(null);
       await fetchData();
     } catch (error) {
@@ -338,7 +483,38 @@ export default function CashbookPage() {
     }
   };
 
+  // Keep the two legs of a transfer on adjacent rows, OUT leg first
+  const displayEntries = useMemo(() => {
+    const legsByTransfer = new Map<number, CashbookEntry[]>();
+    entries.forEach((entry) => {
+      if (!entry.TransferID) return;
+      legsByTransfer.set(entry.TransferID, [...(legsByTransfer.get(entry.TransferID) || []), entry]);
+    });
+
+    const seen = new Set<number>();
+    const rows: { entry: CashbookEntry; linked: boolean }[] = [];
+    entries.forEach((entry) => {
+      if (!entry.TransferID) {
+        rows.push({ entry, linked: false });
+        return;
+      }
+      if (seen.has(entry.TransferID)) return;
+      seen.add(entry.TransferID);
+      const legs = [...(legsByTransfer.get(entry.TransferID) || [])].sort(
+        (a, b) => (a.Direction === "OUT" ? 0 : 1) - (b.Direction === "OUT" ? 0 : 1)
+      );
+      legs.forEach((leg, index) => rows.push({ entry: leg, linked: index > 0 }));
+    });
+    return rows;
+  }, [entries]);
+
+  // A transfer is locked if either leg touches the closed cash drawer
+  const isLocked = (entry: CashbookEntry) =>
+    (entry.AccountType === "CASH" || entry.CounterpartAccountType === "CASH") &&
+    closedDates.has(format(new Date(entry.EntryDate), "yyyy-MM-dd"));
+
   const isManual = (entry: CashbookEntry) =>
+    !!entry.TransferID ||
     entry.ReferenceType === "MANUAL" ||
     entry.Category === "MANUAL_INCOME" ||
     entry.Category === "MANUAL_EXPENSE";
@@ -353,6 +529,10 @@ export default function CashbookPage() {
         <CardHeader className="bg-gray-50 border-b border-gray-200 flex flex-row items-center justify-between gap-4">
           <CardTitle className="text-xl font-semibold text-gray-800">Cashbook</CardTitle>
           <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={openTransferDialog}>
+              <ArrowLeftRight className="h-4 w-4 mr-1" />
+              Transfer
+            </Button>
             <Button variant="outline" size="sm" onClick={() => openCreateDialog("OUT")}>
               Add Expense
             </Button>
@@ -383,6 +563,11 @@ export default function CashbookPage() {
                 ) : (
                   <div className="text-2xl font-bold text-red-600">{formatCurrency(summary.totalOut)}</div>
                 )}
+                {!loading && !!summary?.totalTransfers && (
+                  <div className="mt-1 text-xs text-muted-foreground">
+                    Excludes {formatCurrency(summary.totalTransfers)} in transfers
+                  </div>
+                )}
               </CardContent>
             </Card>
             <Card>
@@ -403,10 +588,22 @@ export default function CashbookPage() {
                 ) : (
                   <div className="text-2xl font-bold">{formatCurrency(summary.bankBalance)}</div>
                 )}
+                {!loading && summary?.bankAccounts && summary.bankAccounts.length > 1 && (
+                  <div className="mt-2 space-y-0.5 text-xs text-muted-foreground">
+                    {summary.bankAccounts.map((account) => (
+                      <div key={account.BankAccountID} className="flex justify-between gap-2">
+                        <span className="truncate">{bankAccountLabel(account)}</span>
+                        <span className="tabular-nums">{formatCurrency(account.Balance)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </CardContent>
             </Card>
           </div>
 
+          <DueRecurringExpenses closedDates={closedDates} onConfirmed={fetchData} />
+
           <div className="flex flex-col lg:flex-row gap-3 lg:items-center flex-wrap">
             <DatePickerWithRange selected={dateRange} onChange={setDateRange} />
             <Select value={directionFilter} onValueChange={setDirectionFilter}>
@@ -420,13 +617,18 @@ export default function CashbookPage() {
               </SelectContent>
             </Select>
             <Select value={accountFilter} onValueChange={setAccountFilter}>
-              <SelectTrigger className="w-[140px]">
+              <SelectTrigger className="w-[200px]">
                 <SelectValue placeholder="Account" />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">Cash + Bank</SelectItem>
                 <SelectItem value="CASH">Cash</SelectItem>
-                <SelectItem value="BANK">Bank</SelectItem>
+                <SelectItem value="BANK">All bank accounts</SelectItem>
+                {summary?.bankAccounts?.map((account) => (
+                  <SelectItem key={account.BankAccountID} value={`BANK:${account.BankAccountID}`}>
+                    {bankAccountLabel(account)}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
             <Select value={expenseCategoryFilter} onValueChange={setExpenseCategoryFilter}>
@@ -478,30 +680,71 @@ export default function CashbookPage() {
                     </TableCell>
                   </TableRow>
                 ) : (
-                  entries.map((entry) => (
-                    <TableRow key={entry.EntryID}>
-                      <TableCell>{format(new Date(entry.EntryDate), "yyyy-MM-dd")}</TableCell>
+                  displayEntries.map(({ entry, linked }) => (
+                    <TableRow
+                      key={entry.EntryID}
+                      className={entry.TransferID ? `bg-blue-50/40 ${linked ? "border-t-0" : ""}` : ""}
+                    >
+                      <TableCell>
+                        {linked ? (
+                          <span className="pl-3 text-muted-foreground">↳</span>
+                        ) : (
+                          format(new Date(entry.EntryDate), "yyyy-MM-dd")
+                        )}
+                      </TableCell>
                       <TableCell>
                         <Badge variant={entry.Direction === "IN" ? "default" : "secondary"}>
                           {entry.Direction}
                         </Badge>
                       </TableCell>
-                      <TableCell>{categoryLabel(entry.Category)}</TableCell>
+                      <TableCell>
+                        {entry.TransferID ? (
+                          <span className="inline-flex items-center gap-1">
+                            <ArrowLeftRight className="h-3 w-3" />
+                            Transfer
+                          </span>
+                        ) : (
+                          categoryLabel(entry.Category)
+                        )}
+                      </TableCell>
                       <TableCell>{entry.ExpenseCategoryName || "—"}</TableCell>
-                      <TableCell>{entry.AccountType}</TableCell>
+                      <TableCell>{accountLabel(entry.AccountType, entry.BankName, entry.AccountNumber)}</TableCell>
                       <TableCell className="max-w-xs truncate">
-                        {entry.Description || "—"}
+                        {entry.TransferID && entry.CounterpartAccountType && (
+                          <span className="text-muted-foreground">
+                            {entry.Direction === "OUT" ? "To " : "From "}
+                            {accountLabel(
+                              entry.CounterpartAccountType,
+                              entry.CounterpartBankName,
+                              entry.CounterpartAccountNumber
+                            )}
+                            {entry.Description ? " · " : ""}
+                          </span>
+                        )}
+                        {entry.Description || (entry.TransferID ? "" : "—")}
                       </TableCell>
                       <TableCell
                         className={`text-right tabular-nums font-medium ${
-                          entry.Direction === "IN" ? "text-green-700" : "text-red-600"
+                          entry.TransferID
+                            ? "text-blue-700"
+                            : entry.Direction === "IN"
+                              ? "text-green-700"
+                              : "text-red-600"
                         }`}
                       >
                         {entry.Direction === "IN" ? "+" : "−"}
                         {formatCurrency(Number(entry.Amount))}
                       </TableCell>
                       <TableCell className="text-center">
-                        {isManual(entry) ? (
+                        {linked ? null : isManual(entry) && isLocked(entry) ? (
+                          <span
+                            className="inline-flex items-center gap-1 text-xs text-muted-foreground"
+                            title="Cash register closed for this day"
+                          >
+                            <Lock className="h-3 w-3" />
+                            Closed
+                          </span>
+                        ) : isManual(entry) ? (
                           <Button
                             variant="ghost"
                             size="sm"
@@ -530,7 +773,8 @@ export default function CashbookPage() {
               {form.direction === "IN" ? "Add Income" : "Add Expense"}
             </DialogTitle>
             <DialogDescription>
-              Create a manual cashbook entry. Sales, purchases, and cheque realizations are recorded automatically.
+              Create a manual cashbook entry. Sales, purchases, and cheque realizations are recorded
+              automatically. Use Transfer to move money between your own accounts.
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-3 py-2">
@@ -590,7 +834,11 @@ export default function CashbookPage() {
               <Select
                 value={form.accountType}
                 onValueChange={(value) =>
-                  setForm((prev) => ({ ...prev, accountType: value as "CASH" | "BANK" }))
+                  setForm((prev) => ({
+                    ...prev,
+                    accountType: value as "CASH" | "BANK",
+                    bankAccountId: value === "CASH" ? "" : prev.bankAccountId,
+                  }))
                 }
               >
                 <SelectTrigger>
@@ -602,6 +850,16 @@ export default function CashbookPage() {
                 </SelectContent>
               </Select>
             </div>
+            {form.accountType === "BANK" && (
+              <div>
+                <Label htmlFor="cb-bank-account">Bank Account</Label>
+                <BankAccountSelect
+                  id="cb-bank-account"
+                  value={form.bankAccountId}
+                  onValueChange={(value) => setForm((prev) => ({ ...prev, bankAccountId: value }))}
+                />
+              </div>
+            )}
             <div>
               <Label htmlFor="cb-amount">Amount (Rs.)</Label>
               <Input
@@ -634,6 +892,103 @@ export default function CashbookPage() {
         </DialogContent>
       </Dialog>
 
+      <Dialog open={transferOpen} onOpenChange={setTransferOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Transfer Between Accounts</DialogTitle>
+            <DialogDescription>
+              Move money between cash and bank accounts, e.g. banking the day&apos;s cash. Transfers are
+              not counted as income or expense.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 py-2">
+            <div>
+              <Label htmlFor="tr-date">Date</Label>
+              <Input
+                id="tr-date"
+                type="date"
+                value={transferForm.transferDate}
+                onChange={(e) => setTransferForm((prev) => ({ ...prev, transferDate: e.target.value }))}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>From</Label>
+                <Select
+                  value={transferForm.from}
+                  onValueChange={(value) => setTransferForm((prev) => ({ ...prev, from: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="CASH">Cash</SelectItem>
+                    {summary?.bankAccounts?.map((account) => (
+                      <SelectItem key={account.BankAccountID} value={`BANK:${account.BankAccountID}`}>
+                        {bankAccountLabel(account)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>To</Label>
+                <Select
+                  value={transferForm.to || undefined}
+                  onValueChange={(value) => setTransferForm((prev) => ({ ...prev, to: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select account" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="CASH" disabled={transferForm.from === "CASH"}>
+                      Cash
+                    </SelectItem>
+                    {summary?.bankAccounts?.map((account) => (
+                      <SelectItem
+                        key={account.BankAccountID}
+                        value={`BANK:${account.BankAccountID}`}
+                        disabled={transferForm.from === `BANK:${account.BankAccountID}`}
+                      >
+                        {bankAccountLabel(account)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="tr-amount">Amount (Rs.)</Label>
+              <Input
+                id="tr-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={transferForm.amount}
+                onChange={(e) => setTransferForm((prev) => ({ ...prev, amount: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="tr-desc">Description</Label>
+              <Input
+                id="tr-desc"
+                value={transferForm.description}
+                onChange={(e) => setTransferForm((prev) => ({ ...prev, description: e.target.value }))}
+                placeholder="e.g. Deposit slip number"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTransferOpen(false)} disabled={transferring}>
+              Cancel
+            </Button>
+            <Button onClick={handleTransfer} disabled={transferring}>
+              {transferring ? "Saving..." : "Record Transfer"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={newCategoryOpen} onOpenChange={setNewCategoryOpen}>
         <DialogContent className="sm:max-w-sm">
           <DialogHeader>
@@ -676,9 +1031,13 @@ export default function CashbookPage() {
       <AlertDialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Delete manual entry?</AlertDialogTitle>
+            <AlertDialogTitle>
+              {deleteTarget?.TransferID ? "Delete transfer?" : "Delete manual entry?"}
+            </AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently remove the selected cashbook entry
+              {deleteTarget?.TransferID
+                ? "This will remove both sides of the transfer"
+                : "This will permanently remove the selected cashbook entry"}
               {deleteTarget ? ` (${formatCurrency(Number(deleteTarget.Amount))})` : ""}.
             </AlertDialogDescription>
           </AlertDialogHeader>
@@ -31,11 +31,14 @@ import { DatePickerWithRange } from '@/components/DateRange';
 import { format } from 'date-fns';
 import { AxiosError } from 'axios';
 import { toast } from '@/hooks/use-toast';
+import { closedDayMessage, isCashDayClosed } from '@/lib/cashClose';
 import CustomCreditSettlementDialog from '@/components/CustomCreditSettlement';
+import BankAccountSelect from '@/components/BankAccountSelect';
 import { Trash2, AlertTriangle } from "lucide-react";
 import { DatePicker } from '@/components/ui/date-picker';
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 
 interface Cheque {
   ChequePaymentID: string | number;
@@ -44,6 +47,9 @@ interface Cheque {
   RealizeDate: string;
   ReceivedDate?: string | null;
   DepositedDate?: string | null;
+  // Our account the cheque was deposited into
+  DepositBankAccountID?: number | null;
+  DepositBankAccountName?: string | null;
   Amount: number;
   CustomerName: string;
   CustomerID: number;
@@ -87,7 +93,7 @@ interface Customer {
 
 interface ConfirmDialogState {
   isOpen: boolean;
-  type: 'realize' | 'bounce' | 'settle' | 'settle_opening_balance' | 'delete_cheque' | 'delete_credit' | 'delete_opening_balance' | null;
+  type: 'realize' | 'settle' | 'settle_opening_balance' | 'delete_cheque' | 'delete_credit' | 'delete_opening_balance' | null;
   paymentId: string | number | null;
   title: string;
   description: string;
@@ -174,8 +180,27 @@ interface MarkDepositedDialogState {
   isOpen: boolean;
   cheque: Cheque | null;
   depositedDate: string;
+  bankAccountId: string;
 }
 
+// What happens to the customer when one of their cheques bounces
+interface BouncePolicy {
+  holdCustomer: boolean;
+  bankCharge: number;
+}
+
+interface BounceDialogState {
+  isOpen: boolean;
+  cheque: Cheque | null;
+  holdCustomer: boolean;
+  bankCharge: string;
+}
+
+const defaultBouncePolicy: BouncePolicy = {
+  holdCustomer: true,
+  bankCharge: 0,
+};
+
 const PaymentManagement = () => {
   const { user, getBusinessLineID } = useAuth();
   const [pendingPayments, setPendingPayments] = useState<PaymentState>({ 
@@ -305,8 +330,22 @@ const PaymentManagement = () => {
     isOpen: false,
     cheque: null,
     depositedDate: format(new Date(), 'yyyy-MM-dd'),
+    bankAccountId: '',
   });
 
+  const [bouncePolicy, setBouncePolicy] = useState<BouncePolicy>(defaultBouncePolicy);
+  const [bouncePolicyOpen, setBouncePolicyOpen] = useState(false);
+  const [bouncePolicyForm, setBouncePolicyForm] = useState({ holdCustomer: true, bankCharge: '' });
+  const [savingBouncePolicy, setSavingBouncePolicy] = useState(false);
+  const [bounceDialog, setBounceDialog] = useState<BounceDialogState>({
+    isOpen: false,
+    cheque: null,
+    holdCustomer: true,
+    bankCharge: '',
+  });
+
+  const canEditBouncePolicy = ['superuser', 'admin'].includes(user?.userType || '');
+
   const fetchCustomers = useCallback(async () => {
     try {
       const businessLineId = getBusinessLineID();
@@ -410,10 +449,24 @@ const PaymentManagement = () => {
   // }, [selectedCustomer, dueDateRange, saleDateRange, activeDateFilter, getBusinessLineID]);
   }, [selectedCustomer, dueDateRange, saleDateRange, activeDateFilter, dateFilterMode, upToDate, saleUpToDate, dueOnDate, saleOnDate, getBusinessLineID]);
     
+  const fetchBouncePolicy = useCallback(() => {
+    const businessLineId = getBusinessLineID();
+    return axios.get(`${process.env.NEXT_PUBLIC_API_URL}/payments/bounce-policy/${businessLineId}`)
+      .then(response => setBouncePolicy({
+        holdCustomer: response.data?.holdCustomer ?? defaultBouncePolicy.holdCustomer,
+        bankCharge: Number(response.data?.bankCharge) || 0,
+      }))
+      .catch((err: unknown) => console.error('Error fetching bounce policy:', err));
+  }, [getBusinessLineID]);
+
   useEffect(() => {
     fetchCustomers();
   }, [fetchCustomers]);
 
+  useEffect(() => {
+    fetchBouncePolicy();
+  }, [fetchBouncePolicy]);
+
   useEffect(() => {
     fetchPendingPayments();
   }, [fetchPendingPayments]);
@@ -450,15 +503,26 @@ const PaymentManagement = () => {
     });
   };
 
-  // Open confirmation dialog for Bounce Cheque
-  const confirmBounceCheque = (cheque: Cheque) => {
-    setConfirmDialog({
+  // Open bounce dialog, pre-filled from the business line's bounce policy
+  const openBounceDialog = (cheque: Cheque) => {
+    setBounceDialog({
       isOpen: true,
-      type: 'bounce',
-      paymentId: cheque.ChequePaymentID,
-      title: 'Bounce Cheque',
-      description: `Are you sure you want to mark cheque #${cheque.ChequeNumber} as bounced? This will convert it to a credit with a due date 30 days from today.`
+      cheque,
+      holdCustomer: bouncePolicy.holdCustomer,
+      bankCharge: bouncePolicy.bankCharge > 0 ? bouncePolicy.bankCharge.toFixed(2) : '',
+    });
+  };
+
+  const closeBounceDialog = () => {
+    setBounceDialog((prev) => ({ ...prev, isOpen: false, cheque: null }));
+  };
+
+  const openBouncePolicyDialog = () => {
+    setBouncePolicyForm({
+      holdCustomer: bouncePolicy.holdCustomer,
+      bankCharge: bouncePolicy.bankCharge > 0 ? bouncePolicy.bankCharge.toFixed(2) : '',
     });
+    setBouncePolicyOpen(true);
   };
 
   const confirmSettleOpeningBalance = (openingBalance: OpeningBalance) => {
@@ -545,9 +609,6 @@ const PaymentManagement = () => {
       case 'realize':
         await handleRealizeCheque(paymentId);
         break;
-      case 'bounce':
-        await handleBounceCheque(paymentId);
-        break;
       case 'settle':
         await handleSettleCredit(paymentId);
         break;
@@ -607,19 +668,39 @@ const PaymentManagement = () => {
     }
   };
 
-  const handleBounceCheque = async (chequePaymentId: string | number) => {
+  const handleBounceCheque = async () => {
+    const { cheque, holdCustomer, bankCharge } = bounceDialog;
+    if (!cheque) return;
+
+    const chequePaymentId = cheque.ChequePaymentID;
+    const charge = parseFloat(bankCharge);
+    if (bankCharge && (isNaN(charge) || charge < 0)) {
+      toast({
+        variant: "destructive",
+        title: "Invalid bank charge",
+        description: "Enter a valid bank charge or leave it empty.",
+        duration: 3000,
+      });
+      return;
+    }
+
     try {
       setProcessingIds(prev => new Set(prev).add(chequePaymentId));
+      closeBounceDialog();
       const dueDate = new Date();
       dueDate.setDate(dueDate.getDate() + 30);
       
       await axios.put(`${process.env.NEXT_PUBLIC_API_URL}/payments/cheque/${chequePaymentId}/bounce`, {
-        dueDate: dueDate.toISOString().split('T')[0]
+        dueDate: dueDate.toISOString().split('T')[0],
+        holdCustomer,
+        bankCharge: charge > 0 ? parseFloat(charge.toFixed(2)) : undefined,
       });
       await fetchPendingPayments();
       toast({
         title: "Success",
-        description: "Cheque has been marked as bounced and converted to credit",
+        description: holdCustomer
+          ? `Cheque marked as bounced and ${cheque.CustomerName} put on credit hold`
+          : "Cheque has been marked as bounced and converted to credit",
         duration: 3000,
       })
     } catch (err: unknown) {
@@ -653,6 +734,51 @@ const PaymentManagement = () => {
     }
   };
 
+  const handleSaveBouncePolicy = async () => {
+    const charge = parseFloat(bouncePolicyForm.bankCharge);
+    if (bouncePolicyForm.bankCharge && (isNaN(charge) || charge < 0)) {
+      toast({
+        variant: "destructive",
+        title: "Invalid bank charge",
+        description: "Enter a valid default bank charge or leave it empty.",
+        duration: 3000,
+      });
+      return;
+    }
+
+    try {
+      setSavingBouncePolicy(true);
+      const policy: BouncePolicy = {
+        holdCustomer: bouncePolicyForm.holdCustomer,
+        bankCharge: charge > 0 ? parseFloat(charge.toFixed(2)) : 0,
+      };
+      await axios.put(
+        `${process.env.NEXT_PUBLIC_API_URL}/payments/bounce-policy/${getBusinessLineID()}`,
+        policy
+      );
+      setBouncePolicy(policy);
+      setBouncePolicyOpen(false);
+      toast({
+        title: "Success",
+        description: "Bounce policy updated",
+        duration: 3000,
+      });
+    } catch (err: unknown) {
+      const errorMessage =
+        err instanceof AxiosError
+          ? err.response?.data?.message || 'Error saving bounce policy'
+          : 'Error saving bounce policy';
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: errorMessage,
+        duration: 3000,
+      });
+    } finally {
+      setSavingBouncePolicy(false);
+    }
+  };
+
   const openMarkReceivedDialog = (cheque: Cheque) => {
     setMarkReceivedDialog({
       isOpen: true,
@@ -724,6 +850,7 @@ const PaymentManagement = () => {
       isOpen: true,
       cheque,
       depositedDate: format(new Date(), 'yyyy-MM-dd'),
+      bankAccountId: '',
     });
   };
 
@@ -732,14 +859,24 @@ const PaymentManagement = () => {
   };
 
   const handleMarkChequeDeposited = async () => {
-    const { cheque, depositedDate } = markDepositedDialog;
+    const { cheque, depositedDate, bankAccountId } = markDepositedDialog;
     if (!cheque) return;
 
+    if (!bankAccountId) {
+      toast({
+        variant: 'destructive',
+        title: 'Account required',
+        description: 'Select the bank account the cheque was deposited into.',
+        duration: 3000,
+      });
+      return;
+    }
+
     try {
       setProcessingIds((prev) => new Set(prev).add(cheque.ChequePaymentID));
       await axios.put(
         `${process.env.NEXT_PUBLIC_API_URL}/payments/cheque/${cheque.ChequePaymentID}/deposit`,
-        { depositedDate }
+        { depositedDate, bankAccountId: Number(bankAccountId) }
       );
       closeMarkDepositedDialog();
       await fetchPendingPayments();
@@ -769,9 +906,24 @@ const PaymentManagement = () => {
     }
   };
 
+  // Settling here is a cash receipt today, which a closed register must not take
+  const isTodayClosed = async () => {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    if (!await isCashDayClosed(getBusinessLineID(), today)) return false;
+
+    toast({
+      variant: "destructive",
+      title: "Day closed",
+      description: closedDayMessage(today),
+      duration: 3000,
+    });
+    return true;
+  };
+
   const handleSettleOpeningBalance = async (openingBalanceId: string | number) => {
     try {
       setProcessingIds(prev => new Set(prev).add(openingBalanceId));
+      if (await isTodayClosed()) return;
       await axios.put(`${process.env.NEXT_PUBLIC_API_URL}/payments/opening-balance/${openingBalanceId}/settle`);
       await fetchPendingPayments();
       toast({
@@ -836,6 +988,7 @@ const PaymentManagement = () => {
   const handleSettleCredit = async (creditPaymentId: string | number) => {
     try {
       setProcessingIds(prev => new Set(prev).add(creditPaymentId));
+      if (await isTodayClosed()) return;
       await axios.put(`${process.env.NEXT_PUBLIC_API_URL}/payments/credit/${creditPaymentId}/settle`);
       await fetchPendingPayments();
       toast({
@@ -1022,6 +1175,15 @@ const PaymentManagement = () => {
           >
             Custom Credit Settlement
           </Button>
+          {canEditBouncePolicy && (
+            <Button
+              variant="outline"
+              onClick={openBouncePolicyDialog}
+              className="mr-4"
+            >
+              Bounce Policy
+            </Button>
+          )}
 
           <div className="flex gap-4">
             <Select
@@ -1417,7 +1579,14 @@ const PaymentManagement = () => {
                       <TableCell>
                         {format(new Date(cheque.RealizeDate), 'yyyy-MM-dd')}
                       </TableCell>
-                      <TableCell>{cheque.Bank}</TableCell>
+                      <TableCell>
+                        {cheque.Bank}
+                        {cheque.DepositBankAccountName && (
+                          <div className="text-xs text-muted-foreground">
+                            Into {cheque.DepositBankAccountName}
+                          </div>
+                        )}
+                      </TableCell>
                       <TableCell className="text-right tabular-nums">
                         {formatCurrency(cheque.Amount)}
                       </TableCell>
@@ -1436,7 +1605,7 @@ const PaymentManagement = () => {
                           </Button>
                           <Button 
                             variant="outline"
-                            onClick={() => confirmBounceCheque(cheque)}
+                            onClick={() => openBounceDialog(cheque)}
                             disabled={processingIds.has(cheque.ChequePaymentID)}
                             size="sm"
                           >
@@ -1671,6 +1840,16 @@ const PaymentManagement = () => {
                 }
               />
             </div>
+            <div>
+              <Label htmlFor="mark-deposited-account">Deposited into</Label>
+              <BankAccountSelect
+                id="mark-deposited-account"
+                value={markDepositedDialog.bankAccountId}
+                onValueChange={(value) =>
+                  setMarkDepositedDialog((prev) => ({ ...prev, bankAccountId: value }))
+                }
+              />
+            </div>
           </div>
           <DialogFooter className="mt-4 gap-2">
             <Button variant="outline" onClick={closeMarkDepositedDialog}>
@@ -1683,6 +1862,107 @@ const PaymentManagement = () => {
         </DialogContent>
       </Dialog>
 
+      {/* Bounce Cheque Dialog */}
+      <Dialog open={bounceDialog.isOpen} onOpenChange={(open) => !open && closeBounceDialog()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Bounce Cheque</DialogTitle>
+            <DialogDescription>
+              {bounceDialog.cheque && (
+                <>
+                  Mark cheque #{bounceDialog.cheque.ChequeNumber} from {bounceDialog.cheque.CustomerName} for{' '}
+                  {formatCurrency(bounceDialog.cheque.Amount)} as bounced? It will be converted to a credit with a
+                  due date 30 days from today.
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="bounce-hold-customer"
+                checked={bounceDialog.holdCustomer}
+                onCheckedChange={(checked) =>
+                  setBounceDialog((prev) => ({ ...prev, holdCustomer: checked === true }))
+                }
+              />
+              <Label htmlFor="bounce-hold-customer" className="cursor-pointer">
+                Put customer on credit hold (no credit or cheque sales)
+              </Label>
+            </div>
+            <div>
+              <Label htmlFor="bounce-bank-charge">Bank charge to recover (Rs.)</Label>
+              <Input
+                id="bounce-bank-charge"
+                type="number"
+                min="0"
+                step="0.01"
+                value={bounceDialog.bankCharge}
+                onChange={(e) => setBounceDialog((prev) => ({ ...prev, bankCharge: e.target.value }))}
+                placeholder="Leave empty for no charge"
+              />
+              <p className="mt-1 text-xs text-muted-foreground">
+                Added as a separate receivable against the customer.
+              </p>
+            </div>
+          </div>
+          <DialogFooter className="mt-4 gap-2">
+            <Button variant="outline" onClick={closeBounceDialog}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleBounceCheque}>
+              Mark bounced
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Bounce Policy Dialog */}
+      <Dialog open={bouncePolicyOpen} onOpenChange={setBouncePolicyOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Bounce Policy</DialogTitle>
+            <DialogDescription>
+              Defaults applied when a customer&apos;s cheque bounces. They can be changed for each bounce.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="policy-hold-customer"
+                checked={bouncePolicyForm.holdCustomer}
+                onCheckedChange={(checked) =>
+                  setBouncePolicyForm((prev) => ({ ...prev, holdCustomer: checked === true }))
+                }
+              />
+              <Label htmlFor="policy-hold-customer" className="cursor-pointer">
+                Put customer on credit hold
+              </Label>
+            </div>
+            <div>
+              <Label htmlFor="policy-bank-charge">Default bank charge (Rs.)</Label>
+              <Input
+                id="policy-bank-charge"
+                type="number"
+                min="0"
+                step="0.01"
+                value={bouncePolicyForm.bankCharge}
+                onChange={(e) => setBouncePolicyForm((prev) => ({ ...prev, bankCharge: e.target.value }))}
+                placeholder="No charge"
+              />
+            </div>
+          </div>
+          <DialogFooter className="mt-4 gap-2">
+            <Button variant="outline" onClick={() => setBouncePolicyOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveBouncePolicy} disabled={savingBouncePolicy}>
+              {savingBouncePolicy ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Confirmation Dialog */}
       <Dialog
         open={
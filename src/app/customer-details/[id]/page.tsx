@@ -10,6 +10,8 @@ import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import api from "@/lib/api/axios";
 import CustomerPrices from '@/components/CustomerPrices';
+import CustomerStatement from '@/components/CustomerStatement';
+import CustomerQuotations from '@/components/CustomerQuotations';
 
 interface CustomerDetails {
   CustomerID: number;
@@ -23,6 +25,7 @@ interface CustomerDetails {
   SMSNumber: string;
   BusinessRegNo: string;
   BusinessLineID: number;
+  BounceCount?: number;
 }
 
 interface CustomerOutstanding {
@@ -208,13 +211,15 @@ export default function CustomerDetailsPage() {
         <TabsList className="ml-4 mt-4">
           <TabsTrigger value="account">Account</TabsTrigger>
           <TabsTrigger value="upcomingcheques">Upcoming Payments</TabsTrigger>
+          <TabsTrigger value="statement">Statement</TabsTrigger>
           <TabsTrigger value="customerinfo">Customer Info</TabsTrigger>
           <TabsTrigger value="itemprices">Item Prices</TabsTrigger>
+          <TabsTrigger value="quotations">Quotations</TabsTrigger>
         </TabsList>
 
         <TabsContent value="account">
           <CardContent className="pt-1 px-4 m-0">
-            <div className="grid grid-cols-3 gap-4">
+            <div className="grid grid-cols-4 gap-4">
               <Card className="p-4 border border-gray-200">
                 <p className="text-sm text-gray-500">Credit Usage</p>
                 <div className="flex items-center justify-between mt-2">
@@ -231,7 +236,16 @@ export default function CustomerDetailsPage() {
 
               <Card className="p-4 border border-gray-200">
                 <p className="text-sm text-gray-500">Status</p>
-                <p className="font-medium text-gray-800 mt-2">{customerDetails.Status}</p>
+                <p className={`font-medium mt-2 ${customerDetails.Status === 'Credit Hold' ? 'text-red-600' : 'text-gray-800'}`}>
+                  {customerDetails.Status}
+                </p>
+              </Card>
+
+              <Card className="p-4 border border-gray-200">
+                <p className="text-sm text-gray-500">Bounced Cheques</p>
+                <p className={`font-medium mt-2 ${(customerDetails.BounceCount ?? 0) > 0 ? 'text-red-600' : 'text-gray-800'}`}>
+                  {customerDetails.BounceCount ?? 0}
+                </p>
               </Card>
 
               <Card className="p-4 border border-gray-200">
@@ -367,6 +381,12 @@ export default function CustomerDetailsPage() {
           </CardContent>
         </TabsContent>
 
+        <TabsContent value="statement">
+          <CardContent className="pt-1 px-4 m-0">
+            <CustomerStatement customer={customerDetails} customerCode={customerCode} />
+          </CardContent>
+        </TabsContent>
+
         <TabsContent value="customerinfo">
           <CardContent className="pt-1 px-4 m-0">
             <div className="space-y-4">
@@ -408,6 +428,10 @@ export default function CustomerDetailsPage() {
         <TabsContent value="itemprices">
           <CustomerPrices />
         </TabsContent>
+
+        <TabsContent value="quotations">
+          <CustomerQuotations customerId={id as string} />
+        </TabsContent>
       </Tabs>      
     </Card>
   );
@@ -32,7 +32,11 @@ import { isAxiosError } from 'axios';
 import { TooltipItem } from 'chart.js';
 import { formatMetricTons } from '@/lib/formatMetricTons';
 import CalendarNotesWidget from '@/components/CalendarNotesWidget';
-import { format } from 'date-fns';
+import { format, subDays } from 'date-fns';
+import Link from 'next/link';
+import { bankAccountLabel } from '@/lib/bankAccounts';
+import { BankAccountBalance } from '@/types/bankAccount';
+import { RecurringExpenseDraft } from '@/types/recurringExpense';
 
 // Register ChartJS components
 ChartJS.register(
@@ -161,6 +165,8 @@ export default function SalesDashboard() {
   const [overviewMode, setOverviewMode] = useState<'sales' | 'purchases'>('sales');
   const [totalOutstandingCredit, setTotalOutstandingCredit] = useState<number | null>(null);
   const [bankBalance, setBankBalance] = useState<number | null>(null);
+  const [bankAccountBalances, setBankAccountBalances] = useState<BankAccountBalance[]>([]);
+  const [overdueExpenses, setOverdueExpenses] = useState<RecurringExpenseDraft[]>([]);
   
   const currentDate = new Date();
   const [selectedMonth, setSelectedMonth] = useState<number>(currentDate.getMonth());
@@ -292,6 +298,7 @@ export default function SalesDashboard() {
     const fetchBankBalance = async () => {
       if (!user?.currentBusinessLine) {
         setBankBalance(null);
+        setBankAccountBalances([]);
         return;
       }
 
@@ -300,15 +307,42 @@ export default function SalesDashboard() {
           params: { businessLineId: user.currentBusinessLine },
         });
         setBankBalance(Number(response.data.bankBalance || 0));
+        setBankAccountBalances(response.data.bankAccounts || []);
       } catch (err) {
         console.error('Error fetching bank balance:', err);
         setBankBalance(null);
+        setBankAccountBalances([]);
       }
     };
 
     fetchBankBalance();
   }, [user?.currentBusinessLine]);
 
+  useEffect(() => {
+    const fetchOverdueExpenses = async () => {
+      if (!user?.currentBusinessLine) {
+        setOverdueExpenses([]);
+        return;
+      }
+
+      try {
+        const response = await axios.get('/recurring-expenses/drafts', {
+          params: {
+            businessLineId: user.currentBusinessLine,
+            status: 'PENDING',
+            endDate: format(subDays(new Date(), 1), 'yyyy-MM-dd'),
+          },
+        });
+        setOverdueExpenses(response.data.data || []);
+      } catch (err) {
+        console.error('Error fetching overdue recurring expenses:', err);
+        setOverdueExpenses([]);
+      }
+    };
+
+    fetchOverdueExpenses();
+  }, [user?.currentBusinessLine]);
+
   const totalSales = groupedData.reduce((sum, period) => sum + period.totalAmount, 0);
   const totalOrders = groupedData.reduce((sum, period) => sum + period.orderCount, 0);
   const totalMetricTons = groupedData.reduce((sum, period) => sum + period.totalMetricTons, 0);
@@ -514,8 +548,30 @@ export default function SalesDashboard() {
                 value={formatCurrency(bankBalance ?? 0)}
                 isLoading={bankBalance === null}
               />
+              {/* Only break the balance down when there is more than one account */}
+              {bankAccountBalances.length > 1 && bankAccountBalances.map((account) => (
+                <StatCard
+                  key={account.BankAccountID}
+                  label={bankAccountLabel(account)}
+                  value={formatCurrency(account.Balance)}
+                  isLoading={bankBalance === null}
+                />
+              ))}
             </div>
 
+            {overdueExpenses.length > 0 && (
+              <Alert className="mb-6 border-amber-300 bg-amber-50 text-amber-900">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  {overdueExpenses.length} recurring expense{overdueExpenses.length === 1 ? ' is' : 's are'} overdue
+                  ({formatCurrency(overdueExpenses.reduce((sum, draft) => sum + Number(draft.Amount), 0))}).{' '}
+                  <Link href="/cashbook" className="font-medium underline">
+                    Confirm in the cashbook
+                  </Link>
+                </AlertDescription>
+              </Alert>
+            )}
+
             <Tabs defaultValue="line" value={activeTab} onValueChange={(value) => setActiveTab(value as ChartType)} className="flex-1 flex flex-col min-w-0">
               <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
                 <h3 className="text-base sm:text-lg font-medium min-w-0">
@@ -0,0 +1,678 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { useRouter } from "next/navigation";
+import { AlertTriangle, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/app/auth/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import api from "@/lib/api/axios";
+import { AxiosError } from "axios";
+import BankAccountSelect from "@/components/BankAccountSelect";
+import { BankAccountBalance } from "@/types/bankAccount";
+import { IssuedCheque, IssuedChequeStatus } from "@/types/issuedCheque";
+
+interface Vendor {
+  VendorID: number;
+  VendorName: string;
+}
+
+interface StatusDialogState {
+  cheque: IssuedCheque | null;
+  status: IssuedChequeStatus;
+  date: string;
+  reason: string;
+}
+
+const formatCurrency = (amount: number) =>
+  `Rs. ${Number(amount).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const statusStyles: Record<IssuedChequeStatus, string> = {
+  ISSUED: "bg-blue-100 text-blue-800",
+  PRESENTED: "bg-yellow-100 text-yellow-800",
+  CLEARED: "bg-green-100 text-green-800",
+  STOPPED: "bg-gray-200 text-gray-700",
+};
+
+const statusActionLabels: Record<IssuedChequeStatus, string> = {
+  ISSUED: "Issued",
+  PRESENTED: "Mark Presented",
+  CLEARED: "Mark Cleared",
+  STOPPED: "Stop Payment",
+};
+
+// Cheques that have left our hands but not yet hit the bank account
+const isOutstanding = (cheque: IssuedCheque) =>
+  cheque.Status === "ISSUED" || cheque.Status === "PRESENTED";
+
+const emptyForm = () => ({
+  chequeNumber: "",
+  bankAccountId: "",
+  vendorId: "",
+  amount: "",
+  issueDate: format(new Date(), "yyyy-MM-dd"),
+  chequeDate: format(new Date(), "yyyy-MM-dd"),
+  notes: "",
+});
+
+export default function IssuedChequesPage() {
+  const { user, getBusinessLineID } = useAuth();
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const canManage = ["superuser", "admin", "management"].includes(user?.userType || "");
+
+  const [cheques, setCheques] = useState<IssuedCheque[]>([]);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [bankBalance, setBankBalance] = useState<number | null>(null);
+  const [accountBalances, setAccountBalances] = useState<BankAccountBalance[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<string>("outstanding");
+  const [vendorFilter, setVendorFilter] = useState<string>("all");
+  const [search, setSearch] = useState("");
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  const [statusDialog, setStatusDialog] = useState<StatusDialogState>({
+    cheque: null,
+    status: "PRESENTED",
+    date: format(new Date(), "yyyy-MM-dd"),
+    reason: "",
+  });
+  const [updatingStatus, setUpdatingStatus] = useState(false);
+
+  useEffect(() => {
+    if (user && !canManage) {
+      router.push("/dashboard");
+    }
+  }, [user, canManage, router]);
+
+  const fetchData = useCallback(() => {
+    const businessLineId = getBusinessLineID();
+    if (!businessLineId) return Promise.resolve();
+
+    return Promise.all([
+      api.get("/issued-cheques", { params: { businessLineId } }),
+      api.get("/cashbook/balances", { params: { businessLineId } }),
+      api.get(`/vendors?businessLineId=${businessLineId}`),
+    ])
+      .then(([chequesRes, balancesRes, vendorsRes]) => {
+        setCheques(chequesRes.data.data || []);
+        setBankBalance(Number(balancesRes.data.bankBalance || 0));
+        setAccountBalances(balancesRes.data.bankAccounts || []);
+        setVendors(Array.isArray(vendorsRes.data) ? vendorsRes.data : []);
+      })
+      .catch((error: AxiosError<{ message?: string }>) => {
+        toast({
+          title: "Error",
+          description: error.response?.data?.message || "Failed to load issued cheques",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [getBusinessLineID, toast]);
+
+  useEffect(() => {
+    if (canManage) {
+      fetchData();
+    }
+  }, [canManage, fetchData]);
+
+  // Walk outstanding cheques in cheque-date order and deduct each from the
+  // balance of the account it is drawn on, so the first cheque that would
+  // bounce is visible. Cheques without an account draw on the combined balance.
+  const projection = useMemo(() => {
+    const outstanding = cheques
+      .filter(isOutstanding)
+      .sort((a, b) => new Date(a.ChequeDate).getTime() - new Date(b.ChequeDate).getTime());
+
+    const runningByAccount = new Map<string, number>();
+    const projectedById = new Map<number, number>();
+    let firstShortfall: IssuedCheque | null = null;
+
+    for (const cheque of outstanding) {
+      const accountKey = cheque.BankAccountID ? String(cheque.BankAccountID) : "all";
+      if (!runningByAccount.has(accountKey)) {
+        const account = accountBalances.find(
+          (balance) => String(balance.BankAccountID) === accountKey
+        );
+        runningByAccount.set(accountKey, account ? Number(account.Balance) : bankBalance ?? 0);
+      }
+      const running = (runningByAccount.get(accountKey) ?? 0) - Number(cheque.Amount);
+      runningByAccount.set(accountKey, running);
+      projectedById.set(cheque.IssuedChequeID, running);
+      if (running < 0 && !firstShortfall) {
+        firstShortfall = cheque;
+      }
+    }
+
+    const outstandingTotal = outstanding.reduce((sum, cheque) => sum + Number(cheque.Amount), 0);
+
+    return {
+      outstandingTotal,
+      outstandingCount: outstanding.length,
+      projectedBalance: (bankBalance ?? 0) - outstandingTotal,
+      projectedById,
+      firstShortfall,
+    };
+  }, [cheques, bankBalance, accountBalances]);
+
+  const visibleCheques = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return cheques
+      .filter((cheque) => {
+        if (statusFilter === "outstanding") return isOutstanding(cheque);
+        if (statusFilter !== "all") return cheque.Status === statusFilter;
+        return true;
+      })
+      .filter((cheque) => vendorFilter === "all" || String(cheque.VendorID) === vendorFilter)
+      .filter(
+        (cheque) =>
+          !term ||
+          cheque.ChequeNumber.toLowerCase().includes(term) ||
+          cheque.VendorName.toLowerCase().includes(term) ||
+          cheque.BankAccount.toLowerCase().includes(term)
+      )
+      .sort((a, b) => new Date(a.ChequeDate).getTime() - new Date(b.ChequeDate).getTime());
+  }, [cheques, statusFilter, vendorFilter, search]);
+
+  const openCreateDialog = () => {
+    setForm(emptyForm());
+    setDialogOpen(true);
+  };
+
+  const handleCreate = async () => {
+    const businessLineId = getBusinessLineID();
+    if (!businessLineId) return;
+
+    const amount = parseFloat(form.amount);
+    if (!form.chequeNumber.trim() || !form.bankAccountId || !form.vendorId) {
+      toast({
+        title: "Missing details",
+        description: "Cheque number, bank account and payee are required.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!form.chequeDate || !(amount > 0)) {
+      toast({
+        title: "Invalid cheque",
+        description: "Enter a valid cheque date and amount greater than zero.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await api.post("/issued-cheques", {
+        businessLineId,
+        chequeNumber: form.chequeNumber.trim(),
+        bankAccountId: Number(form.bankAccountId),
+        vendorId: Number(form.vendorId),
+        amount,
+        issueDate: form.issueDate,
+        chequeDate: form.chequeDate,
+        notes: form.notes.trim() || undefined,
+      });
+      toast({ title: "Cheque recorded", description: `Cheque #${form.chequeNumber.trim()} added to the register.` });
+      setDialogOpen(false);
+      await fetchData();
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message?: string }>;
+      toast({
+        title: "Error",
+        description: axiosError.response?.data?.message || "Failed to record cheque",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openStatusDialog = (cheque: IssuedCheque, status: IssuedChequeStatus) => {
+    setStatusDialog({
+      cheque,
+      status,
+      date: format(new Date(), "yyyy-MM-dd"),
+      reason: "",
+    });
+  };
+
+  const closeStatusDialog = () => {
+    setStatusDialog((prev) => ({ ...prev, cheque: null }));
+  };
+
+  const handleStatusUpdate = async () => {
+    const { cheque, status, date, reason } = statusDialog;
+    if (!cheque) return;
+
+    if (status === "STOPPED" && !reason.trim()) {
+      toast({
+        title: "Reason required",
+        description: "Enter why payment on this cheque was stopped.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setUpdatingStatus(true);
+    try {
+      await api.put(`/issued-cheques/${cheque.IssuedChequeID}/status`, {
+        businessLineId: getBusinessLineID(),
+        status,
+        date,
+        reason: status === "STOPPED" ? reason.trim() : undefined,
+      });
+      toast({
+        title: "Updated",
+        description: `Cheque #${cheque.ChequeNumber} marked ${status.toLowerCase()}.`,
+      });
+      closeStatusDialog();
+      await fetchData();
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message?: string }>;
+      toast({
+        title: "Error",
+        description: axiosError.response?.data?.message || "Failed to update cheque",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingStatus(false);
+    }
+  };
+
+  const renderActions = (cheque: IssuedCheque) => {
+    const nextStatuses: IssuedChequeStatus[] =
+      cheque.Status === "ISSUED"
+        ? ["PRESENTED", "CLEARED", "STOPPED"]
+        : cheque.Status === "PRESENTED"
+          ? ["CLEARED", "STOPPED"]
+          : [];
+
+    if (nextStatuses.length === 0) {
+      return <span className="text-xs text-muted-foreground">—</span>;
+    }
+
+    return (
+      <div className="flex justify-center gap-2">
+        {nextStatuses.map((status) => (
+          <Button
+            key={status}
+            variant={status === "STOPPED" ? "outline" : "default"}
+            size="sm"
+            className={status === "STOPPED" ? "hover:bg-red-50 hover:text-red-600" : ""}
+            onClick={() => openStatusDialog(cheque, status)}
+          >
+            {statusActionLabels[status]}
+          </Button>
+        ))}
+      </div>
+    );
+  };
+
+  if (!canManage) {
+    return null;
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="bg-gray-50 border-b border-gray-200 flex flex-row items-center justify-between gap-4">
+          <CardTitle className="text-xl font-semibold text-gray-800">Issued Cheques</CardTitle>
+          <Button size="sm" onClick={openCreateDialog}>
+            <Plus className="h-4 w-4 mr-1" />
+            Record Cheque
+          </Button>
+        </CardHeader>
+
+        <CardContent className="p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-sm text-muted-foreground">Bank Balance</div>
+                {loading || bankBalance === null ? (
+                  <Skeleton className="h-7 w-28 mt-1" />
+                ) : (
+                  <div className="text-2xl font-bold">{formatCurrency(bankBalance)}</div>
+                )}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-sm text-muted-foreground">
+                  Uncleared Cheques ({projection.outstandingCount})
+                </div>
+                {loading ? (
+                  <Skeleton className="h-7 w-28 mt-1" />
+                ) : (
+                  <div className="text-2xl font-bold text-red-600">
+                    {formatCurrency(projection.outstandingTotal)}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-sm text-muted-foreground">Projected Bank Balance</div>
+                {loading || bankBalance === null ? (
+                  <Skeleton className="h-7 w-28 mt-1" />
+                ) : (
+                  <div
+                    className={`text-2xl font-bold ${
+                      projection.projectedBalance < 0 ? "text-red-600" : "text-green-700"
+                    }`}
+                  >
+                    {formatCurrency(projection.projectedBalance)}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {!loading && projection.firstShortfall && (
+            <div className="flex items-start gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              <span>
+                Cheque #{projection.firstShortfall.ChequeNumber} to {projection.firstShortfall.VendorName} dated{" "}
+                {format(new Date(projection.firstShortfall.ChequeDate), "yyyy-MM-dd")} would overdraw{" "}
+                {projection.firstShortfall.BankAccountID ? projection.firstShortfall.BankAccount : "the bank account"}. Deposit funds or stop payment before it is presented.
+              </span>
+            </div>
+          )}
+
+          <div className="flex flex-col lg:flex-row gap-3 lg:items-center flex-wrap">
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue placeholder="Status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="outstanding">Uncleared</SelectItem>
+                <SelectItem value="all">All statuses</SelectItem>
+                <SelectItem value="ISSUED">Issued</SelectItem>
+                <SelectItem value="PRESENTED">Presented</SelectItem>
+                <SelectItem value="CLEARED">Cleared</SelectItem>
+                <SelectItem value="STOPPED">Stopped</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={vendorFilter} onValueChange={setVendorFilter}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Payee" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All payees</SelectItem>
+                {vendors.map((vendor) => (
+                  <SelectItem key={vendor.VendorID} value={String(vendor.VendorID)}>
+                    {vendor.VendorName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              className="w-full lg:w-64"
+              placeholder="Search cheque #, payee, account..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader className="bg-gray-50">
+                <TableRow>
+                  <TableHead className="font-bold text-black">Cheque Date</TableHead>
+                  <TableHead className="font-bold text-black">Cheque #</TableHead>
+                  <TableHead className="font-bold text-black">Bank Account</TableHead>
+                  <TableHead className="font-bold text-black">Payee</TableHead>
+                  <TableHead className="font-bold text-black">Invoice #</TableHead>
+                  <TableHead className="font-bold text-black">Status</TableHead>
+                  <TableHead className="font-bold text-black text-right">Amount</TableHead>
+                  <TableHead className="font-bold text-black text-right">Projected Balance</TableHead>
+                  <TableHead className="font-bold text-black text-center">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center py-6">
+                      Loading issued cheques...
+                    </TableCell>
+                  </TableRow>
+                ) : visibleCheques.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center py-6 text-muted-foreground">
+                      No issued cheques found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  visibleCheques.map((cheque) => {
+                    const projected = projection.projectedById.get(cheque.IssuedChequeID);
+                    return (
+                      <TableRow key={cheque.IssuedChequeID}>
+                        <TableCell>{format(new Date(cheque.ChequeDate), "yyyy-MM-dd")}</TableCell>
+                        <TableCell className="font-medium">{cheque.ChequeNumber}</TableCell>
+                        <TableCell>{cheque.BankAccount}</TableCell>
+                        <TableCell>{cheque.VendorName}</TableCell>
+                        <TableCell>{cheque.InvoiceNumber || "—"}</TableCell>
+                        <TableCell>
+                          <Badge className={statusStyles[cheque.Status]}>{cheque.Status}</Badge>
+                          {cheque.Status === "CLEARED" && cheque.ClearedDate && (
+                            <div className="text-xs text-muted-foreground mt-1">
+                              {format(new Date(cheque.ClearedDate), "yyyy-MM-dd")}
+                            </div>
+                          )}
+                          {cheque.Status === "STOPPED" && cheque.StopReason && (
+                            <div className="text-xs text-muted-foreground mt-1 max-w-[160px] truncate">
+                              {cheque.StopReason}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums font-medium">
+                          {formatCurrency(Number(cheque.Amount))}
+                        </TableCell>
+                        <TableCell
+                          className={`text-right tabular-nums ${
+                            projected !== undefined && projected < 0 ? "text-red-600 font-semibold" : ""
+                          }`}
+                        >
+                          {projected !== undefined ? formatCurrency(projected) : "—"}
+                        </TableCell>
+                        <TableCell className="text-center">{renderActions(cheque)}</TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Record Issued Cheque</DialogTitle>
+            <DialogDescription>
+              Add a cheque written to a vendor. Cheques issued from accounts payable settlements are recorded automatically.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 py-2">
+            <div>
+              <Label htmlFor="ic-number">Cheque Number</Label>
+              <Input
+                id="ic-number"
+                value={form.chequeNumber}
+                onChange={(e) => setForm((prev) => ({ ...prev, chequeNumber: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="ic-bank">Bank Account</Label>
+              <BankAccountSelect
+                id="ic-bank"
+                value={form.bankAccountId}
+                onValueChange={(value) => setForm((prev) => ({ ...prev, bankAccountId: value }))}
+                placeholder="Account the cheque is drawn on"
+              />
+            </div>
+            <div>
+              <Label>Payee</Label>
+              <Select
+                value={form.vendorId || undefined}
+                onValueChange={(value) => setForm((prev) => ({ ...prev, vendorId: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select vendor" />
+                </SelectTrigger>
+                <SelectContent>
+                  {vendors.map((vendor) => (
+                    <SelectItem key={vendor.VendorID} value={String(vendor.VendorID)}>
+                      {vendor.VendorName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="ic-amount">Amount (Rs.)</Label>
+              <Input
+                id="ic-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.amount}
+                onChange={(e) => setForm((prev) => ({ ...prev, amount: e.target.value }))}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="ic-issue-date">Issue Date</Label>
+                <Input
+                  id="ic-issue-date"
+                  type="date"
+                  value={form.issueDate}
+                  onChange={(e) => setForm((prev) => ({ ...prev, issueDate: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="ic-cheque-date">Cheque Date</Label>
+                <Input
+                  id="ic-cheque-date"
+                  type="date"
+                  value={form.chequeDate}
+                  onChange={(e) => setForm((prev) => ({ ...prev, chequeDate: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="ic-notes">Notes</Label>
+              <Textarea
+                id="ic-notes"
+                rows={2}
+                value={form.notes}
+                onChange={(e) => setForm((prev) => ({ ...prev, notes: e.target.value }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={saving}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={statusDialog.cheque !== null} onOpenChange={(open) => !open && closeStatusDialog()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{statusActionLabels[statusDialog.status]}</DialogTitle>
+            <DialogDescription>
+              {statusDialog.cheque && (
+                <>
+                  Cheque #{statusDialog.cheque.ChequeNumber} to {statusDialog.cheque.VendorName} for{" "}
+                  {formatCurrency(Number(statusDialog.cheque.Amount))}.
+                  {statusDialog.status === "CLEARED" &&
+                    " Clearing posts a bank OUT entry to the cashbook."}
+                  {statusDialog.status === "STOPPED" &&
+                    " The linked vendor credit is reopened for settlement."}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 py-2">
+            <div>
+              <Label htmlFor="ic-status-date">Date</Label>
+              <Input
+                id="ic-status-date"
+                type="date"
+                value={statusDialog.date}
+                onChange={(e) => setStatusDialog((prev) => ({ ...prev, date: e.target.value }))}
+              />
+            </div>
+            {statusDialog.status === "STOPPED" && (
+              <div>
+                <Label htmlFor="ic-stop-reason">Reason</Label>
+                <Textarea
+                  id="ic-stop-reason"
+                  rows={2}
+                  value={statusDialog.reason}
+                  onChange={(e) => setStatusDialog((prev) => ({ ...prev, reason: e.target.value }))}
+                  placeholder="e.g. Lost in transit"
+                />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeStatusDialog} disabled={updatingStatus}>
+              Cancel
+            </Button>
+            <Button
+              variant={statusDialog.status === "STOPPED" ? "destructive" : "default"}
+              onClick={handleStatusUpdate}
+              disabled={updatingStatus || !statusDialog.date}
+            >
+              {updatingStatus ? "Saving..." : "Confirm"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
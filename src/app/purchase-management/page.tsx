@@ -10,6 +10,7 @@ import axios from "@/lib/api/axios";
 import { isAxiosError } from "axios";
 import { toast } from "@/hooks/use-toast";
 import VendorProductsTable from "@/components/PurchaseTable";
+import LocationSelect from "@/components/LocationSelect";
 import { formatMetricTons } from '@/lib/formatMetricTons';
 
 const formatDateForBackend = (date: Date) => {
@@ -36,6 +37,7 @@ export default function PurchaseManagementPage() {
   const { getBusinessLineID } = useAuth();  
   const [invoiceDate, setInvoiceDate] = useState<Date>(new Date());
   const [invoiceNumber, setInvoiceNumber] = useState("");
+  const [locationId, setLocationId] = useState("");
   const [totalMetricTons, setTotalMetricTons] = useState<number | null>(null);
 
   useEffect(() => {
@@ -187,6 +189,12 @@ export default function PurchaseManagementPage() {
             value={invoiceNumber}
             onChange={(e) => setInvoiceNumber(e.target.value)}
           />
+
+          <LocationSelect
+            value={locationId}
+            onValueChange={setLocationId}
+            placeholder="Receive into location"
+          />
         </div>
 
         <div className="ml-1">
@@ -194,6 +202,7 @@ export default function PurchaseManagementPage() {
             vendorId={selectedVendor} 
             invoiceNumber={invoiceNumber}
             invoiceDate={invoiceDate}
+            locationId={locationId}
             onPurchaseSuccess={fetchTotalMetricTons}
           />
         </div>       
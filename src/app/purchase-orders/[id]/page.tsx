@@ -0,0 +1,547 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { format } from "date-fns";
+import { ChevronLeft, FileDown, PackageCheck, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { DatePicker } from "@/components/ui/date-picker";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import LocationSelect from "@/components/LocationSelect";
+import PurchasePaymentDetails from "@/components/PurchasePayments";
+import { useAuth } from "@/app/auth/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import api from "@/lib/api/axios";
+import { AxiosError } from "axios";
+import { fetchBusinessLineName } from "@/lib/invoicePdf";
+import {
+  PO_STATUS_LABELS,
+  canConvertToInvoice,
+  canReceive,
+  generatePurchaseOrderPDF,
+  orderTotal,
+  outstandingQuantity,
+  receivedQuantity,
+  receivedTotal,
+} from "@/lib/purchaseOrders";
+import { PurchaseOrder } from "@/types/purchaseOrder";
+
+const emptyReceipt = () => ({
+  receivedDate: format(new Date(), "yyyy-MM-dd"),
+  locationId: "",
+  notes: "",
+  quantities: {} as Record<number, string>,
+});
+
+const formatCurrency = (value: number) =>
+  `Rs. ${Number(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export default function PurchaseOrderDetailsPage() {
+  const { id } = useParams();
+  const { user, getBusinessLineID } = useAuth();
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const canManage = ["superuser", "admin", "management"].includes(user?.userType || "");
+
+  const [order, setOrder] = useState<PurchaseOrder | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [actionPending, setActionPending] = useState(false);
+
+  const [receiptOpen, setReceiptOpen] = useState(false);
+  const [receipt, setReceipt] = useState(emptyReceipt);
+
+  const [invoiceOpen, setInvoiceOpen] = useState(false);
+  const [invoiceNumber, setInvoiceNumber] = useState("");
+  const [invoiceDate, setInvoiceDate] = useState<Date>(new Date());
+
+  useEffect(() => {
+    if (user && !canManage) {
+      router.push("/dashboard");
+    }
+  }, [user, canManage, router]);
+
+  const fetchOrder = useCallback(
+    () =>
+      api
+        .get(`/purchase-orders/${id}`)
+        .then((response) => setOrder(response.data.data || null))
+        .catch((error: AxiosError<{ message?: string }>) => {
+          toast({
+            title: "Error",
+            description: error.response?.data?.message || "Failed to load purchase order",
+            variant: "destructive",
+          });
+        })
+        .finally(() => setLoading(false)),
+    [id, toast]
+  );
+
+  useEffect(() => {
+    if (canManage) {
+      fetchOrder();
+    }
+  }, [canManage, fetchOrder]);
+
+  const downloadPdf = async (current: PurchaseOrder) => {
+    const businessLineName = await fetchBusinessLineName(getBusinessLineID());
+    generatePurchaseOrderPDF(current, businessLineName);
+  };
+
+  const runAction = async (action: "send" | "cancel") => {
+    if (!order) return;
+
+    setActionPending(true);
+    try {
+      const response = await api.post(`/purchase-orders/${order.PurchaseOrderID}/${action}`);
+      const updated = (response.data?.data as PurchaseOrder | undefined) || order;
+      if (action === "send") {
+        // The PDF is what goes to the vendor, so it is produced as the order is sent
+        await downloadPdf(updated);
+        toast({ title: "Purchase order sent", description: `${order.PONumber} is now awaiting delivery.` });
+      } else {
+        toast({ title: "Purchase order cancelled", description: `${order.PONumber} was cancelled.` });
+      }
+      await fetchOrder();
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message?: string }>;
+      toast({
+        title: "Error",
+        description: axiosError.response?.data?.message || `Failed to ${action} purchase order`,
+        variant: "destructive",
+      });
+    } finally {
+      setActionPending(false);
+    }
+  };
+
+  const openReceiptDialog = () => {
+    if (!order) return;
+    setReceipt({
+      ...emptyReceipt(),
+      quantities: Object.fromEntries(
+        order.items.map((item) => [item.PurchaseOrderItemID, String(outstandingQuantity(item))])
+      ),
+    });
+    setReceiptOpen(true);
+  };
+
+  const handleReceive = async () => {
+    if (!order) return;
+
+    const items = order.items
+      .map((item) => ({
+        purchaseOrderItemId: item.PurchaseOrderItemID,
+        quantity: Number(receipt.quantities[item.PurchaseOrderItemID] || 0),
+        outstanding: outstandingQuantity(item),
+        name: item.ProductName,
+      }))
+      .filter((item) => item.quantity > 0);
+
+    if (items.length === 0) {
+      toast({
+        title: "Nothing received",
+        description: "Enter a quantity for at least one line.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const overReceived = items.find((item) => item.quantity > item.outstanding);
+    if (overReceived) {
+      toast({
+        title: "Too many received",
+        description: `Only ${overReceived.outstanding} of ${overReceived.name} is outstanding on this order.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setActionPending(true);
+    try {
+      const response = await api.post(`/purchase-orders/${order.PurchaseOrderID}/receipts`, {
+        businessLineId: getBusinessLineID(),
+        receivedDate: receipt.receivedDate,
+        // Without a location the server receives into the default one
+        locationId: receipt.locationId ? Number(receipt.locationId) : undefined,
+        notes: receipt.notes.trim() || undefined,
+        items: items.map(({ purchaseOrderItemId, quantity }) => ({ purchaseOrderItemId, quantity })),
+      });
+      toast({
+        title: "Goods received",
+        description: `${response.data?.data?.GRNNumber || "Goods-received note"} added to stock.`,
+      });
+      setReceiptOpen(false);
+      await fetchOrder();
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message?: string }>;
+      toast({
+        title: "Error",
+        description: axiosError.response?.data?.message || "Failed to record goods received",
+        variant: "destructive",
+      });
+    } finally {
+      setActionPending(false);
+    }
+  };
+
+  const openInvoiceDialog = () => {
+    setInvoiceNumber("");
+    setInvoiceDate(new Date());
+    setInvoiceOpen(true);
+  };
+
+  if (!canManage) {
+    return null;
+  }
+
+  if (loading && !order) {
+    return <div className="p-4">Loading purchase order...</div>;
+  }
+
+  if (!order) {
+    return <div className="p-4">Purchase order not found</div>;
+  }
+
+  const receipts = order.receipts || [];
+  const invoiceItems = order.items
+    .filter((item) => receivedQuantity(item) > 0)
+    .map((item) => ({
+      ProductID: item.ProductID,
+      item: item.ProductName,
+      quantity: receivedQuantity(item),
+      unitPrice: Number(item.UnitPrice),
+      total: receivedQuantity(item) * Number(item.UnitPrice),
+    }));
+  const hasOutstanding = order.items.some((item) => outstandingQuantity(item) > 0);
+  const hasReceipts = order.items.some((item) => receivedQuantity(item) > 0);
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="bg-gray-50 border-b border-gray-200 flex flex-row items-center justify-between gap-4">
+          <CardTitle className="text-xl font-semibold text-gray-800">
+            Purchase Order {order.PONumber}
+            <Badge variant="outline" className="ml-3 align-middle">
+              {PO_STATUS_LABELS[order.Status]}
+            </Badge>
+            {!!order.PurchaseID && (
+              <Badge variant="secondary" className="ml-2 align-middle">
+                Invoiced {order.InvoiceNumber}
+              </Badge>
+            )}
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={() => router.push("/purchase-orders")}>
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Back to Purchase Orders
+          </Button>
+        </CardHeader>
+
+        <CardContent className="p-4 space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 rounded-lg border border-gray-100 p-4">
+            <div>
+              <p className="text-sm text-gray-500">Vendor</p>
+              <p className="font-medium text-gray-800">{order.VendorName}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-500">Order Date</p>
+              <p className="font-medium text-gray-800">{order.OrderDate.slice(0, 10)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-500">Expected</p>
+              <p className="font-medium text-gray-800">
+                {order.ExpectedDate ? order.ExpectedDate.slice(0, 10) : "—"}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-500">Created By</p>
+              <p className="font-medium text-gray-800">{order.CreatedByName || "—"}</p>
+            </div>
+            {order.Notes && (
+              <div className="col-span-2 md:col-span-4">
+                <p className="text-sm text-gray-500">Notes</p>
+                <p className="text-gray-800">{order.Notes}</p>
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={() => downloadPdf(order)}>
+              <FileDown className="h-4 w-4 mr-1" />
+              Download PDF
+            </Button>
+            {order.Status === "DRAFT" && (
+              <Button size="sm" onClick={() => runAction("send")} disabled={actionPending}>
+                <Send className="h-4 w-4 mr-1" />
+                Send to Vendor
+              </Button>
+            )}
+            {canReceive(order) && (
+              <Button size="sm" onClick={openReceiptDialog} disabled={actionPending}>
+                <PackageCheck className="h-4 w-4 mr-1" />
+                Receive Goods
+              </Button>
+            )}
+            {canConvertToInvoice(order) && (
+              <Button size="sm" variant="secondary" onClick={openInvoiceDialog} disabled={actionPending}>
+                Convert to Invoice
+              </Button>
+            )}
+            {(order.Status === "DRAFT" || order.Status === "SENT") && !hasReceipts && (
+              <Button variant="destructive" size="sm" onClick={() => runAction("cancel")} disabled={actionPending}>
+                Cancel Order
+              </Button>
+            )}
+          </div>
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader className="bg-gray-50">
+                <TableRow>
+                  <TableHead className="font-bold text-black">Item</TableHead>
+                  <TableHead className="font-bold text-black text-right">Ordered</TableHead>
+                  <TableHead className="font-bold text-black text-right">Received</TableHead>
+                  <TableHead className="font-bold text-black text-right">Outstanding</TableHead>
+                  <TableHead className="font-bold text-black text-right">Unit Price</TableHead>
+                  <TableHead className="font-bold text-black text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {order.items.map((item) => (
+                  <TableRow key={item.PurchaseOrderItemID}>
+                    <TableCell className="font-medium">{item.ProductName}</TableCell>
+                    <TableCell className="text-right">{Number(item.Quantity)}</TableCell>
+                    <TableCell className="text-right">{receivedQuantity(item)}</TableCell>
+                    <TableCell className="text-right">
+                      {outstandingQuantity(item) > 0 && !order.PurchaseID && order.Status !== "CANCELLED" ? (
+                        <span className="font-medium text-amber-600">{outstandingQuantity(item)}</span>
+                      ) : (
+                        outstandingQuantity(item)
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(item.UnitPrice)}</TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(Number(item.Quantity) * Number(item.UnitPrice))}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="bg-gray-50 font-semibold">
+                  <TableCell colSpan={5} className="text-right">
+                    Received {formatCurrency(receivedTotal(order))} of
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(orderTotal(order))}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="font-semibold text-gray-800">Goods Received Notes</h3>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader className="bg-gray-50">
+                  <TableRow>
+                    <TableHead className="font-bold text-black">GRN No</TableHead>
+                    <TableHead className="font-bold text-black">Date</TableHead>
+                    <TableHead className="font-bold text-black">Location</TableHead>
+                    <TableHead className="font-bold text-black">Items</TableHead>
+                    <TableHead className="font-bold text-black">Received By</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {receipts.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-6 text-muted-foreground">
+                        Nothing received against this order yet.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    receipts.map((grn) => (
+                      <TableRow key={grn.GoodsReceiptID}>
+                        <TableCell className="font-medium">{grn.GRNNumber}</TableCell>
+                        <TableCell>{grn.ReceivedDate.slice(0, 10)}</TableCell>
+                        <TableCell>{grn.LocationName || "—"}</TableCell>
+                        <TableCell>
+                          {grn.items.map((item) => `${item.ProductName} × ${Number(item.Quantity)}`).join(", ")}
+                          {grn.Notes && <div className="text-xs text-muted-foreground">{grn.Notes}</div>}
+                        </TableCell>
+                        <TableCell>{grn.ReceivedByName || "—"}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={receiptOpen} onOpenChange={setReceiptOpen}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Receive Goods</DialogTitle>
+            <DialogDescription>
+              Record what arrived. Only the quantities entered here are added to stock; the rest stays outstanding.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 py-2">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="grn-date">Received date</Label>
+                <Input
+                  id="grn-date"
+                  type="date"
+                  value={receipt.receivedDate}
+                  onChange={(e) => setReceipt((prev) => ({ ...prev, receivedDate: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="grn-location">Location</Label>
+                <LocationSelect
+                  id="grn-location"
+                  value={receipt.locationId}
+                  onValueChange={(value) => setReceipt((prev) => ({ ...prev, locationId: value }))}
+                  placeholder="Receive into location"
+                />
+              </div>
+            </div>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader className="bg-gray-50">
+                  <TableRow>
+                    <TableHead className="font-bold text-black">Item</TableHead>
+                    <TableHead className="font-bold text-black text-right">Outstanding</TableHead>
+                    <TableHead className="font-bold text-black w-32">Received Now</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {order.items
+                    .filter((item) => outstandingQuantity(item) > 0)
+                    .map((item) => (
+                      <TableRow key={item.PurchaseOrderItemID}>
+                        <TableCell className="font-medium">{item.ProductName}</TableCell>
+                        <TableCell className="text-right">{outstandingQuantity(item)}</TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="0"
+                            max={outstandingQuantity(item)}
+                            className="h-8"
+                            value={receipt.quantities[item.PurchaseOrderItemID] ?? ""}
+                            onChange={(e) =>
+                              setReceipt((prev) => ({
+                                ...prev,
+                                quantities: { ...prev.quantities, [item.PurchaseOrderItemID]: e.target.value },
+                              }))
+                            }
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                </TableBody>
+              </Table>
+            </div>
+            <div>
+              <Label htmlFor="grn-notes">Notes</Label>
+              <Textarea
+                id="grn-notes"
+                value={receipt.notes}
+                onChange={(e) => setReceipt((prev) => ({ ...prev, notes: e.target.value }))}
+                placeholder="Delivery note number, vehicle, condition of goods"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReceiptOpen(false)} disabled={actionPending}>
+              Cancel
+            </Button>
+            <Button onClick={handleReceive} disabled={actionPending}>
+              {actionPending ? "Saving..." : "Record Receipt"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={invoiceOpen} onOpenChange={setInvoiceOpen}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Convert to Purchase Invoice</DialogTitle>
+            <DialogDescription>
+              The invoice bills the received quantities at the order prices. Stock is not added again.
+              {hasOutstanding && " Quantities still outstanding will be closed on this order."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 py-2">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="po-invoice-number">Vendor invoice number</Label>
+                <Input
+                  id="po-invoice-number"
+                  value={invoiceNumber}
+                  onChange={(e) => setInvoiceNumber(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label>Invoice date</Label>
+                <DatePicker selectedDate={invoiceDate} onDateChange={setInvoiceDate} />
+              </div>
+            </div>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader className="bg-gray-50">
+                  <TableRow>
+                    <TableHead className="font-bold text-black">Item</TableHead>
+                    <TableHead className="font-bold text-black text-right">Quantity</TableHead>
+                    <TableHead className="font-bold text-black text-right">Unit Price</TableHead>
+                    <TableHead className="font-bold text-black text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {invoiceItems.map((item) => (
+                    <TableRow key={item.ProductID}>
+                      <TableCell className="font-medium">{item.item}</TableCell>
+                      <TableCell className="text-right">{item.quantity}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(item.unitPrice)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(item.total)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <PurchasePaymentDetails
+              total={receivedTotal(order)}
+              items={invoiceItems}
+              vendorID={order.VendorID}
+              invoiceNumber={invoiceNumber}
+              invoiceDate={invoiceDate}
+              purchaseOrderId={order.PurchaseOrderID}
+              onSuccess={() => {
+                setInvoiceOpen(false);
+                fetchOrder();
+              }}
+            />
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,511 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import { Eye, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/app/auth/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import api from "@/lib/api/axios";
+import { AxiosError } from "axios";
+import { PurchaseOrder, PurchaseOrderStatus } from "@/types/purchaseOrder";
+import { PO_STATUS_LABELS, orderTotal, outstandingLines, receivedQuantity } from "@/lib/purchaseOrders";
+
+interface Vendor {
+  VendorID: number;
+  VendorName: string;
+}
+
+interface VendorProduct {
+  ProductID: number;
+  Name: string;
+  LastPurchasePrice: number;
+}
+
+interface LineEntry {
+  quantity: string;
+  unitPrice: string;
+}
+
+const emptyForm = () => ({
+  vendorId: "",
+  expectedDate: "",
+  notes: "",
+});
+
+const statusVariant = (status: PurchaseOrderStatus) => {
+  if (status === "RECEIVED") return "default" as const;
+  if (status === "CANCELLED") return "destructive" as const;
+  if (status === "DRAFT") return "secondary" as const;
+  return "outline" as const;
+};
+
+const formatCurrency = (value: number) =>
+  `Rs. ${Number(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export default function PurchaseOrdersPage() {
+  const { user, getBusinessLineID } = useAuth();
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const canManage = ["superuser", "admin", "management"].includes(user?.userType || "");
+
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [vendorProducts, setVendorProducts] = useState<VendorProduct[]>([]);
+  const [lines, setLines] = useState<Record<number, LineEntry>>({});
+  const [loadingProducts, setLoadingProducts] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (user && !canManage) {
+      router.push("/dashboard");
+    }
+  }, [user, canManage, router]);
+
+  const fetchOrders = useCallback(() => {
+    const businessLineId = getBusinessLineID();
+    if (!businessLineId) return Promise.resolve();
+
+    return api
+      .get("/purchase-orders", { params: { businessLineId } })
+      .then((response) => setOrders(response.data.data || []))
+      .catch((error: AxiosError<{ message?: string }>) => {
+        toast({
+          title: "Error",
+          description: error.response?.data?.message || "Failed to load purchase orders",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [getBusinessLineID, toast]);
+
+  const fetchVendors = useCallback(() => {
+    const businessLineId = getBusinessLineID();
+    if (!businessLineId) return Promise.resolve();
+
+    return api
+      .get("/vendors", { params: { businessLineId } })
+      .then((response) => setVendors(Array.isArray(response.data) ? response.data : []))
+      .catch((error) => console.error("Error fetching vendors:", error));
+  }, [getBusinessLineID]);
+
+  useEffect(() => {
+    if (canManage) {
+      fetchOrders();
+      fetchVendors();
+    }
+  }, [canManage, fetchOrders, fetchVendors]);
+
+  const openLines = useMemo(() => outstandingLines(orders), [orders]);
+
+  const openCreateDialog = () => {
+    setForm(emptyForm());
+    setVendorProducts([]);
+    setLines({});
+    setDialogOpen(true);
+  };
+
+  const handleVendorChange = async (vendorId: string) => {
+    setForm((prev) => ({ ...prev, vendorId }));
+    setLines({});
+    setLoadingProducts(true);
+    try {
+      const response = await api.get(`/vendors/${vendorId}/products`);
+      setVendorProducts(Array.isArray(response.data) ? response.data : []);
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message?: string }>;
+      toast({
+        title: "Error",
+        description: axiosError.response?.data?.message || "Failed to load vendor products",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingProducts(false);
+    }
+  };
+
+  const updateLine = (product: VendorProduct, changes: Partial<LineEntry>) => {
+    setLines((prev) => {
+      const current = prev[product.ProductID] || {
+        quantity: "",
+        unitPrice: Number(product.LastPurchasePrice) > 0 ? String(product.LastPurchasePrice) : "",
+      };
+      return { ...prev, [product.ProductID]: { ...current, ...changes } };
+    });
+  };
+
+  const selectedLines = Object.entries(lines)
+    .filter(([, line]) => Number(line.quantity) > 0)
+    .map(([productId, line]) => ({
+      productId: Number(productId),
+      quantity: Number(line.quantity),
+      unitPrice: Number(line.unitPrice || 0),
+    }));
+
+  const draftTotal = selectedLines.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0);
+
+  const handleCreate = async () => {
+    const businessLineId = getBusinessLineID();
+    if (!businessLineId) return;
+
+    if (!form.vendorId || selectedLines.length === 0) {
+      toast({
+        title: "Nothing to order",
+        description: "Choose a vendor and enter a quantity for at least one item.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await api.post("/purchase-orders", {
+        businessLineId,
+        vendorId: Number(form.vendorId),
+        status: "DRAFT",
+        orderDate: format(new Date(), "yyyy-MM-dd"),
+        expectedDate: form.expectedDate || undefined,
+        notes: form.notes.trim() || undefined,
+        items: selectedLines,
+      });
+      const created = response.data?.data as PurchaseOrder | undefined;
+      toast({ title: "Purchase order created", description: `${created?.PONumber || "Draft"} saved as a draft.` });
+      setDialogOpen(false);
+      if (created?.PurchaseOrderID) {
+        router.push(`/purchase-orders/${created.PurchaseOrderID}`);
+      } else {
+        await fetchOrders();
+      }
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message?: string }>;
+      toast({
+        title: "Error",
+        description: axiosError.response?.data?.message || "Failed to create purchase order",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderOrders = (rows: PurchaseOrder[], emptyText: string) => (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader className="bg-gray-50">
+          <TableRow>
+            <TableHead className="font-bold text-black">PO No</TableHead>
+            <TableHead className="font-bold text-black">Vendor</TableHead>
+            <TableHead className="font-bold text-black">Order Date</TableHead>
+            <TableHead className="font-bold text-black">Expected</TableHead>
+            <TableHead className="font-bold text-black">Status</TableHead>
+            <TableHead className="font-bold text-black text-right">Received</TableHead>
+            <TableHead className="font-bold text-black text-right">Total</TableHead>
+            <TableHead className="font-bold text-black text-center">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {loading ? (
+            <TableRow>
+              <TableCell colSpan={8} className="text-center py-6">
+                Loading purchase orders...
+              </TableCell>
+            </TableRow>
+          ) : rows.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={8} className="text-center py-6 text-muted-foreground">
+                {emptyText}
+              </TableCell>
+            </TableRow>
+          ) : (
+            rows.map((order) => {
+              const ordered = order.items.reduce((sum, item) => sum + Number(item.Quantity), 0);
+              const received = order.items.reduce((sum, item) => sum + receivedQuantity(item), 0);
+              return (
+                <TableRow key={order.PurchaseOrderID}>
+                  <TableCell className="font-medium">{order.PONumber}</TableCell>
+                  <TableCell>{order.VendorName}</TableCell>
+                  <TableCell>{order.OrderDate.slice(0, 10)}</TableCell>
+                  <TableCell>{order.ExpectedDate ? order.ExpectedDate.slice(0, 10) : "—"}</TableCell>
+                  <TableCell>
+                    <Badge variant={statusVariant(order.Status)}>{PO_STATUS_LABELS[order.Status]}</Badge>
+                    {!!order.PurchaseID && (
+                      <Badge variant="outline" className="ml-2">
+                        Invoiced
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {received} / {ordered}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(orderTotal(order))}</TableCell>
+                  <TableCell className="text-center">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => router.push(`/purchase-orders/${order.PurchaseOrderID}`)}
+                    >
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+
+  if (!canManage) {
+    return null;
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="bg-gray-50 border-b border-gray-200 flex flex-row items-center justify-between gap-4">
+          <CardTitle className="text-xl font-semibold text-gray-800">Purchase Orders</CardTitle>
+          <Button size="sm" onClick={openCreateDialog}>
+            <Plus className="h-4 w-4 mr-1" />
+            New Purchase Order
+          </Button>
+        </CardHeader>
+
+        <CardContent className="p-4">
+          <Tabs defaultValue="open">
+            <TabsList>
+              <TabsTrigger value="open">Open</TabsTrigger>
+              <TabsTrigger value="outstanding">
+                Outstanding Lines
+                {openLines.length > 0 && (
+                  <Badge variant="secondary" className="ml-2">
+                    {openLines.length}
+                  </Badge>
+                )}
+              </TabsTrigger>
+              <TabsTrigger value="all">All</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="open" className="mt-4">
+              {renderOrders(
+                orders.filter((order) => !order.PurchaseID && !["RECEIVED", "CANCELLED"].includes(order.Status)),
+                "No open purchase orders."
+              )}
+            </TabsContent>
+
+            <TabsContent value="outstanding" className="mt-4">
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader className="bg-gray-50">
+                    <TableRow>
+                      <TableHead className="font-bold text-black">PO No</TableHead>
+                      <TableHead className="font-bold text-black">Vendor</TableHead>
+                      <TableHead className="font-bold text-black">Item</TableHead>
+                      <TableHead className="font-bold text-black">Expected</TableHead>
+                      <TableHead className="font-bold text-black text-right">Ordered</TableHead>
+                      <TableHead className="font-bold text-black text-right">Received</TableHead>
+                      <TableHead className="font-bold text-black text-right">Outstanding</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {loading ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center py-6">
+                          Loading purchase orders...
+                        </TableCell>
+                      </TableRow>
+                    ) : openLines.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center py-6 text-muted-foreground">
+                          Everything ordered has been received.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      openLines.map(({ order, item, outstanding }) => (
+                        <TableRow
+                          key={item.PurchaseOrderItemID}
+                          className="cursor-pointer"
+                          onClick={() => router.push(`/purchase-orders/${order.PurchaseOrderID}`)}
+                        >
+                          <TableCell className="font-medium">{order.PONumber}</TableCell>
+                          <TableCell>{order.VendorName}</TableCell>
+                          <TableCell>{item.ProductName}</TableCell>
+                          <TableCell>{order.ExpectedDate ? order.ExpectedDate.slice(0, 10) : "—"}</TableCell>
+                          <TableCell className="text-right">{Number(item.Quantity)}</TableCell>
+                          <TableCell className="text-right">{receivedQuantity(item)}</TableCell>
+                          <TableCell className="text-right font-medium">{outstanding}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="all" className="mt-4">
+              {renderOrders(orders, "No purchase orders yet.")}
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>New Purchase Order</DialogTitle>
+            <DialogDescription>
+              Orders are saved as drafts. Stock only changes when goods are received against the order.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 py-2">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Vendor</Label>
+                <Select value={form.vendorId} onValueChange={handleVendorChange}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select vendor" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {vendors.map((vendor) => (
+                      <SelectItem key={vendor.VendorID} value={String(vendor.VendorID)}>
+                        {vendor.VendorName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="po-expected">Expected delivery</Label>
+                <Input
+                  id="po-expected"
+                  type="date"
+                  value={form.expectedDate}
+                  onChange={(e) => setForm((prev) => ({ ...prev, expectedDate: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            {form.vendorId && (
+              <div className="rounded-md border max-h-80 overflow-y-auto">
+                <Table>
+                  <TableHeader className="bg-gray-50">
+                    <TableRow>
+                      <TableHead className="font-bold text-black">Item</TableHead>
+                      <TableHead className="font-bold text-black text-right">Last Price</TableHead>
+                      <TableHead className="font-bold text-black w-28">Quantity</TableHead>
+                      <TableHead className="font-bold text-black w-32">Unit Price</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {loadingProducts ? (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center py-6">
+                          Loading products...
+                        </TableCell>
+                      </TableRow>
+                    ) : vendorProducts.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center py-6 text-muted-foreground">
+                          No items are linked to this vendor.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      vendorProducts.map((product) => (
+                        <TableRow key={product.ProductID}>
+                          <TableCell className="font-medium">{product.Name}</TableCell>
+                          <TableCell className="text-right">
+                            {Number(product.LastPurchasePrice) > 0
+                              ? formatCurrency(product.LastPurchasePrice)
+                              : "—"}
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              className="h-8"
+                              value={lines[product.ProductID]?.quantity ?? ""}
+                              onChange={(e) => updateLine(product, { quantity: e.target.value })}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              className="h-8"
+                              value={lines[product.ProductID]?.unitPrice ?? ""}
+                              placeholder={
+                                Number(product.LastPurchasePrice) > 0
+                                  ? Number(product.LastPurchasePrice).toFixed(2)
+                                  : "0.00"
+                              }
+                              onChange={(e) => updateLine(product, { unitPrice: e.target.value })}
+                            />
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="po-notes">Notes</Label>
+              <Textarea
+                id="po-notes"
+                value={form.notes}
+                onChange={(e) => setForm((prev) => ({ ...prev, notes: e.target.value }))}
+                placeholder="Printed on the purchase order"
+              />
+            </div>
+            <div className="text-right text-sm font-medium">Order total: {formatCurrency(draftTotal)}</div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={saving || selectedLines.length === 0}>
+              {saving ? "Saving..." : "Save Draft"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
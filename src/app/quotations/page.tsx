@@ -0,0 +1,79 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import InvoiceTable from "@/components/InvoiceTable";
+import CustomerQuotations from "@/components/CustomerQuotations";
+import SearchableCustomerSelect from "@/components/SearchableCustomerSelect";
+import SearchableSalesPersonSelect from "@/components/SearchableSalesPerson";
+import { Customer } from "@/types/customer";
+
+export default function QuotationsPage() {
+  const [selectedCustomer, setSelectedCustomer] = useState<string>("");
+  const [selectedCustomerId, setSelectedCustomerId] = useState<number | undefined>();
+  const [selectedSalesPerson, setSelectedSalesPerson] = useState<string>("");
+  const [selectedSalesPersonId, setSelectedSalesPersonId] = useState<number | undefined>();
+  const [activeTab, setActiveTab] = useState("new");
+  // Bumped after a quote is saved so the list reloads
+  const [savedCount, setSavedCount] = useState(0);
+
+  const handleCustomerSelect = (customer: Customer) => {
+    setSelectedCustomerId(customer.CustomerID);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="bg-gray-50 border-b border-gray-200 flex flex-row items-center justify-between">
+        <CardTitle className="text-xl whitespace-nowrap font-semibold text-gray-800">Quotations</CardTitle>
+      </CardHeader>
+
+      <div className="flex flex-col gap-1 ml-1 mt-1 mb-1">
+        <SearchableCustomerSelect
+          value={selectedCustomer}
+          onChange={(value, customerId) => {
+            setSelectedCustomer(value);
+            if (!customerId) {
+              setSelectedCustomerId(undefined);
+            }
+          }}
+          onSelectCustomer={handleCustomerSelect}
+        />
+        <SearchableSalesPersonSelect
+          value={selectedSalesPerson}
+          onChange={(value, salesPersonId) => {
+            setSelectedSalesPerson(value);
+            setSelectedSalesPersonId(salesPersonId);
+          }}
+        />
+      </div>
+
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+        <TabsList className="ml-1">
+          <TabsTrigger value="new">New Quotation</TabsTrigger>
+          <TabsTrigger value="list">
+            {selectedCustomerId ? `${selectedCustomer}'s Quotations` : "All Quotations"}
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="new" className="ml-1">
+          <InvoiceTable
+            mode="quotation"
+            customerId={selectedCustomerId}
+            customerName={selectedCustomer}
+            salesPersonId={selectedSalesPersonId}
+            salesPerson={selectedSalesPerson}
+            onQuotationSaved={() => {
+              setSavedCount((count) => count + 1);
+              setActiveTab("list");
+            }}
+          />
+        </TabsContent>
+
+        <TabsContent value="list">
+          <CustomerQuotations key={savedCount} customerId={selectedCustomerId} />
+        </TabsContent>
+      </Tabs>
+    </Card>
+  );
+}
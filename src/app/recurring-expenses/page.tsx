@@ -0,0 +1,532 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { useRouter } from "next/navigation";
+import { Edit, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/app/auth/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import api from "@/lib/api/axios";
+import { AxiosError } from "axios";
+import BankAccountSelect from "@/components/BankAccountSelect";
+import { bankAccountLabel } from "@/lib/bankAccounts";
+import { nextDueDate, scheduleLabel, WEEKDAY_NAMES } from "@/lib/recurringExpenses";
+import { RecurringExpense, RecurringFrequency } from "@/types/recurringExpense";
+
+interface ExpenseCategory {
+  ExpenseCategoryID: number;
+  Name: string;
+}
+
+const formatCurrency = (amount: number) =>
+  `Rs. ${Number(amount).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const emptyForm = () => ({
+  name: "",
+  amount: "",
+  expenseCategoryId: "",
+  accountType: "CASH" as "CASH" | "BANK",
+  bankAccountId: "",
+  frequency: "MONTHLY" as RecurringFrequency,
+  dayOfMonth: "1",
+  dayOfWeek: "1",
+  startDate: format(new Date(), "yyyy-MM-dd"),
+  endDate: "",
+  description: "",
+});
+
+export default function RecurringExpensesPage() {
+  const { user, getBusinessLineID } = useAuth();
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const canManage = ["superuser", "admin", "management"].includes(user?.userType || "");
+
+  const [templates, setTemplates] = useState<RecurringExpense[]>([]);
+  const [expenseCategories, setExpenseCategories] = useState<ExpenseCategory[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<RecurringExpense | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [togglingId, setTogglingId] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (user && !canManage) {
+      router.push("/dashboard");
+    }
+  }, [user, canManage, router]);
+
+  const fetchTemplates = useCallback(() => {
+    const businessLineId = getBusinessLineID();
+    if (!businessLineId) return Promise.resolve();
+
+    return Promise.all([
+      api.get("/recurring-expenses", { params: { businessLineId } }),
+      api.get("/cashbook/expense-categories", { params: { businessLineId } }),
+    ])
+      .then(([templatesRes, categoriesRes]) => {
+        setTemplates(templatesRes.data.data || []);
+        setExpenseCategories(categoriesRes.data.data || []);
+      })
+      .catch((error: AxiosError<{ message?: string }>) => {
+        toast({
+          title: "Error",
+          description: error.response?.data?.message || "Failed to load recurring expenses",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [getBusinessLineID, toast]);
+
+  useEffect(() => {
+    if (canManage) {
+      fetchTemplates();
+    }
+  }, [canManage, fetchTemplates]);
+
+  const openCreateDialog = () => {
+    setEditing(null);
+    setForm(emptyForm());
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (template: RecurringExpense) => {
+    setEditing(template);
+    setForm({
+      name: template.Name,
+      amount: String(template.Amount),
+      expenseCategoryId: String(template.ExpenseCategoryID),
+      accountType: template.AccountType,
+      bankAccountId: template.BankAccountID ? String(template.BankAccountID) : "",
+      frequency: template.Frequency,
+      dayOfMonth: String(template.DayOfMonth || 1),
+      dayOfWeek: String(template.DayOfWeek ?? 1),
+      startDate: format(new Date(template.StartDate), "yyyy-MM-dd"),
+      endDate: template.EndDate ? format(new Date(template.EndDate), "yyyy-MM-dd") : "",
+      description: template.Description || "",
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    const businessLineId = getBusinessLineID();
+    if (!businessLineId) return;
+
+    const amount = parseFloat(form.amount);
+    const dayOfMonth = parseInt(form.dayOfMonth, 10);
+    if (!form.name.trim() || !(amount > 0) || !form.expenseCategoryId || !form.startDate) {
+      toast({
+        title: "Invalid template",
+        description: "Name, amount, expense category and start date are required.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (form.frequency === "MONTHLY" && !(dayOfMonth >= 1 && dayOfMonth <= 31)) {
+      toast({
+        title: "Invalid schedule",
+        description: "Day of month must be between 1 and 31.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (form.endDate && form.endDate < form.startDate) {
+      toast({
+        title: "Invalid schedule",
+        description: "End date cannot be before the start date.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (form.accountType === "BANK" && !form.bankAccountId) {
+      toast({
+        title: "Account required",
+        description: "Select the bank account this expense is paid from.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const payload = {
+      businessLineId,
+      name: form.name.trim(),
+      amount,
+      expenseCategoryId: Number(form.expenseCategoryId),
+      accountType: form.accountType,
+      bankAccountId: form.accountType === "BANK" ? Number(form.bankAccountId) : undefined,
+      frequency: form.frequency,
+      dayOfMonth: form.frequency === "MONTHLY" ? dayOfMonth : undefined,
+      dayOfWeek: form.frequency === "WEEKLY" ? Number(form.dayOfWeek) : undefined,
+      startDate: form.startDate,
+      endDate: form.frequency !== "ONCE" && form.endDate ? form.endDate : undefined,
+      description: form.description.trim() || undefined,
+    };
+
+    setSaving(true);
+    try {
+      if (editing) {
+        await api.put(`/recurring-expenses/${editing.RecurringExpenseID}`, payload);
+        toast({ title: "Template updated", description: `${payload.name} saved. Drafts already generated keep their amount.` });
+      } else {
+        await api.post("/recurring-expenses", payload);
+        toast({ title: "Template added", description: `${payload.name} will appear in the cashbook when due.` });
+      }
+      setDialogOpen(false);
+      await fetchTemplates();
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message?: string }>;
+      toast({
+        title: "Error",
+        description: axiosError.response?.data?.message || "Failed to save recurring expense",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Paused templates stop generating drafts; confirmed entries stay in the cashbook
+  const handleToggleActive = async (template: RecurringExpense) => {
+    setTogglingId(template.RecurringExpenseID);
+    try {
+      await api.put(`/recurring-expenses/${template.RecurringExpenseID}`, {
+        businessLineId: getBusinessLineID(),
+        isActive: !template.IsActive,
+      });
+      await fetchTemplates();
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message?: string }>;
+      toast({
+        title: "Error",
+        description: axiosError.response?.data?.message || "Failed to update recurring expense",
+        variant: "destructive",
+      });
+    } finally {
+      setTogglingId(null);
+    }
+  };
+
+  const monthlyTotal = templates
+    .filter((template) => template.IsActive && template.Frequency !== "ONCE")
+    .reduce(
+      (sum, template) =>
+        sum + Number(template.Amount) * (template.Frequency === "WEEKLY" ? 52 / 12 : 1),
+      0
+    );
+
+  if (!canManage) {
+    return null;
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="bg-gray-50 border-b border-gray-200 flex flex-row items-center justify-between gap-4">
+          <CardTitle className="text-xl font-semibold text-gray-800">Recurring Expenses</CardTitle>
+          <Button size="sm" onClick={openCreateDialog}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Template
+          </Button>
+        </CardHeader>
+
+        <CardContent className="p-4 space-y-4">
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader className="bg-gray-50">
+                <TableRow>
+                  <TableHead className="font-bold text-black">Name</TableHead>
+                  <TableHead className="font-bold text-black">Category</TableHead>
+                  <TableHead className="font-bold text-black">Account</TableHead>
+                  <TableHead className="font-bold text-black">Schedule</TableHead>
+                  <TableHead className="font-bold text-black">Next Due</TableHead>
+                  <TableHead className="font-bold text-black text-right">Amount</TableHead>
+                  <TableHead className="font-bold text-black">Status</TableHead>
+                  <TableHead className="font-bold text-black text-center">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center py-6">
+                      Loading recurring expenses...
+                    </TableCell>
+                  </TableRow>
+                ) : templates.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center py-6 text-muted-foreground">
+                      No recurring expenses yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  <>
+                    {templates.map((template) => {
+                      const nextDue = template.IsActive ? nextDueDate(template) : null;
+                      return (
+                        <TableRow key={template.RecurringExpenseID} className={template.IsActive ? "" : "opacity-60"}>
+                          <TableCell>
+                            <div className="font-medium">{template.Name}</div>
+                            {template.Description && (
+                              <div className="text-xs text-muted-foreground">{template.Description}</div>
+                            )}
+                          </TableCell>
+                          <TableCell>{template.ExpenseCategoryName || "—"}</TableCell>
+                          <TableCell>
+                            {template.AccountType === "BANK" && template.BankName
+                              ? bankAccountLabel({ BankName: template.BankName, AccountNumber: template.AccountNumber || "" })
+                              : template.AccountType}
+                          </TableCell>
+                          <TableCell>
+                            <div>{scheduleLabel(template)}</div>
+                            {template.EndDate && (
+                              <div className="text-xs text-muted-foreground">
+                                Until {format(new Date(template.EndDate), "yyyy-MM-dd")}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell>{nextDue ? format(nextDue, "yyyy-MM-dd") : "—"}</TableCell>
+                          <TableCell className="text-right tabular-nums">{formatCurrency(template.Amount)}</TableCell>
+                          <TableCell>
+                            <Badge variant={template.IsActive ? "default" : "secondary"}>
+                              {template.IsActive ? "Active" : "Paused"}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex justify-center gap-2">
+                              <Button variant="ghost" size="sm" onClick={() => openEditDialog(template)}>
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleToggleActive(template)}
+                                disabled={togglingId === template.RecurringExpenseID}
+                              >
+                                {template.IsActive ? "Pause" : "Resume"}
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                    <TableRow className="bg-gray-50 font-bold">
+                      <TableCell colSpan={5}>Approximate monthly total (active, repeating)</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatCurrency(monthlyTotal)}</TableCell>
+                      <TableCell colSpan={2} />
+                    </TableRow>
+                  </>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Recurring Expense" : "Add Recurring Expense"}</DialogTitle>
+            <DialogDescription>
+              A draft cashbook expense is created on each due date and waits for confirmation in the cashbook.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 py-2">
+            <div>
+              <Label htmlFor="re-name">Name</Label>
+              <Input
+                id="re-name"
+                value={form.name}
+                onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. Shop rent"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="re-amount">Amount (Rs.)</Label>
+                <Input
+                  id="re-amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.amount}
+                  onChange={(e) => setForm((prev) => ({ ...prev, amount: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="re-category">Expense category</Label>
+                <Select
+                  value={form.expenseCategoryId || undefined}
+                  onValueChange={(value) => setForm((prev) => ({ ...prev, expenseCategoryId: value }))}
+                >
+                  <SelectTrigger id="re-category">
+                    <SelectValue placeholder="Select category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {expenseCategories.map((cat) => (
+                      <SelectItem key={cat.ExpenseCategoryID} value={String(cat.ExpenseCategoryID)}>
+                        {cat.Name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="re-account">Paid from</Label>
+                <Select
+                  value={form.accountType}
+                  onValueChange={(value) =>
+                    setForm((prev) => ({ ...prev, accountType: value as "CASH" | "BANK" }))
+                  }
+                >
+                  <SelectTrigger id="re-account">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="CASH">Cash</SelectItem>
+                    <SelectItem value="BANK">Bank</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {form.accountType === "BANK" && (
+                <div>
+                  <Label htmlFor="re-bank-account">Bank account</Label>
+                  <BankAccountSelect
+                    id="re-bank-account"
+                    value={form.bankAccountId}
+                    onValueChange={(value) => setForm((prev) => ({ ...prev, bankAccountId: value }))}
+                  />
+                </div>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="re-frequency">Repeats</Label>
+                <Select
+                  value={form.frequency}
+                  onValueChange={(value) =>
+                    setForm((prev) => ({ ...prev, frequency: value as RecurringFrequency }))
+                  }
+                >
+                  <SelectTrigger id="re-frequency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="MONTHLY">Monthly</SelectItem>
+                    <SelectItem value="WEEKLY">Weekly</SelectItem>
+                    <SelectItem value="ONCE">On a specific day</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {form.frequency === "MONTHLY" && (
+                <div>
+                  <Label htmlFor="re-day-of-month">Day of month</Label>
+                  <Input
+                    id="re-day-of-month"
+                    type="number"
+                    min="1"
+                    max="31"
+                    value={form.dayOfMonth}
+                    onChange={(e) => setForm((prev) => ({ ...prev, dayOfMonth: e.target.value }))}
+                  />
+                </div>
+              )}
+              {form.frequency === "WEEKLY" && (
+                <div>
+                  <Label htmlFor="re-day-of-week">Day of week</Label>
+                  <Select
+                    value={form.dayOfWeek}
+                    onValueChange={(value) => setForm((prev) => ({ ...prev, dayOfWeek: value }))}
+                  >
+                    <SelectTrigger id="re-day-of-week">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WEEKDAY_NAMES.map((day, index) => (
+                        <SelectItem key={day} value={String(index)}>
+                          {day}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="re-start">{form.frequency === "ONCE" ? "Due date" : "Starts"}</Label>
+                <Input
+                  id="re-start"
+                  type="date"
+                  value={form.startDate}
+                  onChange={(e) => setForm((prev) => ({ ...prev, startDate: e.target.value }))}
+                />
+              </div>
+              {form.frequency !== "ONCE" && (
+                <div>
+                  <Label htmlFor="re-end">Ends</Label>
+                  <Input
+                    id="re-end"
+                    type="date"
+                    value={form.endDate}
+                    onChange={(e) => setForm((prev) => ({ ...prev, endDate: e.target.value }))}
+                  />
+                </div>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="re-description">Description</Label>
+              <Input
+                id="re-description"
+                value={form.description}
+                onChange={(e) => setForm((prev) => ({ ...prev, description: e.target.value }))}
+                placeholder="Optional, copied to each cashbook entry"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "Saving..." : "Save Template"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
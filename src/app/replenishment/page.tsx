@@ -0,0 +1,395 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { format, subDays } from "date-fns";
+import { RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/app/auth/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import api from "@/lib/api/axios";
+import { AxiosError } from "axios";
+import { buildReplenishment } from "@/lib/replenishment";
+import { ReplenishmentLine } from "@/types/replenishment";
+import { PurchaseOrder } from "@/types/purchaseOrder";
+
+// Lines without a linked vendor are grouped under this key
+const NO_VENDOR = "none";
+
+interface LineDraft {
+  include: boolean;
+  quantity: string;
+  unitPrice: string;
+  vendorId: string;
+}
+
+interface VendorGroup {
+  vendorId: string;
+  vendorName: string;
+  lines: ReplenishmentLine[];
+}
+
+const formatCurrency = (value: number) =>
+  `Rs. ${Number(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const draftFor = (line: ReplenishmentLine): LineDraft => ({
+  include: line.SuggestedQuantity > 0,
+  quantity: String(line.SuggestedQuantity),
+  unitPrice: line.LastPurchasePrice ? String(line.LastPurchasePrice) : "",
+  vendorId: line.Vendors.length > 0 ? String(line.Vendors[0].VendorID) : NO_VENDOR,
+});
+
+export default function ReplenishmentPage() {
+  const { user, getBusinessLineID } = useAuth();
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const canManage = ["superuser", "admin", "management"].includes(user?.userType || "");
+
+  const [windowDays, setWindowDays] = useState("30");
+  const [coverDays, setCoverDays] = useState("14");
+  // The window and cover the current suggestions were calculated with; updated by Recalculate
+  const [applied, setApplied] = useState({ windowDays: 30, coverDays: 14 });
+  const [lines, setLines] = useState<ReplenishmentLine[]>([]);
+  const [drafts, setDrafts] = useState<Record<number, LineDraft>>({});
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    if (user && !canManage) {
+      router.push("/dashboard");
+    }
+  }, [user, canManage, router]);
+
+  const fetchSuggestions = useCallback(() => {
+    const businessLineId = getBusinessLineID();
+    if (!businessLineId) return Promise.resolve();
+
+    const { windowDays: days, coverDays: cover } = applied;
+    const today = new Date();
+
+    return Promise.all([
+      api.get(`/inventory/levels/${businessLineId}`),
+      api.get("/products", { params: { businessLineId } }),
+      api.get("/sales/product-report", {
+        params: {
+          businessLineId: String(businessLineId),
+          startDate: format(subDays(today, days - 1), "yyyy-MM-dd"),
+          endDate: format(today, "yyyy-MM-dd"),
+        },
+      }),
+      api.get("/purchase-orders", { params: { businessLineId } }),
+    ])
+      .then(([levelsRes, productsRes, salesRes, ordersRes]) => {
+        const nextLines = buildReplenishment(
+          Array.isArray(levelsRes.data) ? levelsRes.data : [],
+          Array.isArray(salesRes.data) ? salesRes.data : [],
+          Array.isArray(productsRes.data) ? productsRes.data : [],
+          ordersRes.data.data || [],
+          days,
+          cover
+        );
+        setLines(nextLines);
+        setDrafts(Object.fromEntries(nextLines.map((line) => [line.ProductID, draftFor(line)])));
+      })
+      .catch((error: AxiosError<{ message?: string }>) => {
+        toast({
+          title: "Error",
+          description: error.response?.data?.message || "Failed to load replenishment suggestions",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [getBusinessLineID, applied, toast]);
+
+  useEffect(() => {
+    if (canManage) {
+      fetchSuggestions();
+    }
+  }, [canManage, fetchSuggestions]);
+
+  const handleRecalculate = () => {
+    setLoading(true);
+    setApplied({
+      windowDays: Math.max(1, Math.floor(Number(windowDays) || 0)),
+      coverDays: Math.max(0, Number(coverDays) || 0),
+    });
+  };
+
+  const groups = useMemo(() => {
+    const byVendor = new Map<string, VendorGroup>();
+    lines.forEach((line) => {
+      const vendorId = drafts[line.ProductID]?.vendorId || NO_VENDOR;
+      const vendor = line.Vendors.find((v) => String(v.VendorID) === vendorId);
+      if (!byVendor.has(vendorId)) {
+        byVendor.set(vendorId, { vendorId, vendorName: vendor?.VendorName || "No vendor", lines: [] });
+      }
+      byVendor.get(vendorId)!.lines.push(line);
+    });
+    return Array.from(byVendor.values()).sort((a, b) => {
+      if (a.vendorId === NO_VENDOR) return 1;
+      if (b.vendorId === NO_VENDOR) return -1;
+      return a.vendorName.localeCompare(b.vendorName);
+    });
+  }, [lines, drafts]);
+
+  const orderableGroups = groups
+    .filter((group) => group.vendorId !== NO_VENDOR)
+    .map((group) => ({
+      ...group,
+      lines: group.lines.filter(
+        (line) => drafts[line.ProductID]?.include && Number(drafts[line.ProductID]?.quantity) > 0
+      ),
+    }))
+    .filter((group) => group.lines.length > 0);
+
+  const updateDraft = (productId: number, changes: Partial<LineDraft>) => {
+    setDrafts((prev) => ({ ...prev, [productId]: { ...prev[productId], ...changes } }));
+  };
+
+  const groupTotal = (group: VendorGroup) =>
+    group.lines.reduce((sum, line) => {
+      const draft = drafts[line.ProductID];
+      if (!draft?.include) return sum;
+      return sum + Number(draft.quantity || 0) * Number(draft.unitPrice || 0);
+    }, 0);
+
+  // One draft purchase order per vendor; posted one at a time so a failure names the vendor it stopped at
+  const handleCreateDrafts = async () => {
+    const businessLineId = getBusinessLineID();
+    if (!businessLineId || orderableGroups.length === 0) return;
+
+    setCreating(true);
+    const created: string[] = [];
+    let failedVendor: string | null = null;
+    try {
+      for (const group of orderableGroups) {
+        failedVendor = group.vendorName;
+        const response = await api.post("/purchase-orders", {
+          businessLineId,
+          vendorId: Number(group.vendorId),
+          status: "DRAFT",
+          orderDate: format(new Date(), "yyyy-MM-dd"),
+          notes: "Created from replenishment suggestions",
+          items: group.lines.map((line) => ({
+            productId: line.ProductID,
+            quantity: Number(drafts[line.ProductID].quantity),
+            unitPrice: Number(drafts[line.ProductID].unitPrice || 0),
+          })),
+        });
+        const order = response.data?.data as PurchaseOrder | undefined;
+        created.push(order?.PONumber || group.vendorName);
+      }
+      toast({
+        title: "Draft purchase orders created",
+        description: `${created.join(", ")} ready to review and send.`,
+      });
+      router.push("/purchase-orders");
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message?: string }>;
+      toast({
+        title: "Error",
+        description: `${axiosError.response?.data?.message || "Failed to create purchase order"} for ${failedVendor}.${
+          created.length > 0 ? ` Already created: ${created.join(", ")}.` : ""
+        }`,
+        variant: "destructive",
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const renderGroup = (group: VendorGroup) => (
+    <Card key={group.vendorId}>
+      <CardHeader className="bg-gray-50 border-b border-gray-200 flex flex-row items-center justify-between gap-4">
+        <CardTitle className="text-lg font-semibold text-gray-800">{group.vendorName}</CardTitle>
+        {group.vendorId === NO_VENDOR ? (
+          <span className="text-sm text-muted-foreground">Link a vendor to these items in Items to order them.</span>
+        ) : (
+          <span className="text-sm font-medium">{formatCurrency(groupTotal(group))}</span>
+        )}
+      </CardHeader>
+      <CardContent className="p-0">
+        <Table>
+          <TableHeader className="bg-gray-50">
+            <TableRow>
+              <TableHead className="font-bold text-black w-10"></TableHead>
+              <TableHead className="font-bold text-black">Item</TableHead>
+              <TableHead className="font-bold text-black text-right">In Stock</TableHead>
+              <TableHead className="font-bold text-black text-right">Minimum</TableHead>
+              <TableHead className="font-bold text-black text-right">On Order</TableHead>
+              <TableHead className="font-bold text-black text-right">Avg Daily Sales</TableHead>
+              <TableHead className="font-bold text-black text-right">Days Left</TableHead>
+              <TableHead className="font-bold text-black">Vendor</TableHead>
+              <TableHead className="font-bold text-black w-28">Order Qty</TableHead>
+              <TableHead className="font-bold text-black w-32">Unit Price</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {group.lines.map((line) => {
+              const draft = drafts[line.ProductID];
+              if (!draft) return null;
+              return (
+                <TableRow key={line.ProductID}>
+                  <TableCell>
+                    <Checkbox
+                      checked={draft.include}
+                      onCheckedChange={(checked) => updateDraft(line.ProductID, { include: checked === true })}
+                      disabled={group.vendorId === NO_VENDOR}
+                    />
+                  </TableCell>
+                  <TableCell className="font-medium">
+                    {line.Name}
+                    {line.CurrentQTY <= 0 && (
+                      <Badge variant="destructive" className="ml-2">
+                        Out of stock
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{line.CurrentQTY}</TableCell>
+                  <TableCell className="text-right">{line.MinimumQTY}</TableCell>
+                  <TableCell className="text-right">
+                    {line.OnOrderQTY || "—"}
+                    {line.DraftQTY > 0 && (
+                      <Badge variant="outline" className="ml-2">
+                        {line.DraftQTY} in draft
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{line.AverageDailySales.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">
+                    {line.DaysOfStock === null ? "—" : Math.floor(line.DaysOfStock)}
+                  </TableCell>
+                  <TableCell>
+                    {line.Vendors.length > 1 ? (
+                      <Select
+                        value={draft.vendorId}
+                        onValueChange={(value) => updateDraft(line.ProductID, { vendorId: value })}
+                      >
+                        <SelectTrigger className="h-8 w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {line.Vendors.map((vendor) => (
+                            <SelectItem key={vendor.VendorID} value={String(vendor.VendorID)}>
+                              {vendor.VendorName}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      line.Vendors[0]?.VendorName || "—"
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      className="h-8"
+                      value={draft.quantity}
+                      onChange={(e) => updateDraft(line.ProductID, { quantity: e.target.value })}
+                      disabled={group.vendorId === NO_VENDOR}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      className="h-8"
+                      value={draft.unitPrice}
+                      onChange={(e) => updateDraft(line.ProductID, { unitPrice: e.target.value })}
+                      disabled={group.vendorId === NO_VENDOR}
+                    />
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+
+  if (!canManage) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="bg-gray-50 border-b border-gray-200 flex flex-row items-center justify-between gap-4">
+          <CardTitle className="text-xl font-semibold text-gray-800">Replenishment</CardTitle>
+          <Button size="sm" onClick={handleCreateDrafts} disabled={creating || orderableGroups.length === 0}>
+            {creating
+              ? "Creating..."
+              : `Create ${orderableGroups.length || ""} Draft PO${orderableGroups.length === 1 ? "" : "s"}`}
+          </Button>
+        </CardHeader>
+        <CardContent className="p-4 space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Items below their minimum quantity. The suggested order brings stock back to the minimum plus enough
+            to cover average daily sales for the cover period, less what is already on order from sent and
+            draft purchase orders.
+          </p>
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <Label htmlFor="window-days">Sales window (days)</Label>
+              <Input
+                id="window-days"
+                type="number"
+                min="1"
+                className="w-32"
+                value={windowDays}
+                onChange={(e) => setWindowDays(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="cover-days">Cover (days)</Label>
+              <Input
+                id="cover-days"
+                type="number"
+                min="0"
+                className="w-32"
+                value={coverDays}
+                onChange={(e) => setCoverDays(e.target.value)}
+              />
+            </div>
+            <Button variant="outline" onClick={handleRecalculate} disabled={loading}>
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Recalculate
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {loading ? (
+        <p className="text-center py-6">Loading suggestions...</p>
+      ) : groups.length === 0 ? (
+        <p className="text-center py-6 text-muted-foreground">All items are at or above their minimum quantity.</p>
+      ) : (
+        groups.map(renderGroup)
+      )}
+    </div>
+  );
+}
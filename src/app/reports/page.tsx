@@ -8,6 +8,8 @@ import PurchaseReportsTable from '@/components/PurchaseReportsTable';
 import InventoryReport from '@/components/InventoryReport';
 import ProductReport from '@/components/ProductReport';
 import ProfitLossReport from '@/components/ProfitLossReport';
+import ReceivablesAgeingReport from '@/components/ReceivablesAgeingReport';
+import BalanceSheetReport from '@/components/BalanceSheetReport';
 import { useAuth } from '../auth/auth-context';
 import PaymentsHistory from '@/components/PaymentHistory';
 
@@ -28,6 +30,9 @@ export default function Reports() {
                     <TabsTrigger value="products">Products</TabsTrigger>
                     <TabsTrigger value="inventory">Inventory</TabsTrigger>
                     <TabsTrigger value="pnl">P&amp;L</TabsTrigger>
+                    <TabsTrigger value="balance-sheet">Balance Sheet</TabsTrigger>
+                    <TabsTrigger value="trial-balance">Trial Balance</TabsTrigger>
+                    <TabsTrigger value="ageing">Receivables Ageing</TabsTrigger>
                     <TabsTrigger value="payments">Payments History</TabsTrigger>
                 </TabsList>
                 <TabsContent value="sales">
@@ -45,6 +50,15 @@ export default function Reports() {
                 <TabsContent value="pnl">
                     <ProfitLossReport />
                 </TabsContent>
+                <TabsContent value="balance-sheet">
+                    <BalanceSheetReport view="balanceSheet" />
+                </TabsContent>
+                <TabsContent value="trial-balance">
+                    <BalanceSheetReport view="trialBalance" />
+                </TabsContent>
+                <TabsContent value="ageing">
+                    <ReceivablesAgeingReport />
+                </TabsContent>
                 <TabsContent value="payments">
                     <PaymentsHistory />
                 </TabsContent>
@@ -1,16 +1,22 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, Suspense } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { DatePicker } from "@/components/ui/date-picker";
 import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
 import InvoiceTable from "@/components/InvoiceTable";
 import SearchableCustomerSelect from "@/components/SearchableCustomerSelect";
 import { Customer } from '@/types/customer';
 import SearchableSalesPersonSelect from "@/components/SearchableSalesPerson";
+import LocationSelect from "@/components/LocationSelect";
 import axios from '@/lib/api/axios';
 import { useAuth } from '../auth/auth-context';
 import { formatMetricTons } from '@/lib/formatMetricTons';
+import { quotationStatus } from '@/lib/quotations';
+import { Quotation } from '@/types/quotation';
+import { toast } from "@/hooks/use-toast";
 
 const formatDateForBackend = (date: Date) => {
   if (!date) return undefined;
@@ -20,8 +26,11 @@ const formatDateForBackend = (date: Date) => {
   return `${year}-${month}-${day}`;
 };
 
-export default function SalesManagementPage() {  
+function SalesManagementContent() {
   const { user } = useAuth();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const quotationId = searchParams.get('quotationId');
   const [dateRange, setDateRange] = useState({
     startDate: new Date(),
     endDate: new Date(),
@@ -32,9 +41,12 @@ export default function SalesManagementPage() {
   const [selectedSalesPerson, setSelectedSalesPerson] = useState<string>("");
   const [selectedSalesPersonId, setSelectedSalesPersonId] = useState<number | undefined>();
   const [invoiceNumber, setInvoiceNumber] = useState("");
+  const [locationId, setLocationId] = useState("");
   const [contactNumber, setContactNumber] = useState("");
   const [address, setAddress] = useState("");
   const [contactPerson, setContactPerson] = useState("");
+  // Quote being converted into this sale, opened from the quotations list
+  const [quotation, setQuotation] = useState<Quotation | null>(null);
 
   const handleDateChange = (field: "startDate" | "endDate", date: Date) => {
     setDateRange((prev) => ({ ...prev, [field]: date }));
@@ -91,6 +103,48 @@ export default function SalesManagementPage() {
     fetchTotalMetricTons();
   }, [fetchTotalMetricTons]);
 
+  const loadQuotation = useCallback(() => {
+    if (!quotationId) return Promise.resolve();
+
+    return axios.get(`/quotations/${quotationId}`)
+      .then((response) => {
+        const quote: Quotation = response.data.data;
+        if (quotationStatus(quote) !== 'OPEN') {
+          toast({
+            title: "Quotation not open",
+            description: `${quote.QuotationNumber} has expired or was already converted.`,
+            variant: "destructive",
+          });
+          return;
+        }
+        setSelectedCustomer(quote.CustomerName);
+        setSelectedCustomerId(quote.CustomerID);
+        setContactNumber(quote.ContactNumber || "");
+        setAddress(quote.Address || "");
+        setContactPerson(quote.ContactPersonName || "");
+        setSelectedSalesPerson(quote.SalesPersonName || "");
+        setSelectedSalesPersonId(quote.SalesPersonID || undefined);
+        setQuotation(quote);
+      })
+      .catch((error) => {
+        console.error('Error fetching quotation:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load quotation.",
+          variant: "destructive",
+        });
+      });
+  }, [quotationId]);
+
+  useEffect(() => {
+    loadQuotation();
+  }, [loadQuotation]);
+
+  const clearQuotation = () => {
+    setQuotation(null);
+    router.replace('/sales-management');
+  };
+
   return (
     <Card>
         <CardHeader className="bg-gray-50 border-b border-gray-200 flex flex-row items-center justify-between">
@@ -108,6 +162,20 @@ export default function SalesManagementPage() {
           </Card>
         </div>
 
+        {quotation && (
+          <div
+            className="mx-1 mt-2 flex items-center justify-between rounded-md border border-blue-200 bg-blue-50 px-3 py-2 text-sm"
+          >
+            <span>
+              Converting quotation <span className="font-medium">{quotation.QuotationNumber}</span> for{' '}
+              {quotation.CustomerName}, valid until {quotation.ValidUntil.slice(0, 10)}
+            </span>
+            <Button variant="ghost" size="sm" onClick={clearQuotation}>
+              Start a blank sale
+            </Button>
+          </div>
+        )}
+
         <div className="flex flex-col gap-1 ml-1 mt-1 mb-1">
         <SearchableCustomerSelect
           value={selectedCustomer}
@@ -116,6 +184,9 @@ export default function SalesManagementPage() {
             if (!customerId) {
               resetCustomerFields();
             }
+            if (quotation && customerId !== quotation.CustomerID) {
+              clearQuotation();
+            }
           }}
           onSelectCustomer={handleCustomerSelect}
         />
@@ -136,6 +207,12 @@ export default function SalesManagementPage() {
           value={invoiceNumber} 
           onChange={(e) => setInvoiceNumber(e.target.value)}
         />
+        <LocationSelect
+          value={locationId}
+          onValueChange={setLocationId}
+          placeholder="Issue from location"
+          className="w-60"
+        />
         <Input
           placeholder="Contact Number" 
           value={contactNumber}
@@ -164,10 +241,26 @@ export default function SalesManagementPage() {
           salesPerson={selectedSalesPerson}
           address={address}
           saleDate={formatDateForBackend(dateRange.startDate)}
-          onSaleSuccess={fetchTotalMetricTons}
+          locationId={locationId}
+          quotation={quotation}
+          onSaleSuccess={() => {
+            fetchTotalMetricTons();
+            if (quotation) {
+              clearQuotation();
+            }
+          }}
         />
         </div>
         
     </Card>
   );
 }
+
+export default function SalesManagementPage() {
+  // useSearchParams needs a Suspense boundary for the page to prerender
+  return (
+    <Suspense fallback={null}>
+      <SalesManagementContent />
+    </Suspense>
+  );
+}
@@ -12,6 +12,7 @@ import { useRouter } from "next/navigation";
 import axios from "@/lib/api/axios";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "../auth/auth-context";
+import LocationSelect from "@/components/LocationSelect";
 import dynamic from 'next/dynamic';
 
 // Dynamically import ExportComponent with SSR disabled
@@ -40,6 +41,7 @@ interface AdjustmentHistory {
     Reason: string;
     Status: string;
     CreatedBy: string;
+    LocationName?: string | null;
 }
 
 export default function StockAdjustmentPage() {
@@ -53,6 +55,8 @@ export default function StockAdjustmentPage() {
     const [isLoading, setIsLoading] = useState(true);
     const [adjustmentReason, setAdjustmentReason] = useState("");
     const [dateRange, setDateRange] = useState({ startDate: new Date() });
+    // Physical counts are taken per location
+    const [locationId, setLocationId] = useState("");
 
     // Get business line ID only on client-side
     useEffect(() => {
@@ -70,6 +74,7 @@ export default function StockAdjustmentPage() {
                 if (!token || !businessLineId) return;
 
                 const response = await axios.get(`/stock/levels/${businessLineId}`, {
+                    params: { locationId: locationId || undefined },
                     headers: { Authorization: `Bearer ${token}` }
                 });
 
@@ -96,7 +101,7 @@ export default function StockAdjustmentPage() {
         if (businessLineId) {
             fetchStockLevels();
         }
-    }, [businessLineId, toast]);
+    }, [businessLineId, locationId, toast]);
 
     // Fetch adjustment history
     useEffect(() => {
@@ -188,6 +193,7 @@ export default function StockAdjustmentPage() {
 
             const payload = {
                 businessLineId: businessLineId,
+                locationId: locationId ? Number(locationId) : undefined,
                 reason: adjustmentReason,
                 items: itemsWithChanges.map(item => ({
                     productId: item.productId,
@@ -257,6 +263,7 @@ export default function StockAdjustmentPage() {
                                 <TableRow>
                                     <TableHead>Date & Time</TableHead>
                                     <TableHead>Reason</TableHead>
+                                    <TableHead>Location</TableHead>
                                     {/* <TableHead>Status</TableHead> */}
                                     <TableHead>Created By</TableHead>
                                 </TableRow>
@@ -270,6 +277,7 @@ export default function StockAdjustmentPage() {
                                     >
                                         <TableCell>{new Date(entry.Date).toLocaleString()}</TableCell>
                                         <TableCell>{entry.Reason}</TableCell>
+                                        <TableCell>{entry.LocationName || "-"}</TableCell>
                                         {/* <TableCell>{entry.Status}</TableCell> */}
                                         <TableCell>{entry.CreatedBy}</TableCell>
                                     </TableRow>
@@ -284,6 +292,11 @@ export default function StockAdjustmentPage() {
                                 onDateChange={(date) => handleDateChange("startDate", date)}
                                 label="Date"
                             />
+                            <LocationSelect
+                                value={locationId}
+                                onValueChange={setLocationId}
+                                className="w-[200px]"
+                            />
                             {typeof window !== 'undefined' && (
                                 <ExportComponent 
                                     inventoryItems={inventoryItems}
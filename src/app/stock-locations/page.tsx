@@ -0,0 +1,304 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Edit, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/app/auth/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import api from "@/lib/api/axios";
+import { AxiosError } from "axios";
+import { StockLocation } from "@/types/stockLocation";
+
+const emptyForm = () => ({
+  name: "",
+  address: "",
+  isDefault: false,
+});
+
+export default function StockLocationsPage() {
+  const { user, getBusinessLineID } = useAuth();
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const canManage = ["superuser", "admin", "management"].includes(user?.userType || "");
+
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<StockLocation | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [togglingId, setTogglingId] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (user && !canManage) {
+      router.push("/dashboard");
+    }
+  }, [user, canManage, router]);
+
+  const fetchLocations = useCallback(() => {
+    const businessLineId = getBusinessLineID();
+    if (!businessLineId) return Promise.resolve();
+
+    return api
+      .get("/stock-locations", { params: { businessLineId } })
+      .then((response) => setLocations(response.data.data || []))
+      .catch((error: AxiosError<{ message?: string }>) => {
+        toast({
+          title: "Error",
+          description: error.response?.data?.message || "Failed to load stock locations",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [getBusinessLineID, toast]);
+
+  useEffect(() => {
+    if (canManage) {
+      fetchLocations();
+    }
+  }, [canManage, fetchLocations]);
+
+  const openCreateDialog = () => {
+    setEditing(null);
+    // The first location becomes the default so existing stock has somewhere to live
+    setForm({ ...emptyForm(), isDefault: locations.length === 0 });
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (location: StockLocation) => {
+    setEditing(location);
+    setForm({
+      name: location.Name,
+      address: location.Address || "",
+      isDefault: !!location.IsDefault,
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    const businessLineId = getBusinessLineID();
+    if (!businessLineId) return;
+
+    if (!form.name.trim()) {
+      toast({ title: "Name required", description: "Give the location a name.", variant: "destructive" });
+      return;
+    }
+
+    const payload = {
+      businessLineId,
+      name: form.name.trim(),
+      address: form.address.trim() || undefined,
+      isDefault: form.isDefault,
+    };
+
+    setSaving(true);
+    try {
+      if (editing) {
+        await api.put(`/stock-locations/${editing.LocationID}`, payload);
+        toast({ title: "Location updated", description: `${payload.name} saved.` });
+      } else {
+        await api.post("/stock-locations", payload);
+        toast({ title: "Location added", description: `${payload.name} can now hold stock.` });
+      }
+      setDialogOpen(false);
+      await fetchLocations();
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message?: string }>;
+      toast({
+        title: "Error",
+        description: axiosError.response?.data?.message || "Failed to save stock location",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Locations with stock history are deactivated rather than deleted so past movements keep their location
+  const handleToggleActive = async (location: StockLocation) => {
+    if (location.IsDefault && location.IsActive) {
+      toast({
+        title: "Default location",
+        description: "Make another location the default before deactivating this one.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setTogglingId(location.LocationID);
+    try {
+      await api.put(`/stock-locations/${location.LocationID}`, {
+        businessLineId: getBusinessLineID(),
+        isActive: !location.IsActive,
+      });
+      await fetchLocations();
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message?: string }>;
+      toast({
+        title: "Error",
+        description: axiosError.response?.data?.message || "Failed to update stock location",
+        variant: "destructive",
+      });
+    } finally {
+      setTogglingId(null);
+    }
+  };
+
+  if (!canManage) {
+    return null;
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="bg-gray-50 border-b border-gray-200 flex flex-row items-center justify-between gap-4">
+          <CardTitle className="text-xl font-semibold text-gray-800">Stock Locations</CardTitle>
+          <Button size="sm" onClick={openCreateDialog}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Location
+          </Button>
+        </CardHeader>
+
+        <CardContent className="p-4 space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Stores and depots that hold this business line&apos;s stock. Purchases are received into a location,
+            sales and adjustments are made from one, and stock transfers move goods between them.
+          </p>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader className="bg-gray-50">
+                <TableRow>
+                  <TableHead className="font-bold text-black">Name</TableHead>
+                  <TableHead className="font-bold text-black">Address</TableHead>
+                  <TableHead className="font-bold text-black">Status</TableHead>
+                  <TableHead className="font-bold text-black text-center">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-6">
+                      Loading locations...
+                    </TableCell>
+                  </TableRow>
+                ) : locations.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-6 text-muted-foreground">
+                      No locations yet. All stock is held in one place until a location is added.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  locations.map((location) => (
+                    <TableRow key={location.LocationID} className={location.IsActive ? "" : "opacity-60"}>
+                      <TableCell className="font-medium">
+                        {location.Name}
+                        {!!location.IsDefault && (
+                          <Badge variant="outline" className="ml-2">
+                            Default
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{location.Address || "—"}</TableCell>
+                      <TableCell>
+                        <Badge variant={location.IsActive ? "default" : "secondary"}>
+                          {location.IsActive ? "Active" : "Inactive"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-center gap-2">
+                          <Button variant="ghost" size="sm" onClick={() => openEditDialog(location)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleToggleActive(location)}
+                            disabled={togglingId === location.LocationID}
+                          >
+                            {location.IsActive ? "Deactivate" : "Activate"}
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Location" : "Add Location"}</DialogTitle>
+            <DialogDescription>
+              The default location is used wherever a location is not chosen.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 py-2">
+            <div>
+              <Label htmlFor="loc-name">Name</Label>
+              <Input
+                id="loc-name"
+                value={form.name}
+                onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. Main Store"
+              />
+            </div>
+            <div>
+              <Label htmlFor="loc-address">Address</Label>
+              <Input
+                id="loc-address"
+                value={form.address}
+                onChange={(e) => setForm((prev) => ({ ...prev, address: e.target.value }))}
+                placeholder="Optional"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="loc-default"
+                checked={form.isDefault}
+                onCheckedChange={(checked) => setForm((prev) => ({ ...prev, isDefault: checked === true }))}
+                disabled={!!editing?.IsDefault}
+              />
+              <Label htmlFor="loc-default">Default location</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "Saving..." : "Save Location"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
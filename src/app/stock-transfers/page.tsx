@@ -0,0 +1,887 @@
+"use client";
+
+import { Suspense, useCallback, useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Eye, PackageCheck, Plus, Send, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/app/auth/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import api from "@/lib/api/axios";
+import { AxiosError } from "axios";
+import LocationSelect from "@/components/LocationSelect";
+import {
+  quantityAtLocation,
+  suggestDestinationProduct,
+  TRANSFER_STATUS_LABELS,
+  transferDestinationLabel,
+  transferSourceLabel,
+  transferValue,
+} from "@/lib/stockTransfers";
+import { LocationStock } from "@/types/stockLocation";
+import { StockTransfer, StockTransferStatus } from "@/types/stockTransfer";
+
+interface BusinessLine {
+  BusinessLineID: number;
+  BusinessLineName: string;
+}
+
+interface Product {
+  ProductID: number;
+  Name: string;
+  CurrentQTY: number;
+  AverageCost?: number;
+  LocationStock?: LocationStock[];
+}
+
+interface TransferItemForm {
+  productId: string;
+  quantity: string;
+  unitCost: string;
+}
+
+type ConfirmAction = "send" | "cancel" | "reject";
+
+const formatCurrency = (amount: number) =>
+  `Rs. ${Number(amount).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const STATUS_BADGE_CLASSES: Record<StockTransferStatus, string> = {
+  DRAFT: "bg-gray-100 text-gray-800 border-gray-200",
+  SENT: "bg-amber-100 text-amber-800 border-amber-200",
+  RECEIVED: "bg-green-100 text-green-800 border-green-200",
+  REJECTED: "bg-red-100 text-red-800 border-red-200",
+  CANCELLED: "bg-gray-100 text-gray-500 border-gray-200",
+};
+
+const emptyItem = (): TransferItemForm => ({ productId: "", quantity: "", unitCost: "" });
+
+const emptyForm = () => ({
+  fromLocationId: "",
+  toBusinessLineId: "",
+  // Only chosen for transfers between locations of this business line
+  toLocationId: "",
+  transferDate: format(new Date(), "yyyy-MM-dd"),
+  notes: "",
+  items: [emptyItem()],
+});
+
+function StockTransfersContent() {
+  const { user, getBusinessLineID } = useAuth();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  // Set when opened from an inventory movement, to show that transfer straight away
+  const transferNumber = searchParams.get("transferNumber");
+  const { toast } = useToast();
+
+  const canManage = ["superuser", "admin", "management"].includes(user?.userType || "");
+  const businessLineId = getBusinessLineID();
+
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [businessLines, setBusinessLines] = useState<BusinessLine[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [openedTransfer, setOpenedTransfer] = useState<StockTransfer | null>(null);
+  const [receiving, setReceiving] = useState<StockTransfer | null>(null);
+  const [receiveProducts, setReceiveProducts] = useState<Record<number, string>>({});
+  const [receiveLocationId, setReceiveLocationId] = useState("");
+  const [confirming, setConfirming] = useState<{ transfer: StockTransfer; action: ConfirmAction } | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+
+  useEffect(() => {
+    if (user && !canManage) {
+      router.push("/dashboard");
+    }
+  }, [user, canManage, router]);
+
+  const fetchTransfers = useCallback(() => {
+    const businessLineId = getBusinessLineID();
+    if (!businessLineId) return Promise.resolve();
+
+    // Both directions: transfers this business line sent and ones addressed to it
+    return api
+      .get("/stock-transfers", { params: { businessLineId } })
+      .then((response) => setTransfers(response.data.data || []))
+      .catch((error: AxiosError<{ message?: string }>) => {
+        toast({
+          title: "Error",
+          description: error.response?.data?.message || "Failed to load stock transfers",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [getBusinessLineID, toast]);
+
+  const fetchLookups = useCallback(() => {
+    const businessLineId = getBusinessLineID();
+    if (!businessLineId) return Promise.resolve();
+
+    return Promise.all([api.get("/business-lines"), api.get(`/inventory/levels/${businessLineId}`)])
+      .then(([businessLinesRes, productsRes]) => {
+        setBusinessLines(businessLinesRes.data || []);
+        setProducts(Array.isArray(productsRes.data) ? productsRes.data : []);
+      })
+      .catch((error) => console.error("Error fetching business lines and products:", error));
+  }, [getBusinessLineID]);
+
+  useEffect(() => {
+    if (canManage) {
+      fetchTransfers();
+      fetchLookups();
+    }
+  }, [canManage, fetchTransfers, fetchLookups]);
+
+  const linkedTransfer =
+    transferNumber && !loading
+      ? transfers.find((transfer) => transfer.TransferNumber === transferNumber) || null
+      : null;
+  // The linked transfer stays open until its dialog is closed, which also drops it from the URL
+  const viewing = openedTransfer || linkedTransfer;
+
+  useEffect(() => {
+    if (!transferNumber || loading || linkedTransfer) return;
+    toast({
+      title: "Transfer not found",
+      description: `${transferNumber} is not a transfer of this business line.`,
+      variant: "destructive",
+    });
+    router.replace("/stock-transfers");
+  }, [transferNumber, linkedTransfer, loading, router, toast]);
+
+  const closeViewing = () => {
+    setOpenedTransfer(null);
+    if (transferNumber) router.replace("/stock-transfers");
+  };
+
+  const outgoing = useMemo(
+    () => transfers.filter((transfer) => Number(transfer.FromBusinessLineID) === Number(businessLineId)),
+    [transfers, businessLineId]
+  );
+  // Drafts stay with the sender until they are sent
+  const incoming = useMemo(
+    () =>
+      transfers.filter(
+        (transfer) => Number(transfer.ToBusinessLineID) === Number(businessLineId) && transfer.Status !== "DRAFT"
+      ),
+    [transfers, businessLineId]
+  );
+  const awaitingReceipt = incoming.filter((transfer) => transfer.Status === "SENT").length;
+
+  const isInternalTransfer = !!form.toBusinessLineId && Number(form.toBusinessLineId) === Number(businessLineId);
+  const sourceExcludeIds = useMemo(
+    () => (form.fromLocationId ? [Number(form.fromLocationId)] : []),
+    [form.fromLocationId]
+  );
+
+  const updateItem = (index: number, changes: Partial<TransferItemForm>) => {
+    setForm((prev) => ({
+      ...prev,
+      items: prev.items.map((item, itemIndex) => (itemIndex === index ? { ...item, ...changes } : item)),
+    }));
+  };
+
+  const handleProductChange = (index: number, productId: string) => {
+    const product = products.find((p) => String(p.ProductID) === productId);
+    // Stock leaves at the sending line's average cost unless overridden
+    updateItem(index, {
+      productId,
+      unitCost: product?.AverageCost ? Number(product.AverageCost).toFixed(2) : "",
+    });
+  };
+
+  const openCreateDialog = () => {
+    setForm(emptyForm());
+    setDialogOpen(true);
+  };
+
+  const handleCreate = async () => {
+    if (!form.toBusinessLineId) {
+      toast({ title: "Destination required", description: "Select the receiving business line.", variant: "destructive" });
+      return;
+    }
+    if (isInternalTransfer && (!form.fromLocationId || !form.toLocationId || form.fromLocationId === form.toLocationId)) {
+      toast({
+        title: "Locations required",
+        description: "A transfer within this business line needs two different locations.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const items = form.items
+      .filter((item) => item.productId)
+      .map((item) => ({
+        productId: Number(item.productId),
+        quantity: parseFloat(item.quantity),
+        unitCost: parseFloat(item.unitCost || "0"),
+      }));
+    if (items.length === 0) {
+      toast({ title: "No products", description: "Add at least one product to transfer.", variant: "destructive" });
+      return;
+    }
+    if (items.some((item) => isNaN(item.quantity) || item.quantity <= 0 || isNaN(item.unitCost) || item.unitCost < 0)) {
+      toast({
+        title: "Invalid line",
+        description: "Quantities must be positive and unit costs zero or more.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const overdrawn = items.find((item) => {
+      const product = products.find((p) => p.ProductID === item.productId);
+      const requested = items
+        .filter((other) => other.productId === item.productId)
+        .reduce((sum, other) => sum + other.quantity, 0);
+      return product && requested > quantityAtLocation(product, form.fromLocationId);
+    });
+    if (overdrawn) {
+      const product = products.find((p) => p.ProductID === overdrawn.productId);
+      toast({
+        title: "Not enough stock",
+        description: `${product?.Name} has only ${product ? quantityAtLocation(product, form.fromLocationId) : 0} in stock.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await api.post("/stock-transfers", {
+        fromBusinessLineId: businessLineId,
+        toBusinessLineId: Number(form.toBusinessLineId),
+        fromLocationId: form.fromLocationId ? Number(form.fromLocationId) : undefined,
+        toLocationId: isInternalTransfer ? Number(form.toLocationId) : undefined,
+        transferDate: form.transferDate,
+        notes: form.notes || null,
+        items,
+      });
+      toast({ title: "Transfer created", description: "Review the draft and send it when the stock leaves." });
+      setDialogOpen(false);
+      await fetchTransfers();
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message?: string }>;
+      toast({
+        title: "Error",
+        description: axiosError.response?.data?.message || "Failed to create stock transfer",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openReceiveDialog = async (transfer: StockTransfer) => {
+    // Receiving may be the first visit since products were added on this line
+    await fetchLookups();
+    setReceiving(transfer);
+    setReceiveProducts({});
+    setReceiveLocationId(transfer.ToLocationID ? String(transfer.ToLocationID) : "");
+  };
+
+  // Pre-fill the receiving products once the lookups are fresh
+  const receiveSelections = useMemo(() => {
+    if (!receiving) return {};
+    return Object.fromEntries(
+      receiving.items.map((item) => [
+        item.StockTransferItemID,
+        receiveProducts[item.StockTransferItemID] ??
+          String(suggestDestinationProduct(item.ProductName, products)?.ProductID ?? ""),
+      ])
+    ) as Record<number, string>;
+  }, [receiving, receiveProducts, products]);
+
+  const handleReceive = async () => {
+    if (!receiving) return;
+    if (receiving.items.some((item) => !receiveSelections[item.StockTransferItemID])) {
+      toast({
+        title: "Products required",
+        description: "Choose the product each line is received into.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await api.post(`/stock-transfers/${receiving.StockTransferID}/receive`, {
+        businessLineId,
+        toLocationId: receiveLocationId ? Number(receiveLocationId) : undefined,
+        items: receiving.items.map((item) => ({
+          stockTransferItemId: item.StockTransferItemID,
+          toProductId: Number(receiveSelections[item.StockTransferItemID]),
+        })),
+      });
+      toast({
+        title: "Transfer received",
+        description: `${receiving.TransferNumber} added to stock at the carried cost.`,
+      });
+      setReceiving(null);
+      await Promise.all([fetchTransfers(), fetchLookups()]);
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message?: string }>;
+      toast({
+        title: "Error",
+        description: axiosError.response?.data?.message || "Failed to receive stock transfer",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!confirming) return;
+    const { transfer, action } = confirming;
+    if (action === "reject" && !rejectReason.trim()) {
+      toast({ title: "Reason required", description: "Say why the transfer is rejected.", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await api.post(`/stock-transfers/${transfer.StockTransferID}/${action}`, {
+        businessLineId,
+        reason: action === "reject" ? rejectReason.trim() : undefined,
+      });
+      const messages: Record<ConfirmAction, string> = {
+        send: `${transfer.TransferNumber} sent to ${transfer.ToBusinessLineName}. Stock has left this business line.`,
+        cancel: `${transfer.TransferNumber} cancelled.`,
+        reject: `${transfer.TransferNumber} rejected. The stock returns to ${transfer.FromBusinessLineName}.`,
+      };
+      toast({ title: "Transfer updated", description: messages[action] });
+      setConfirming(null);
+      setRejectReason("");
+      await Promise.all([fetchTransfers(), fetchLookups()]);
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message?: string }>;
+      toast({
+        title: "Error",
+        description: axiosError.response?.data?.message || `Failed to ${action} stock transfer`,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderTransferTable = (rows: StockTransfer[], direction: "outgoing" | "incoming") => (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader className="bg-gray-50">
+          <TableRow>
+            <TableHead className="font-bold text-black">Transfer</TableHead>
+            <TableHead className="font-bold text-black">Date</TableHead>
+            <TableHead className="font-bold text-black">{direction === "outgoing" ? "To" : "From"}</TableHead>
+            <TableHead className="font-bold text-black text-right">Lines</TableHead>
+            <TableHead className="font-bold text-black text-right">Value</TableHead>
+            <TableHead className="font-bold text-black">Status</TableHead>
+            <TableHead className="font-bold text-black text-center">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {loading ? (
+            <TableRow>
+              <TableCell colSpan={7} className="text-center py-6">
+                Loading transfers...
+              </TableCell>
+            </TableRow>
+          ) : rows.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={7} className="text-center py-6 text-muted-foreground">
+                {direction === "outgoing" ? "No transfers sent from this business line" : "No transfers received"}
+              </TableCell>
+            </TableRow>
+          ) : (
+            rows.map((transfer) => (
+              <TableRow key={transfer.StockTransferID}>
+                <TableCell className="font-mono text-xs">{transfer.TransferNumber}</TableCell>
+                <TableCell>{format(new Date(transfer.TransferDate), "yyyy-MM-dd")}</TableCell>
+                <TableCell>
+                  {direction === "outgoing" ? transferDestinationLabel(transfer) : transferSourceLabel(transfer)}
+                </TableCell>
+                <TableCell className="text-right">{transfer.items.length}</TableCell>
+                <TableCell className="text-right tabular-nums">{formatCurrency(transferValue(transfer))}</TableCell>
+                <TableCell>
+                  <Badge className={STATUS_BADGE_CLASSES[transfer.Status]}>
+                    {TRANSFER_STATUS_LABELS[transfer.Status]}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-center gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => setOpenedTransfer(transfer)} title="View lines">
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                    {direction === "outgoing" && transfer.Status === "DRAFT" && (
+                      <>
+                        <Button size="sm" onClick={() => setConfirming({ transfer, action: "send" })}>
+                          <Send className="h-4 w-4 mr-1" />
+                          Send
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setConfirming({ transfer, action: "cancel" })}
+                          title="Cancel draft"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                    {direction === "incoming" && transfer.Status === "SENT" && (
+                      <>
+                        <Button size="sm" onClick={() => openReceiveDialog(transfer)}>
+                          <PackageCheck className="h-4 w-4 mr-1" />
+                          Receive
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setConfirming({ transfer, action: "reject" })}
+                          title="Reject transfer"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+
+  if (!canManage) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="bg-gray-50 border-b border-gray-200 flex flex-row items-center justify-between gap-4">
+        <CardTitle className="text-xl font-semibold text-gray-800">Stock Transfers</CardTitle>
+        <Button size="sm" onClick={openCreateDialog}>
+          <Plus className="h-4 w-4 mr-1" />
+          New Transfer
+        </Button>
+      </CardHeader>
+
+      <CardContent className="p-4">
+        <Tabs defaultValue="outgoing">
+          <TabsList>
+            <TabsTrigger value="outgoing">Outgoing</TabsTrigger>
+            <TabsTrigger value="incoming">
+              Incoming
+              {awaitingReceipt > 0 && (
+                <Badge variant="secondary" className="ml-2">
+                  {awaitingReceipt}
+                </Badge>
+              )}
+            </TabsTrigger>
+          </TabsList>
+          <TabsContent value="outgoing">{renderTransferTable(outgoing, "outgoing")}</TabsContent>
+          <TabsContent value="incoming">{renderTransferTable(incoming, "incoming")}</TabsContent>
+        </Tabs>
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>New Stock Transfer</DialogTitle>
+            <DialogDescription>
+              Saved as a draft. Stock only leaves the sending location when the transfer is sent.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="transfer-from-location">From location</Label>
+                <LocationSelect
+                  id="transfer-from-location"
+                  value={form.fromLocationId}
+                  onValueChange={(value) =>
+                    setForm((prev) => ({
+                      ...prev,
+                      fromLocationId: value,
+                      toLocationId: prev.toLocationId === value ? "" : prev.toLocationId,
+                    }))
+                  }
+                />
+              </div>
+              <div>
+                <Label>To business line</Label>
+                <Select
+                  value={form.toBusinessLineId}
+                  onValueChange={(value) => setForm((prev) => ({ ...prev, toBusinessLineId: value, toLocationId: "" }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select business line" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {businessLines.map((businessLine) => (
+                      <SelectItem key={businessLine.BusinessLineID} value={String(businessLine.BusinessLineID)}>
+                        {businessLine.BusinessLineName}
+                        {Number(businessLine.BusinessLineID) === Number(businessLineId) && " (another location)"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {isInternalTransfer && (
+                <div>
+                  <Label htmlFor="transfer-to-location">To location</Label>
+                  <LocationSelect
+                    id="transfer-to-location"
+                    value={form.toLocationId}
+                    onValueChange={(value) => setForm((prev) => ({ ...prev, toLocationId: value }))}
+                    excludeIds={sourceExcludeIds}
+                  />
+                </div>
+              )}
+              <div>
+                <Label htmlFor="transfer-date">Date</Label>
+                <Input
+                  id="transfer-date"
+                  type="date"
+                  value={form.transferDate}
+                  max={format(new Date(), "yyyy-MM-dd")}
+                  onChange={(e) => setForm((prev) => ({ ...prev, transferDate: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader className="bg-gray-50">
+                  <TableRow>
+                    <TableHead className="font-bold text-black">Product</TableHead>
+                    <TableHead className="font-bold text-black w-[110px]">Quantity</TableHead>
+                    <TableHead className="font-bold text-black w-[130px]">Unit Cost</TableHead>
+                    <TableHead className="w-[50px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {form.items.map((item, index) => {
+                    const product = products.find((p) => String(p.ProductID) === item.productId);
+                    const available = product ? quantityAtLocation(product, form.fromLocationId) : undefined;
+                    return (
+                      <TableRow key={index}>
+                        <TableCell>
+                          <Select value={item.productId} onValueChange={(value) => handleProductChange(index, value)}>
+                            <SelectTrigger className="h-8">
+                              <SelectValue placeholder="Select product" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {products
+                                .filter((p) => quantityAtLocation(p, form.fromLocationId) > 0)
+                                .map((p) => (
+                                  <SelectItem key={p.ProductID} value={String(p.ProductID)}>
+                                    {p.Name} ({quantityAtLocation(p, form.fromLocationId)} in stock)
+                                  </SelectItem>
+                                ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="0"
+                            max={available}
+                            step="0.01"
+                            className="h-8"
+                            value={item.quantity}
+                            onChange={(e) => updateItem(index, { quantity: e.target.value })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            className="h-8"
+                            value={item.unitCost}
+                            onChange={(e) => updateItem(index, { unitCost: e.target.value })}
+                            placeholder="0.00"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() =>
+                              setForm((prev) => ({
+                                ...prev,
+                                items: prev.items.filter((_, itemIndex) => itemIndex !== index),
+                              }))
+                            }
+                            disabled={form.items.length === 1}
+                            title="Remove line"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setForm((prev) => ({ ...prev, items: [...prev.items, emptyItem()] }))}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Product
+            </Button>
+
+            <div>
+              <Label htmlFor="transfer-notes">Notes</Label>
+              <Textarea
+                id="transfer-notes"
+                value={form.notes}
+                onChange={(e) => setForm((prev) => ({ ...prev, notes: e.target.value }))}
+                placeholder="Vehicle, delivery person or other details"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={saving}>
+              {saving ? "Saving..." : "Save Draft"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && closeViewing()}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{viewing?.TransferNumber}</DialogTitle>
+            <DialogDescription>
+              {viewing && `${transferSourceLabel(viewing)} → ${transferDestinationLabel(viewing)}`}
+              {viewing?.SentDate && ` · Sent ${format(new Date(viewing.SentDate), "yyyy-MM-dd")}`}
+              {viewing?.SentByName && ` by ${viewing.SentByName}`}
+              {viewing?.ReceivedDate && ` · Received ${format(new Date(viewing.ReceivedDate), "yyyy-MM-dd")}`}
+              {viewing?.ReceivedByName && ` by ${viewing.ReceivedByName}`}
+            </DialogDescription>
+          </DialogHeader>
+          {viewing && (
+            <div className="space-y-3">
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader className="bg-gray-50">
+                    <TableRow>
+                      <TableHead className="font-bold text-black">Product</TableHead>
+                      <TableHead className="font-bold text-black">Received As</TableHead>
+                      <TableHead className="font-bold text-black text-right">Quantity</TableHead>
+                      <TableHead className="font-bold text-black text-right">Unit Cost</TableHead>
+                      <TableHead className="font-bold text-black text-right">Value</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {viewing.items.map((item) => (
+                      <TableRow key={item.StockTransferItemID}>
+                        <TableCell className="font-medium">{item.ProductName}</TableCell>
+                        <TableCell>{item.ToProductName || "—"}</TableCell>
+                        <TableCell className="text-right">{item.Quantity}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatCurrency(item.UnitCost)}</TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatCurrency(Number(item.Quantity) * Number(item.UnitCost))}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow className="bg-gray-50 font-bold">
+                      <TableCell colSpan={4}>Total</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatCurrency(transferValue(viewing))}</TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </div>
+              {viewing.Notes && <p className="text-sm text-muted-foreground">Notes: {viewing.Notes}</p>}
+              {viewing.RejectReason && <p className="text-sm text-red-600">Rejected: {viewing.RejectReason}</p>}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!receiving} onOpenChange={(open) => !open && setReceiving(null)}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Receive {receiving?.TransferNumber}</DialogTitle>
+            <DialogDescription>
+              Confirm the stock from {receiving && transferSourceLabel(receiving)} has arrived. Each line is added to
+              the chosen product at the carried unit cost.
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="receive-location">Receive into location</Label>
+            <LocationSelect
+              id="receive-location"
+              value={receiveLocationId}
+              onValueChange={setReceiveLocationId}
+              disabled={!!receiving?.ToLocationID}
+              className="w-[240px]"
+            />
+          </div>
+          {receiving && (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader className="bg-gray-50">
+                  <TableRow>
+                    <TableHead className="font-bold text-black">Sent Product</TableHead>
+                    <TableHead className="font-bold text-black text-right">Quantity</TableHead>
+                    <TableHead className="font-bold text-black text-right">Unit Cost</TableHead>
+                    <TableHead className="font-bold text-black">Receive Into</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {receiving.items.map((item) => (
+                    <TableRow key={item.StockTransferItemID}>
+                      <TableCell className="font-medium">{item.ProductName}</TableCell>
+                      <TableCell className="text-right">{item.Quantity}</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatCurrency(item.UnitCost)}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={receiveSelections[item.StockTransferItemID]}
+                          onValueChange={(value) =>
+                            setReceiveProducts((prev) => ({ ...prev, [item.StockTransferItemID]: value }))
+                          }
+                        >
+                          <SelectTrigger className="h-8">
+                            <SelectValue placeholder="Select product" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {products.map((p) => (
+                              <SelectItem key={p.ProductID} value={String(p.ProductID)}>
+                                {p.Name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReceiving(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleReceive} disabled={saving}>
+              {saving ? "Receiving..." : "Confirm Receipt"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={!!confirming}
+        onOpenChange={(open) => {
+          if (!open) {
+            setConfirming(null);
+            setRejectReason("");
+          }
+        }}
+      >
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {confirming?.action === "send"
+                ? "Send transfer?"
+                : confirming?.action === "cancel"
+                  ? "Cancel transfer?"
+                  : "Reject transfer?"}
+            </DialogTitle>
+            <DialogDescription>
+              {confirming?.action === "send" &&
+                `${confirming.transfer.TransferNumber} will be taken out of this business line's stock and wait for ${confirming.transfer.ToBusinessLineName} to receive it.`}
+              {confirming?.action === "cancel" && "The draft is cancelled. No stock has moved."}
+              {confirming?.action === "reject" &&
+                `The stock goes back into ${confirming.transfer.FromBusinessLineName}'s inventory.`}
+            </DialogDescription>
+          </DialogHeader>
+          {confirming?.action === "reject" && (
+            <div>
+              <Label htmlFor="reject-reason">Reason</Label>
+              <Textarea
+                id="reject-reason"
+                value={rejectReason}
+                onChange={(e) => setRejectReason(e.target.value)}
+                placeholder="e.g. Damaged in transit, wrong products"
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfirming(null)} disabled={saving}>
+              Back
+            </Button>
+            <Button
+              variant={confirming?.action === "send" ? "default" : "destructive"}
+              onClick={handleConfirm}
+              disabled={saving}
+            >
+              {saving
+                ? "Saving..."
+                : confirming?.action === "send"
+                  ? "Send"
+                  : confirming?.action === "cancel"
+                    ? "Cancel Transfer"
+                    : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+export default function StockTransfersPage() {
+  // useSearchParams needs a Suspense boundary for the page to prerender
+  return (
+    <Suspense fallback={null}>
+      <StockTransfersContent />
+    </Suspense>
+  );
+}
@@ -4,8 +4,11 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import api from "@/lib/api/axios";
 import { AxiosError } from "axios";
+import { COSTING_METHOD_LABELS } from "@/lib/costing";
+import { CostingMethod } from "@/types/costing";
 
 interface BusinessLineDialogProps {
   open: boolean;
@@ -14,6 +17,7 @@ interface BusinessLineDialogProps {
   businessLineId?: number;
   initialData?: {
     BusinessLineName: string;
+    CostingMethod?: CostingMethod | null;
   };
 }
 
@@ -30,6 +34,7 @@ const BusinessLineDialog = ({
   initialData 
 }: BusinessLineDialogProps) => {
   const [businessLineName, setBusinessLineName] = useState("");
+  const [costingMethod, setCostingMethod] = useState<CostingMethod>("WEIGHTED_AVERAGE");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState("");
   const { toast } = useToast();
@@ -38,11 +43,13 @@ const BusinessLineDialog = ({
   useEffect(() => {
     if (initialData) {
       setBusinessLineName(initialData.BusinessLineName);
+      setCostingMethod(initialData.CostingMethod || "WEIGHTED_AVERAGE");
     }
   }, [initialData]);
 
   const resetForm = () => {
     setBusinessLineName("");
+    setCostingMethod("WEIGHTED_AVERAGE");
     setError("");
   };
 
@@ -74,7 +81,8 @@ const BusinessLineDialog = ({
 
       if (isEditMode) {
         await api.put<BusinessResponse>(`/business-lines/${businessLineId}`, {
-          businessLineName: businessLineName.trim()
+          businessLineName: businessLineName.trim(),
+          costingMethod
         });
 
         toast({
@@ -83,7 +91,8 @@ const BusinessLineDialog = ({
         });
       } else {
         await api.post<BusinessResponse>('/business-lines', {
-          businessLineName: businessLineName.trim()
+          businessLineName: businessLineName.trim(),
+          costingMethod
         });
 
         toast({
@@ -144,6 +153,30 @@ const BusinessLineDialog = ({
               maxLength={100}
             />
           </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-gray-700">
+              Inventory Costing
+            </label>
+            <Select
+              value={costingMethod}
+              onValueChange={(value) => setCostingMethod(value as CostingMethod)}
+              disabled={isSubmitting}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(COSTING_METHOD_LABELS) as CostingMethod[]).map((method) => (
+                  <SelectItem key={method} value={method}>
+                    {COSTING_METHOD_LABELS[method]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              How the cost of goods sold is worked out in the P&amp;L and product reports.
+            </p>
+          </div>
         </div>
         <DialogFooter className="gap-2">
           <Button
@@ -0,0 +1,496 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { endOfDay, format, startOfDay, startOfYear } from "date-fns";
+import { ChevronRight } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useAuth } from "@/app/auth/auth-context";
+import axios from "@/lib/api/axios";
+import { isAxiosError } from "axios";
+import { bankAccountLabel } from "@/lib/bankAccounts";
+import {
+  CURRENT_ONLY_DRILLS,
+  buildBalanceSheet,
+  buildTrialBalance,
+  inventoryItemValue,
+} from "@/lib/balanceSheet";
+import { computeCostOfSales, fetchCostingInputs, totalCostOfSales } from "@/lib/costing";
+import { applyCostOfSales } from "@/lib/pnlPeriods";
+import {
+  BalanceSheetLine,
+  BalanceSheetSection,
+  DrillKey,
+  FinancialPositionSources,
+} from "@/types/balanceSheet";
+import { IssuedCheque } from "@/types/issuedCheque";
+import { ProfitAndLoss } from "@/types/profitAndLoss";
+
+interface BalanceSheetReportProps {
+  view: "balanceSheet" | "trialBalance";
+}
+
+interface DrillLine {
+  label: string;
+  drill?: DrillKey;
+}
+
+const formatCurrency = (amount: number) =>
+  `Rs. ${Number(amount).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const formatDate = (value?: string | null) => (value ? format(new Date(value), "yyyy-MM-dd") : "—");
+
+const SECTION_TITLES: Record<BalanceSheetSection, string> = {
+  ASSET: "Assets",
+  LIABILITY: "Liabilities",
+  EQUITY: "Equity",
+};
+
+// A cheque is still a liability until it clears or is stopped
+const isUnclearedAsOf = (cheque: IssuedCheque, asOf: Date) => {
+  const settledOn = cheque.ClearedDate || cheque.StoppedDate;
+  return new Date(cheque.IssueDate) <= asOf && (!settledOn || new Date(settledOn) > asOf);
+};
+
+const BalanceSheetReport: React.FC<BalanceSheetReportProps> = ({ view }) => {
+  const { getBusinessLineID } = useAuth();
+  const [asOfDate, setAsOfDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [periodStart, setPeriodStart] = useState(() => format(startOfYear(new Date()), "yyyy-MM-dd"));
+  const [sources, setSources] = useState<FinancialPositionSources | null>(null);
+  const [pnl, setPnl] = useState<ProfitAndLoss | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [drillLine, setDrillLine] = useState<DrillLine | null>(null);
+
+  // Nothing is requested until both are set
+  const missingInputs = !getBusinessLineID() || !asOfDate;
+
+  const fetchReport = useCallback(() => {
+    const businessLineId = getBusinessLineID();
+    if (!businessLineId || !asOfDate) return Promise.resolve();
+
+    const asOf = endOfDay(new Date(`${asOfDate}T00:00:00`));
+    return Promise.all([
+      axios.get("/cashbook/balances", { params: { businessLineId, asOfDate } }),
+      axios.get(`/payments/pending/${businessLineId}`),
+      axios.get(`/inventory/levels/${businessLineId}`, { params: { asOfDate: asOf.toISOString() } }),
+      axios.get(`/purchases/payables/${businessLineId}`),
+      axios.get("/issued-cheques", { params: { businessLineId } }),
+    ])
+      .then(async ([balancesRes, receivablesRes, inventoryRes, payablesRes, chequesRes]) => {
+        const issuedCheques: IssuedCheque[] = chequesRes.data.data || [];
+        setError(null);
+        setSources({
+          cashBalance: Number(balancesRes.data.cashBalance || 0),
+          bankBalance: Number(balancesRes.data.bankBalance || 0),
+          bankAccounts: balancesRes.data.bankAccounts || [],
+          pendingCredits: receivablesRes.data.pendingCredits || [],
+          pendingCheques: receivablesRes.data.pendingCheques || [],
+          pendingOpeningBalances: receivablesRes.data.pendingOpeningBalances || [],
+          inventory: Array.isArray(inventoryRes.data) ? inventoryRes.data : [],
+          payables: payablesRes.data.pendingCredits || [],
+          unclearedCheques: issuedCheques.filter((cheque) => isUnclearedAsOf(cheque, asOf)),
+        });
+
+        if (view === "trialBalance") {
+          const start = startOfDay(new Date(`${periodStart}T00:00:00`));
+          const [pnlRes, { movements, method: costingMethod }] = await Promise.all([
+            axios.get("/cashbook/pnl", {
+              params: { businessLineId, startDate: periodStart, endDate: asOfDate },
+            }),
+            fetchCostingInputs(businessLineId, start, asOf),
+          ]);
+          const costOfSales = computeCostOfSales(movements, costingMethod, start, asOf);
+          setPnl(applyCostOfSales(pnlRes.data, totalCostOfSales(costOfSales), costingMethod));
+        }
+      })
+      .catch((err) => {
+        console.error("Error fetching financial position:", err);
+        if (isAxiosError(err)) {
+          setError(err.response?.data?.message || "Failed to load report");
+        } else {
+          setError("Failed to load report");
+        }
+      })
+      .finally(() => setLoading(false));
+  }, [getBusinessLineID, asOfDate, periodStart, view]);
+
+  const handleAsOfDateChange = (value: string) => {
+    if (value && value !== asOfDate) setLoading(true);
+    setAsOfDate(value);
+  };
+
+  const handlePeriodStartChange = (value: string) => {
+    if (asOfDate && value !== periodStart) setLoading(true);
+    setPeriodStart(value);
+  };
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const renderDrillTable = (headers: string[], rows: (string | number)[][], total: number) => (
+    <div className="rounded-md border max-h-[60vh] overflow-auto">
+      <Table>
+        <TableHeader className="bg-gray-50">
+          <TableRow>
+            {headers.map((header, index) => (
+              <TableHead
+                key={header}
+                className={`font-bold text-black ${index === headers.length - 1 ? "text-right" : ""}`}
+              >
+                {header}
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={headers.length} className="text-center py-6 text-muted-foreground">
+                No records
+              </TableCell>
+            </TableRow>
+          ) : (
+            rows.map((row, rowIndex) => (
+              <TableRow key={rowIndex}>
+                {row.map((cell, index) => (
+                  <TableCell
+                    key={index}
+                    className={index === row.length - 1 ? "text-right tabular-nums" : ""}
+                  >
+                    {typeof cell === "number" ? formatCurrency(cell) : cell}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))
+          )}
+          <TableRow className="bg-gray-50 font-bold">
+            <TableCell colSpan={headers.length - 1}>Total</TableCell>
+            <TableCell className="text-right tabular-nums">{formatCurrency(total)}</TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+    </div>
+  );
+
+  const renderDrillContent = (drill: DrillKey) => {
+    if (!sources) return null;
+    const total = (items: { Amount: number }[]) => items.reduce((sum, item) => sum + Number(item.Amount || 0), 0);
+
+    switch (drill) {
+      case "cash":
+        return (
+          <p className="text-sm">
+            Cash in hand is the running CASH balance of the cashbook.{" "}
+            <Link href="/cashbook" className="font-medium underline">
+              Open the cashbook
+            </Link>{" "}
+            to see the entries.
+          </p>
+        );
+      case "bank":
+        return renderDrillTable(
+          ["Account", "Balance"],
+          sources.bankAccounts.map((account) => [bankAccountLabel(account), Number(account.Balance)]),
+          sources.bankAccounts.reduce((sum, account) => sum + Number(account.Balance), 0) || sources.bankBalance
+        );
+      case "receivables":
+        return renderDrillTable(
+          ["Customer", "Invoice", "Due Date", "Amount"],
+          sources.pendingCredits.map((credit) => [
+            credit.CustomerName,
+            credit.InvoiceNumber || "—",
+            formatDate(credit.DueDate),
+            Number(credit.Amount),
+          ]),
+          total(sources.pendingCredits)
+        );
+      case "chequesInHand":
+        return renderDrillTable(
+          ["Customer", "Cheque No.", "Realize Date", "Amount"],
+          sources.pendingCheques.map((cheque) => [
+            cheque.CustomerName,
+            cheque.ChequeNumber || "—",
+            formatDate(cheque.RealizeDate),
+            Number(cheque.Amount),
+          ]),
+          total(sources.pendingCheques)
+        );
+      case "openingBalances":
+        return renderDrillTable(
+          ["Customer", "Balance Date", "Amount"],
+          sources.pendingOpeningBalances.map((balance) => [
+            balance.CustomerName,
+            formatDate(balance.BalanceDate),
+            Number(balance.Amount),
+          ]),
+          total(sources.pendingOpeningBalances)
+        );
+      case "inventory":
+        return renderDrillTable(
+          ["Product", "Quantity", "Average Cost", "Value"],
+          sources.inventory
+            .filter((item) => inventoryItemValue(item) !== 0)
+            .map((item) => [
+              item.Name,
+              Number(item.CurrentQTY).toLocaleString(),
+              item.AverageCost ? formatCurrency(item.AverageCost) : "—",
+              inventoryItemValue(item),
+            ]),
+          sources.inventory.reduce((sum, item) => sum + inventoryItemValue(item), 0)
+        );
+      case "payables":
+        return renderDrillTable(
+          ["Vendor", "Invoice", "Purchase Date", "Due Date", "Amount"],
+          sources.payables.map((credit) => [
+            credit.VendorName,
+            credit.InvoiceNumber,
+            formatDate(credit.PurchaseDate),
+            formatDate(credit.DueDate),
+            Number(credit.Amount),
+          ]),
+          total(sources.payables)
+        );
+      case "unclearedCheques":
+        return renderDrillTable(
+          ["Vendor", "Cheque No.", "Cheque Date", "Status", "Amount"],
+          sources.unclearedCheques.map((cheque) => [
+            cheque.VendorName,
+            cheque.ChequeNumber,
+            formatDate(cheque.ChequeDate),
+            cheque.Status,
+            Number(cheque.Amount),
+          ]),
+          total(sources.unclearedCheques)
+        );
+      case "pnl":
+        return (
+          <p className="text-sm">
+            Income and expense accounts come from the P&amp;L for {periodStart} to {asOfDate}. See the P&amp;L
+            report for the statement and the expense breakdown by category.
+          </p>
+        );
+    }
+  };
+
+  const isPastDate = asOfDate < format(new Date(), "yyyy-MM-dd");
+  const isCurrentOnly = (drill?: DrillKey) => isPastDate && !!drill && CURRENT_ONLY_DRILLS.includes(drill);
+
+  const renderLineLabel = (rawLabel: string, drill?: DrillKey) => {
+    const label = isCurrentOnly(drill) ? `${rawLabel} (current balance)` : rawLabel;
+    return drill ? (
+      <button
+        type="button"
+        className="inline-flex items-center gap-1 text-left hover:underline"
+        onClick={() => setDrillLine({ label, drill })}
+      >
+        {label}
+        <ChevronRight className="h-3 w-3 text-muted-foreground" />
+      </button>
+    ) : (
+      label
+    );
+  };
+
+  const renderBalanceSheet = () => {
+    const lines = buildBalanceSheet(sources as FinancialPositionSources);
+    const sectionTotal = (section: BalanceSheetSection) =>
+      lines.filter((line) => line.section === section).reduce((sum, line) => sum + line.amount, 0);
+
+    const renderSection = (section: BalanceSheetSection, sectionLines: BalanceSheetLine[]) => (
+      <React.Fragment key={section}>
+        <TableRow className="bg-gray-50">
+          <TableCell colSpan={2} className="font-bold">
+            {SECTION_TITLES[section]}
+          </TableCell>
+        </TableRow>
+        {sectionLines.map((line) => (
+          <TableRow key={line.key}>
+            <TableCell className="pl-6">{renderLineLabel(line.label, line.drill)}</TableCell>
+            <TableCell className={`text-right tabular-nums ${line.amount < 0 ? "text-red-600" : ""}`}>
+              {formatCurrency(line.amount)}
+            </TableCell>
+          </TableRow>
+        ))}
+        <TableRow className="font-semibold">
+          <TableCell>Total {SECTION_TITLES[section].toLowerCase()}</TableCell>
+          <TableCell className="text-right tabular-nums">{formatCurrency(sectionTotal(section))}</TableCell>
+        </TableRow>
+      </React.Fragment>
+    );
+
+    return (
+      <Table>
+        <TableHeader className="bg-gray-50">
+          <TableRow>
+            <TableHead className="font-bold text-black">Account</TableHead>
+            <TableHead className="font-bold text-black text-right">As of {asOfDate}</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {(["ASSET", "LIABILITY", "EQUITY"] as BalanceSheetSection[]).map((section) =>
+            renderSection(
+              section,
+              lines.filter((line) => line.section === section)
+            )
+          )}
+          <TableRow className="bg-gray-50 font-bold">
+            <TableCell>Total liabilities and equity</TableCell>
+            <TableCell className="text-right tabular-nums">
+              {formatCurrency(sectionTotal("LIABILITY") + sectionTotal("EQUITY"))}
+            </TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+    );
+  };
+
+  const renderTrialBalance = () => {
+    const lines = buildTrialBalance(sources as FinancialPositionSources, pnl as ProfitAndLoss);
+    const totalDebit = lines.reduce((sum, line) => sum + line.debit, 0);
+    const totalCredit = lines.reduce((sum, line) => sum + line.credit, 0);
+
+    return (
+      <Table>
+        <TableHeader className="bg-gray-50">
+          <TableRow>
+            <TableHead className="font-bold text-black">Account</TableHead>
+            <TableHead className="font-bold text-black text-right">Debit</TableHead>
+            <TableHead className="font-bold text-black text-right">Credit</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {lines.map((line) => (
+            <TableRow key={line.key}>
+              <TableCell>{renderLineLabel(line.label, line.drill)}</TableCell>
+              <TableCell className="text-right tabular-nums">
+                {line.debit ? formatCurrency(line.debit) : ""}
+              </TableCell>
+              <TableCell className="text-right tabular-nums">
+                {line.credit ? formatCurrency(line.credit) : ""}
+              </TableCell>
+            </TableRow>
+          ))}
+          <TableRow className="bg-gray-50 font-bold">
+            <TableCell>Total</TableCell>
+            <TableCell className="text-right tabular-nums">{formatCurrency(totalDebit)}</TableCell>
+            <TableCell className="text-right tabular-nums">{formatCurrency(totalCredit)}</TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+    );
+  };
+
+  const ready = !loading && !missingInputs && sources && (view === "balanceSheet" || pnl);
+
+  return (
+    <div className="space-y-4 p-4">
+      <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h2 className="text-lg font-semibold">{view === "balanceSheet" ? "Balance Sheet" : "Trial Balance"}</h2>
+          <p className="text-sm text-muted-foreground">
+            {view === "balanceSheet"
+              ? "Cash, bank, receivables, inventory and payables as of the selected date."
+              : "Closing account balances with income and expenses for the period."}
+          </p>
+        </div>
+        <div className="flex items-end gap-2">
+          {view === "trialBalance" && (
+            <div>
+              <Label htmlFor={`${view}-from`}>Period from</Label>
+              <Input
+                id={`${view}-from`}
+                type="date"
+                value={periodStart}
+                max={asOfDate}
+                onChange={(e) => handlePeriodStartChange(e.target.value)}
+                className="w-[160px]"
+              />
+            </div>
+          )}
+          <div>
+            <Label htmlFor={`${view}-as-of`}>As of</Label>
+            <Input
+              id={`${view}-as-of`}
+              type="date"
+              value={asOfDate}
+              max={format(new Date(), "yyyy-MM-dd")}
+              onChange={(e) => handleAsOfDateChange(e.target.value)}
+              className="w-[160px]"
+            />
+          </div>
+        </div>
+      </div>
+
+      {(missingInputs || error) && (
+        <Alert variant="destructive">
+          <AlertDescription>{missingInputs ? "Business line and date are required" : error}</AlertDescription>
+        </Alert>
+      )}
+
+      {isPastDate && (
+        <Alert>
+          <AlertDescription>
+            Receivables, cheques in hand, customer opening balances and trade payables cannot be restated for a past
+            date. They show today&apos;s open balances, so equity as of {asOfDate} is approximate.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">
+            {view === "balanceSheet" ? `Statement of financial position` : `Trial balance ${periodStart} to ${asOfDate}`}
+          </CardTitle>
+          <CardDescription>
+            Click an account to see the records behind it. The books are single-entry, so equity is the
+            balancing figure.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!ready ? (
+            <div className="space-y-2">
+              <Skeleton className="h-8 w-full" />
+              <Skeleton className="h-8 w-full" />
+              <Skeleton className="h-8 w-full" />
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              {view === "balanceSheet" ? renderBalanceSheet() : renderTrialBalance()}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!drillLine} onOpenChange={(open) => !open && setDrillLine(null)}>
+        <DialogContent className="sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{drillLine?.label}</DialogTitle>
+            <DialogDescription>
+              {isCurrentOnly(drillLine?.drill) ? "Open today" : `As of ${asOfDate}`}
+            </DialogDescription>
+          </DialogHeader>
+          {drillLine?.drill && renderDrillContent(drillLine.drill)}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default BalanceSheetReport;
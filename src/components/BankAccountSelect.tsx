@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from '@/app/auth/auth-context';
+import api from '@/lib/api/axios';
+import { bankAccountLabel } from '@/lib/bankAccounts';
+import { BankAccount } from '@/types/bankAccount';
+
+interface BankAccountSelectProps {
+  value: string;
+  onValueChange: (value: string) => void;
+  id?: string;
+  placeholder?: string;
+  className?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Picks one of the business line's active bank accounts.
+ * The value is the BankAccountID as a string, matching the other Select inputs.
+ */
+const BankAccountSelect: React.FC<BankAccountSelectProps> = ({
+  value,
+  onValueChange,
+  id,
+  placeholder = "Select bank account",
+  className,
+  disabled,
+}) => {
+  const { getBusinessLineID } = useAuth();
+  const [accounts, setAccounts] = useState<BankAccount[] | null>(null);
+
+  useEffect(() => {
+    const fetchAccounts = async () => {
+      const businessLineId = getBusinessLineID();
+      if (!businessLineId) return;
+
+      try {
+        const response = await api.get('/bank-accounts', { params: { businessLineId } });
+        const data: BankAccount[] = response.data.data || [];
+        setAccounts(data.filter(account => account.IsActive));
+      } catch (error) {
+        console.error('Error fetching bank accounts:', error);
+        setAccounts([]);
+      }
+    };
+
+    fetchAccounts();
+  }, [getBusinessLineID]);
+
+  return (
+    <Select value={value || undefined} onValueChange={onValueChange} disabled={disabled}>
+      <SelectTrigger id={id} className={className}>
+        <SelectValue placeholder={accounts === null ? "Loading accounts..." : placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {accounts?.map(account => (
+          <SelectItem key={account.BankAccountID} value={String(account.BankAccountID)}>
+            {bankAccountLabel(account)}
+            {account.Branch ? ` (${account.Branch})` : ''}
+          </SelectItem>
+        ))}
+        {accounts?.length === 0 && (
+          <div className="px-2 py-1.5 text-sm text-muted-foreground">
+            No bank accounts. Add one under Bank Accounts.
+          </div>
+        )}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default BankAccountSelect;
@@ -11,7 +11,8 @@ import {
   subMonths,
   isSameMonth,
 } from 'date-fns';
-import { ChevronLeft, ChevronRight, Loader2, Pencil, Plus, StickyNote, Trash2 } from 'lucide-react';
+import Link from 'next/link';
+import { ChevronLeft, ChevronRight, Loader2, Pencil, Plus, Repeat, StickyNote, Trash2 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Calendar } from '@/components/ui/calendar';
 import { Button } from '@/components/ui/button';
@@ -28,6 +29,7 @@ import { useAuth } from '@/app/auth/auth-context';
 import axios from '@/lib/api/axios';
 import { cn } from '@/lib/utils';
 import QuillEditor, { isEmptyQuillHtml, quillHtmlToPreview } from '@/components/QuillEditor';
+import { RecurringExpenseDraft } from '@/types/recurringExpense';
 
 interface CalendarNote {
   NoteID: number;
@@ -63,6 +65,7 @@ export default function CalendarNotesWidget() {
   const [monthNotes, setMonthNotes] = useState<CalendarNote[]>([]);
   const [dayNotes, setDayNotes] = useState<CalendarNote[]>([]);
   const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [expenseDrafts, setExpenseDrafts] = useState<RecurringExpenseDraft[]>([]);
   const [hasLoadedOnce, setHasLoadedOnce] = useState(false);
   const [isLoadingMonth, setIsLoadingMonth] = useState(true);
   const [isLoadingDay, setIsLoadingDay] = useState(false);
@@ -89,6 +92,21 @@ export default function CalendarNotesWidget() {
     [holidays]
   );
 
+  // Unconfirmed recurring expenses; those before today are overdue
+  const { expenseDueDates, expenseOverdueDates } = useMemo(() => {
+    const todayKey = toDateKey(today);
+    const unique = Array.from(new Set(expenseDrafts.map((draft) => toDateKey(draft.DueDate))));
+    return {
+      expenseDueDates: unique.filter((key) => key >= todayKey).map((key) => parseNoteDate(key)),
+      expenseOverdueDates: unique.filter((key) => key < todayKey).map((key) => parseNoteDate(key)),
+    };
+  }, [expenseDrafts, today]);
+
+  const selectedExpenseDrafts = useMemo(
+    () => expenseDrafts.filter((draft) => toDateKey(draft.DueDate) === selectedKey),
+    [expenseDrafts, selectedKey]
+  );
+
   const selectedHoliday = useMemo(
     () => holidays.find((holiday) => holiday.date === selectedKey),
     [holidays, selectedKey]
@@ -127,17 +145,24 @@ export default function CalendarNotesWidget() {
     const to = format(endOfMonth(month), 'yyyy-MM-dd');
 
     try {
-      const [notesRes, holidaysRes] = await Promise.all([
+      const [notesRes, holidaysRes, draftsRes] = await Promise.all([
         axios.get('/calendar-notes', {
           params: { businessLineId, from, to },
         }),
         axios.get('/holidays', {
           params: { year: monthYear, type: 'public' },
         }),
+        // Only cashbook managers can see drafts; the calendar still loads without them
+        axios
+          .get('/recurring-expenses/drafts', {
+            params: { businessLineId, status: 'PENDING', startDate: from, endDate: to },
+          })
+          .catch(() => null),
       ]);
 
       setMonthNotes(notesRes.data?.data || []);
       setHolidays(holidaysRes.data?.data?.holidays || []);
+      setExpenseDrafts(draftsRes?.data?.data || []);
     } catch (err) {
       console.error('Failed to load calendar data:', err);
       setError('Could not load calendar notes or holidays.');
@@ -340,11 +365,15 @@ export default function CalendarNotesWidget() {
               modifiers={{
                 holiday: holidayDates,
                 hasNote: noteDates,
+                expenseDue: expenseDueDates,
+                expenseOverdue: expenseOverdueDates,
               }}
               modifiersClassNames={{
                 holiday:
                   'bg-rose-100 text-rose-800 hover:bg-rose-200 dark:bg-rose-950 dark:text-rose-200',
                 hasNote: 'font-semibold underline decoration-primary underline-offset-4',
+                expenseDue: 'ring-1 ring-inset ring-amber-400 rounded-md',
+                expenseOverdue: 'ring-2 ring-inset ring-amber-600 rounded-md',
               }}
               className="w-full p-2 sm:p-3"
               classNames={{
@@ -380,6 +409,12 @@ export default function CalendarNotesWidget() {
             <StickyNote className="h-3 w-3 text-primary" />
             Has notes
           </span>
+          {expenseDrafts.length > 0 && (
+            <span className="inline-flex items-center gap-1.5">
+              <span className="h-2.5 w-2.5 rounded-sm ring-2 ring-inset ring-amber-600" />
+              Expense due
+            </span>
+          )}
         </div>
 
         <div className="space-y-2 min-h-0 flex flex-col">
@@ -395,6 +430,19 @@ export default function CalendarNotesWidget() {
               ) : (
                 <p className="text-xs text-muted-foreground mt-0.5">No public holiday</p>
               )}
+              {selectedExpenseDrafts.map((draft) => (
+                <Link
+                  key={draft.DraftID}
+                  href="/cashbook"
+                  className="flex items-center gap-1 text-xs text-amber-800 dark:text-amber-300 mt-0.5 hover:underline"
+                >
+                  <Repeat className="h-3 w-3 shrink-0" />
+                  <span className="truncate">
+                    {draft.Name} — Rs. {Number(draft.Amount).toLocaleString()}
+                    {selectedKey < toDateKey(today) ? ' (overdue)' : ' due'}
+                  </span>
+                </Link>
+              ))}
             </div>
             <Button
               type="button"
@@ -0,0 +1,404 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { endOfDay, format, max, min, startOfDay } from "date-fns";
+import { DateRange } from "react-day-picker";
+import { Download } from "lucide-react";
+import * as XLSX from "xlsx";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/app/auth/auth-context";
+import axios from "@/lib/api/axios";
+import { isAxiosError } from "axios";
+import { computeCostOfSales, fetchCostingInputs, totalCostOfSales } from "@/lib/costing";
+import { applyCostOfSales, comparativePeriods, percentChange, PNL_LINES, trailingMonths } from "@/lib/pnlPeriods";
+import { PnlPeriod, ProfitAndLoss } from "@/types/profitAndLoss";
+
+interface ComparativeProfitLossProps {
+  dateRange: DateRange | undefined;
+  // periods: this vs previous vs last year; monthly: 12 months ending with the range end
+  view: "periods" | "monthly";
+}
+
+const formatCurrency = (value: number): string =>
+  new Intl.NumberFormat("en-LK", {
+    style: "currency",
+    currency: "LKR",
+    maximumFractionDigits: 2,
+  }).format(value);
+
+const formatPercent = (value: number | null) =>
+  value === null ? "—" : `${value > 0 ? "+" : ""}${value.toFixed(1)}%`;
+
+const periodRange = (period: PnlPeriod) =>
+  `${format(period.startDate, "yyyy-MM-dd")} to ${format(period.endDate, "yyyy-MM-dd")}`;
+
+// Purchases and expenses going up is bad news, so their deltas are coloured the other way round
+const deltaClass = (key: keyof ProfitAndLoss, delta: number) => {
+  if (delta === 0) return "";
+  const isCost = key === "purchases" || key === "costOfGoodsSold" || key === "operatingExpenses";
+  return (delta > 0) !== isCost ? "text-green-700" : "text-red-600";
+};
+
+const ComparativeProfitLoss: React.FC<ComparativeProfitLossProps> = ({ dateRange, view }) => {
+  const { getBusinessLineID } = useAuth();
+  const [results, setResults] = useState<ProfitAndLoss[]>([]);
+  const [loadedPeriods, setLoadedPeriods] = useState<PnlPeriod[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const periods = useMemo(() => {
+    if (!dateRange?.from || !dateRange?.to) return [];
+    return view === "periods"
+      ? comparativePeriods(dateRange.from, dateRange.to)
+      : trailingMonths(dateRange.to);
+  }, [dateRange, view]);
+
+  // Loading until the results on screen are the ones for the requested periods
+  const missingInputs = !getBusinessLineID() || periods.length === 0;
+  const loading = !missingInputs && loadedPeriods !== periods;
+
+  const fetchPeriods = useCallback(() => {
+    const businessLineId = getBusinessLineID();
+    if (!businessLineId || periods.length === 0) return Promise.resolve();
+
+    // One movement history from the earliest start to the latest end covers every period's cost of sales
+    const earliestStart = startOfDay(min(periods.map((period) => period.startDate)));
+    const latestEnd = endOfDay(max(periods.map((period) => period.endDate)));
+    return Promise.all([
+      Promise.all(
+        periods.map((period) =>
+          axios.get("/cashbook/pnl", {
+            params: {
+              businessLineId,
+              startDate: format(period.startDate, "yyyy-MM-dd"),
+              endDate: format(period.endDate, "yyyy-MM-dd"),
+            },
+          })
+        )
+      ),
+      fetchCostingInputs(businessLineId, earliestStart, latestEnd),
+    ])
+      .then(([responses, { movements, method: costingMethod }]) => {
+        setError(null);
+        setResults(
+          responses.map((response, index) => {
+            const period = periods[index];
+            const costOfSales = computeCostOfSales(
+              movements,
+              costingMethod,
+              startOfDay(period.startDate),
+              endOfDay(period.endDate)
+            );
+            return applyCostOfSales(response.data, totalCostOfSales(costOfSales), costingMethod);
+          })
+        );
+      })
+      .catch((err) => {
+        console.error("Error fetching comparative P&L:", err);
+        if (isAxiosError(err)) {
+          setError(err.response?.data?.message || "Failed to load comparative P&L");
+        } else {
+          setError("Failed to load comparative P&L");
+        }
+      })
+      .finally(() => setLoadedPeriods(periods));
+  }, [getBusinessLineID, periods]);
+
+  useEffect(() => {
+    fetchPeriods();
+  }, [fetchPeriods]);
+
+  const value = (index: number, key: keyof ProfitAndLoss) => Number(results[index]?.[key] ?? 0);
+  const total = (key: keyof ProfitAndLoss) => results.reduce((sum, result) => sum + Number(result[key] ?? 0), 0);
+
+  // Helper functions for Excel generation
+  const setColumnWidths = (worksheet: XLSX.WorkSheet, widths: number[]) => {
+    worksheet["!cols"] = widths.map((width) => ({ wch: width }));
+  };
+
+  const addBordersToWorksheet = (worksheet: XLSX.WorkSheet) => {
+    if (!worksheet["!ref"]) return;
+
+    const range = XLSX.utils.decode_range(worksheet["!ref"]);
+
+    for (let row = range.s.r; row <= range.e.r; row++) {
+      for (let col = range.s.c; col <= range.e.c; col++) {
+        const cellAddress = XLSX.utils.encode_cell({ r: row, c: col });
+
+        if (!worksheet[cellAddress]) {
+          worksheet[cellAddress] = { t: "s", v: "" };
+        }
+
+        if (!worksheet[cellAddress].s) worksheet[cellAddress].s = {};
+
+        worksheet[cellAddress].s = {
+          ...worksheet[cellAddress].s,
+          border: {
+            top: { style: "thin", color: { rgb: "000000" } },
+            bottom: { style: "thin", color: { rgb: "000000" } },
+            left: { style: "thin", color: { rgb: "000000" } },
+            right: { style: "thin", color: { rgb: "000000" } },
+          },
+        };
+      }
+    }
+  };
+
+  const styleHeaderRow = (worksheet: XLSX.WorkSheet, headerRowIndex: number) => {
+    if (!worksheet["!ref"]) return;
+
+    const range = XLSX.utils.decode_range(worksheet["!ref"]);
+
+    for (let col = range.s.c; col <= range.e.c; col++) {
+      const cellAddress = XLSX.utils.encode_cell({ r: headerRowIndex, c: col });
+
+      if (!worksheet[cellAddress]) {
+        worksheet[cellAddress] = { t: "s", v: "" };
+      }
+
+      if (!worksheet[cellAddress].s) worksheet[cellAddress].s = {};
+
+      worksheet[cellAddress].s = {
+        ...worksheet[cellAddress].s,
+        font: { bold: true },
+        fill: {
+          patternType: "solid",
+          fgColor: { rgb: "E9ECEF" },
+        },
+        border: {
+          top: { style: "thin", color: { rgb: "000000" } },
+          bottom: { style: "thin", color: { rgb: "000000" } },
+          left: { style: "thin", color: { rgb: "000000" } },
+          right: { style: "thin", color: { rgb: "000000" } },
+        },
+      };
+    }
+  };
+
+  const handleExport = () => {
+    if (results.length !== periods.length || periods.length === 0) return;
+
+    try {
+      setExporting(true);
+      const wb = XLSX.utils.book_new();
+      const title = view === "periods" ? "COMPARATIVE PROFIT & LOSS" : "MONTHLY PROFIT & LOSS";
+
+      const header =
+        view === "periods"
+          ? ["Line", "This Period", "Previous Period", "Change", "Change %", "Same Period Last Year", "Change", "Change %"]
+          : ["Line", ...periods.map((period) => period.label), "Total"];
+      const blank = header.map(() => null);
+
+      const sheetData: (string | number | null)[][] = [
+        [title, ...blank.slice(1)],
+        [...blank],
+        [
+          view === "periods"
+            ? periods.map((period) => periodRange(period)).join("  |  ")
+            : `${periods[0].label} to ${periods[periods.length - 1].label}`,
+          ...blank.slice(1),
+        ],
+        [`Generated on: ${format(new Date(), "yyyy-MM-dd HH:mm")}`, ...blank.slice(1)],
+        [...blank],
+        header,
+      ];
+
+      PNL_LINES.forEach((line) => {
+        if (view === "periods") {
+          const current = value(0, line.key);
+          const previous = value(1, line.key);
+          const lastYear = value(2, line.key);
+          const previousChange = percentChange(current, previous);
+          const lastYearChange = percentChange(current, lastYear);
+          sheetData.push([
+            line.label,
+            current,
+            previous,
+            current - previous,
+            previousChange === null ? "—" : Number(previousChange.toFixed(1)),
+            lastYear,
+            current - lastYear,
+            lastYearChange === null ? "—" : Number(lastYearChange.toFixed(1)),
+          ]);
+        } else {
+          sheetData.push([line.label, ...periods.map((_, index) => value(index, line.key)), total(line.key)]);
+        }
+      });
+
+      const ws = XLSX.utils.aoa_to_sheet(sheetData);
+
+      setColumnWidths(ws, [24, ...header.slice(1).map(() => (view === "periods" ? 18 : 14))]);
+
+      const lastCol = header.length - 1;
+      ws["!merges"] = [0, 2, 3].map((row) => ({ s: { r: row, c: 0 }, e: { r: row, c: lastCol } }));
+
+      addBordersToWorksheet(ws);
+      styleHeaderRow(ws, 0);
+      styleHeaderRow(ws, 5);
+
+      // Format amount columns; percentage columns keep one decimal
+      const percentColumns = view === "periods" ? [4, 7] : [];
+      for (let row = 6; row < sheetData.length; row++) {
+        for (let col = 1; col <= lastCol; col++) {
+          const cellRef = XLSX.utils.encode_cell({ r: row, c: col });
+          if (ws[cellRef] && ws[cellRef].t === "n") {
+            ws[cellRef].z = percentColumns.includes(col) ? '0.0"%"' : "#,##0.00";
+          }
+        }
+      }
+      PNL_LINES.forEach((line, index) => {
+        if (!line.bold) return;
+        const cellRef = XLSX.utils.encode_cell({ r: 6 + index, c: 0 });
+        ws[cellRef].s = { ...ws[cellRef].s, font: { bold: true } };
+      });
+
+      XLSX.utils.book_append_sheet(wb, ws, view === "periods" ? "Comparative" : "Monthly");
+
+      const fileName =
+        view === "periods"
+          ? `PnL_Comparative_${format(periods[0].startDate, "yyyy-MM-dd")}_${format(periods[0].endDate, "yyyy-MM-dd")}.xlsx`
+          : `PnL_Monthly_${format(periods[periods.length - 1].startDate, "yyyy-MM")}.xlsx`;
+      XLSX.writeFile(wb, fileName);
+    } catch (err) {
+      console.error("Error exporting P&L:", err);
+      setError("Failed to export P&L");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const renderComparative = () => (
+    <Table>
+      <TableHeader className="bg-gray-50">
+        <TableRow>
+          <TableHead className="font-bold text-black">Line</TableHead>
+          <TableHead className="font-bold text-black text-right">
+            This Period
+            <div className="text-xs font-normal text-muted-foreground">{periodRange(periods[0])}</div>
+          </TableHead>
+          <TableHead className="font-bold text-black text-right">
+            Previous Period
+            <div className="text-xs font-normal text-muted-foreground">{periodRange(periods[1])}</div>
+          </TableHead>
+          <TableHead className="font-bold text-black text-right">Change</TableHead>
+          <TableHead className="font-bold text-black text-right">
+            Same Period Last Year
+            <div className="text-xs font-normal text-muted-foreground">{periodRange(periods[2])}</div>
+          </TableHead>
+          <TableHead className="font-bold text-black text-right">Change</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {PNL_LINES.map((line) => {
+          const current = value(0, line.key);
+          const previous = value(1, line.key);
+          const lastYear = value(2, line.key);
+          return (
+            <TableRow key={line.key} className={line.bold ? "bg-gray-50 font-semibold" : ""}>
+              <TableCell>{line.label}</TableCell>
+              <TableCell className="text-right tabular-nums">{formatCurrency(current)}</TableCell>
+              <TableCell className="text-right tabular-nums">{formatCurrency(previous)}</TableCell>
+              <TableCell className={`text-right tabular-nums ${deltaClass(line.key, current - previous)}`}>
+                <div>{formatCurrency(current - previous)}</div>
+                <div className="text-xs">{formatPercent(percentChange(current, previous))}</div>
+              </TableCell>
+              <TableCell className="text-right tabular-nums">{formatCurrency(lastYear)}</TableCell>
+              <TableCell className={`text-right tabular-nums ${deltaClass(line.key, current - lastYear)}`}>
+                <div>{formatCurrency(current - lastYear)}</div>
+                <div className="text-xs">{formatPercent(percentChange(current, lastYear))}</div>
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+
+  const renderMonthly = () => (
+    <Table>
+      <TableHeader className="bg-gray-50">
+        <TableRow>
+          <TableHead className="font-bold text-black sticky left-0 bg-gray-50">Line</TableHead>
+          {periods.map((period) => (
+            <TableHead key={period.label} className="font-bold text-black text-right whitespace-nowrap">
+              {period.label}
+            </TableHead>
+          ))}
+          <TableHead className="font-bold text-black text-right">Total</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {PNL_LINES.map((line) => (
+          <TableRow key={line.key} className={line.bold ? "bg-gray-50 font-semibold" : ""}>
+            <TableCell className="sticky left-0 bg-inherit whitespace-nowrap">{line.label}</TableCell>
+            {periods.map((period, index) => {
+              const amount = value(index, line.key);
+              return (
+                <TableCell
+                  key={period.label}
+                  className={`text-right tabular-nums whitespace-nowrap ${
+                    line.key === "netProfit" && amount < 0 ? "text-red-600" : ""
+                  }`}
+                >
+                  {formatCurrency(amount)}
+                </TableCell>
+              );
+            })}
+            <TableCell className="text-right tabular-nums whitespace-nowrap font-semibold">
+              {formatCurrency(total(line.key))}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {view === "periods"
+            ? "The selected range against the range of equal length before it and the same dates last year."
+            : "Twelve calendar months ending with the month of the selected end date."}
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleExport}
+          disabled={loading || exporting || results.length === 0}
+        >
+          <Download className="h-4 w-4 mr-1" />
+          {exporting ? "Exporting..." : "Export Excel"}
+        </Button>
+      </div>
+
+      {(missingInputs || error) && (
+        <Alert variant="destructive">
+          <AlertDescription>{missingInputs ? "Business line and date range are required" : error}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading ? (
+        <Skeleton className="h-64 w-full" />
+      ) : (
+        results.length === periods.length && periods.length > 0 && (
+          <div className="rounded-md border overflow-x-auto">
+            {view === "periods" ? renderComparative() : renderMonthly()}
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default ComparativeProfitLoss;
@@ -20,6 +20,7 @@ import { format } from 'date-fns';
 import { AxiosError } from 'axios';
 import { toast } from '@/hooks/use-toast';
 import { Customer } from '@/types/customer';
+import { closedDayMessage, isCashDayClosed } from '@/lib/cashClose';
 import DialogCustomerSelect from './DialogCustomerSelect';
 
 interface Credit {
@@ -621,6 +622,17 @@ const CustomCreditSettlementDialog: React.FC<CustomCreditSettlementDialogProps>
     };
     
     try {
+      if (paymentMethod === 'CASH' && await isCashDayClosed(getBusinessLineID(), paymentDate)) {
+        setError(closedDayMessage(paymentDate));
+        toast({
+          variant: "destructive",
+          title: "Day closed",
+          description: closedDayMessage(paymentDate),
+          duration: 3000,
+        });
+        return;
+      }
+
         await axios.post(
           `${process.env.NEXT_PUBLIC_API_URL}/payments/customer/${selectedCustomerId}/settle-amount`,
           requestData
@@ -0,0 +1,179 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { FileDown } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import api from "@/lib/api/axios";
+import { AxiosError } from "axios";
+import { useAuth } from "@/app/auth/auth-context";
+import { fetchBusinessLineName } from "@/lib/invoicePdf";
+import {
+  QUOTATION_STATUS_LABELS,
+  QuotationDisplayStatus,
+  generateQuotationPDF,
+  quotationStatus,
+  quotationTotal,
+} from "@/lib/quotations";
+import { Quotation } from "@/types/quotation";
+
+interface CustomerQuotationsProps {
+  // Without a customer every quote in the business line is listed
+  customerId?: number | string;
+}
+
+const statusVariant = (status: QuotationDisplayStatus) => {
+  if (status === "OPEN") return "default" as const;
+  if (status === "CONVERTED") return "secondary" as const;
+  return "outline" as const;
+};
+
+const formatCurrency = (value: number) =>
+  `Rs. ${Number(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export default function CustomerQuotations({ customerId }: CustomerQuotationsProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const { getBusinessLineID } = useAuth();
+  const [quotations, setQuotations] = useState<Quotation[]>([]);
+  // Customer the list was last loaded for ("" for all customers); loading while it differs from the selected one
+  const [loadedCustomerId, setLoadedCustomerId] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<QuotationDisplayStatus | "ALL">("ALL");
+  const customerKey = String(customerId || "");
+  const loading = loadedCustomerId !== customerKey;
+
+  const fetchQuotations = useCallback(() => {
+    const businessLineId = getBusinessLineID();
+    if (!businessLineId) return Promise.resolve();
+
+    return api
+      .get("/quotations", {
+        params: { businessLineId, customerId: customerId || undefined },
+      })
+      .then((response) => setQuotations(response.data.data || []))
+      .catch((error: AxiosError<{ message?: string }>) => {
+        toast({
+          title: "Error",
+          description: error.response?.data?.message || "Failed to load quotations",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setLoadedCustomerId(customerKey));
+  }, [customerId, customerKey, getBusinessLineID, toast]);
+
+  useEffect(() => {
+    fetchQuotations();
+  }, [fetchQuotations]);
+
+  const downloadPdf = async (quotation: Quotation) => {
+    generateQuotationPDF(quotation, await fetchBusinessLineName(getBusinessLineID()));
+  };
+
+  const showCustomer = !customerId;
+  const columnCount = showCustomer ? 8 : 7;
+  const rows = quotations
+    .map((quotation) => ({ quotation, status: quotationStatus(quotation) }))
+    .filter(({ status }) => statusFilter === "ALL" || status === statusFilter);
+
+  return (
+    <div className="space-y-3 p-4">
+      <div className="flex justify-end">
+        <Select
+          value={statusFilter}
+          onValueChange={(value) => setStatusFilter(value as QuotationDisplayStatus | "ALL")}
+        >
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="ALL">All quotations</SelectItem>
+            <SelectItem value="OPEN">Open</SelectItem>
+            <SelectItem value="EXPIRED">Expired</SelectItem>
+            <SelectItem value="CONVERTED">Converted</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader className="bg-gray-50">
+            <TableRow>
+              <TableHead className="font-bold text-black">Quotation No</TableHead>
+              {showCustomer && <TableHead className="font-bold text-black">Customer</TableHead>}
+              <TableHead className="font-bold text-black">Date</TableHead>
+              <TableHead className="font-bold text-black">Valid Until</TableHead>
+              <TableHead className="font-bold text-black">Sales Person</TableHead>
+              <TableHead className="font-bold text-black text-right">Total</TableHead>
+              <TableHead className="font-bold text-black">Status</TableHead>
+              <TableHead className="font-bold text-black text-center">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={columnCount} className="text-center py-6">
+                  Loading quotations...
+                </TableCell>
+              </TableRow>
+            ) : rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={columnCount} className="text-center py-6 text-muted-foreground">
+                  No quotations found.
+                </TableCell>
+              </TableRow>
+            ) : (
+              rows.map(({ quotation, status }) => (
+                <TableRow key={quotation.QuotationID}>
+                  <TableCell className="font-medium">{quotation.QuotationNumber}</TableCell>
+                  {showCustomer && <TableCell>{quotation.CustomerName}</TableCell>}
+                  <TableCell>{quotation.QuoteDate.slice(0, 10)}</TableCell>
+                  <TableCell>{quotation.ValidUntil.slice(0, 10)}</TableCell>
+                  <TableCell>{quotation.SalesPersonName || "—"}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(quotationTotal(quotation))}</TableCell>
+                  <TableCell>
+                    <Badge variant={statusVariant(status)}>{QUOTATION_STATUS_LABELS[status]}</Badge>
+                    {status === "CONVERTED" && quotation.InvoiceID && (
+                      <span className="ml-2 text-xs text-muted-foreground">{quotation.InvoiceID}</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-center gap-2">
+                      <Button variant="ghost" size="sm" onClick={() => downloadPdf(quotation)}>
+                        <FileDown className="h-4 w-4" />
+                      </Button>
+                      {status === "OPEN" && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => router.push(`/sales-management?quotationId=${quotation.QuotationID}`)}
+                        >
+                          Convert to Sale
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,384 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { DateRange } from 'react-day-picker';
+import { format, startOfMonth } from 'date-fns';
+import { FileSpreadsheet, FileText } from 'lucide-react';
+import * as XLSX from 'xlsx';
+import { AxiosError } from 'axios';
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { DatePickerWithRange } from "@/components/DateRange";
+import { useToast } from "@/hooks/use-toast";
+import api from "@/lib/api/axios";
+import { AGEING_BUCKETS, buildAgeingTotals } from '@/lib/ageing';
+import { fetchBusinessLineName } from '@/lib/invoicePdf';
+import { generateStatementPDF } from '@/lib/statementPdf';
+import { CustomerStatement as CustomerStatementData, StatementEntryType } from '@/types/customerStatement';
+
+interface CustomerStatementProps {
+  customer: {
+    CustomerID: number;
+    CusName: string;
+    Address?: string;
+    ContactNumber?: string;
+    BusinessLineID: number;
+  };
+  customerCode: string;
+}
+
+const entryTypeLabels: Record<StatementEntryType, string> = {
+  INVOICE: 'Invoice',
+  PAYMENT: 'Payment',
+  CHEQUE_REALIZED: 'Cheque realized',
+  CHEQUE_BOUNCED: 'Cheque bounced',
+  CREDIT_SETTLEMENT: 'Credit settlement',
+  CREDIT_NOTE: 'Credit note',
+};
+
+const formatCurrency = (amount: number) =>
+  `Rs. ${Number(amount).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const CustomerStatement: React.FC<CustomerStatementProps> = ({ customer, customerCode }) => {
+  const { toast } = useToast();
+  const [dateRange, setDateRange] = useState<DateRange | undefined>({
+    from: startOfMonth(new Date()),
+    to: new Date(),
+  });
+  const [statement, setStatement] = useState<CustomerStatementData | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const startDate = dateRange?.from ? format(dateRange.from, 'yyyy-MM-dd') : null;
+  const endDate = dateRange?.to ? format(dateRange.to, 'yyyy-MM-dd') : null;
+  // Loading until the statement on screen is the one for this customer and period
+  const requestKey = startDate && endDate ? `${customer.CustomerID}:${startDate}:${endDate}` : null;
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+  const loading = requestKey !== null && loadedKey !== requestKey;
+
+  const fetchStatement = useCallback(() => {
+    if (!requestKey) return Promise.resolve();
+
+    return api.get(`/customers/${customer.CustomerID}/statement`, {
+      params: { businessLineId: customer.BusinessLineID, startDate, endDate },
+    })
+      .then(response => setStatement({
+        openingBalance: Number(response.data.openingBalance || 0),
+        entries: response.data.entries || [],
+        openItems: response.data.openItems || [],
+      }))
+      .catch((error: AxiosError<{ message?: string }>) => {
+        toast({
+          title: "Error",
+          description: error.response?.data?.message || "Failed to load statement",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setLoadedKey(requestKey));
+  }, [customer.CustomerID, customer.BusinessLineID, startDate, endDate, requestKey, toast]);
+
+  useEffect(() => {
+    fetchStatement();
+  }, [fetchStatement]);
+
+  // Entries in date order with the balance carried forward after each one
+  const rows = useMemo(() => {
+    if (!statement) return [];
+
+    let balance = statement.openingBalance;
+    return [...statement.entries]
+      .sort((a, b) => new Date(a.EntryDate).getTime() - new Date(b.EntryDate).getTime())
+      .map(entry => {
+        balance += Number(entry.Debit || 0) - Number(entry.Credit || 0);
+        return { ...entry, Balance: balance };
+      });
+  }, [statement]);
+
+  const closingBalance = rows.length > 0
+    ? rows[rows.length - 1].Balance
+    : statement?.openingBalance ?? 0;
+
+  const ageing = useMemo(
+    () => buildAgeingTotals(
+      statement?.openItems || [],
+      item => item.ItemDate,
+      item => item.Outstanding,
+      dateRange?.to || new Date()
+    ),
+    [statement, dateRange]
+  );
+
+  const totals = useMemo(() => rows.reduce(
+    (sum, row) => ({
+      debit: sum.debit + Number(row.Debit || 0),
+      credit: sum.credit + Number(row.Credit || 0),
+    }),
+    { debit: 0, credit: 0 }
+  ), [rows]);
+
+  const describe = (entry: { EntryType: StatementEntryType; Description?: string | null }) =>
+    entry.Description
+      ? `${entryTypeLabels[entry.EntryType]} - ${entry.Description}`
+      : entryTypeLabels[entry.EntryType];
+
+  const handleExportPDF = async () => {
+    if (!statement || !dateRange?.from || !dateRange?.to) return;
+
+    try {
+      setExporting(true);
+      const businessLineName = await fetchBusinessLineName(customer.BusinessLineID);
+      generateStatementPDF({
+        businessLineName,
+        customerCode,
+        customerName: customer.CusName,
+        customerAddress: customer.Address,
+        customerContact: customer.ContactNumber,
+        startDate: dateRange.from,
+        endDate: dateRange.to,
+        openingBalance: statement.openingBalance,
+        rows: rows.map(row => ({
+          date: row.EntryDate,
+          reference: row.Reference,
+          description: describe(row),
+          debit: Number(row.Debit || 0),
+          credit: Number(row.Credit || 0),
+          balance: row.Balance,
+        })),
+        closingBalance,
+        ageing,
+      });
+    } catch (error) {
+      console.error('Error generating statement PDF:', error);
+      toast({
+        title: "Error",
+        description: "Failed to generate the statement PDF",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  // Helper functions for Excel generation
+  const setColumnWidths = (worksheet: XLSX.WorkSheet, widths: number[]) => {
+    worksheet['!cols'] = widths.map((width) => ({ wch: width }));
+  };
+
+  const setMerges = (worksheet: XLSX.WorkSheet, merges: string[][] | [string, string][]) => {
+    worksheet['!merges'] = merges.map(([startCell, endCell]) => {
+      const start = XLSX.utils.decode_cell(startCell);
+      const end = XLSX.utils.decode_cell(endCell);
+      return { s: { r: start.r, c: start.c }, e: { r: end.r, c: end.c } };
+    });
+  };
+
+  const styleHeaderRow = (worksheet: XLSX.WorkSheet, headerRowIndex: number) => {
+    if (!worksheet['!ref']) return;
+
+    const range = XLSX.utils.decode_range(worksheet['!ref']);
+
+    for (let col = range.s.c; col <= range.e.c; col++) {
+      const cellAddress = XLSX.utils.encode_cell({ r: headerRowIndex, c: col });
+
+      if (!worksheet[cellAddress]) {
+        worksheet[cellAddress] = { t: 's', v: '' };
+      }
+
+      worksheet[cellAddress].s = {
+        ...worksheet[cellAddress].s,
+        font: { bold: true },
+        fill: {
+          patternType: 'solid',
+          fgColor: { rgb: "E9ECEF" }
+        },
+        border: {
+          top: { style: 'thin', color: { rgb: "000000" } },
+          bottom: { style: 'thin', color: { rgb: "000000" } },
+          left: { style: 'thin', color: { rgb: "000000" } },
+          right: { style: 'thin', color: { rgb: "000000" } }
+        }
+      };
+    }
+  };
+
+  const handleExportExcel = () => {
+    if (!statement || !dateRange?.from || !dateRange?.to) return;
+
+    try {
+      const wb = XLSX.utils.book_new();
+      const data: (string | number | null)[][] = [
+        ['STATEMENT OF ACCOUNT', null, null, null, null, null],
+        [`${customer.CusName} (${customerCode})`, null, null, null, null, null],
+        [`Period: ${format(dateRange.from, 'yyyy-MM-dd')} to ${format(dateRange.to, 'yyyy-MM-dd')}`, null, null, null, null, null],
+        [null, null, null, null, null, null],
+        ['Date', 'Reference', 'Description', 'Debit', 'Credit', 'Balance'],
+        [format(dateRange.from, 'yyyy-MM-dd'), '', 'Opening balance', null, null, statement.openingBalance],
+      ];
+
+      rows.forEach(row => {
+        data.push([
+          format(new Date(row.EntryDate), 'yyyy-MM-dd'),
+          row.Reference,
+          describe(row),
+          Number(row.Debit || 0) || null,
+          Number(row.Credit || 0) || null,
+          row.Balance,
+        ]);
+      });
+
+      data.push([format(dateRange.to, 'yyyy-MM-dd'), '', 'Closing balance', totals.debit, totals.credit, closingBalance]);
+      data.push([null, null, null, null, null, null]);
+
+      const ageingHeaderIndex = data.length;
+      data.push([...AGEING_BUCKETS.map(bucket => bucket.label), 'Total Due', null]);
+      data.push([
+        ...AGEING_BUCKETS.map(bucket => ageing[bucket.key]),
+        AGEING_BUCKETS.reduce((sum, bucket) => sum + ageing[bucket.key], 0),
+        null,
+      ]);
+
+      const ws = XLSX.utils.aoa_to_sheet(data);
+      setColumnWidths(ws, [14, 18, 40, 15, 15, 15]);
+      setMerges(ws, [['A1', 'F1'], ['A2', 'F2'], ['A3', 'F3']]);
+      styleHeaderRow(ws, 0);
+      styleHeaderRow(ws, 4);
+      styleHeaderRow(ws, ageingHeaderIndex);
+
+      // Format amount cells
+      for (let r = 5; r < data.length; r++) {
+        for (let c = 0; c < 6; c++) {
+          const ref = XLSX.utils.encode_cell({ r, c });
+          if (ws[ref] && typeof ws[ref].v === 'number') {
+            ws[ref].z = '#,##0.00';
+          }
+        }
+      }
+
+      XLSX.utils.book_append_sheet(wb, ws, 'Statement');
+
+      const fileName = `Statement_${customerCode}_${format(dateRange.to, 'yyyy-MM-dd')}.xlsx`;
+      XLSX.writeFile(wb, fileName);
+
+      toast({
+        title: "Export Complete",
+        description: `Downloaded ${fileName}`,
+      });
+    } catch (error) {
+      console.error('Error exporting statement:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export the statement",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <DatePickerWithRange selected={dateRange} onChange={setDateRange} />
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleExportPDF}
+            disabled={!statement || loading || exporting}
+          >
+            <FileText className="h-4 w-4 mr-1" />
+            {exporting ? 'Generating...' : 'PDF'}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleExportExcel}
+            disabled={!statement || loading}
+          >
+            <FileSpreadsheet className="h-4 w-4 mr-1" />
+            Excel
+          </Button>
+        </div>
+      </div>
+
+      <Table className="border">
+        <TableHeader className="bg-gray-50">
+          <TableRow>
+            <TableHead className="text-black font-bold">Date</TableHead>
+            <TableHead className="text-black font-bold">Reference</TableHead>
+            <TableHead className="text-black font-bold">Description</TableHead>
+            <TableHead className="text-black font-bold text-right">Debit</TableHead>
+            <TableHead className="text-black font-bold text-right">Credit</TableHead>
+            <TableHead className="text-black font-bold text-right">Balance</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {loading || !statement ? (
+            <TableRow>
+              <TableCell colSpan={6} className="text-center py-4">
+                {loading ? 'Loading statement...' : 'Select a date range'}
+              </TableCell>
+            </TableRow>
+          ) : (
+            <>
+              <TableRow className="bg-gray-50 font-medium">
+                <TableCell>{dateRange?.from ? format(dateRange.from, 'yyyy-MM-dd') : ''}</TableCell>
+                <TableCell />
+                <TableCell>Opening balance</TableCell>
+                <TableCell />
+                <TableCell />
+                <TableCell className="text-right tabular-nums">{formatCurrency(statement.openingBalance)}</TableCell>
+              </TableRow>
+              {rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-4 text-muted-foreground">
+                    No transactions in this period
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rows.map((row, index) => (
+                  <TableRow key={`${row.Reference}-${index}`}>
+                    <TableCell>{format(new Date(row.EntryDate), 'yyyy-MM-dd')}</TableCell>
+                    <TableCell>{row.Reference}</TableCell>
+                    <TableCell className={row.EntryType === 'CHEQUE_BOUNCED' ? 'text-red-600' : ''}>
+                      {describe(row)}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {Number(row.Debit) ? formatCurrency(row.Debit) : ''}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {Number(row.Credit) ? formatCurrency(row.Credit) : ''}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">{formatCurrency(row.Balance)}</TableCell>
+                  </TableRow>
+                ))
+              )}
+              <TableRow className="bg-gray-50 font-semibold">
+                <TableCell>{dateRange?.to ? format(dateRange.to, 'yyyy-MM-dd') : ''}</TableCell>
+                <TableCell />
+                <TableCell>Closing balance</TableCell>
+                <TableCell className="text-right tabular-nums">{formatCurrency(totals.debit)}</TableCell>
+                <TableCell className="text-right tabular-nums">{formatCurrency(totals.credit)}</TableCell>
+                <TableCell className="text-right tabular-nums">{formatCurrency(closingBalance)}</TableCell>
+              </TableRow>
+            </>
+          )}
+        </TableBody>
+      </Table>
+
+      {statement && !loading && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {AGEING_BUCKETS.map(bucket => (
+            <Card key={bucket.key} className="p-4 border border-gray-200">
+              <p className="text-sm text-gray-500">{bucket.label}</p>
+              <p className={`font-medium mt-2 ${bucket.key === 'over90' && ageing.over90 > 0 ? 'text-red-600' : 'text-gray-800'}`}>
+                {formatCurrency(ageing[bucket.key])}
+              </p>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CustomerStatement;
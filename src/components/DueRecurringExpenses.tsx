@@ -0,0 +1,182 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { Check, Repeat, SkipForward } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from '@/app/auth/auth-context';
+import { toast } from '@/hooks/use-toast';
+import api from '@/lib/api/axios';
+import { AxiosError } from 'axios';
+import { bankAccountLabel } from '@/lib/bankAccounts';
+import { RecurringExpenseDraft } from '@/types/recurringExpense';
+
+interface DueRecurringExpensesProps {
+  // Cash register days that are closed; CASH drafts due on them cannot be confirmed
+  closedDates: Set<string>;
+  onConfirmed: () => void;
+}
+
+const formatCurrency = (amount: number) =>
+  `Rs. ${Number(amount).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+/**
+ * Drafts generated from recurring expense templates that are due today or earlier.
+ * Confirming posts the draft to the cashbook on its due date.
+ */
+const DueRecurringExpenses: React.FC<DueRecurringExpensesProps> = ({ closedDates, onConfirmed }) => {
+  const { getBusinessLineID } = useAuth();
+  const [drafts, setDrafts] = useState<RecurringExpenseDraft[]>([]);
+  const [processingId, setProcessingId] = useState<number | null>(null);
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const fetchDrafts = useCallback(() => {
+    const businessLineId = getBusinessLineID();
+    if (!businessLineId) return Promise.resolve();
+
+    return api.get('/recurring-expenses/drafts', {
+      params: { businessLineId, status: 'PENDING', endDate: format(new Date(), 'yyyy-MM-dd') },
+    })
+      .then(response => setDrafts(response.data.data || []))
+      .catch(error => {
+        console.error('Error fetching recurring expense drafts:', error);
+        setDrafts([]);
+      });
+  }, [getBusinessLineID]);
+
+  useEffect(() => {
+    fetchDrafts();
+  }, [fetchDrafts]);
+
+  const handleAction = async (draft: RecurringExpenseDraft, action: 'confirm' | 'skip') => {
+    const dueDate = format(new Date(draft.DueDate), 'yyyy-MM-dd');
+    if (action === 'confirm' && draft.AccountType === 'CASH' && closedDates.has(dueDate)) {
+      toast({
+        title: "Day closed",
+        description: `The cash register for ${dueDate} is closed. Reopen the close or record the expense manually on another day.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setProcessingId(draft.DraftID);
+    try {
+      await api.post(`/recurring-expenses/drafts/${draft.DraftID}/${action}`, {
+        businessLineId: getBusinessLineID(),
+      });
+      toast({
+        title: action === 'confirm' ? "Expense recorded" : "Expense skipped",
+        description: action === 'confirm'
+          ? `${draft.Name} (${formatCurrency(draft.Amount)}) added to the cashbook.`
+          : `${draft.Name} due ${dueDate} will not be recorded.`,
+      });
+      setDrafts(prev => prev.filter(item => item.DraftID !== draft.DraftID));
+      if (action === 'confirm') {
+        onConfirmed();
+      }
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message?: string }>;
+      toast({
+        title: "Error",
+        description: axiosError.response?.data?.message || `Failed to ${action} recurring expense`,
+        variant: "destructive",
+      });
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  if (drafts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="bg-gray-50 border-b border-gray-200 flex flex-row items-center justify-between gap-4">
+        <CardTitle className="text-base font-semibold text-gray-800 flex items-center gap-2">
+          <Repeat className="h-4 w-4" />
+          Due Recurring Expenses
+          <Badge variant="secondary">{drafts.length}</Badge>
+        </CardTitle>
+        <Link href="/recurring-expenses" className="text-sm text-muted-foreground hover:underline">
+          Manage templates
+        </Link>
+      </CardHeader>
+      <CardContent className="p-4">
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader className="bg-gray-50">
+              <TableRow>
+                <TableHead className="font-bold text-black">Due</TableHead>
+                <TableHead className="font-bold text-black">Expense</TableHead>
+                <TableHead className="font-bold text-black">Category</TableHead>
+                <TableHead className="font-bold text-black">Account</TableHead>
+                <TableHead className="font-bold text-black text-right">Amount</TableHead>
+                <TableHead className="font-bold text-black text-center">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {drafts.map(draft => {
+                const dueDate = format(new Date(draft.DueDate), 'yyyy-MM-dd');
+                return (
+                  <TableRow key={draft.DraftID}>
+                    <TableCell className="whitespace-nowrap">
+                      {dueDate}
+                      {dueDate < today && (
+                        <Badge variant="destructive" className="ml-2">Overdue</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-medium">{draft.Name}</TableCell>
+                    <TableCell>{draft.ExpenseCategoryName || "—"}</TableCell>
+                    <TableCell>
+                      {draft.AccountType === 'BANK' && draft.BankName
+                        ? bankAccountLabel({ BankName: draft.BankName, AccountNumber: draft.AccountNumber || '' })
+                        : draft.AccountType}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">{formatCurrency(draft.Amount)}</TableCell>
+                    <TableCell>
+                      <div className="flex justify-center gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => handleAction(draft, 'confirm')}
+                          disabled={processingId === draft.DraftID}
+                        >
+                          <Check className="h-4 w-4 mr-1" />
+                          Confirm
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleAction(draft, 'skip')}
+                          disabled={processingId === draft.DraftID}
+                          title="Skip this occurrence"
+                        >
+                          <SkipForward className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DueRecurringExpenses;
@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { FileDown, RefreshCw } from 'lucide-react';
 import { format } from 'date-fns';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
@@ -13,7 +14,9 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import * as XLSX from 'xlsx';
 import { MonthYearDialog, YearDialog } from './MonthYearSelectors';
+import LocationSelect, { ALL_LOCATIONS } from './LocationSelect';
 import { useToast } from '@/hooks/use-toast';
+import { LocationStock } from '@/types/stockLocation';
 
 // Interfaces
 interface Product {
@@ -32,12 +35,17 @@ interface Product {
   OldestStock?: string;
   Value?: number;
   Status?: 'Out of Stock' | 'Low Stock' | 'In Stock';
+  // Per-location quantities, present in the consolidated (all locations) view
+  LocationStock?: LocationStock[];
 }
 
 interface MovementDetails {
   vendor?: string;
   customer?: string;
   invoiceNumber?: string;
+  // Stock transfers: the linked transfer and the business line on the other side
+  transferNumber?: string;
+  counterpartBusinessLine?: string;
 }
 
 interface StockMovement {
@@ -53,6 +61,8 @@ interface StockMovement {
   CreatedBy: string;
   UnitCost?: number;
   BatchID?: number;  
+  LocationID?: number | null;
+  LocationName?: string | null;
   movementType?: 'PURCHASE' | 'SALE' | 'ADJUSTMENT' | 'TRANSFER_IN' | 'TRANSFER_OUT' | 'RETURN';
   movementLabel?: string;
   referenceNumber?: string;
@@ -100,6 +110,7 @@ const InventoryReport: React.FC<InventoryReportProps> = ({
   const [endDateOpen, setEndDateOpen] = useState<boolean>(false);
   const [selectedProduct, setSelectedProduct] = useState<string>('all');
   const [movementType, setMovementType] = useState<string>('all');
+  const [locationId, setLocationId] = useState<string>(ALL_LOCATIONS);
   const [totalItems, setTotalItems] = useState<number>(0);
   const [totalValue, setTotalValue] = useState<number>(0);
   const [lowStockItems, setLowStockItems] = useState<number>(0);
@@ -150,8 +161,9 @@ const InventoryReport: React.FC<InventoryReportProps> = ({
       setLoading(true);
       setError(null);
       try {
+        const locationQuery = locationId !== ALL_LOCATIONS ? `&locationId=${locationId}` : '';
         const response = await fetch(
-          `${process.env.NEXT_PUBLIC_API_URL}/inventory/levels/${businessLineId}?asOfDate=${asOfDate.toISOString()}`,
+          `${process.env.NEXT_PUBLIC_API_URL}/inventory/levels/${businessLineId}?asOfDate=${asOfDate.toISOString()}${locationQuery}`,
           {
             headers: {
               'Authorization': `Bearer ${localStorage.getItem('token')}`
@@ -180,7 +192,7 @@ const InventoryReport: React.FC<InventoryReportProps> = ({
     if (businessLineId) {
       fetchInventoryData();
     }
-  }, [businessLineId, asOfDate]);
+  }, [businessLineId, asOfDate, locationId]);
 
   useEffect(() => {
     setMovements([]);
@@ -203,6 +215,10 @@ const InventoryReport: React.FC<InventoryReportProps> = ({
         if (movementType !== 'all') {
           queryParams.append('direction', movementType);
         }
+
+        if (locationId !== ALL_LOCATIONS) {
+          queryParams.append('locationId', locationId);
+        }
   
         const response = await fetch(
           `${process.env.NEXT_PUBLIC_API_URL}/inventory/movements?${queryParams.toString()}`,
@@ -229,7 +245,7 @@ const InventoryReport: React.FC<InventoryReportProps> = ({
     };
   
     fetchMovementHistory();
-  }, [businessLineId, selectedProduct, movementType, startDate, endDate]);
+  }, [businessLineId, selectedProduct, movementType, startDate, endDate, locationId]);
   
   useEffect(() => {
     const fetchRunningBalance = async () => {
@@ -435,6 +451,7 @@ const InventoryReport: React.FC<InventoryReportProps> = ({
           if (movement.details?.vendor) details += `Vendor: ${movement.details.vendor} `;
           if (movement.details?.customer) details += `Customer: ${movement.details.customer} `;
           if (movement.details?.invoiceNumber) details += `Invoice: ${movement.details.invoiceNumber} `;
+          if (movement.details?.transferNumber) details += `${getTransferDescription(movement)} `;
           if (movement.Note) details += movement.Note;
           
           movementData.push([
@@ -505,6 +522,10 @@ const InventoryReport: React.FC<InventoryReportProps> = ({
         startDate: firstDayOfMonth.toISOString(),
         endDate: lastDayOfMonth.toISOString()
       });
+      // Match the location the stock levels were loaded for
+      if (locationId !== ALL_LOCATIONS) {
+        queryParams.append('locationId', locationId);
+      }
       
       const response = await fetch(
         `${process.env.NEXT_PUBLIC_API_URL}/inventory/movements?${queryParams.toString()}`,
@@ -691,6 +712,10 @@ const InventoryReport: React.FC<InventoryReportProps> = ({
         startDate: firstDayOfYear.toISOString(),
         endDate: lastDayOfYear.toISOString()
       });
+      // Match the location the stock levels were loaded for
+      if (locationId !== ALL_LOCATIONS) {
+        queryParams.append('locationId', locationId);
+      }
       
       const response = await fetch(
         `${process.env.NEXT_PUBLIC_API_URL}/inventory/movements?${queryParams.toString()}`,
@@ -986,6 +1011,18 @@ const InventoryReport: React.FC<InventoryReportProps> = ({
     return movement.ReferenceID || '-';
   };
 
+  // Opens the transfer itself rather than the whole transfers list
+  const getTransferHref = (movement: StockMovement) =>
+    `/stock-transfers?transferNumber=${encodeURIComponent(movement.details?.transferNumber || '')}`;
+
+  const getTransferDescription = (movement: StockMovement): string => {
+    const counterpart = movement.details?.counterpartBusinessLine;
+    if (!counterpart) return `Transfer ${movement.details?.transferNumber}`;
+    return movement.Direction === 'OUT'
+      ? `Transfer ${movement.details?.transferNumber} to ${counterpart}`
+      : `Transfer ${movement.details?.transferNumber} from ${counterpart}`;
+  };
+
   return (
     <Card className="w-full shadow-none rounded-tl-none rounded-tr-none border-0">
       <CardContent className='mt-3'>
@@ -1014,6 +1051,13 @@ const InventoryReport: React.FC<InventoryReportProps> = ({
               </Popover>
             </div>
             
+            <LocationSelect
+              value={locationId}
+              onValueChange={setLocationId}
+              includeAll
+              className="w-[200px]"
+            />
+
             {/* <Button 
               variant="outline" 
               size="icon"
@@ -1114,6 +1158,11 @@ const InventoryReport: React.FC<InventoryReportProps> = ({
             <CardContent>
               <div className="text-2xl font-bold text-amber-500">{lowStockItems}</div>
               <p className="text-xs text-muted-foreground">Items below minimum quantity</p>
+              {lowStockItems > 0 && (
+                <Link href="/replenishment" className="text-xs underline">
+                  Suggest purchase orders
+                </Link>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -1175,7 +1224,18 @@ const InventoryReport: React.FC<InventoryReportProps> = ({
                             <TableRow key={product.ProductID}>
                               <TableCell className="font-mono text-xs">{product.ProductID}</TableCell>
                               <TableCell className="font-medium">{product.Name}</TableCell>
-                              <TableCell className="text-right">{product.CurrentQTY}</TableCell>
+                              <TableCell className="text-right">
+                                {product.CurrentQTY}
+                                {locationId === ALL_LOCATIONS && (product.LocationStock?.length ?? 0) > 1 && (
+                                  <div className="text-xs text-muted-foreground">
+                                    {product.LocationStock?.map(stock => (
+                                      <div key={stock.LocationID}>
+                                        {stock.LocationName}: {stock.Quantity}
+                                      </div>
+                                    ))}
+                                  </div>
+                                )}
+                              </TableCell>
                               <TableCell className="text-right">{product.MinimumQTY || 0}</TableCell>
                               <TableCell className="text-right">
                                 {product.Profit != null ? (
@@ -1413,11 +1473,23 @@ const InventoryReport: React.FC<InventoryReportProps> = ({
                                   {movement.details?.invoiceNumber && (
                                     <div className="text-xs">Invoice: {movement.details.invoiceNumber}</div>
                                   )}
+                                  {locationId === ALL_LOCATIONS && movement.LocationName && (
+                                    <div className="text-xs">Location: {movement.LocationName}</div>
+                                  )}
+                                  {movement.details?.transferNumber && (
+                                    <Link
+                                      href={getTransferHref(movement)}
+                                      className="text-xs underline"
+                                    >
+                                      {getTransferDescription(movement)}
+                                    </Link>
+                                  )}
                                   {movement.Note && (
                                     <div className="text-xs truncate">{movement.Note}</div>
                                   )}
                                   {!movement.details?.vendor && !movement.details?.customer && 
-                                   !movement.details?.invoiceNumber && !movement.Note && '-'}
+                                   !movement.details?.invoiceNumber && !movement.details?.transferNumber &&
+                                   !movement.Note && '-'}
                                 </TableCell>
                               </TableRow>
                             );
@@ -4,10 +4,13 @@ import { useState, useEffect, useCallback, memo } from "react";
 import { Input } from "@/components/ui/input";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import PaymentDetails from "./PaymentDetails";
+import QuotationDetails from "./QuotationDetails";
 import axios from '@/lib/api/axios';
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/app/auth/auth-context";
 import { debounce } from 'lodash';
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Quotation, QuotationItem } from '@/types/quotation';
 
 interface Product {
   ProductID: number;
@@ -27,7 +30,14 @@ interface InvoiceTableProps {
   salesPerson?: string;
   address?: string;
   saleDate?: string;
+  // Stock location the sale is issued from
+  locationId?: string;
+  // Quotation mode saves the same rows as a quote instead of taking payment
+  mode?: 'sale' | 'quotation';
+  // Quote being converted into this sale; its lines pre-fill the rows
+  quotation?: Quotation | null;
   onSaleSuccess?: () => void;
+  onQuotationSaved?: (quotation: Quotation) => void;
 }
 
 interface InvoiceRow {
@@ -109,8 +119,8 @@ const InvoiceTableRow = memo(({
   onUnitPriceBlur
 }: {
   row: InvoiceRow;
-  onQuantityChange: (productId: number, value: string) => void;
-  onUnitPriceChange: (productId: number, value: string) => void;
+  onQuantityChange: (rowId: string, value: string) => void;
+  onUnitPriceChange: (rowId: string, value: string) => void;
   onUnitPriceBlur: (productId: number, value: string) => void;
 }) => {
   return (
@@ -119,13 +129,13 @@ const InvoiceTableRow = memo(({
       <TableCell>
         <NumberInput
           value={row.quantity}
-          onChange={(value) => onQuantityChange(row.ProductID, value)}
+          onChange={(value) => onQuantityChange(row.uniqueId, value)}
         />
       </TableCell>
       <TableCell>
         <NumberInput
           value={row.unitPrice}
-          onChange={(value) => onUnitPriceChange(row.ProductID, value)}
+          onChange={(value) => onUnitPriceChange(row.uniqueId, value)}
           onBlur={(value) => onUnitPriceBlur(row.ProductID, value)}
         />
       </TableCell>
@@ -139,11 +149,21 @@ InvoiceTableRow.displayName = 'InvoiceTableRow';
 
 export default function InvoiceTable({
   customerId,
+  customerName,
+  contactNumber,
   salesPersonId,
+  salesPerson,
+  address,
   saleDate,
+  locationId,
+  mode = 'sale',
+  quotation,
   onSaleSuccess,
+  onQuotationSaved,
 }: InvoiceTableProps) {
   const [rows, setRows] = useState<InvoiceRow[]>([]);
+  // Quote lines with no row to go on; the quote cannot be converted while any remain
+  const [unplacedQuoteLines, setUnplacedQuoteLines] = useState<QuotationItem[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
   const { getBusinessLineID } = useAuth();
@@ -163,6 +183,7 @@ export default function InvoiceTable({
     const fetchCustomerPrices = async () => {
       if (!customerId) {
         setRows([]);
+        setUnplacedQuoteLines([]);
         return;
       }
 
@@ -195,7 +216,8 @@ export default function InvoiceTable({
         );
 
         // Transform the data with a unique ID for each row
-        const transformedRows = response.data.map((product: Product, index: number) => ({
+        const products: Product[] = response.data;
+        const transformedRows: InvoiceRow[] = products.map((product, index) => ({
           ProductID: product.ProductID,
           ProductName: product.ProductName,
           quantity: 0,
@@ -205,7 +227,43 @@ export default function InvoiceTable({
           uniqueId: `${product.ProductID}-${product.PriceListID || 'noprice'}-${index}-${Date.now()}`
         }));
 
+        // Each quote line fills exactly one row at the quoted price. A product quoted on
+        // several lines gets a row per line; products off the price list cannot be placed.
+        const filledRows = new Set<InvoiceRow>();
+        const unplaced: QuotationItem[] = [];
+        quotation?.items.forEach((item, index) => {
+          const quantity = Number(item.Quantity);
+          const unitPrice = Number(item.UnitPrice);
+          const quoted = { quantity, unitPrice, total: quantity * unitPrice };
+          const productRow = transformedRows.find(row => row.ProductID === item.ProductID);
+          const rowIndex = transformedRows.findIndex(row => row.ProductID === item.ProductID && !filledRows.has(row));
+
+          if (rowIndex >= 0) {
+            transformedRows[rowIndex] = { ...transformedRows[rowIndex], ...quoted };
+            filledRows.add(transformedRows[rowIndex]);
+          } else if (productRow) {
+            const extraRow = {
+              ...productRow,
+              ...quoted,
+              uniqueId: `${item.ProductID}-quote-${item.QuotationItemID}-${index}-${Date.now()}`
+            };
+            transformedRows.push(extraRow);
+            filledRows.add(extraRow);
+          } else {
+            unplaced.push(item);
+          }
+        });
+
+        if (unplaced.length > 0) {
+          toast({
+            title: "Quotation lines not placed",
+            description: `${unplaced.map(item => item.ProductName).join(', ')} not on this customer's price list.`,
+            variant: "destructive",
+          });
+        }
+
         setRows(transformedRows);
+        setUnplacedQuoteLines(unplaced);
       } catch (error) {
         console.error('Error fetching customer prices:', error);
         toast({
@@ -219,15 +277,15 @@ export default function InvoiceTable({
     };
 
     fetchCustomerPrices();
-  }, [customerId, toast, getBusinessLineID]);
+  }, [customerId, quotation, toast, getBusinessLineID]);
 
   // Handle quantity change - update UI immediately
-  const handleQuantityChange = useCallback((productId: number, value: string) => {
+  const handleQuantityChange = useCallback((rowId: string, value: string) => {
     const quantity = Math.max(0, parseFloat(value) || 0);
     
     setRows(prevRows => 
       prevRows.map(row => {
-        if (row.ProductID === productId) {
+        if (row.uniqueId === rowId) {
           return {
             ...row,
             quantity,
@@ -240,12 +298,12 @@ export default function InvoiceTable({
   }, []);
 
   // Handle unit price change in the UI (doesn't trigger API call)
-  const handleUnitPriceChange = useCallback((productId: number, value: string) => {
+  const handleUnitPriceChange = useCallback((rowId: string, value: string) => {
     const unitPrice = Math.max(0, parseFloat(value) || 0);
     
     setRows(prevRows => 
       prevRows.map(row => {
-        if (row.ProductID === productId) {
+        if (row.uniqueId === rowId) {
           return {
             ...row,
             unitPrice,
@@ -321,28 +379,56 @@ export default function InvoiceTable({
         </Table>
       </div>
       <div className="overflow-auto flex-1">
-        <PaymentDetails
-          total={getTotalAmount()}
-          items={validItems}
-          customerID={customerId}
-          salesPersonID={salesPersonId}
-          saleDate={saleDate} // Now passing string instead of Date
-          onSuccess={() => {
-            setRows(rows.map(row => ({ ...row, quantity: 0, total: 0 })));
-            toast({
-              title: "Success",
-              description: "Sale completed successfully",
-            });
-            onSaleSuccess?.();
-          }}
-          onError={(error) => {
-            toast({
-              title: "Error",
-              description: error,
-              variant: "destructive",
-            });
-          }}
-        />
+        {mode === 'quotation' ? (
+          <QuotationDetails
+            total={getTotalAmount()}
+            items={validItems}
+            customerID={customerId}
+            salesPersonID={salesPersonId}
+            onSuccess={(saved) => {
+              setRows(rows.map(row => ({ ...row, quantity: 0, total: 0 })));
+              onQuotationSaved?.(saved);
+            }}
+          />
+        ) : quotation && unplacedQuoteLines.length > 0 ? (
+          <Alert variant="destructive">
+            <AlertDescription>
+              {quotation.QuotationNumber} cannot be converted because these quoted products are not on the
+              customer&apos;s price list:{' '}
+              {unplacedQuoteLines.map(item => `${item.ProductName} x ${item.Quantity}`).join(', ')}.
+              Add them to the price list, then reload the quotation.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <PaymentDetails
+            total={getTotalAmount()}
+            items={validItems}
+            customerID={customerId}
+            customerName={customerName}
+            customerAddress={address}
+            customerContact={contactNumber}
+            salesPersonID={salesPersonId}
+            salesPersonName={salesPerson}
+            saleDate={saleDate} // Now passing string instead of Date
+            locationId={locationId}
+            quotationId={quotation?.QuotationID}
+            onSuccess={() => {
+              setRows(rows.map(row => ({ ...row, quantity: 0, total: 0 })));
+              toast({
+                title: "Success",
+                description: "Sale completed successfully",
+              });
+              onSaleSuccess?.();
+            }}
+            onError={(error) => {
+              toast({
+                title: "Error",
+                description: error,
+                variant: "destructive",
+              });
+            }}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from '@/app/auth/auth-context';
+import api from '@/lib/api/axios';
+import { StockLocation } from '@/types/stockLocation';
+
+export const ALL_LOCATIONS = 'all';
+
+interface LocationSelectProps {
+  value: string;
+  onValueChange: (value: string) => void;
+  id?: string;
+  placeholder?: string;
+  className?: string;
+  disabled?: boolean;
+  // Adds an "All locations" option for consolidated views
+  includeAll?: boolean;
+  // Locations that cannot be picked, e.g. the source of an inter-location transfer
+  excludeIds?: number[];
+}
+
+/**
+ * Picks one of the business line's active stock locations.
+ * The value is the LocationID as a string; with no value the default location is selected.
+ */
+const LocationSelect: React.FC<LocationSelectProps> = ({
+  value,
+  onValueChange,
+  id,
+  placeholder = "Select location",
+  className,
+  disabled,
+  includeAll,
+  excludeIds = [],
+}) => {
+  const { getBusinessLineID } = useAuth();
+  const [locations, setLocations] = useState<StockLocation[] | null>(null);
+
+  useEffect(() => {
+    const fetchLocations = async () => {
+      const businessLineId = getBusinessLineID();
+      if (!businessLineId) return;
+
+      try {
+        const response = await api.get('/stock-locations', { params: { businessLineId } });
+        const data: StockLocation[] = response.data.data || [];
+        setLocations(data.filter(location => location.IsActive));
+      } catch (error) {
+        console.error('Error fetching stock locations:', error);
+        setLocations([]);
+      }
+    };
+
+    fetchLocations();
+  }, [getBusinessLineID]);
+
+  useEffect(() => {
+    if (value || !locations) return;
+    if (includeAll) {
+      onValueChange(ALL_LOCATIONS);
+      return;
+    }
+    const defaultLocation = locations.find(location => location.IsDefault && !excludeIds.includes(location.LocationID));
+    if (defaultLocation) {
+      onValueChange(String(defaultLocation.LocationID));
+    }
+  }, [value, locations, includeAll, excludeIds, onValueChange]);
+
+  const selectable = locations?.filter(location => !excludeIds.includes(location.LocationID));
+
+  return (
+    <Select value={value || undefined} onValueChange={onValueChange} disabled={disabled}>
+      <SelectTrigger id={id} className={className}>
+        <SelectValue placeholder={locations === null ? "Loading locations..." : placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {includeAll && <SelectItem value={ALL_LOCATIONS}>All locations</SelectItem>}
+        {selectable?.map(location => (
+          <SelectItem key={location.LocationID} value={String(location.LocationID)}>
+            {location.Name}
+            {location.IsDefault ? ' (default)' : ''}
+          </SelectItem>
+        ))}
+        {selectable?.length === 0 && (
+          <div className="px-2 py-1.5 text-sm text-muted-foreground">
+            No locations. Add one under Stock Locations.
+          </div>
+        )}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default LocationSelect;
@@ -476,16 +476,29 @@
 "use client";
 
 import React, { useState, useMemo, useCallback } from 'react';
+import { format } from 'date-fns';
 import { usePathname } from 'next/navigation';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { DatePicker } from './ui/date-picker';
 import { Button } from './ui/button';
-import { X } from 'lucide-react';
+import { X, Printer, AlertTriangle } from 'lucide-react';
 import axios from '@/lib/api/axios';
-import { isAxiosError } from 'axios';
+import plainAxios, { isAxiosError } from 'axios';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/app/auth/auth-context';
+import { InvoicePDFData, fetchBusinessLineName, generateInvoicePDF } from '@/lib/invoicePdf';
+import { closedDayMessage, isCashDayClosed } from '@/lib/cashClose';
 
 interface ChequeDetails {
   amount: number | '';
@@ -495,6 +508,23 @@ interface ChequeDetails {
   chequeStage: 'awaiting' | 'in_hand' | 'floating';
 }
 
+interface CreditLimitBreach {
+  creditLimit: number;
+  outstanding: number;
+  exposure: number;
+}
+
+interface CreditLimitOverride {
+  reason: string;
+  approvedBy: number | null;
+}
+
+// Roles allowed to push a sale past the customer's credit limit
+const CREDIT_OVERRIDE_ROLES = ['superuser', 'admin', 'management'];
+
+// Set on the customer by the bounce policy; only cash sales are allowed
+const CREDIT_HOLD_STATUS = 'Credit Hold';
+
 interface PaymentDetailsProps {
   total: number;
   items: {
@@ -505,8 +535,15 @@ interface PaymentDetailsProps {
     total: number;
   }[];
   customerID?: number;
+  customerName?: string;
+  customerAddress?: string;
+  customerContact?: string;
   salesPersonID: number | string | undefined;
+  salesPersonName?: string;
   saleDate?: string;
+  locationId?: string;
+  // Set when the sale converts a quotation, which the server then marks as converted
+  quotationId?: number;
   onSuccess?: () => void;
   onError?: (error: string) => void;
 }
@@ -515,12 +552,19 @@ const PaymentDetails: React.FC<PaymentDetailsProps> = ({
   total, 
   items, 
   customerID, 
+  customerName,
+  customerAddress,
+  customerContact,
   salesPersonID,
+  salesPersonName,
   saleDate,
+  locationId,
+  quotationId,
   onSuccess,
   onError 
 }) => {
   const pathname = usePathname();
+  const { user, getBusinessLineID, getUserID } = useAuth();
   const [discount, setDiscount] = useState<number | ''>(0);
   const [cashAmount, setCashAmount] = useState<number | ''>(0);
   const [cheques, setCheques] = useState<ChequeDetails[]>([]);
@@ -530,6 +574,18 @@ const PaymentDetails: React.FC<PaymentDetailsProps> = ({
   const [isSubmitting, setIsSubmitting] = useState(false);
   // New state for custom invoice number
   const [customInvoiceNumber, setCustomInvoiceNumber] = useState<string>('');
+  // Snapshot of the last completed sale so its invoice can be printed after the form resets
+  const [lastInvoice, setLastInvoice] = useState<InvoicePDFData | null>(null);
+  const [creditLimitBreach, setCreditLimitBreach] = useState<CreditLimitBreach | null>(null);
+  const [overrideReason, setOverrideReason] = useState('');
+  // A manager signs in on this dialog to approve an override for a user who can't approve it themselves
+  const [managerUsername, setManagerUsername] = useState('');
+  const [managerPassword, setManagerPassword] = useState('');
+  const [overrideError, setOverrideError] = useState('');
+
+  const canOverrideCreditLimit = CREDIT_OVERRIDE_ROLES.includes(user?.userType || '');
+  const isOverrideValid =
+    !!overrideReason.trim() && (canOverrideCreditLimit || (!!managerUsername.trim() && !!managerPassword));
 
   const isStockIn = pathname.includes('purchase-management');
   const totalPayableAmount = total - (discount || 0);
@@ -695,10 +751,43 @@ const PaymentDetails: React.FC<PaymentDetailsProps> = ({
     resetForm();
   };
 
+  const handlePrintInvoice = async () => {
+    if (!lastInvoice) return;
+    const businessLineName = await fetchBusinessLineName(getBusinessLineID());
+    generateInvoicePDF({ ...lastInvoice, businessLineName });
+  };
+
+  // Checks the credit and cheque part of this sale against the customer's hold
+  // status and credit limit. Customers without a limit are not limit-checked.
+  const checkCustomerCredit = async (
+    exposure: number
+  ): Promise<{ onHold: boolean; breach: CreditLimitBreach | null }> => {
+    const [customerResponse, outstandingResponse] = await Promise.all([
+      axios.get(`${process.env.NEXT_PUBLIC_API_URL}/customers/${customerID}`),
+      axios.get(`${process.env.NEXT_PUBLIC_API_URL}/payments/customer/${customerID}/outstanding`),
+    ]);
+
+    if (customerResponse.data?.Status === CREDIT_HOLD_STATUS) {
+      return { onHold: true, breach: null };
+    }
+
+    const creditLimit = Number(customerResponse.data?.CreditLimit) || 0;
+    if (creditLimit <= 0) return { onHold: false, breach: null };
+
+    const outstanding = Number(outstandingResponse.data?.TotalOutstanding) || 0;
+    return {
+      onHold: false,
+      breach: outstanding + exposure - creditLimit > 0.009
+        ? { creditLimit, outstanding, exposure }
+        : null,
+    };
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (isSubmitting) return;
     setIsSubmitting(true); 
+    setLastInvoice(null);
   
     // Validate required fields
     if (!customerID) {
@@ -718,7 +807,98 @@ const PaymentDetails: React.FC<PaymentDetailsProps> = ({
       setIsSubmitting(false);
       return;
     }
-  
+
+    const cashDate = saleDate || format(new Date(), 'yyyy-MM-dd');
+    if ((Number(cashAmount) || 0) > 0) {
+      try {
+        if (await isCashDayClosed(getBusinessLineID(), cashDate)) {
+          onError?.(closedDayMessage(cashDate));
+          setIsSubmitting(false);
+          return;
+        }
+      } catch (error: unknown) {
+        console.error('Error checking cash close:', error);
+        onError?.('Could not verify whether the cash register is closed. Please try again.');
+        setIsSubmitting(false);
+        return;
+      }
+    }
+
+    const exposure = (Number(creditAmount) || 0) + getTotalChequeAmount();
+    if (!isStockIn && exposure > 0) {
+      try {
+        const { onHold, breach } = await checkCustomerCredit(exposure);
+        if (onHold) {
+          onError?.('Customer is on credit hold after a bounced cheque. Only cash sales are allowed.');
+          setIsSubmitting(false);
+          return;
+        }
+        if (breach) {
+          setOverrideReason('');
+          setManagerUsername('');
+          setManagerPassword('');
+          setOverrideError('');
+          setCreditLimitBreach(breach);
+          setIsSubmitting(false);
+          return;
+        }
+      } catch (error: unknown) {
+        console.error('Error checking credit limit:', error);
+        onError?.('Could not verify the customer\'s credit limit. Please try again.');
+        setIsSubmitting(false);
+        return;
+      }
+    }
+
+    await submitSale();
+  };
+
+  // Checks the manager's credentials without replacing the current session and returns their user ID.
+  // Plain axios, as the shared instance signs the cashier out when a wrong password gets a 401.
+  const authenticateManager = async (): Promise<number | null> => {
+    try {
+      const response = await plainAxios.post(`${process.env.NEXT_PUBLIC_API_URL}/auth/login`, {
+        username: managerUsername.trim(),
+        password: managerPassword,
+        businessLineId: getBusinessLineID()
+      });
+      const manager = response.data.user;
+      if (!manager?.id || !CREDIT_OVERRIDE_ROLES.includes(manager.userType)) {
+        setOverrideError('Only a manager can approve a sale over the credit limit.');
+        return null;
+      }
+      return manager.id;
+    } catch (error: unknown) {
+      console.error('Error authenticating manager:', error);
+      setOverrideError(
+        isAxiosError(error) && (error.response?.status === 400 || error.response?.status === 401)
+          ? 'Incorrect manager username or password.'
+          : 'Could not verify the manager. Please try again.'
+      );
+      return null;
+    }
+  };
+
+  const handleOverrideSubmit = async () => {
+    if (!isOverrideValid || isSubmitting) return;
+    setIsSubmitting(true);
+    setOverrideError('');
+
+    const approvedBy = canOverrideCreditLimit ? getUserID() : await authenticateManager();
+    if (!approvedBy) {
+      setIsSubmitting(false);
+      return;
+    }
+
+    const override: CreditLimitOverride = {
+      reason: overrideReason.trim(),
+      approvedBy,
+    };
+    setCreditLimitBreach(null);
+    await submitSale(override);
+  };
+
+  const submitSale = async (creditLimitOverride?: CreditLimitOverride) => {
     try {
       const token = localStorage.getItem('token');
       if (!token) {
@@ -740,6 +920,9 @@ const PaymentDetails: React.FC<PaymentDetailsProps> = ({
           salesPersonID,
           products: items,
           date: saleDate,
+          // Without a location the server issues from the default one
+          locationId: locationId ? Number(locationId) : undefined,
+          quotationId,
           discount: discount,
           cashAmount,
           chequePayments,
@@ -748,7 +931,8 @@ const PaymentDetails: React.FC<PaymentDetailsProps> = ({
             dueDate
           },
           shouldSendSMS: sendSMS,
-          customInvoiceNumber: customInvoiceNumber || undefined // Include custom invoice number
+          customInvoiceNumber: customInvoiceNumber || undefined, // Include custom invoice number
+          creditLimitOverride
         },
         {
           headers: {
@@ -758,6 +942,39 @@ const PaymentDetails: React.FC<PaymentDetailsProps> = ({
       );
   
       if (response.status === 201) {
+        const invoiceNumber = response.data?.invoiceId || response.data?.InvoiceID || customInvoiceNumber;
+        setLastInvoice({
+          invoiceNumber: invoiceNumber || '',
+          invoiceDate: saleDate ? new Date(`${saleDate}T00:00:00`) : new Date(),
+          customerName: customerName || '',
+          customerAddress,
+          customerContact,
+          salesPerson: salesPersonName,
+          lines: items.map(item => ({
+            description: item.item,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            total: item.total,
+          })),
+          discount: Number(discount) || 0,
+          payments: [
+            ...(Number(cashAmount) > 0 ? [{ method: 'CASH' as const, amount: Number(cashAmount) }] : []),
+            ...chequePayments.map(cheque => ({
+              method: 'CHEQUE' as const,
+              amount: Number(cheque.amount) || 0,
+              details: [
+                cheque.chequeNumber && `#${cheque.chequeNumber}`,
+                cheque.bank,
+                cheque.realizeDate && `Realize: ${new Date(cheque.realizeDate).toLocaleDateString()}`,
+              ].filter(Boolean).join(' - '),
+            })),
+            ...(Number(creditAmount) > 0 ? [{
+              method: 'CREDIT' as const,
+              amount: Number(creditAmount),
+              details: dueDate ? `Due: ${dueDate.toLocaleDateString()}` : undefined,
+            }] : []),
+          ],
+        });
         resetForm();
         onSuccess?.();
       }
@@ -994,10 +1211,99 @@ const PaymentDetails: React.FC<PaymentDetailsProps> = ({
           </div>
         </div>
       </CardContent>
+      {/* Last completed sale */}
+      {lastInvoice && (
+        <div className="flex items-center justify-between mx-4 mb-4 p-3 rounded-md bg-green-50 text-sm text-green-800">
+          <span>
+            Sale saved{lastInvoice.invoiceNumber ? ` (Invoice ${lastInvoice.invoiceNumber})` : ''}.
+          </span>
+          <Button size="sm" variant="outline" onClick={handlePrintInvoice}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print Invoice
+          </Button>
+        </div>
+      )}
       <div className="flex gap-4 justify-end mb-4 mr-4">
         <Button variant="outline" onClick={handleCancel}>Cancel</Button>
         <Button onClick={handleSubmit} disabled={!isPaymentValid || isSubmitting}>{isSubmitting ? 'Submitting…' : 'Submit'}</Button>
       </div>        
+
+      {/* Credit limit breach */}
+      <Dialog open={creditLimitBreach !== null} onOpenChange={(open) => !open && setCreditLimitBreach(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-red-600" />
+              Credit limit exceeded
+            </DialogTitle>
+            <DialogDescription>
+              {canOverrideCreditLimit
+                ? 'This sale takes the customer past their credit limit. Enter a reason to approve it anyway; the reason is saved on the sale.'
+                : 'This sale takes the customer past their credit limit. Take more cash, or have a manager sign in below to approve the sale.'}
+            </DialogDescription>
+          </DialogHeader>
+          {creditLimitBreach && (
+            <div className="grid grid-cols-2 gap-2 text-sm p-3 bg-gray-50 rounded-md">
+              <span>Credit limit:</span>
+              <span className="text-right">Rs. {creditLimitBreach.creditLimit.toFixed(2)}</span>
+              <span>Current outstanding:</span>
+              <span className="text-right">Rs. {creditLimitBreach.outstanding.toFixed(2)}</span>
+              <span>This sale (credit + cheques):</span>
+              <span className="text-right">Rs. {creditLimitBreach.exposure.toFixed(2)}</span>
+              <span className="font-medium text-red-600">Over limit by:</span>
+              <span className="text-right font-medium text-red-600">
+                Rs. {(creditLimitBreach.outstanding + creditLimitBreach.exposure - creditLimitBreach.creditLimit).toFixed(2)}
+              </span>
+            </div>
+          )}
+          {!canOverrideCreditLimit && (
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="credit-override-manager" className="text-xs">Manager username</Label>
+                <Input
+                  id="credit-override-manager"
+                  autoComplete="off"
+                  value={managerUsername}
+                  onChange={(e) => setManagerUsername(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="credit-override-password" className="text-xs">Manager password</Label>
+                <Input
+                  id="credit-override-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={managerPassword}
+                  onChange={(e) => setManagerPassword(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label htmlFor="credit-override-reason" className="text-xs">Override reason</Label>
+            <Textarea
+              id="credit-override-reason"
+              rows={2}
+              value={overrideReason}
+              onChange={(e) => setOverrideReason(e.target.value)}
+              placeholder="e.g. Customer paying balance by cheque on Friday"
+            />
+          </div>
+          {overrideError && <p className="text-sm text-red-600">{overrideError}</p>}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreditLimitBreach(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleOverrideSubmit}
+              disabled={!isOverrideValid || isSubmitting}
+            >
+              {canOverrideCreditLimit ? 'Override and Submit' : 'Approve and Submit'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 };
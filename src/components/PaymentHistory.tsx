@@ -9,7 +9,7 @@ import { Button } from "@/components/ui/button";
 import DatePickerWithRange from './DateRange';
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/app/auth/auth-context";
-import { Loader2, Search, RefreshCw, Download, Filter, FileDown, Trash2, AlertTriangle } from "lucide-react";
+import { Loader2, Search, RefreshCw, Download, Filter, FileDown, Trash2, AlertTriangle, RotateCcw } from "lucide-react";
 import api from "@/lib/api/axios";
 import {
   Select,
@@ -39,6 +39,7 @@ import * as XLSX from 'xlsx';
 import { MonthYearDialog, YearDialog } from './MonthYearSelectors';
 
 import { PaymentStatusChange, transformPaymentsToStatusChanges } from "@/lib/paymentStatusAdapter";
+import ResolveBouncedChequeDialog from './ResolveBouncedChequeDialog';
 
 // Customer type
 interface Customer {
@@ -82,6 +83,7 @@ const PaymentStatusHistory: React.FC = () => {
     paymentToDelete: null
   });
   const [deletingPaymentId, setDeletingPaymentId] = useState<string | null>(null);
+  const [chequeToResolve, setChequeToResolve] = useState<PaymentStatusChange | null>(null);
   
   const debouncedSearchTerm = useDebounce(searchTerm, 300);  
 
@@ -148,8 +150,9 @@ const PaymentStatusHistory: React.FC = () => {
         change.paymentMethod === 'CHEQUE' && change.toStatus === 'REALIZED'
       );
     } else if (activeTab === "bounced-cheques") {
+      // Include re-deposits and replacements so the whole bounce chain stays visible
       result = result.filter(change => 
-        change.paymentMethod === 'CHEQUE' && change.toStatus === 'BOUNCED'
+        change.paymentMethod === 'CHEQUE' && (change.toStatus === 'BOUNCED' || change.fromStatus === 'BOUNCED')
       );
     }
     
@@ -294,6 +297,8 @@ const PaymentStatusHistory: React.FC = () => {
           if (change.details?.bank) detailParts.push(`Bank: ${change.details.bank}`);
           if (change.details?.realizeDate) detailParts.push(`Realize Date: ${formatDate(change.details.realizeDate)}`);
           if (change.details?.bouncedDate) detailParts.push(`Bounced Date: ${formatDate(change.details.bouncedDate)}`);
+          if (change.details?.resolution) detailParts.push(change.details.resolution);
+          if (change.details?.replacesChequeNumber) detailParts.push(`Replaces Cheque: ${change.details.replacesChequeNumber}`);
           details = detailParts.join(' | ');
         } else if (change.paymentMethod === 'CREDIT') {
           const detailParts = [];
@@ -889,6 +894,10 @@ const PaymentStatusHistory: React.FC = () => {
         return <Badge variant="outline" className="bg-green-100 text-green-800 border-green-300">Settled</Badge>;
       case 'BOUNCED':
         return <Badge variant="outline" className="bg-red-100 text-red-800 border-red-300">Bounced</Badge>;
+      case 'REDEPOSITED':
+        return <Badge variant="outline" className="bg-blue-100 text-blue-800 border-blue-300">Re-deposited</Badge>;
+      case 'REPLACED':
+        return <Badge variant="outline" className="bg-green-100 text-green-800 border-green-300">Replaced</Badge>;
       case 'PENDING':
         return <Badge variant="outline">Pending</Badge>;
       default:
@@ -1235,6 +1244,15 @@ const handleDeleteStatusChange = async (change: PaymentStatusChange) => {
                                   {change.details?.bouncedDate && (
                                     <div><span className="font-medium">Bounced Date:</span> {formatDate(change.details.bouncedDate)}</div>
                                   )}
+                                  {change.details?.resolution && (
+                                    <div><span className="font-medium">Resolution:</span> {change.details.resolution}</div>
+                                  )}
+                                  {change.details?.replacesChequeNumber && (
+                                    <div className="text-gray-500">Replaces bounced cheque #{change.details.replacesChequeNumber}</div>
+                                  )}
+                                  {change.details?.notes && (
+                                    <div className="text-gray-500">{change.details.notes}</div>
+                                  )}
                                 </div>
                               ) : change.paymentMethod === 'CREDIT' ? (
                                 <div className="text-sm">
@@ -1244,6 +1262,9 @@ const handleDeleteStatusChange = async (change: PaymentStatusChange) => {
                                   {change.details?.settledDate && (
                                     <div><span className="font-medium">Settled Date:</span> {formatDate(change.details.settledDate)}</div>
                                   )}
+                                  {change.details?.replacesChequeNumber && (
+                                    <div className="text-gray-500">Replaces bounced cheque #{change.details.replacesChequeNumber}</div>
+                                  )}
                                 </div>
                               ) : (
                                 <div className="text-sm text-gray-500">-</div>
@@ -1268,6 +1289,17 @@ const handleDeleteStatusChange = async (change: PaymentStatusChange) => {
                                     )}
                                   </Button>
                                 )}
+                                {change.toStatus === 'BOUNCED' && !change.resolved && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => setChequeToResolve(change)}
+                                    className="hover:bg-blue-50 hover:text-blue-600"
+                                    title="Re-deposit or replace bounced cheque"
+                                  >
+                                    <RotateCcw className="h-4 w-4" />
+                                  </Button>
+                                )}
                               </div>
                             )}
                             </TableCell>
@@ -1347,6 +1379,13 @@ const handleDeleteStatusChange = async (change: PaymentStatusChange) => {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <ResolveBouncedChequeDialog
+        open={chequeToResolve !== null}
+        onOpenChange={(open) => !open && setChequeToResolve(null)}
+        change={chequeToResolve}
+        onSuccess={fetchStatusChanges}
+      />
     </>
   );
 };
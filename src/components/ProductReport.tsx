@@ -1,7 +1,7 @@
 "use client";
 
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
-import { addDays, format } from 'date-fns';
+import { addDays, endOfDay, format, startOfDay } from 'date-fns';
 import { DateRange } from 'react-day-picker';
 import { RefreshCw, TrendingDown, TrendingUp } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -14,6 +14,8 @@ import { useAuth } from '@/app/auth/auth-context';
 import axios from '@/lib/api/axios';
 import { isAxiosError } from 'axios';
 import { formatMetricTons } from '@/lib/formatMetricTons';
+import { COSTING_METHOD_LABELS, computeCostOfSales, fetchCostingInputs } from '@/lib/costing';
+import { CostingMethod } from '@/types/costing';
 
 interface ProductSalesRow {
   ProductID: number;
@@ -24,6 +26,8 @@ interface ProductSalesRow {
   orderCount: number;
   avgSalePrice: number;
   lastPurchasePrice: number;
+  // Inventory cost of the units sold; null when the movements carry no cost for this product
+  costOfSales?: number | null;
   unitProfit: number | null;
   totalProfit: number | null;
   margin: number | null;
@@ -49,6 +53,7 @@ const ProductReport = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [sortKey, setSortKey] = useState<SortKey>('totalRevenue');
+  const [costingMethod, setCostingMethod] = useState<CostingMethod | null>(null);
   const [dateRange, setDateRange] = useState<DateRange | undefined>({
     from: addDays(new Date(), -30),
     to: new Date(),
@@ -72,8 +77,28 @@ const ProductReport = () => {
         params.endDate = format(dateRange.to, 'yyyy-MM-dd');
       }
 
-      const response = await axios.get('/sales/product-report', { params });
-      const rows: ProductSalesRow[] = Array.isArray(response.data) ? response.data : [];
+      const costingStart = dateRange?.from ? startOfDay(dateRange.from) : new Date(0);
+      const costingEnd = endOfDay(dateRange?.to ?? new Date());
+      const [response, { movements, method }] = await Promise.all([
+        axios.get('/sales/product-report', { params }),
+        fetchCostingInputs(businessLineId, costingStart, costingEnd),
+      ]);
+      const costOfSales = computeCostOfSales(movements, method, costingStart, costingEnd);
+      // Profit is revenue less the cost of the units sold, falling back to the server estimate
+      const rows: ProductSalesRow[] = (Array.isArray(response.data) ? response.data : []).map(
+        (row: ProductSalesRow) => {
+          const cost = costOfSales.get(row.ProductID);
+          if (!cost || cost.costOfSales === 0) return { ...row, costOfSales: null };
+          const totalProfit = Number(row.totalRevenue) - cost.costOfSales;
+          return {
+            ...row,
+            costOfSales: cost.costOfSales,
+            totalProfit,
+            unitProfit: row.totalQuantity > 0 ? totalProfit / Number(row.totalQuantity) : null,
+            margin: Number(row.totalRevenue) > 0 ? (totalProfit / Number(row.totalRevenue)) * 100 : null,
+          };
+        }
+      );
 
       // console.group('[ProductReport] MT values from API');
       // console.table(
@@ -94,6 +119,7 @@ const ProductReport = () => {
       // console.groupEnd();
 
       setProducts(rows);
+      setCostingMethod(method);
     } catch (err) {
       console.error('Error fetching product report:', err);
       if (isAxiosError(err)) {
@@ -199,7 +225,7 @@ const ProductReport = () => {
         </Card>
         <Card>
           <CardContent className="pt-6">
-            <div className="text-sm text-muted-foreground">Estimated Total Profit</div>
+            <div className="text-sm text-muted-foreground">Gross Profit</div>
             {loading ? (
               <Skeleton className="h-7 w-28 mt-1" />
             ) : (
@@ -295,7 +321,10 @@ const ProductReport = () => {
         <CardHeader className="pb-2 flex flex-row items-center justify-between">
           <div>
             <CardTitle className="text-base">All Products</CardTitle>
-            <CardDescription>Profit uses average sale price vs last purchase price.</CardDescription>
+            <CardDescription>
+              Profit is revenue less the {costingMethod ? COSTING_METHOD_LABELS[costingMethod] : 'inventory'} cost of
+              the units sold; products without costed stock fall back to the last purchase price.
+            </CardDescription>
           </div>
           <div className="flex items-center gap-2">
             <span className="text-sm text-muted-foreground">Sort by</span>
@@ -344,6 +373,7 @@ const ProductReport = () => {
                   <TableHead className="font-bold text-black text-right">Orders</TableHead>
                   <TableHead className="font-bold text-black text-right">Avg Sale Price</TableHead>
                   <TableHead className="font-bold text-black text-right">Last Purchase</TableHead>
+                  <TableHead className="font-bold text-black text-right">Cost of Sales</TableHead>
                   <TableHead className="font-bold text-black text-right">Revenue</TableHead>
                   <TableHead className="font-bold text-black text-right">Profit</TableHead>
                 </TableRow>
@@ -359,6 +389,9 @@ const ProductReport = () => {
                     <TableCell className="text-right tabular-nums">
                       {product.lastPurchasePrice > 0 ? formatCurrency(product.lastPurchasePrice) : '—'}
                     </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {product.costOfSales != null ? formatCurrency(product.costOfSales) : '—'}
+                    </TableCell>
                     <TableCell className="text-right tabular-nums">{formatCurrency(product.totalRevenue)}</TableCell>
                     <TableCell className="text-right tabular-nums">
                       {product.totalProfit != null ? (
@@ -378,7 +411,7 @@ const ProductReport = () => {
                 ))}
                 {sortedProducts.length === 0 && (
                   <TableRow>
-                    <TableCell colSpan={8} className="text-center py-4 text-muted-foreground">
+                    <TableCell colSpan={9} className="text-center py-4 text-muted-foreground">
                       No product sales found for this period
                     </TableCell>
                   </TableRow>
@@ -1,31 +1,38 @@
 "use client";
 
 import React, { useCallback, useEffect, useState } from "react";
-import { addDays, format } from "date-fns";
+import { addDays, endOfDay, format, startOfDay } from "date-fns";
 import { DateRange } from "react-day-picker";
 import { RefreshCw } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 import { DatePickerWithRange } from "./DateRange";
+import ComparativeProfitLoss from "./ComparativeProfitLoss";
 import { useAuth } from "@/app/auth/auth-context";
 import axios from "@/lib/api/axios";
 import { isAxiosError } from "axios";
-
-interface ProfitAndLoss {
-  period: { startDate: string; endDate: string };
-  revenue: number;
-  saleCount: number;
-  purchases: number;
-  purchaseCount: number;
-  grossProfit: number;
-  operatingExpenses: number;
-  otherIncome: number;
-  netProfit: number;
-  cashBalance: number;
-  bankBalance: number;
-}
+import { bankAccountLabel } from "@/lib/bankAccounts";
+import { budgetsForRange, buildBudgetVariance } from "@/lib/expenseBudgets";
+import {
+  COSTING_METHOD_LABELS,
+  computeCostOfSales,
+  fetchCostingInputs,
+  totalCostOfSales,
+} from "@/lib/costing";
+import { applyCostOfSales } from "@/lib/pnlPeriods";
+import { BudgetVarianceRow, ExpenseBudget } from "@/types/expenseBudget";
+import { ProfitAndLoss } from "@/types/profitAndLoss";
 
 const formatCurrency = (value: number): string =>
   new Intl.NumberFormat("en-LK", {
@@ -34,9 +41,45 @@ const formatCurrency = (value: number): string =>
     maximumFractionDigits: 2,
   }).format(value);
 
+const Row = ({
+  label,
+  value,
+  muted,
+  bold,
+  indent,
+  emphasize,
+}: {
+  label: string;
+  value: number;
+  muted?: boolean;
+  bold?: boolean;
+  indent?: boolean;
+  emphasize?: "positive" | "negative" | "neutral";
+}) => (
+  <div
+    className={`flex items-center justify-between py-2 border-b last:border-b-0 ${
+      muted ? "text-muted-foreground text-sm" : ""
+    } ${bold ? "font-semibold text-base pt-3" : ""} ${indent ? "pl-4" : ""}`}
+  >
+    <span>{label}</span>
+    <span
+      className={`tabular-nums ${
+        emphasize === "positive"
+          ? "text-green-700"
+          : emphasize === "negative"
+            ? "text-red-600"
+            : ""
+      }`}
+    >
+      {formatCurrency(value)}
+    </span>
+  </div>
+);
+
 const ProfitLossReport = () => {
   const { getBusinessLineID } = useAuth();
   const [data, setData] = useState<ProfitAndLoss | null>(null);
+  const [expenseRows, setExpenseRows] = useState<BudgetVarianceRow[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [dateRange, setDateRange] = useState<DateRange | undefined>({
@@ -56,14 +99,46 @@ const ProfitLossReport = () => {
     setError(null);
 
     try {
-      const response = await axios.get("/cashbook/pnl", {
-        params: {
-          businessLineId,
-          startDate: format(dateRange.from, "yyyy-MM-dd"),
-          endDate: format(dateRange.to, "yyyy-MM-dd"),
-        },
-      });
-      setData(response.data);
+      const startDate = format(dateRange.from, "yyyy-MM-dd");
+      const endDate = format(dateRange.to, "yyyy-MM-dd");
+      const [
+        response,
+        entriesRes,
+        budgetsRes,
+        categoriesRes,
+        { movements, method: costingMethod },
+      ] = await Promise.all([
+        axios.get("/cashbook/pnl", {
+          params: { businessLineId, startDate, endDate },
+        }),
+        axios.get("/cashbook", {
+          params: { businessLineId, direction: "OUT", startDate, endDate },
+        }),
+        axios.get("/expense-budgets", {
+          params: {
+            businessLineId,
+            startMonth: format(dateRange.from, "yyyy-MM"),
+            endMonth: format(dateRange.to, "yyyy-MM"),
+          },
+        }),
+        axios.get("/cashbook/expense-categories", { params: { businessLineId } }),
+        fetchCostingInputs(businessLineId, startOfDay(dateRange.from), endOfDay(dateRange.to)),
+      ]);
+      const budgets: ExpenseBudget[] = budgetsRes.data.data || [];
+      const costOfSales = computeCostOfSales(
+        movements,
+        costingMethod,
+        startOfDay(dateRange.from),
+        endOfDay(dateRange.to)
+      );
+      setData(applyCostOfSales(response.data, totalCostOfSales(costOfSales), costingMethod));
+      setExpenseRows(
+        buildBudgetVariance(
+          categoriesRes.data.data || [],
+          budgetsForRange(budgets, dateRange.from, dateRange.to),
+          entriesRes.data.data || []
+        )
+      );
     } catch (err) {
       console.error("Error fetching P&L:", err);
       if (isAxiosError(err)) {
@@ -80,38 +155,10 @@ const ProfitLossReport = () => {
     fetchReport();
   }, [fetchReport]);
 
-  const Row = ({
-    label,
-    value,
-    muted,
-    bold,
-    emphasize,
-  }: {
-    label: string;
-    value: number;
-    muted?: boolean;
-    bold?: boolean;
-    emphasize?: "positive" | "negative" | "neutral";
-  }) => (
-    <div
-      className={`flex items-center justify-between py-2 border-b last:border-b-0 ${
-        muted ? "text-muted-foreground text-sm" : ""
-      } ${bold ? "font-semibold text-base pt-3" : ""}`}
-    >
-      <span>{label}</span>
-      <span
-        className={`tabular-nums ${
-          emphasize === "positive"
-            ? "text-green-700"
-            : emphasize === "negative"
-              ? "text-red-600"
-              : ""
-        }`}
-      >
-        {formatCurrency(value)}
-      </span>
-    </div>
-  );
+  const totalBudget = expenseRows.reduce((sum, row) => sum + row.Budget, 0);
+  const totalActual = expenseRows.reduce((sum, row) => sum + row.Actual, 0);
+  // Whatever the categories do not explain, e.g. expenses recorded before categories existed
+  const uncategorizedExpenses = data ? data.operatingExpenses - totalActual : 0;
 
   return (
     <div className="space-y-4 p-4">
@@ -130,142 +177,244 @@ const ProfitLossReport = () => {
         </div>
       </div>
 
-      {error && (
-        <Alert variant="destructive">
-          <AlertDescription>{error}</AlertDescription>
-        </Alert>
-      )}
+      <Tabs defaultValue="statement" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="statement">Statement</TabsTrigger>
+          <TabsTrigger value="comparative">Comparative</TabsTrigger>
+          <TabsTrigger value="monthly">12 Months</TabsTrigger>
+        </TabsList>
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-        <Card>
-          <CardContent className="pt-6">
-            <div className="text-sm text-muted-foreground">Gross Profit</div>
-            {loading || !data ? (
-              <Skeleton className="h-7 w-28 mt-1" />
-            ) : (
-              <div
-                className={`text-2xl font-bold ${
-                  data.grossProfit >= 0 ? "text-green-700" : "text-red-600"
-                }`}
-              >
-                {formatCurrency(data.grossProfit)}
-              </div>
-            )}
-          </CardContent>
-        </Card>
-        <Card>
-          <CardContent className="pt-6">
-            <div className="text-sm text-muted-foreground">Net Profit</div>
-            {loading || !data ? (
-              <Skeleton className="h-7 w-28 mt-1" />
-            ) : (
-              <div
-                className={`text-2xl font-bold ${
-                  data.netProfit >= 0 ? "text-green-700" : "text-red-600"
-                }`}
-              >
-                {formatCurrency(data.netProfit)}
-              </div>
-            )}
-          </CardContent>
-        </Card>
-        <Card>
-          <CardContent className="pt-6">
-            <div className="text-sm text-muted-foreground">Bank Balance (as of end date)</div>
-            {loading || !data ? (
-              <Skeleton className="h-7 w-28 mt-1" />
-            ) : (
-              <div className="text-2xl font-bold">{formatCurrency(data.bankBalance)}</div>
-            )}
-          </CardContent>
-        </Card>
-      </div>
+        <TabsContent value="statement" className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-sm text-muted-foreground">Gross Profit</div>
+                {loading || !data ? (
+                  <Skeleton className="h-7 w-28 mt-1" />
+                ) : (
+                  <div
+                    className={`text-2xl font-bold ${
+                      data.grossProfit >= 0 ? "text-green-700" : "text-red-600"
+                    }`}
+                  >
+                    {formatCurrency(data.grossProfit)}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-sm text-muted-foreground">Net Profit</div>
+                {loading || !data ? (
+                  <Skeleton className="h-7 w-28 mt-1" />
+                ) : (
+                  <div
+                    className={`text-2xl font-bold ${
+                      data.netProfit >= 0 ? "text-green-700" : "text-red-600"
+                    }`}
+                  >
+                    {formatCurrency(data.netProfit)}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-sm text-muted-foreground">Bank Balance (as of end date)</div>
+                {loading || !data ? (
+                  <Skeleton className="h-7 w-28 mt-1" />
+                ) : (
+                  <div className="text-2xl font-bold">{formatCurrency(data.bankBalance)}</div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
 
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-        <Card>
-          <CardHeader className="pb-2">
-            <CardTitle className="text-base">Statement</CardTitle>
-            <CardDescription>
-              {data
-                ? `${data.period.startDate} to ${data.period.endDate}`
-                : "Select a date range"}
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            {loading || !data ? (
-              <div className="space-y-2">
-                <Skeleton className="h-8 w-full" />
-                <Skeleton className="h-8 w-full" />
-                <Skeleton className="h-8 w-full" />
-              </div>
-            ) : (
-              <div>
-                <Row label="Sales Revenue" value={data.revenue} />
-                <Row
-                  label={`Less: Purchases (${data.purchaseCount} orders)`}
-                  value={-data.purchases}
-                  muted
-                />
-                <Row
-                  label="Gross Profit"
-                  value={data.grossProfit}
-                  bold
-                  emphasize={data.grossProfit >= 0 ? "positive" : "negative"}
-                />
-                <Row
-                  label="Less: Operating Expenses"
-                  value={-data.operatingExpenses}
-                  muted
-                />
-                <Row label="Add: Other Income" value={data.otherIncome} muted />
-                <Row
-                  label="Net Profit / (Loss)"
-                  value={data.netProfit}
-                  bold
-                  emphasize={data.netProfit >= 0 ? "positive" : "negative"}
-                />
-              </div>
-            )}
-          </CardContent>
-        </Card>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Statement</CardTitle>
+                <CardDescription>
+                  {data
+                    ? `${data.period.startDate} to ${data.period.endDate}`
+                    : "Select a date range"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {loading || !data ? (
+                  <div className="space-y-2">
+                    <Skeleton className="h-8 w-full" />
+                    <Skeleton className="h-8 w-full" />
+                    <Skeleton className="h-8 w-full" />
+                  </div>
+                ) : (
+                  <div>
+                    <Row label="Sales Revenue" value={data.revenue} />
+                    <Row
+                      label={`Less: Cost of Goods Sold (${
+                        data.costingMethod ? COSTING_METHOD_LABELS[data.costingMethod] : "cost"
+                      })`}
+                      value={-(data.costOfGoodsSold ?? 0)}
+                      muted
+                    />
+                    <Row
+                      label="Gross Profit"
+                      value={data.grossProfit}
+                      bold
+                      emphasize={data.grossProfit >= 0 ? "positive" : "negative"}
+                    />
+                    <div className="py-2 border-b text-sm text-muted-foreground">
+                      Less: Operating Expenses
+                    </div>
+                    {expenseRows
+                      .filter((row) => row.Actual > 0)
+                      .map((row) => (
+                        <Row
+                          key={row.ExpenseCategoryID}
+                          label={row.Name}
+                          indent
+                          value={-row.Actual}
+                          muted
+                        />
+                      ))}
+                    {Math.abs(uncategorizedExpenses) >= 0.01 && (
+                      <Row label="Other" value={-uncategorizedExpenses} muted indent />
+                    )}
+                    <Row label="Total Operating Expenses" value={-data.operatingExpenses} muted />
+                    <Row label="Add: Other Income" value={data.otherIncome} muted />
+                    <Row
+                      label="Net Profit / (Loss)"
+                      value={data.netProfit}
+                      bold
+                      emphasize={data.netProfit >= 0 ? "positive" : "negative"}
+                    />
+                  </div>
+                )}
+              </CardContent>
+            </Card>
 
-        <Card>
-          <CardHeader className="pb-2">
-            <CardTitle className="text-base">Balances &amp; Volume</CardTitle>
-            <CardDescription>
-              Cashbook balances as of the period end date.
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            {loading || !data ? (
-              <div className="space-y-2">
-                <Skeleton className="h-8 w-full" />
-                <Skeleton className="h-8 w-full" />
-              </div>
-            ) : (
-              <div>
-                <Row label="Cash Balance" value={data.cashBalance} />
-                <Row label="Bank Balance" value={data.bankBalance} bold />
-                <div className="mt-4 grid grid-cols-2 gap-3 text-sm">
-                  <div className="rounded-md border p-3">
-                    <div className="text-muted-foreground">Sales count</div>
-                    <div className="text-xl font-semibold">{data.saleCount}</div>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Balances &amp; Volume</CardTitle>
+                <CardDescription>
+                  Cashbook balances as of the period end date.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {loading || !data ? (
+                  <div className="space-y-2">
+                    <Skeleton className="h-8 w-full" />
+                    <Skeleton className="h-8 w-full" />
                   </div>
-                  <div className="rounded-md border p-3">
-                    <div className="text-muted-foreground">Purchase count</div>
-                    <div className="text-xl font-semibold">{data.purchaseCount}</div>
+                ) : (
+                  <div>
+                    <Row label="Cash Balance" value={data.cashBalance} />
+                    {data.bankAccounts?.map((account) => (
+                      <Row
+                        key={account.BankAccountID}
+                        label={bankAccountLabel(account)}
+                        value={account.Balance}
+                        muted
+                      />
+                    ))}
+                    <Row label="Bank Balance" value={data.bankBalance} bold />
+                    <Row label={`Purchases (${data.purchaseCount} orders)`} value={data.purchases} muted />
+                    <div className="mt-4 grid grid-cols-2 gap-3 text-sm">
+                      <div className="rounded-md border p-3">
+                        <div className="text-muted-foreground">Sales count</div>
+                        <div className="text-xl font-semibold">{data.saleCount}</div>
+                      </div>
+                      <div className="rounded-md border p-3">
+                        <div className="text-muted-foreground">Purchase count</div>
+                        <div className="text-xl font-semibold">{data.purchaseCount}</div>
+                      </div>
+                    </div>
+                    <p className="mt-4 text-xs text-muted-foreground">
+                      Cost of goods sold is the inventory cost of the units sold in the period, so
+                      purchases made to build stock do not reduce gross profit until that stock sells.
+                      Operating expenses and other income come from manual cashbook entries;
+                      transfers between cash and bank accounts are excluded. Cash sales and cheque realizations affect balances but are not re-counted as
+                      revenue here (sales already include them).
+                    </p>
                   </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Operating Expenses vs Budget</CardTitle>
+              <CardDescription>
+                Monthly budgets are prorated to the days of each month in the selected range.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading || !data ? (
+                <Skeleton className="h-24 w-full" />
+              ) : expenseRows.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No categorized expenses or budgets for this period.</p>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader className="bg-gray-50">
+                      <TableRow>
+                        <TableHead className="font-bold text-black">Category</TableHead>
+                        <TableHead className="font-bold text-black text-right">Budget</TableHead>
+                        <TableHead className="font-bold text-black text-right">Actual</TableHead>
+                        <TableHead className="font-bold text-black text-right">Variance</TableHead>
+                        <TableHead className="font-bold text-black text-right">Variance %</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {expenseRows.map((row) => (
+                        <TableRow key={row.ExpenseCategoryID}>
+                          <TableCell className="font-medium">{row.Name}</TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {row.Budget > 0 ? formatCurrency(row.Budget) : "—"}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">{formatCurrency(row.Actual)}</TableCell>
+                          <TableCell
+                            className={`text-right tabular-nums ${row.Variance < 0 ? "text-red-600" : "text-green-700"}`}
+                          >
+                            {formatCurrency(row.Variance)}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {row.VariancePercent === null ? "—" : `${row.VariancePercent.toFixed(1)}%`}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                      <TableRow className="bg-gray-50 font-bold">
+                        <TableCell>Total</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatCurrency(totalBudget)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatCurrency(totalActual)}</TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatCurrency(totalBudget - totalActual)}
+                        </TableCell>
+                        <TableCell />
+                      </TableRow>
+                    </TableBody>
+                  </Table>
                 </div>
-                <p className="mt-4 text-xs text-muted-foreground">
-                  Operating expenses and other income come from manual cashbook entries.
-                  Cash sales and cheque realizations affect balances but are not re-counted as
-                  revenue here (sales already include them).
-                </p>
-              </div>
-            )}
-          </CardContent>
-        </Card>
-      </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="comparative">
+          <ComparativeProfitLoss dateRange={dateRange} view="periods" />
+        </TabsContent>
+
+        <TabsContent value="monthly">
+          <ComparativeProfitLoss dateRange={dateRange} view="monthly" />
+        </TabsContent>
+      </Tabs>
     </div>
   );
 };
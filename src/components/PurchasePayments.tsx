@@ -7,6 +7,9 @@ import { Button } from './ui/button';
 import { useToast } from '@/hooks/use-toast';
 import axios from '@/lib/api/axios';
 import { AxiosError } from 'axios';
+import { format } from 'date-fns';
+import { useAuth } from '@/app/auth/auth-context';
+import { closedDayMessage, isCashDayClosed } from '@/lib/cashClose';
 
 interface PurchasePaymentDetailsProps {
   total: number;
@@ -20,6 +23,9 @@ interface PurchasePaymentDetailsProps {
   vendorID: number;
   invoiceNumber: string;
   invoiceDate: Date;
+  locationId?: string;
+  // Converting a purchase order: its goods-received notes already moved the stock
+  purchaseOrderId?: number;
   onSuccess?: () => void;
   onError?: (error: string) => void;
 }
@@ -43,6 +49,8 @@ const PurchasePaymentDetails: React.FC<PurchasePaymentDetailsProps> = ({
   vendorID,
   invoiceNumber,
   invoiceDate,
+  locationId,
+  purchaseOrderId,
   onSuccess,
   onError 
 }) => {
@@ -51,6 +59,7 @@ const PurchasePaymentDetails: React.FC<PurchasePaymentDetailsProps> = ({
   const [dueDate, setDueDate] = useState<Date | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { toast } = useToast();
+  const { getBusinessLineID } = useAuth();
 
   // Calculate payment suggestions
   const paymentSuggestions = useMemo(() => {
@@ -110,6 +119,20 @@ const PurchasePaymentDetails: React.FC<PurchasePaymentDetailsProps> = ({
   
     setIsSubmitting(true);
 
+    const cashDate = format(invoiceDate, 'yyyy-MM-dd');
+    try {
+      if ((Number(cashAmount) || 0) > 0 && await isCashDayClosed(getBusinessLineID(), cashDate)) {
+        onError?.(closedDayMessage(cashDate));
+        setIsSubmitting(false);
+        return;
+      }
+    } catch (error) {
+      console.error('Error checking cash close:', error);
+      onError?.('Could not verify whether the cash register is closed. Please try again.');
+      setIsSubmitting(false);
+      return;
+    }
+
     try {
       const token = localStorage.getItem('token');
       if (!token) {
@@ -130,6 +153,9 @@ const PurchasePaymentDetails: React.FC<PurchasePaymentDetailsProps> = ({
         })),
         invoiceNumber,
         invoiceDate: formattedInvoiceDate,
+        // Without a location the server receives into the default one
+        locationId: locationId ? Number(locationId) : undefined,
+        purchaseOrderId,
         cashAmount: Number(cashAmount) || 0,
         creditPayment: {
           amount: Number(creditAmount) || 0,
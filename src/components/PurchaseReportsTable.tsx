@@ -9,7 +9,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ChevronDown, ChevronRight, FileDown, FileText, Filter } from "lucide-react";
+import { ChevronDown, ChevronRight, FileDown, FileText, Filter, Printer, RotateCcw } from "lucide-react";
 import { DateRange } from "react-day-picker";
 import { addDays, format } from "date-fns";
 import { parseISO } from "date-fns";
@@ -19,18 +19,26 @@ import { Trash2, AlertTriangle } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import _ from 'lodash';
+import PurchaseReturnDialog from './PurchaseReturnDialog';
+import { PurchaseReturn } from '@/types/purchaseReturn';
+import { fetchBusinessLineName, generateInvoicePDF } from '@/lib/invoicePdf';
 
 interface Vendor {
   VendorName: string;
   VendorID: number;
+  Address?: string;
+  ContactNumber?: string;
 }
 
 interface PaymentDetails {
   dueDate?: string;
   status?: string;
+  // Paid so far against a credit purchase, including partial settlements
+  settledAmount?: number;
 }
 
 interface PurchaseItem {
+  PurchaseItemID: string;
   ProductID: string;
   Name: string;
   Quantity: number;
@@ -61,6 +69,10 @@ interface FilterState {
   invoiceNumber: string;
 }
 
+// What is still owed on a credit row once partial settlements are taken off
+const remainingCredit = (purchase: Purchase) =>
+  Math.max(0, Number(purchase.Amount) - Number(purchase.paymentDetails?.settledAmount || 0));
+
 const PurchaseReportsTable = () => {
   const { getBusinessLineID } = useAuth();
   const [purchases, setPurchases] = useState<Purchase[]>([]);
@@ -85,6 +97,15 @@ const PurchaseReportsTable = () => {
   });
   const [selectedPaymentMethod, setSelectedPaymentMethod] = useState("ALL");
 
+  const [purchaseReturns, setPurchaseReturns] = useState<Record<string, PurchaseReturn[]>>({});
+  const [returnDialog, setReturnDialog] = useState<{
+    open: boolean;
+    purchase: { purchaseId: string; invoiceNumber: string; vendorName: string; outstandingCredit: number } | null;
+  }>({
+    open: false,
+    purchase: null
+  });
+
   const [deleteDialog, setDeleteDialog] = useState({
     open: false,
     purchaseId: '',
@@ -210,6 +231,55 @@ const PurchaseReportsTable = () => {
     }
   };
 
+  const fetchPurchaseReturns = async (purchaseId: string) => {
+    try {
+      const response = await axios.get(
+        `${process.env.NEXT_PUBLIC_API_URL}/purchases/${purchaseId}/returns`
+      );
+      setPurchaseReturns(prev => ({ ...prev, [purchaseId]: response.data || [] }));
+    } catch (error) {
+      console.error('Error fetching purchase returns:', error);
+    }
+  };
+
+  const printDebitNote = async (purchaseReturn: PurchaseReturn) => {
+    try {
+      const vendor = vendors.find(v => String(v.VendorID) === String(purchaseReturn.VendorID));
+      const businessLineName = await fetchBusinessLineName(getBusinessLineID());
+
+      generateInvoicePDF({
+        businessLineName,
+        title: 'DEBIT NOTE',
+        numberLabel: 'Debit Note No',
+        totalLabel: 'Total Debit',
+        reference: `Against Invoice: ${purchaseReturn.InvoiceNumber}`,
+        partyLabel: 'Vendor:',
+        partySignatureLabel: 'Received By',
+        invoiceNumber: purchaseReturn.DebitNoteNumber,
+        invoiceDate: purchaseReturn.ReturnDate,
+        customerName: purchaseReturn.VendorName,
+        customerAddress: vendor?.Address,
+        customerContact: vendor?.ContactNumber,
+        lines: purchaseReturn.items.map(item => ({
+          description: item.ProductName,
+          quantity: Number(item.Quantity),
+          unitPrice: Number(item.UnitPrice),
+          total: Number(item.TotalPrice)
+        })),
+        payments: [],
+        notes: [
+          purchaseReturn.SettlementMethod === 'CASH_REFUND'
+            ? `Refund due to ${purchaseReturn.RefundAccountType === 'BANK' ? 'bank' : 'cash'}`
+            : 'Adjusted against amount payable to vendor',
+          ...(purchaseReturn.Reason ? [`Reason: ${purchaseReturn.Reason}`] : [])
+        ]
+      });
+    } catch (error) {
+      console.error('Error printing debit note:', error);
+      setError('Failed to generate debit note PDF.');
+    }
+  };
+
   // Helper functions for Excel generation
   const setColumnWidths = (worksheet: XLSX.WorkSheet, widths: number[]) => {
     worksheet['!cols'] = widths.map((width) => ({ wch: width }));
@@ -973,7 +1043,11 @@ const PurchaseReportsTable = () => {
           }
         }
       );
-      setPurchases(response.data);
+      // Keep already loaded line items so expanded invoices stay populated
+      setPurchases(prev => response.data.map((purchase: Purchase) => ({
+        ...purchase,
+        items: purchase.items || prev.find(p => p.PurchaseID === purchase.PurchaseID)?.items
+      })));
     } catch (error) {
       console.error('Error applying filters:', error);
       setError('Failed to apply filters. Please try again.');
@@ -1052,6 +1126,9 @@ const PurchaseReportsTable = () => {
           setError('Failed to fetch purchase items. Please try again.');
         }
       }
+      if (firstPurchase && !purchaseReturns[firstPurchase.PurchaseID]) {
+        await fetchPurchaseReturns(firstPurchase.PurchaseID);
+      }
       newExpanded.add(invoiceNumber);
     }
     setExpandedInvoices(newExpanded);
@@ -1344,7 +1421,28 @@ const PurchaseReportsTable = () => {
 
                               {/* Purchase Items Section */}
                               <div>
-                                <h4 className="text-sm font-semibold text-gray-900 mb-4">Purchase Items</h4>
+                                <div className="flex items-center justify-between mb-4">
+                                  <h4 className="text-sm font-semibold text-gray-900">Purchase Items</h4>
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => setReturnDialog({
+                                      open: true,
+                                      purchase: {
+                                        purchaseId,
+                                        invoiceNumber,
+                                        vendorName: firstPurchase.VendorName,
+                                        outstandingCredit: invoicePurchases
+                                          .filter(purchase => purchase.PaymentMethod === 'CREDIT' && purchase.paymentDetails?.status !== 'SETTLED')
+                                          .reduce((sum, purchase) => sum + remainingCredit(purchase), 0)
+                                      }
+                                    })}
+                                    disabled={!firstPurchase.items}
+                                  >
+                                    <RotateCcw className="h-4 w-4 mr-2" />
+                                    Return to Vendor
+                                  </Button>
+                                </div>
                                 <div className="bg-white rounded-lg border">
                                   <Table>
                                     <TableHeader>
@@ -1382,6 +1480,54 @@ const PurchaseReportsTable = () => {
                                   </Table>
                                 </div>
                               </div>
+
+                              {/* Debit Notes Section */}
+                              {purchaseReturns[purchaseId] && purchaseReturns[purchaseId].length > 0 && (
+                                <div className="mt-4">
+                                  <h4 className="text-sm font-semibold text-gray-900 mb-2">Debit Notes</h4>
+                                  <div className="bg-white rounded-lg border">
+                                    <Table>
+                                      <TableHeader>
+                                        <TableRow className="bg-gray-50">
+                                          <TableCell className="font-medium">Debit Note</TableCell>
+                                          <TableCell className="font-medium">Date</TableCell>
+                                          <TableCell className="font-medium">Items</TableCell>
+                                          <TableCell className="font-medium">Amount</TableCell>
+                                          <TableCell className="font-medium">Settlement</TableCell>
+                                          <TableCell className="font-medium"></TableCell>
+                                        </TableRow>
+                                      </TableHeader>
+                                      <TableBody>
+                                        {purchaseReturns[purchaseId].map(purchaseReturn => (
+                                          <TableRow key={purchaseReturn.PurchaseReturnID}>
+                                            <TableCell>{purchaseReturn.DebitNoteNumber}</TableCell>
+                                            <TableCell>{new Date(purchaseReturn.ReturnDate).toLocaleDateString()}</TableCell>
+                                            <TableCell>
+                                              {purchaseReturn.items.map(item => `${item.ProductName} x ${item.Quantity}`).join(', ')}
+                                            </TableCell>
+                                            <TableCell className="font-medium">{formatCurrency(purchaseReturn.TotalAmount)}</TableCell>
+                                            <TableCell>
+                                              {purchaseReturn.SettlementMethod === 'CASH_REFUND'
+                                                ? `Refund (${purchaseReturn.RefundAccountType || 'CASH'})`
+                                                : 'Credit adjustment'}
+                                            </TableCell>
+                                            <TableCell>
+                                              <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                onClick={() => printDebitNote(purchaseReturn)}
+                                                title="Print Debit Note"
+                                              >
+                                                <Printer className="h-4 w-4" />
+                                              </Button>
+                                            </TableCell>
+                                          </TableRow>
+                                        ))}
+                                      </TableBody>
+                                    </Table>
+                                  </div>
+                                </div>
+                              )}
                             </div>
                           </TableCell>
                         </TableRow>
@@ -1394,6 +1540,24 @@ const PurchaseReportsTable = () => {
           </Table>
         </div>
 
+        <PurchaseReturnDialog
+          open={returnDialog.open}
+          onOpenChange={(open) => setReturnDialog(prev => ({ ...prev, open }))}
+          purchase={returnDialog.purchase}
+          items={returnDialog.purchase
+            ? purchases.find(p => p.PurchaseID === returnDialog.purchase?.purchaseId)?.items || []
+            : []}
+          existingReturns={returnDialog.purchase ? purchaseReturns[returnDialog.purchase.purchaseId] || [] : []}
+          onSuccess={(purchaseReturn) => {
+            const purchaseId = String(purchaseReturn.PurchaseID);
+            setPurchaseReturns(prev => ({
+              ...prev,
+              [purchaseId]: [...(prev[purchaseId] || []), purchaseReturn]
+            }));
+            handleFilterChange();
+          }}
+        />
+
         <Dialog open={deleteDialog.open} onOpenChange={(open) => !deleteDialog.loading && setDeleteDialog(prev => ({ ...prev, open }))}>
           <DialogContent className="sm:max-w-[425px]">
             <DialogHeader>
@@ -0,0 +1,97 @@
+import React, { useMemo } from 'react';
+import ReturnDialog, { ReturnLine, formatCurrency } from './ReturnDialog';
+import { PurchaseReturn } from '@/types/purchaseReturn';
+
+interface ReturnablePurchaseItem {
+  PurchaseItemID: string;
+  ProductID: string;
+  Name: string;
+  Quantity: number;
+  UnitPrice: number;
+}
+
+interface PurchaseReturnDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  purchase: {
+    purchaseId: string;
+    invoiceNumber: string;
+    vendorName: string;
+    // Credit still owed to the vendor on the invoice, which a debit note reduces
+    outstandingCredit: number;
+  } | null;
+  items: ReturnablePurchaseItem[];
+  existingReturns: PurchaseReturn[];
+  onSuccess: (purchaseReturn: PurchaseReturn) => void;
+}
+
+const PurchaseReturnDialog: React.FC<PurchaseReturnDialogProps> = ({
+  open,
+  onOpenChange,
+  purchase,
+  items,
+  existingReturns,
+  onSuccess
+}) => {
+  const lines = useMemo<ReturnLine<ReturnablePurchaseItem>[]>(
+    () => items.map(item => ({
+      key: String(item.PurchaseItemID),
+      name: item.Name,
+      quantity: item.Quantity,
+      unitPrice: Number(item.UnitPrice),
+      item
+    })),
+    [items]
+  );
+
+  // Quantities already sent back on earlier debit notes for this purchase
+  const returnedQuantities = useMemo(() => {
+    const totals: Record<string, number> = {};
+    existingReturns.forEach(purchaseReturn => {
+      purchaseReturn.items.forEach(item => {
+        const key = String(item.PurchaseItemID);
+        totals[key] = (totals[key] || 0) + Number(item.Quantity);
+      });
+    });
+    return totals;
+  }, [existingReturns]);
+
+  return (
+    <ReturnDialog<ReturnablePurchaseItem, PurchaseReturn>
+      open={open}
+      onOpenChange={onOpenChange}
+      labels={{
+        title: 'Return to Vendor',
+        description: (
+          <>
+            Select the quantities sent back to {purchase?.vendorName} from invoice <span className="font-medium">{purchase?.invoiceNumber}</span>.
+            Returned goods are removed from stock and a debit note is raised.
+          </>
+        ),
+        quantityHeader: 'Purchased',
+        priceHeader: 'Unit Price',
+        amountHeader: 'Amount',
+        totalLabel: 'Debit note total',
+        creditAdjustment: 'Reduce outstanding vendor credit',
+        cashRefund: 'Vendor refund received into the cashbook',
+        reasonPlaceholder: 'e.g. Damaged bags returned to mill',
+        submit: 'Raise Debit Note'
+      }}
+      endpoint={purchase ? `/purchases/${purchase.purchaseId}/returns` : null}
+      lines={lines}
+      outstandingCredit={purchase?.outstandingCredit ?? 0}
+      returnedQuantities={returnedQuantities}
+      toRequestItem={(line, quantity) => ({
+        purchaseItemId: line.item.PurchaseItemID,
+        productId: line.item.ProductID,
+        quantity,
+        unitPrice: Number(line.item.UnitPrice)
+      })}
+      successMessage={(purchaseReturn) =>
+        `Debit note ${purchaseReturn.DebitNoteNumber} raised for ${formatCurrency(purchaseReturn.TotalAmount)}`}
+      onSuccess={onSuccess}
+    />
+  );
+};
+
+export default PurchaseReturnDialog;
@@ -29,6 +29,8 @@ interface VendorProductsTableProps {
   vendorId: string | null;
   invoiceNumber?: string;
   invoiceDate?: Date;
+  // Stock location the purchase is received into
+  locationId?: string;
   onProductsSelect?: (products: VendorProduct[]) => void;
   onPurchaseSuccess?: () => void;
 }
@@ -37,6 +39,7 @@ const VendorProductsTable: React.FC<VendorProductsTableProps> = ({
   vendorId,
   invoiceNumber = '',
   invoiceDate = new Date(),
+  locationId,
   onProductsSelect,
   onPurchaseSuccess,
 }) => {
@@ -267,6 +270,7 @@ const VendorProductsTable: React.FC<VendorProductsTableProps> = ({
           vendorID={parseInt(vendorId || '0')}
           invoiceNumber={invoiceNumber}
           invoiceDate={invoiceDate}
+          locationId={locationId}
           onSuccess={() => {
             resetForm();
             onPurchaseSuccess?.();
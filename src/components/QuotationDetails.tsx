@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { addDays, format } from 'date-fns';
+import { Card, CardContent } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { DatePicker } from './ui/date-picker';
+import { Button } from './ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/app/auth/auth-context';
+import axios from '@/lib/api/axios';
+import { AxiosError } from 'axios';
+import { fetchBusinessLineName } from '@/lib/invoicePdf';
+import { generateQuotationPDF } from '@/lib/quotations';
+import { Quotation } from '@/types/quotation';
+
+// How long a new quote is valid for unless the rep changes it
+const DEFAULT_VALIDITY_DAYS = 14;
+
+interface QuotationDetailsProps {
+  total: number;
+  items: {
+    ProductID: number;
+    item: string;
+    quantity: number;
+    unitPrice: number;
+    total: number;
+  }[];
+  customerID?: number;
+  salesPersonID?: number;
+  onSuccess?: (quotation: Quotation) => void;
+}
+
+const QuotationDetails: React.FC<QuotationDetailsProps> = ({
+  total,
+  items,
+  customerID,
+  salesPersonID,
+  onSuccess,
+}) => {
+  const [validUntil, setValidUntil] = useState<Date>(() => addDays(new Date(), DEFAULT_VALIDITY_DAYS));
+  const [notes, setNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+  const { getBusinessLineID } = useAuth();
+
+  const resetForm = () => {
+    setValidUntil(addDays(new Date(), DEFAULT_VALIDITY_DAYS));
+    setNotes('');
+  };
+
+  const handleSubmit = async () => {
+    if (!customerID) {
+      toast({ title: 'Error', description: 'Select a customer to quote', variant: 'destructive' });
+      return;
+    }
+
+    if (items.length === 0) {
+      toast({ title: 'Error', description: 'Enter a quantity for at least one product', variant: 'destructive' });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const businessLineId = getBusinessLineID();
+      const response = await axios.post('/quotations', {
+        businessLineId,
+        customerId: customerID,
+        salesPersonId: salesPersonID,
+        quoteDate: format(new Date(), 'yyyy-MM-dd'),
+        validUntil: format(validUntil, 'yyyy-MM-dd'),
+        notes: notes.trim() || undefined,
+        items: items.map(item => ({
+          productId: item.ProductID,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+        })),
+      });
+
+      const quotation = response.data?.data as Quotation;
+      toast({
+        title: 'Quotation saved',
+        description: `${quotation.QuotationNumber} is valid until ${format(validUntil, 'yyyy-MM-dd')}.`,
+      });
+      generateQuotationPDF(quotation, await fetchBusinessLineName(businessLineId));
+      resetForm();
+      onSuccess?.(quotation);
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message?: string }>;
+      toast({
+        title: 'Error',
+        description: axiosError.response?.data?.message || 'Failed to save quotation',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="max-w-2xl">
+      <CardContent className="mt-4">
+        <div className="grid grid-cols-3 gap-2 items-center">
+          <Label className="text-xs">Total</Label>
+          <p className="text-xs">Rs. {total.toFixed(2)}</p>
+          <div></div>
+
+          <Label className="text-xs">Items</Label>
+          <p className="text-xs">{items.length}</p>
+          <div></div>
+
+          <div className="col-span-3 border-t mt-0 pt-2 font-bold">Quotation</div>
+
+          <Label className="text-xs">Valid Until</Label>
+          <div className="w-96">
+            <DatePicker selectedDate={validUntil} onDateChange={setValidUntil} />
+          </div>
+          <div></div>
+
+          <Label className="text-xs">Notes</Label>
+          <Textarea
+            className="col-span-2"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Delivery terms, payment terms"
+            disabled={isSubmitting}
+          />
+        </div>
+      </CardContent>
+      <div className="flex gap-4 justify-end mb-4 mr-4">
+        <Button variant="outline" onClick={resetForm} disabled={isSubmitting}>
+          Reset
+        </Button>
+        <Button onClick={handleSubmit} disabled={items.length === 0 || !customerID || isSubmitting}>
+          {isSubmitting ? 'Saving...' : 'Save & Download PDF'}
+        </Button>
+      </div>
+    </Card>
+  );
+};
+
+export default QuotationDetails;
@@ -0,0 +1,475 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { differenceInCalendarDays, format } from "date-fns";
+import { ArrowDown, ArrowUp, FileSpreadsheet, RefreshCw } from "lucide-react";
+import * as XLSX from "xlsx";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/app/auth/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import axios from "@/lib/api/axios";
+import { isAxiosError } from "axios";
+import { AGEING_BUCKETS, AgeingBucketKey, emptyAgeingTotals, getAgeingBucket } from "@/lib/ageing";
+
+interface PendingReceivable {
+  CustomerID: number;
+  CustomerName: string;
+  CreditLimit: number;
+  Amount: number;
+}
+
+interface PendingCheque extends PendingReceivable {
+  RealizeDate: string;
+}
+
+interface PendingCredit extends PendingReceivable {
+  DueDate: string;
+}
+
+interface PendingOpeningBalance extends PendingReceivable {
+  BalanceDate: string;
+}
+
+interface CustomerAgeingRow {
+  customerId: number;
+  customerName: string;
+  creditLimit: number;
+  notDue: number;
+  buckets: Record<AgeingBucketKey, number>;
+  total: number;
+  utilisation: number | null;
+}
+
+type SortKey = "customerName" | "notDue" | AgeingBucketKey | "total" | "utilisation";
+
+const formatCurrency = (amount: number) =>
+  `Rs. ${Number(amount).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+// Pending credits, cheques and opening balances are aged by days past their due
+// date; anything not yet due is kept out of the buckets.
+const buildAgeingRows = (
+  credits: PendingCredit[],
+  cheques: PendingCheque[],
+  openingBalances: PendingOpeningBalance[],
+  asOf: Date
+): CustomerAgeingRow[] => {
+  const rows = new Map<number, CustomerAgeingRow>();
+
+  const add = (item: PendingReceivable, dueDate: string) => {
+    const row = rows.get(item.CustomerID) ?? {
+      customerId: item.CustomerID,
+      customerName: item.CustomerName,
+      creditLimit: Number(item.CreditLimit || 0),
+      notDue: 0,
+      buckets: emptyAgeingTotals(),
+      total: 0,
+      utilisation: null,
+    };
+
+    const amount = Number(item.Amount || 0);
+    const daysPastDue = differenceInCalendarDays(asOf, new Date(dueDate));
+    if (daysPastDue <= 0) {
+      row.notDue += amount;
+    } else {
+      row.buckets[getAgeingBucket(daysPastDue)] += amount;
+    }
+    row.total += amount;
+
+    rows.set(item.CustomerID, row);
+  };
+
+  credits.forEach((credit) => add(credit, credit.DueDate));
+  cheques.forEach((cheque) => add(cheque, cheque.RealizeDate));
+  openingBalances.forEach((openingBalance) => add(openingBalance, openingBalance.BalanceDate));
+
+  return [...rows.values()].map((row) => ({
+    ...row,
+    utilisation: row.creditLimit > 0 ? (row.total / row.creditLimit) * 100 : null,
+  }));
+};
+
+const ReceivablesAgeingReport = () => {
+  const { getBusinessLineID } = useAuth();
+  const { toast } = useToast();
+  const [credits, setCredits] = useState<PendingCredit[]>([]);
+  const [cheques, setCheques] = useState<PendingCheque[]>([]);
+  const [openingBalances, setOpeningBalances] = useState<PendingOpeningBalance[]>([]);
+  const [asOf, setAsOf] = useState(new Date());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [sortKey, setSortKey] = useState<SortKey>("total");
+  const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
+
+  const missingBusinessLine = !getBusinessLineID();
+
+  const fetchReport = useCallback(() => {
+    const businessLineId = getBusinessLineID();
+    if (!businessLineId) return Promise.resolve();
+
+    return axios
+      .get(`/payments/pending/${businessLineId}`)
+      .then((response) => {
+        setError(null);
+        setCredits(response.data.pendingCredits || []);
+        setCheques(response.data.pendingCheques || []);
+        setOpeningBalances(response.data.pendingOpeningBalances || []);
+        setAsOf(new Date());
+      })
+      .catch((err) => {
+        console.error("Error fetching receivables:", err);
+        if (isAxiosError(err)) {
+          setError(err.response?.data?.message || "Failed to load receivables");
+        } else {
+          setError("Failed to load receivables");
+        }
+      })
+      .finally(() => setLoading(false));
+  }, [getBusinessLineID]);
+
+  const handleRefresh = () => {
+    setLoading(true);
+    fetchReport();
+  };
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const rows = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    const sortValue = (row: CustomerAgeingRow): number | string => {
+      if (sortKey === "customerName") return row.customerName.toLowerCase();
+      if (sortKey === "notDue") return row.notDue;
+      if (sortKey === "total") return row.total;
+      if (sortKey === "utilisation") return row.utilisation ?? -1;
+      return row.buckets[sortKey];
+    };
+
+    return buildAgeingRows(credits, cheques, openingBalances, asOf)
+      .filter((row) => !term || row.customerName.toLowerCase().includes(term))
+      .sort((a, b) => {
+        const aValue = sortValue(a);
+        const bValue = sortValue(b);
+        const result = aValue < bValue ? -1 : aValue > bValue ? 1 : 0;
+        return sortDirection === "asc" ? result : -result;
+      });
+  }, [credits, cheques, openingBalances, asOf, search, sortKey, sortDirection]);
+
+  const totals = useMemo(() => {
+    const buckets = emptyAgeingTotals();
+    let notDue = 0;
+    let total = 0;
+    for (const row of rows) {
+      notDue += row.notDue;
+      total += row.total;
+      for (const bucket of AGEING_BUCKETS) {
+        buckets[bucket.key] += row.buckets[bucket.key];
+      }
+    }
+    return { notDue, buckets, total };
+  }, [rows]);
+
+  const handleSort = (key: SortKey) => {
+    if (sortKey === key) {
+      setSortDirection((prev) => (prev === "asc" ? "desc" : "asc"));
+    } else {
+      setSortKey(key);
+      setSortDirection(key === "customerName" ? "asc" : "desc");
+    }
+  };
+
+  const renderSortableHead = (label: string, column: SortKey, className = "") => (
+    <TableHead
+      key={column}
+      className={`text-black font-bold cursor-pointer select-none ${className}`}
+      onClick={() => handleSort(column)}
+    >
+      <span className="inline-flex items-center gap-1">
+        {label}
+        {sortKey === column &&
+          (sortDirection === "asc" ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />)}
+      </span>
+    </TableHead>
+  );
+
+  // Helper functions for Excel generation
+  const setColumnWidths = (worksheet: XLSX.WorkSheet, widths: number[]) => {
+    worksheet["!cols"] = widths.map((width) => ({ wch: width }));
+  };
+
+  const setMerges = (worksheet: XLSX.WorkSheet, merges: string[][] | [string, string][]) => {
+    worksheet["!merges"] = merges.map(([startCell, endCell]) => {
+      const start = XLSX.utils.decode_cell(startCell);
+      const end = XLSX.utils.decode_cell(endCell);
+      return { s: { r: start.r, c: start.c }, e: { r: end.r, c: end.c } };
+    });
+  };
+
+  const addBordersToWorksheet = (worksheet: XLSX.WorkSheet) => {
+    if (!worksheet["!ref"]) return;
+
+    const range = XLSX.utils.decode_range(worksheet["!ref"]);
+
+    for (let row = range.s.r; row <= range.e.r; row++) {
+      for (let col = range.s.c; col <= range.e.c; col++) {
+        const cellAddress = XLSX.utils.encode_cell({ r: row, c: col });
+
+        if (!worksheet[cellAddress]) {
+          worksheet[cellAddress] = { t: "s", v: "" };
+        }
+
+        worksheet[cellAddress].s = {
+          ...worksheet[cellAddress].s,
+          border: {
+            top: { style: "thin", color: { rgb: "000000" } },
+            bottom: { style: "thin", color: { rgb: "000000" } },
+            left: { style: "thin", color: { rgb: "000000" } },
+            right: { style: "thin", color: { rgb: "000000" } },
+          },
+        };
+      }
+    }
+  };
+
+  const styleHeaderRow = (worksheet: XLSX.WorkSheet, headerRowIndex: number) => {
+    if (!worksheet["!ref"]) return;
+
+    const range = XLSX.utils.decode_range(worksheet["!ref"]);
+
+    for (let col = range.s.c; col <= range.e.c; col++) {
+      const cellAddress = XLSX.utils.encode_cell({ r: headerRowIndex, c: col });
+
+      if (!worksheet[cellAddress]) {
+        worksheet[cellAddress] = { t: "s", v: "" };
+      }
+
+      worksheet[cellAddress].s = {
+        ...worksheet[cellAddress].s,
+        font: { bold: true },
+        fill: {
+          patternType: "solid",
+          fgColor: { rgb: "E9ECEF" },
+        },
+      };
+    }
+  };
+
+  const handleExport = () => {
+    try {
+      const wb = XLSX.utils.book_new();
+      const columnCount = AGEING_BUCKETS.length + 5;
+      const blankRow = () => Array(columnCount).fill(null);
+
+      const data: (string | number | null)[][] = [
+        ["RECEIVABLES AGEING REPORT", ...Array(columnCount - 1).fill(null)],
+        [`As of: ${format(asOf, "yyyy-MM-dd")}`, ...Array(columnCount - 1).fill(null)],
+        blankRow(),
+        ["Customer", "Credit Limit", "Not Due", ...AGEING_BUCKETS.map((bucket) => bucket.label), "Total", "Utilisation %"],
+      ];
+
+      rows.forEach((row) => {
+        data.push([
+          row.customerName,
+          row.creditLimit,
+          row.notDue,
+          ...AGEING_BUCKETS.map((bucket) => row.buckets[bucket.key]),
+          row.total,
+          row.utilisation !== null ? Number(row.utilisation.toFixed(1)) : null,
+        ]);
+      });
+
+      data.push([
+        "TOTAL",
+        null,
+        totals.notDue,
+        ...AGEING_BUCKETS.map((bucket) => totals.buckets[bucket.key]),
+        totals.total,
+        null,
+      ]);
+
+      const ws = XLSX.utils.aoa_to_sheet(data);
+      setColumnWidths(ws, [35, 15, 15, ...AGEING_BUCKETS.map(() => 15), 15, 14]);
+      const lastColumn = XLSX.utils.encode_col(columnCount - 1);
+      setMerges(ws, [["A1", `${lastColumn}1`], ["A2", `${lastColumn}2`]]);
+      addBordersToWorksheet(ws);
+      styleHeaderRow(ws, 0);
+      styleHeaderRow(ws, 3);
+      styleHeaderRow(ws, data.length - 1);
+
+      // Format amount columns
+      for (let r = 4; r < data.length; r++) {
+        for (let c = 1; c < columnCount - 1; c++) {
+          const ref = XLSX.utils.encode_cell({ r, c });
+          if (ws[ref] && typeof ws[ref].v === "number") {
+            ws[ref].z = "#,##0.00";
+          }
+        }
+      }
+
+      XLSX.utils.book_append_sheet(wb, ws, "Receivables Ageing");
+
+      const fileName = `Receivables_Ageing_${format(asOf, "yyyy-MM-dd")}.xlsx`;
+      XLSX.writeFile(wb, fileName);
+
+      toast({
+        title: "Export Complete",
+        description: `Downloaded ${fileName}`,
+      });
+    } catch (err) {
+      console.error("Error exporting ageing report:", err);
+      toast({
+        title: "Export Failed",
+        description: "Failed to export the ageing report",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4 p-4">
+      <Card>
+        <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <CardTitle>Receivables Ageing</CardTitle>
+            <CardDescription>
+              Pending credits, cheques and opening balances by days past due as of {format(asOf, "yyyy-MM-dd")}.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              className="w-56"
+              placeholder="Search customer..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+            <Button variant="outline" size="sm" onClick={handleRefresh} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleExport} disabled={loading || rows.length === 0}>
+              <FileSpreadsheet className="h-4 w-4 mr-1" />
+              Excel
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {(missingBusinessLine || error) && (
+            <Alert variant="destructive">
+              <AlertDescription>{missingBusinessLine ? "Business line is required" : error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-4">
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-sm text-muted-foreground">Not Yet Due</div>
+                <div className="text-lg font-bold">{formatCurrency(totals.notDue)}</div>
+              </CardContent>
+            </Card>
+            {AGEING_BUCKETS.map((bucket) => (
+              <Card key={bucket.key}>
+                <CardContent className="pt-6">
+                  <div className="text-sm text-muted-foreground">{bucket.label}</div>
+                  <div className={`text-lg font-bold ${bucket.key === "over90" ? "text-red-600" : ""}`}>
+                    {formatCurrency(totals.buckets[bucket.key])}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-sm text-muted-foreground">Total Receivable</div>
+                <div className="text-lg font-bold">{formatCurrency(totals.total)}</div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader className="bg-gray-50">
+                <TableRow>
+                  {renderSortableHead("Customer", "customerName")}
+                  {renderSortableHead("Not Due", "notDue", "text-right")}
+                  {AGEING_BUCKETS.map((bucket) => renderSortableHead(bucket.label, bucket.key, "text-right"))}
+                  {renderSortableHead("Total", "total", "text-right")}
+                  {renderSortableHead("Credit Limit Used", "utilisation", "w-48")}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={AGEING_BUCKETS.length + 4} className="text-center py-6">
+                      Loading receivables...
+                    </TableCell>
+                  </TableRow>
+                ) : rows.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={AGEING_BUCKETS.length + 4} className="text-center py-6 text-muted-foreground">
+                      No outstanding receivables
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  rows.map((row) => (
+                    <TableRow key={row.customerId}>
+                      <TableCell className="font-medium">{row.customerName}</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatCurrency(row.notDue)}</TableCell>
+                      {AGEING_BUCKETS.map((bucket) => (
+                        <TableCell
+                          key={bucket.key}
+                          className={`text-right tabular-nums ${
+                            bucket.key === "over90" && row.buckets.over90 > 0 ? "text-red-600 font-medium" : ""
+                          }`}
+                        >
+                          {formatCurrency(row.buckets[bucket.key])}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right tabular-nums font-semibold">{formatCurrency(row.total)}</TableCell>
+                      <TableCell>
+                        {row.utilisation === null ? (
+                          <span className="text-xs text-muted-foreground">No limit set</span>
+                        ) : (
+                          <div className="space-y-1">
+                            <div className={`text-xs ${row.utilisation > 100 ? "text-red-600 font-medium" : "text-gray-600"}`}>
+                              {row.utilisation.toFixed(1)}% of {formatCurrency(row.creditLimit)}
+                            </div>
+                            <Progress
+                              value={Math.min(row.utilisation, 100)}
+                              className={row.utilisation > 80 ? "bg-red-200" : ""}
+                            />
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+                {!loading && rows.length > 0 && (
+                  <TableRow className="bg-gray-50 font-semibold">
+                    <TableCell>Total</TableCell>
+                    <TableCell className="text-right tabular-nums">{formatCurrency(totals.notDue)}</TableCell>
+                    {AGEING_BUCKETS.map((bucket) => (
+                      <TableCell key={bucket.key} className="text-right tabular-nums">
+                        {formatCurrency(totals.buckets[bucket.key])}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right tabular-nums">{formatCurrency(totals.total)}</TableCell>
+                    <TableCell />
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ReceivablesAgeingReport;
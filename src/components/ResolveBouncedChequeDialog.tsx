@@ -0,0 +1,282 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/app/auth/auth-context";
+import api from '@/lib/api/axios';
+import { addDays, format } from 'date-fns';
+import { AxiosError } from 'axios';
+import { toast } from '@/hooks/use-toast';
+import BankAccountSelect from './BankAccountSelect';
+import { ChequeResolutionType, PaymentStatusChange } from '@/lib/paymentStatusAdapter';
+import { closedDayMessage, isCashDayClosed } from '@/lib/cashClose';
+
+interface ResolveBouncedChequeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  change: PaymentStatusChange | null;
+  onSuccess: () => void;
+}
+
+const resolutionOptions: { value: ChequeResolutionType; label: string }[] = [
+  { value: 'REDEPOSIT', label: 'Re-deposit the same cheque' },
+  { value: 'CASH', label: 'Replace with cash' },
+  { value: 'CHEQUE', label: 'Replace with a new cheque' },
+  { value: 'CREDIT', label: 'Convert to credit' },
+];
+
+const formatCurrency = (amount: number) =>
+  `Rs. ${Number(amount).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const ResolveBouncedChequeDialog: React.FC<ResolveBouncedChequeDialogProps> = ({
+  open,
+  onOpenChange,
+  change,
+  onSuccess
+}) => {
+  const { getBusinessLineID, getUserID } = useAuth();
+  const [resolutionType, setResolutionType] = useState<ChequeResolutionType>('REDEPOSIT');
+  const [resolvedDate, setResolvedDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [realizeDate, setRealizeDate] = useState(() => format(addDays(new Date(), 3), 'yyyy-MM-dd'));
+  const [chequeNumber, setChequeNumber] = useState('');
+  const [bank, setBank] = useState('');
+  const [dueDate, setDueDate] = useState(() => format(addDays(new Date(), 30), 'yyyy-MM-dd'));
+  const [accountType, setAccountType] = useState<'CASH' | 'BANK'>('CASH');
+  const [bankAccountId, setBankAccountId] = useState('');
+  const [notes, setNotes] = useState('');
+  const [processing, setProcessing] = useState(false);
+  const [error, setError] = useState('');
+
+  // Reset form whenever the dialog closes
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setResolutionType('REDEPOSIT');
+      setResolvedDate(format(new Date(), 'yyyy-MM-dd'));
+      setRealizeDate(format(addDays(new Date(), 3), 'yyyy-MM-dd'));
+      setChequeNumber('');
+      setBank('');
+      setDueDate(format(addDays(new Date(), 30), 'yyyy-MM-dd'));
+      setAccountType('CASH');
+      setBankAccountId('');
+      setNotes('');
+      setError('');
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const isValid =
+    !!resolvedDate &&
+    (resolutionType !== 'REDEPOSIT' || !!realizeDate) &&
+    (resolutionType !== 'CHEQUE' || (!!chequeNumber.trim() && !!bank.trim() && !!realizeDate)) &&
+    (resolutionType !== 'CREDIT' || !!dueDate) &&
+    (resolutionType !== 'CASH' || accountType !== 'BANK' || !!bankAccountId);
+
+  const handleSubmit = async () => {
+    if (!change || !isValid) return;
+
+    const chequePaymentId = change.chequePaymentId ?? change.paymentId;
+    setProcessing(true);
+    setError('');
+
+    try {
+      if (
+        resolutionType === 'CASH' &&
+        accountType === 'CASH' &&
+        await isCashDayClosed(getBusinessLineID(), resolvedDate)
+      ) {
+        setError(closedDayMessage(resolvedDate));
+        return;
+      }
+
+      await api.post(`/payments/cheque/${chequePaymentId}/resolve`, {
+        businessLineId: getBusinessLineID(),
+        resolutionType,
+        resolvedDate,
+        realizeDate: resolutionType === 'REDEPOSIT' || resolutionType === 'CHEQUE' ? realizeDate : undefined,
+        chequeNumber: resolutionType === 'CHEQUE' ? chequeNumber.trim() : undefined,
+        bank: resolutionType === 'CHEQUE' ? bank.trim() : undefined,
+        dueDate: resolutionType === 'CREDIT' ? dueDate : undefined,
+        accountType: resolutionType === 'CASH' ? accountType : undefined,
+        bankAccountId:
+          resolutionType === 'CASH' && accountType === 'BANK' ? Number(bankAccountId) : undefined,
+        notes: notes.trim() || undefined,
+        createdBy: getUserID(),
+      });
+
+      toast({
+        title: "Success",
+        description: resolutionType === 'REDEPOSIT'
+          ? `Cheque #${change.details.chequeNumber} re-deposited`
+          : `Bounced cheque #${change.details.chequeNumber} replaced`,
+        duration: 3000,
+      });
+      handleOpenChange(false);
+      onSuccess();
+    } catch (err) {
+      console.error('Error resolving bounced cheque:', err);
+      if (err instanceof AxiosError) {
+        setError(err.response?.data?.message || 'Failed to resolve the cheque. Please try again.');
+      } else {
+        setError('An unexpected error occurred. Please try again.');
+      }
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Resolve Bounced Cheque</DialogTitle>
+          <DialogDescription>
+            {change && (
+              <>
+                Cheque #{change.details.chequeNumber} from {change.customerName} for {formatCurrency(change.amount)} on
+                invoice {change.invoiceId || `INV-${change.saleId}`}. The resolution stays linked to the original sale.
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-4 py-2">
+          <div className="flex flex-col space-y-2">
+            {resolutionOptions.map(option => (
+              <label key={option.value} className="flex items-center space-x-2">
+                <input
+                  type="radio"
+                  value={option.value}
+                  checked={resolutionType === option.value}
+                  onChange={() => setResolutionType(option.value)}
+                />
+                <span className="text-sm">{option.label}</span>
+              </label>
+            ))}
+          </div>
+
+          <div>
+            <Label htmlFor="resolve-date">Date</Label>
+            <Input
+              id="resolve-date"
+              type="date"
+              value={resolvedDate}
+              onChange={(e) => setResolvedDate(e.target.value)}
+            />
+          </div>
+
+          {resolutionType === 'CASH' && (
+            <div>
+              <Label>Received into</Label>
+              <Select
+                value={accountType}
+                onValueChange={(value) => setAccountType(value as 'CASH' | 'BANK')}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="CASH">Cash</SelectItem>
+                  <SelectItem value="BANK">Bank</SelectItem>
+                </SelectContent>
+              </Select>
+              {accountType === 'BANK' && (
+                <BankAccountSelect
+                  className="mt-2"
+                  value={bankAccountId}
+                  onValueChange={setBankAccountId}
+                />
+              )}
+            </div>
+          )}
+
+          {resolutionType === 'CHEQUE' && (
+            <>
+              <div>
+                <Label htmlFor="resolve-cheque-number">New cheque number</Label>
+                <Input
+                  id="resolve-cheque-number"
+                  value={chequeNumber}
+                  onChange={(e) => setChequeNumber(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="resolve-bank">Bank</Label>
+                <Input
+                  id="resolve-bank"
+                  value={bank}
+                  onChange={(e) => setBank(e.target.value)}
+                />
+              </div>
+            </>
+          )}
+
+          {(resolutionType === 'REDEPOSIT' || resolutionType === 'CHEQUE') && (
+            <div>
+              <Label htmlFor="resolve-realize-date">Realize date</Label>
+              <Input
+                id="resolve-realize-date"
+                type="date"
+                value={realizeDate}
+                onChange={(e) => setRealizeDate(e.target.value)}
+              />
+            </div>
+          )}
+
+          {resolutionType === 'CREDIT' && (
+            <div>
+              <Label htmlFor="resolve-due-date">Credit due date</Label>
+              <Input
+                id="resolve-due-date"
+                type="date"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+              />
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="resolve-notes">Notes</Label>
+            <Textarea
+              id="resolve-notes"
+              rows={2}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Optional"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={processing}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={processing || !isValid}>
+            {processing ? 'Saving...' : 'Resolve'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ResolveBouncedChequeDialog;
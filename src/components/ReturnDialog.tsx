@@ -0,0 +1,359 @@
+import React, { useState, useMemo } from 'react';
+import { Button } from "@/components/ui/button";
+import { Table, TableHeader, TableHead, TableBody, TableCell, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import BankAccountSelect from './BankAccountSelect';
+import { useAuth } from "@/app/auth/auth-context";
+import axios from '@/lib/api/axios';
+import { format } from 'date-fns';
+import { AxiosError } from 'axios';
+import { toast } from '@/hooks/use-toast';
+import { closedDayMessage, isCashDayClosed } from '@/lib/cashClose';
+
+type SettlementMethod = 'CREDIT_ADJUSTMENT' | 'CASH_REFUND';
+
+// One returnable line of the original sale or purchase
+export interface ReturnLine<TItem> {
+  // Identifies the original line, so repeated products each keep their own quantity
+  key: string;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  item: TItem;
+}
+
+export interface ReturnDialogLabels {
+  title: string;
+  description: React.ReactNode;
+  quantityHeader: string;
+  priceHeader: string;
+  amountHeader: string;
+  totalLabel: string;
+  creditAdjustment: React.ReactNode;
+  cashRefund: string;
+  reasonPlaceholder: string;
+  submit: string;
+}
+
+interface ReturnDialogProps<TItem, TResult> {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  labels: ReturnDialogLabels;
+  // POST target for the return; null while nothing is selected
+  endpoint: string | null;
+  lines: ReturnLine<TItem>[];
+  // Credit still open on the invoice; a credit adjustment can only reduce up to this much
+  outstandingCredit: number;
+  // Quantities already returned on earlier notes, by line key
+  returnedQuantities: Record<string, number>;
+  toRequestItem: (line: ReturnLine<TItem>, quantity: number) => Record<string, unknown>;
+  successMessage: (result: TResult) => string;
+  onSuccess: (result: TResult) => void;
+}
+
+export const formatCurrency = (amount: number) =>
+  `Rs. ${Number(amount).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const ReturnDialog = <TItem, TResult>({
+  open,
+  onOpenChange,
+  labels,
+  endpoint,
+  lines,
+  outstandingCredit,
+  returnedQuantities,
+  toRequestItem,
+  successMessage,
+  onSuccess
+}: ReturnDialogProps<TItem, TResult>) => {
+  const { getBusinessLineID, getUserID } = useAuth();
+  const [returnQuantities, setReturnQuantities] = useState<Record<string, string>>({});
+  const [returnDate, setReturnDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [settlementMethod, setSettlementMethod] = useState<SettlementMethod>('CREDIT_ADJUSTMENT');
+  const [refundAccountType, setRefundAccountType] = useState<'CASH' | 'BANK'>('CASH');
+  const [refundBankAccountId, setRefundBankAccountId] = useState('');
+  const [reason, setReason] = useState('');
+  const [processing, setProcessing] = useState(false);
+  const [error, setError] = useState('');
+
+  // Reset form whenever the dialog closes
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setReturnQuantities({});
+      setReturnDate(format(new Date(), 'yyyy-MM-dd'));
+      setSettlementMethod('CREDIT_ADJUSTMENT');
+      setRefundAccountType('CASH');
+      setRefundBankAccountId('');
+      setReason('');
+      setError('');
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const getReturnableQuantity = (line: ReturnLine<TItem>) =>
+    Math.max(0, Number(line.quantity) - (returnedQuantities[line.key] || 0));
+
+  const selectedLines = useMemo(() => {
+    return lines
+      .map(line => ({ line, quantity: parseFloat(returnQuantities[line.key] || '') }))
+      .filter(selected => !isNaN(selected.quantity) && selected.quantity > 0);
+  }, [lines, returnQuantities]);
+
+  const returnTotal = useMemo(
+    () => selectedLines.reduce((sum, selected) => sum + selected.quantity * Number(selected.line.unitPrice), 0),
+    [selectedLines]
+  );
+
+  const hasInvalidQuantity = selectedLines.some(
+    selected => selected.quantity - getReturnableQuantity(selected.line) > 0.0001
+  );
+
+  // With no open credit on the invoice there is nothing to adjust, so the return is refunded
+  const hasOpenCredit = outstandingCredit > 0.009;
+  const effectiveMethod: SettlementMethod = hasOpenCredit ? settlementMethod : 'CASH_REFUND';
+  const exceedsOpenCredit =
+    effectiveMethod === 'CREDIT_ADJUSTMENT' && returnTotal - outstandingCredit > 0.009;
+
+  const handleQuantityChange = (key: string, value: string) => {
+    setReturnQuantities(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleReturnAll = () => {
+    const quantities: Record<string, string> = {};
+    lines.forEach(line => {
+      const returnable = getReturnableQuantity(line);
+      if (returnable > 0) {
+        quantities[line.key] = returnable.toString();
+      }
+    });
+    setReturnQuantities(quantities);
+  };
+
+  const handleSubmit = async () => {
+    if (!endpoint || selectedLines.length === 0 || hasInvalidQuantity || exceedsOpenCredit) {
+      return;
+    }
+
+    setProcessing(true);
+    setError('');
+
+    try {
+      if (
+        effectiveMethod === 'CASH_REFUND' &&
+        refundAccountType === 'CASH' &&
+        await isCashDayClosed(getBusinessLineID(), returnDate)
+      ) {
+        setError(closedDayMessage(returnDate));
+        return;
+      }
+
+      const response = await axios.post(`${process.env.NEXT_PUBLIC_API_URL}${endpoint}`, {
+        businessLineId: getBusinessLineID(),
+        returnDate,
+        settlementMethod: effectiveMethod,
+        refundAccountType: effectiveMethod === 'CASH_REFUND' ? refundAccountType : undefined,
+        refundBankAccountId:
+          effectiveMethod === 'CASH_REFUND' && refundAccountType === 'BANK'
+            ? Number(refundBankAccountId)
+            : undefined,
+        reason: reason.trim() || undefined,
+        createdBy: getUserID(),
+        items: selectedLines.map(selected => toRequestItem(selected.line, selected.quantity))
+      });
+
+      const result: TResult = response.data;
+      toast({
+        title: "Success",
+        description: successMessage(result),
+        duration: 3000,
+      });
+      handleOpenChange(false);
+      onSuccess(result);
+    } catch (err) {
+      console.error('Error creating return:', err);
+      if (err instanceof AxiosError) {
+        setError(err.response?.data?.message || 'Failed to record the return. Please try again.');
+      } else {
+        setError('An unexpected error occurred. Please try again.');
+      }
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[800px]">
+        <DialogHeader>
+          <DialogTitle>{labels.title}</DialogTitle>
+          <DialogDescription>{labels.description}</DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="max-h-[320px] overflow-auto border rounded-md">
+          <Table>
+            <TableHeader className="bg-gray-50">
+              <TableRow>
+                <TableHead className="text-black font-bold">Product</TableHead>
+                <TableHead className="text-black font-bold text-right">{labels.quantityHeader}</TableHead>
+                <TableHead className="text-black font-bold text-right">Returnable</TableHead>
+                <TableHead className="text-black font-bold text-right">{labels.priceHeader}</TableHead>
+                <TableHead className="text-black font-bold w-32">Return Qty</TableHead>
+                <TableHead className="text-black font-bold text-right">{labels.amountHeader}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lines.map(line => {
+                const returnable = getReturnableQuantity(line);
+                const quantity = parseFloat(returnQuantities[line.key] || '');
+                const isOver = !isNaN(quantity) && quantity - returnable > 0.0001;
+
+                return (
+                  <TableRow key={line.key}>
+                    <TableCell>{line.name}</TableCell>
+                    <TableCell className="text-right">{line.quantity}</TableCell>
+                    <TableCell className="text-right">{returnable}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(line.unitPrice)}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        max={returnable}
+                        value={returnQuantities[line.key] || ''}
+                        onChange={(e) => handleQuantityChange(line.key, e.target.value)}
+                        disabled={returnable <= 0}
+                        className={isOver ? 'border-red-500' : ''}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {!isNaN(quantity) && quantity > 0 ? formatCurrency(quantity * Number(line.unitPrice)) : '-'}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex justify-between items-center">
+          <Button type="button" variant="outline" size="sm" onClick={handleReturnAll}>
+            Return all remaining
+          </Button>
+          <div className="text-sm">
+            {labels.totalLabel}: <span className="font-semibold">{formatCurrency(returnTotal)}</span>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-3">
+            <Label>Settlement</Label>
+            <div className="flex flex-col space-y-2">
+              <label className="flex items-center space-x-2">
+                <input
+                  type="radio"
+                  value="CREDIT_ADJUSTMENT"
+                  checked={effectiveMethod === 'CREDIT_ADJUSTMENT'}
+                  onChange={() => setSettlementMethod('CREDIT_ADJUSTMENT')}
+                  disabled={!hasOpenCredit}
+                />
+                <span className={`text-sm ${hasOpenCredit ? '' : 'text-muted-foreground'}`}>
+                  {labels.creditAdjustment}
+                  {` (${formatCurrency(outstandingCredit)} outstanding on this invoice)`}
+                </span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="radio"
+                  value="CASH_REFUND"
+                  checked={effectiveMethod === 'CASH_REFUND'}
+                  onChange={() => setSettlementMethod('CASH_REFUND')}
+                />
+                <span className="text-sm">{labels.cashRefund}</span>
+              </label>
+            </div>
+            {exceedsOpenCredit && (
+              <p className="text-sm text-red-600">
+                The return is more than the credit outstanding on this invoice. Refund it instead.
+              </p>
+            )}
+            {effectiveMethod === 'CASH_REFUND' && (
+              <Select
+                value={refundAccountType}
+                onValueChange={(value) => setRefundAccountType(value as 'CASH' | 'BANK')}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="CASH">Cash</SelectItem>
+                  <SelectItem value="BANK">Bank</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+            {effectiveMethod === 'CASH_REFUND' && refundAccountType === 'BANK' && (
+              <BankAccountSelect value={refundBankAccountId} onValueChange={setRefundBankAccountId} />
+            )}
+          </div>
+          <div className="space-y-3">
+            <Label htmlFor="return-date">Return Date</Label>
+            <Input
+              id="return-date"
+              type="date"
+              value={returnDate}
+              onChange={(e) => setReturnDate(e.target.value)}
+            />
+            <Label htmlFor="return-reason">Reason</Label>
+            <Textarea
+              id="return-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={labels.reasonPlaceholder}
+              rows={2}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={processing}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={
+              processing ||
+              selectedLines.length === 0 ||
+              hasInvalidQuantity ||
+              exceedsOpenCredit ||
+              !returnDate ||
+              (effectiveMethod === 'CASH_REFUND' && refundAccountType === 'BANK' && !refundBankAccountId)
+            }
+          >
+            {processing ? 'Saving...' : labels.submit}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReturnDialog;
@@ -0,0 +1,99 @@
+import React, { useMemo } from 'react';
+import ReturnDialog, { ReturnLine, formatCurrency } from './ReturnDialog';
+import { SalesReturn } from '@/types/salesReturn';
+
+interface ReturnableSaleItem {
+  SaleItemID: string;
+  ProductID: string;
+  ProductName: string;
+  Quantity: number;
+  UnitPrice: number;
+  // Price actually charged per unit after line and invoice discounts
+  NetUnitPrice: number;
+}
+
+interface SalesReturnDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sale: {
+    saleId: string;
+    invoiceId: string;
+    customerName: string;
+    // Credit still owed on the invoice, which a credit adjustment reduces
+    outstandingCredit: number;
+  } | null;
+  items: ReturnableSaleItem[];
+  existingReturns: SalesReturn[];
+  onSuccess: (salesReturn: SalesReturn) => void;
+}
+
+const SalesReturnDialog: React.FC<SalesReturnDialogProps> = ({
+  open,
+  onOpenChange,
+  sale,
+  items,
+  existingReturns,
+  onSuccess
+}) => {
+  const lines = useMemo<ReturnLine<ReturnableSaleItem>[]>(
+    () => items.map(item => ({
+      key: String(item.SaleItemID),
+      name: item.ProductName,
+      quantity: item.Quantity,
+      unitPrice: item.NetUnitPrice,
+      item
+    })),
+    [items]
+  );
+
+  // Quantities already taken back on earlier credit notes for this sale
+  const returnedQuantities = useMemo(() => {
+    const totals: Record<string, number> = {};
+    existingReturns.forEach(salesReturn => {
+      salesReturn.items.forEach(item => {
+        const key = String(item.SaleItemID);
+        totals[key] = (totals[key] || 0) + Number(item.Quantity);
+      });
+    });
+    return totals;
+  }, [existingReturns]);
+
+  return (
+    <ReturnDialog<ReturnableSaleItem, SalesReturn>
+      open={open}
+      onOpenChange={onOpenChange}
+      labels={{
+        title: 'Return Items',
+        description: (
+          <>
+            Select the quantities returned on invoice <span className="font-medium">{sale?.invoiceId}</span> for {sale?.customerName}.
+            Returned goods are restocked and a credit note is issued.
+          </>
+        ),
+        quantityHeader: 'Sold',
+        priceHeader: 'Net Price',
+        amountHeader: 'Credit',
+        totalLabel: 'Credit note total',
+        creditAdjustment: <>Reduce customer&apos;s pending credit</>,
+        cashRefund: 'Refund through the cashbook',
+        reasonPlaceholder: 'e.g. Damaged bags',
+        submit: 'Issue Credit Note'
+      }}
+      endpoint={sale ? `/sales/${sale.saleId}/returns` : null}
+      lines={lines}
+      outstandingCredit={sale?.outstandingCredit ?? 0}
+      returnedQuantities={returnedQuantities}
+      toRequestItem={(line, quantity) => ({
+        saleItemId: line.item.SaleItemID,
+        productId: line.item.ProductID,
+        quantity,
+        unitPrice: line.item.NetUnitPrice
+      })}
+      successMessage={(salesReturn) =>
+        `Credit note ${salesReturn.CreditNoteNumber} issued for ${formatCurrency(salesReturn.TotalAmount)}`}
+      onSuccess={onSuccess}
+    />
+  );
+};
+
+export default SalesReturnDialog;
@@ -8,7 +8,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ChevronDown, ChevronRight, Filter, FileDown, Trash2, AlertTriangle, CalendarDays } from "lucide-react";
+import { ChevronDown, ChevronRight, Filter, FileDown, Trash2, AlertTriangle, CalendarDays, Printer, RotateCcw } from "lucide-react";
 import { DateRange } from "react-day-picker";
 import { addDays, format } from "date-fns";
 import { parseISO } from "date-fns";
@@ -36,6 +36,9 @@ import {
 } from "@/components/ui/dialog";
 import { Calendar } from "@/components/ui/calendar";
 import { toast } from '@/hooks/use-toast';
+import { fetchBusinessLineName, generateInvoicePDF } from '@/lib/invoicePdf';
+import SalesReturnDialog from './SalesReturnDialog';
+import { SalesReturn } from '@/types/salesReturn';
 
 interface PaymentDetails {
   chequeNumber?: string;
@@ -43,6 +46,8 @@ interface PaymentDetails {
   realizeDate?: string;
   status?: string;
   dueDate?: string;
+  // Received so far against a credit sale, including partial settlements
+  settledAmount?: number;
 }
 
 interface Sale {
@@ -55,6 +60,9 @@ interface Sale {
   Amount: number;
   PaymentDate: string;
   paymentDetails: PaymentDetails | null;
+  // Present when a manager approved the sale beyond the customer's credit limit
+  CreditLimitOverrideReason?: string | null;
+  CreditLimitOverrideByName?: string | null;
 }
 
 interface SaleItem {
@@ -82,10 +90,27 @@ interface SalesPerson {
   UserName: string;
 }
 
+// What the customer still owes on an invoice's credit rows once settlements are taken off
+const outstandingInvoiceCredit = (invoiceSales: Sale[]) =>
+  invoiceSales
+    .filter(sale => sale.PaymentMethod === 'CREDIT' && sale.paymentDetails?.status !== 'SETTLED')
+    .reduce(
+      (sum, sale) => sum + Math.max(0, Number(sale.Amount) - Number(sale.paymentDetails?.settledAmount || 0)),
+      0
+    );
+
 const SalesTable = () => {
   const { user, getBusinessLineID } = useAuth();
   const [sales, setSales] = useState<Sale[]>([]);
   const [saleItems, setSaleItems] = useState<Record<string, SaleItem[]>>({});
+  const [saleReturns, setSaleReturns] = useState<Record<string, SalesReturn[]>>({});
+  const [returnDialog, setReturnDialog] = useState<{
+    open: boolean;
+    sale: { saleId: string; invoiceId: string; customerName: string; outstandingCredit: number } | null;
+  }>({
+    open: false,
+    sale: null,
+  });
   const [salesPersons, setSalesPersons] = useState<SalesPerson[]>([]);
   const [, setCustomers] = useState([]);
   const [loading, setLoading] = useState(true);
@@ -110,6 +135,7 @@ const SalesTable = () => {
   });
   const [selectedPaymentMethod, setSelectedPaymentMethod] = useState("ALL");
   const [downloadingExcel, setDownloadingExcel] = useState(false);
+  const [printingInvoiceId, setPrintingInvoiceId] = useState<string | null>(null);
   const [downloadingMonthly, setDownloadingMonthly] = useState(false);
   const [downloadingYearly, setDownloadingYearly] = useState(false);
   const [editDialog, setEditDialog] = useState<{
@@ -330,6 +356,21 @@ const SalesTable = () => {
     }
   };
 
+  const fetchSaleReturns = async (saleId: string) => {
+    try {
+      const response = await axios.get(
+        `${process.env.NEXT_PUBLIC_API_URL}/sales/${saleId}/returns`
+      );
+
+      setSaleReturns(prev => ({
+        ...prev,
+        [saleId]: response.data || []
+      }));
+    } catch (error) {
+      console.error(`Error fetching returns for sale ${saleId}:`, error);
+    }
+  };
+
   const handleFilterChange = async () => {
     try {
       setLoading(true);
@@ -435,10 +476,13 @@ const SalesTable = () => {
     } else {
       newExpanded.add(invoiceId);
       
-      // Fetch sale items if not already loaded
+      // Fetch sale items and credit notes if not already loaded
       if (!saleItems[saleId]) {
         await fetchSaleItems(saleId);
       }
+      if (!saleReturns[saleId]) {
+        await fetchSaleReturns(saleId);
+      }
     }
     
     setExpandedInvoices(newExpanded);
@@ -535,6 +579,116 @@ const SalesTable = () => {
     }
   };
 
+  const fetchCustomerForPrint = async (customerId: string) => {
+    try {
+      const response = await axios.get(`${process.env.NEXT_PUBLIC_API_URL}/customers/${customerId}`);
+      return response.data as { Address?: string; ContactNumber?: string };
+    } catch (error) {
+      console.error('Error fetching customer for printing:', error);
+      return null;
+    }
+  };
+
+  const printCreditNoteAsPDF = async (salesReturn: SalesReturn) => {
+    try {
+      const [customer, businessLineName] = await Promise.all([
+        fetchCustomerForPrint(String(salesReturn.CustomerID)),
+        fetchBusinessLineName(getBusinessLineID())
+      ]);
+
+      generateInvoicePDF({
+        businessLineName,
+        title: 'CREDIT NOTE',
+        numberLabel: 'Credit Note No',
+        totalLabel: 'Total Credit',
+        reference: `Against Invoice: ${salesReturn.InvoiceID}`,
+        invoiceNumber: salesReturn.CreditNoteNumber,
+        invoiceDate: salesReturn.ReturnDate,
+        customerName: salesReturn.CustomerName,
+        customerAddress: customer?.Address,
+        customerContact: customer?.ContactNumber,
+        lines: salesReturn.items.map(item => ({
+          description: item.ProductName,
+          quantity: Number(item.Quantity),
+          unitPrice: Number(item.UnitPrice),
+          total: Number(item.TotalPrice)
+        })),
+        payments: [],
+        notes: [
+          salesReturn.SettlementMethod === 'CASH_REFUND'
+            ? `Refunded from ${salesReturn.RefundAccountType === 'BANK' ? 'bank' : 'cash'}`
+            : 'Adjusted against outstanding credit',
+          ...(salesReturn.Reason ? [`Reason: ${salesReturn.Reason}`] : [])
+        ]
+      });
+    } catch (error) {
+      console.error('Error printing credit note:', error);
+      toast({ description: 'Failed to generate credit note PDF' });
+    }
+  };
+
+  const printInvoiceAsPDF = async (invoiceId: string, saleId: string) => {
+    try {
+      setPrintingInvoiceId(invoiceId);
+
+      const invoiceSales = allSalesByInvoice[invoiceId];
+      let items = saleItems[saleId];
+
+      if (!items) {
+        const itemsResponse = await axios.get(
+          `${process.env.NEXT_PUBLIC_API_URL}/sales/${saleId}/items`
+        );
+        items = itemsResponse.data;
+        setSaleItems(prev => ({ ...prev, [saleId]: itemsResponse.data }));
+      }
+
+      if (!invoiceSales || !items) {
+        console.error('No data available for printing');
+        return;
+      }
+
+      const firstSale = invoiceSales[0];
+      const [customer, businessLineName] = await Promise.all([
+        fetchCustomerForPrint(firstSale.CustomerID),
+        fetchBusinessLineName(getBusinessLineID())
+      ]);
+
+      // Discount is not stored on payment rows, so derive it from items vs. payments
+      const subtotal = items.reduce((sum, item) => sum + Number(item.TotalPrice), 0);
+      const paid = invoiceSales.reduce((sum, sale) => sum + Number(sale.Amount), 0);
+
+      generateInvoicePDF({
+        businessLineName,
+        invoiceNumber: invoiceId,
+        invoiceDate: firstSale.PaymentDate,
+        customerName: firstSale.CustomerName,
+        customerAddress: customer?.Address,
+        customerContact: customer?.ContactNumber,
+        lines: items.map(item => ({
+          description: item.ProductName,
+          quantity: Number(item.Quantity),
+          unitPrice: Number(item.UnitPrice),
+          total: Number(item.TotalPrice)
+        })),
+        discount: Math.max(0, subtotal - paid),
+        payments: invoiceSales.map(sale => {
+          let details: string | undefined;
+          if (sale.PaymentMethod === 'CHEQUE' && sale.paymentDetails) {
+            details = `#${sale.paymentDetails.chequeNumber} - ${sale.paymentDetails.bank}`;
+          } else if (sale.PaymentMethod === 'CREDIT' && sale.paymentDetails?.dueDate) {
+            details = `Due: ${new Date(sale.paymentDetails.dueDate).toLocaleDateString()}`;
+          }
+          return { method: sale.PaymentMethod, amount: Number(sale.Amount), details };
+        })
+      });
+    } catch (error) {
+      console.error('Error printing invoice:', error);
+      toast({ description: 'Failed to generate invoice PDF' });
+    } finally {
+      setPrintingInvoiceId(null);
+    }
+  };
+
   const downloadInvoiceAsExcel = async (invoiceId: string, saleId: string) => {
     try {
       setDownloadingExcel(true);
@@ -544,7 +698,7 @@ const SalesTable = () => {
         await fetchSaleItems(saleId);
       }
       
-      const invoiceSales = groupedSales[invoiceId];
+      const invoiceSales = allSalesByInvoice[invoiceId];
       const items = saleItems[saleId];
 
       // console.log('Invoice Sales:', invoiceSales);
@@ -1413,6 +1567,25 @@ const SalesTable = () => {
     : sales.filter(sale => sale.PaymentMethod === selectedPaymentMethod);
 
   const groupedSales = _.groupBy(filteredSales, 'InvoiceID');
+  // Every payment row of each invoice, whatever the payment method filter shows
+  const allSalesByInvoice = _.groupBy(sales, 'InvoiceID');
+
+  // Returns are credited at what the customer paid: line totals already carry line discounts,
+  // and the invoice discount is spread pro rata the same way the invoice PDF derives it
+  const returnItems = (() => {
+    if (!returnDialog.sale) return [];
+    const items = saleItems[returnDialog.sale.saleId] || [];
+    const subtotal = items.reduce((sum, item) => sum + Number(item.TotalPrice), 0);
+    const paid = (allSalesByInvoice[returnDialog.sale.invoiceId] || []).reduce((sum, sale) => sum + Number(sale.Amount), 0);
+    const payableShare = subtotal > 0 ? Math.min(1, paid / subtotal) : 1;
+
+    return items.map(item => ({
+      ...item,
+      NetUnitPrice: Number(item.Quantity) > 0
+        ? Number(item.TotalPrice) / Number(item.Quantity) * payableShare
+        : Number(item.UnitPrice)
+    }));
+  })();
 
   return (
     <Card className="w-full shadow-none rounded-tl-none rounded-tr-none border-0">
@@ -1562,6 +1735,22 @@ const SalesTable = () => {
           </AlertDialogContent>
         </AlertDialog>
 
+        <SalesReturnDialog
+          open={returnDialog.open}
+          onOpenChange={(open) => setReturnDialog(prev => ({ ...prev, open }))}
+          sale={returnDialog.sale}
+          items={returnItems}
+          existingReturns={returnDialog.sale ? saleReturns[returnDialog.sale.saleId] || [] : []}
+          onSuccess={(salesReturn) => {
+            const saleId = String(salesReturn.SaleID);
+            setSaleReturns(prev => ({
+              ...prev,
+              [saleId]: [...(prev[saleId] || []), salesReturn]
+            }));
+            handleFilterChange();
+          }}
+        />
+
         <Dialog open={editDialog.open} onOpenChange={handleEditDialogOpenChange}>
           <DialogContent className="sm:max-w-md">
             <DialogHeader>
@@ -1636,6 +1825,7 @@ const SalesTable = () => {
                     const isExpanded = expandedInvoices.has(invoiceId);
                     const saleId = firstSale.SaleID;
                     const canDelete = canDeleteSale(invoiceSales);
+                    const outstandingCredit = outstandingInvoiceCredit(allSalesByInvoice[invoiceId] || []);
 
                     return (
                       <React.Fragment key={invoiceId}>
@@ -1679,6 +1869,18 @@ const SalesTable = () => {
                               >
                                 <FileDown className="h-4 w-4" />
                               </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  printInvoiceAsPDF(invoiceId, saleId);
+                                }}
+                                disabled={printingInvoiceId === invoiceId}
+                                title="Print Invoice"
+                              >
+                                <Printer className="h-4 w-4" />
+                              </Button>
                               <Button
                                 size="sm"
                                 variant="ghost"
@@ -1729,6 +1931,13 @@ const SalesTable = () => {
                                 {/* Payment Details Section */}
                                 <div className="mb-4">
                                   <h4 className="font-semibold mb-2">Payment Details</h4>
+                                  {firstSale.CreditLimitOverrideReason && (
+                                    <div className="mb-2 p-2 rounded-md bg-yellow-50 text-sm text-yellow-800">
+                                      Credit limit overridden
+                                      {firstSale.CreditLimitOverrideByName && ` by ${firstSale.CreditLimitOverrideByName}`}:{' '}
+                                      {firstSale.CreditLimitOverrideReason}
+                                    </div>
+                                  )}
                                   <Table>
                                     <TableHeader>
                                       <TableRow>
@@ -1769,7 +1978,26 @@ const SalesTable = () => {
 
                                 {/* Invoice Items Section */}
                                 <div>
-                                  <h4 className="font-semibold mb-2">Invoice Items</h4>
+                                  <div className="flex items-center justify-between mb-2">
+                                    <h4 className="font-semibold">Invoice Items</h4>
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => setReturnDialog({
+                                        open: true,
+                                        sale: {
+                                          saleId,
+                                          invoiceId,
+                                          customerName: firstSale.CustomerName,
+                                          outstandingCredit
+                                        }
+                                      })}
+                                      disabled={!saleItems[saleId]}
+                                    >
+                                      <RotateCcw className="h-4 w-4 mr-2" />
+                                      Return Items
+                                    </Button>
+                                  </div>
                                   {saleItems[saleId] ? (
                                     <Table>
                                       <TableHeader>
@@ -1807,6 +2035,52 @@ const SalesTable = () => {
                                     </div>
                                   )}
                                 </div>
+
+                                {/* Credit Notes Section */}
+                                {saleReturns[saleId] && saleReturns[saleId].length > 0 && (
+                                  <div className="mt-4">
+                                    <h4 className="font-semibold mb-2">Credit Notes</h4>
+                                    <Table>
+                                      <TableHeader>
+                                        <TableRow>
+                                          <TableCell className="font-semibold">Credit Note</TableCell>
+                                          <TableCell className="font-semibold">Date</TableCell>
+                                          <TableCell className="font-semibold">Items</TableCell>
+                                          <TableCell className="font-semibold">Amount</TableCell>
+                                          <TableCell className="font-semibold">Settlement</TableCell>
+                                          <TableCell className="font-semibold"></TableCell>
+                                        </TableRow>
+                                      </TableHeader>
+                                      <TableBody>
+                                        {saleReturns[saleId].map(salesReturn => (
+                                          <TableRow key={salesReturn.SalesReturnID}>
+                                            <TableCell>{salesReturn.CreditNoteNumber}</TableCell>
+                                            <TableCell>{new Date(salesReturn.ReturnDate).toLocaleDateString()}</TableCell>
+                                            <TableCell>
+                                              {salesReturn.items.map(item => `${item.ProductName} x ${item.Quantity}`).join(', ')}
+                                            </TableCell>
+                                            <TableCell>{formatCurrency(salesReturn.TotalAmount)}</TableCell>
+                                            <TableCell>
+                                              {salesReturn.SettlementMethod === 'CASH_REFUND'
+                                                ? `Refund (${salesReturn.RefundAccountType || 'CASH'})`
+                                                : 'Credit adjustment'}
+                                            </TableCell>
+                                            <TableCell>
+                                              <Button
+                                                size="sm"
+                                                variant="ghost"
+                                                onClick={() => printCreditNoteAsPDF(salesReturn)}
+                                                title="Print Credit Note"
+                                              >
+                                                <Printer className="h-4 w-4" />
+                                              </Button>
+                                            </TableCell>
+                                          </TableRow>
+                                        ))}
+                                      </TableBody>
+                                    </Table>
+                                  </div>
+                                )}
                               </div>
                             </TableCell>
                           </TableRow>
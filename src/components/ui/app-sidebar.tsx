@@ -13,7 +13,20 @@ import {
     Box,
     Briefcase,
     BookOpen,
-    LogOut
+    Receipt,
+    Banknote,
+    Scale,
+    Landmark,
+    Calculator,
+    Repeat,
+    ArrowLeftRight,
+    Warehouse,
+    Target,
+    FileSpreadsheet,
+    LogOut,
+    PackagePlus,
+    ClipboardList,
+    ScrollText
 } from "lucide-react";
 import { useAuth } from "@/app/auth/auth-context";
 import {
@@ -43,15 +56,28 @@ const allNavigationItems = [
     { name: "Business Line", href: "/businessline-management", icon: Briefcase, roles: ["superuser", "admin", "management"] },
     { name: "Items", href: "/items-management", icon: Package, roles: ["superuser", "admin", "management"] },
     { name: "Stock Adjustment", href: "/stock-adjustment", icon: Box, roles: ["superuser", "admin", "management"] },
+    { name: "Stock Transfers", href: "/stock-transfers", icon: ArrowLeftRight, roles: ["superuser", "admin", "management"] },
+    { name: "Replenishment", href: "/replenishment", icon: PackagePlus, roles: ["superuser", "admin", "management"] },
+    { name: "Stock Locations", href: "/stock-locations", icon: Warehouse, roles: ["superuser", "admin", "management"] },
     { name: "Vendor Management", href: "/vendor-management", icon: Users, roles: ["superuser", "admin", "management"] },
     { name: "Customer Management", href: "/customer-management", icon: Users, roles: ["superuser", "admin", "management"] },
     { name: "Sales", href: "/sales-management", icon: ShoppingCart, roles: ["superuser", "admin", "management", "sales"] },
+    { name: "Quotations", href: "/quotations", icon: ScrollText, roles: ["superuser", "admin", "management", "sales"] },
     { name: "Purchase", href: "/purchase-management", icon: DollarSign, roles: ["superuser", "admin", "management"] },
+    { name: "Purchase Orders", href: "/purchase-orders", icon: ClipboardList, roles: ["superuser", "admin", "management"] },
     { name: "Reports", href: "/reports", icon: FileText, roles: ["superuser", "admin", "management"] },
     { name: "Users", href: "/users", icon: Users, roles: ["superuser", "admin"] },
     { name: "Credit Management", href: "/credit-management", icon: DollarSign, roles: ["superuser", "admin", "management"] },
+    { name: "Accounts Payable", href: "/accounts-payable", icon: Receipt, roles: ["superuser", "admin", "management"] },
+    { name: "Issued Cheques", href: "/issued-cheques", icon: Banknote, roles: ["superuser", "admin", "management"] },
     { name: "Cashbook", href: "/cashbook", icon: BookOpen, roles: ["superuser", "admin", "management"] },
+    { name: "Recurring Expenses", href: "/recurring-expenses", icon: Repeat, roles: ["superuser", "admin", "management"] },
+    { name: "Expense Budgets", href: "/budgets", icon: Target, roles: ["superuser", "admin", "management"] },
+    { name: "Cash Close", href: "/cash-close", icon: Calculator, roles: ["superuser", "admin", "management"] },
+    { name: "Bank Accounts", href: "/bank-accounts", icon: Landmark, roles: ["superuser", "admin", "management"] },
+    { name: "Bank Reconciliation", href: "/bank-reconciliation", icon: Scale, roles: ["superuser", "admin", "management"] },
     { name: "Opening Balances", href: "/opening-balances", icon: DollarSign, roles: ["superuser", "admin", "management"] },
+    { name: "Accounting Export", href: "/accounting-export", icon: FileSpreadsheet, roles: ["superuser", "admin", "management"] },
 ];
 
 export function AppSidebar() {
@@ -0,0 +1,47 @@
+import { differenceInCalendarDays } from 'date-fns';
+
+export type AgeingBucketKey = 'current' | 'days31to60' | 'days61to90' | 'over90';
+
+export type AgeingTotals = Record<AgeingBucketKey, number>;
+
+export const AGEING_BUCKETS: { key: AgeingBucketKey; label: string }[] = [
+  { key: 'current', label: '0-30 days' },
+  { key: 'days31to60', label: '31-60 days' },
+  { key: 'days61to90', label: '61-90 days' },
+  { key: 'over90', label: '90+ days' },
+];
+
+export const emptyAgeingTotals = (): AgeingTotals => ({
+  current: 0,
+  days31to60: 0,
+  days61to90: 0,
+  over90: 0,
+});
+
+export const getAgeInDays = (date: string | Date, asOf: Date = new Date()) =>
+  Math.max(0, differenceInCalendarDays(asOf, new Date(date)));
+
+export const getAgeingBucket = (days: number): AgeingBucketKey => {
+  if (days <= 30) return 'current';
+  if (days <= 60) return 'days31to60';
+  if (days <= 90) return 'days61to90';
+  return 'over90';
+};
+
+/**
+ * Buckets outstanding amounts by age relative to `asOf`.
+ * Items are aged from their own date (invoice or balance date), not the due date.
+ */
+export const buildAgeingTotals = <T>(
+  items: T[],
+  getDate: (item: T) => string | Date,
+  getAmount: (item: T) => number,
+  asOf: Date = new Date()
+): AgeingTotals => {
+  const totals = emptyAgeingTotals();
+  for (const item of items) {
+    const bucket = getAgeingBucket(getAgeInDays(getDate(item), asOf));
+    totals[bucket] += Number(getAmount(item) || 0);
+  }
+  return totals;
+};
@@ -0,0 +1,135 @@
+import { bankAccountLabel } from '@/lib/bankAccounts';
+import {
+  BalanceSheetLine,
+  DrillKey,
+  FinancialPositionSources,
+  InventoryValueItem,
+  TrialBalanceLine,
+} from '@/types/balanceSheet';
+import { ProfitAndLoss } from '@/types/profitAndLoss';
+
+// The pending receivables and payables endpoints only report what is open today,
+// so these lines cannot be restated for an earlier date
+export const CURRENT_ONLY_DRILLS: DrillKey[] = ['receivables', 'chequesInHand', 'openingBalances', 'payables'];
+
+const sumAmounts = (items: { Amount: number }[]) =>
+  items.reduce((sum, item) => sum + Number(item.Amount || 0), 0);
+
+// Same rule as the inventory report: the server value, else quantity at average cost
+export const inventoryItemValue = (item: InventoryValueItem) =>
+  Number(item.Value || Number(item.CurrentQTY) * Number(item.AverageCost || 0));
+
+/**
+ * Assets and liabilities come straight from their source records. The books are
+ * not double-entry, so equity is whatever makes the two sides agree.
+ */
+export const buildBalanceSheet = (sources: FinancialPositionSources): BalanceSheetLine[] => {
+  const assets: BalanceSheetLine[] = [
+    { key: 'cash', section: 'ASSET', label: 'Cash in hand', amount: Number(sources.cashBalance), drill: 'cash' },
+    ...(sources.bankAccounts.length > 0
+      ? sources.bankAccounts.map(account => ({
+          key: `bank-${account.BankAccountID}`,
+          section: 'ASSET' as const,
+          label: bankAccountLabel(account),
+          amount: Number(account.Balance),
+          drill: 'bank' as const,
+        }))
+      : [{ key: 'bank', section: 'ASSET' as const, label: 'Bank', amount: Number(sources.bankBalance), drill: 'bank' as const }]),
+    {
+      key: 'receivables',
+      section: 'ASSET',
+      label: 'Trade receivables',
+      amount: sumAmounts(sources.pendingCredits),
+      drill: 'receivables',
+    },
+    {
+      key: 'chequesInHand',
+      section: 'ASSET',
+      label: 'Cheques in hand',
+      amount: sumAmounts(sources.pendingCheques),
+      drill: 'chequesInHand',
+    },
+    {
+      key: 'openingBalances',
+      section: 'ASSET',
+      label: 'Customer opening balances',
+      amount: sumAmounts(sources.pendingOpeningBalances),
+      drill: 'openingBalances',
+    },
+    {
+      key: 'inventory',
+      section: 'ASSET',
+      label: 'Inventory',
+      amount: sources.inventory.reduce((sum, item) => sum + inventoryItemValue(item), 0),
+      drill: 'inventory',
+    },
+  ];
+
+  const liabilities: BalanceSheetLine[] = [
+    {
+      key: 'payables',
+      section: 'LIABILITY',
+      label: 'Trade payables',
+      amount: sumAmounts(sources.payables),
+      drill: 'payables',
+    },
+    {
+      key: 'unclearedCheques',
+      section: 'LIABILITY',
+      label: 'Issued cheques not yet cleared',
+      amount: sumAmounts(sources.unclearedCheques),
+      drill: 'unclearedCheques',
+    },
+  ];
+
+  const totalAssets = assets.reduce((sum, line) => sum + line.amount, 0);
+  const totalLiabilities = liabilities.reduce((sum, line) => sum + line.amount, 0);
+
+  return [
+    ...assets,
+    ...liabilities,
+    { key: 'equity', section: 'EQUITY', label: "Owner's equity (assets less liabilities)", amount: totalAssets - totalLiabilities },
+  ];
+};
+
+/**
+ * Closing balances of the balance sheet accounts plus the income and expense
+ * accounts for the period. Opening equity is derived so that debits equal credits.
+ */
+export const buildTrialBalance = (
+  sources: FinancialPositionSources,
+  pnl: ProfitAndLoss
+): TrialBalanceLine[] => {
+  const positionLines: TrialBalanceLine[] = buildBalanceSheet(sources)
+    .filter(line => line.section !== 'EQUITY')
+    .map(line => {
+      const isDebit = (line.section === 'ASSET') === line.amount >= 0;
+      return {
+        key: line.key,
+        label: line.label,
+        debit: isDebit ? Math.abs(line.amount) : 0,
+        credit: isDebit ? 0 : Math.abs(line.amount),
+        drill: line.drill,
+      };
+    });
+
+  const pnlLines: TrialBalanceLine[] = [
+    { key: 'revenue', label: 'Sales revenue', debit: 0, credit: Number(pnl.revenue), drill: 'pnl' },
+    { key: 'cogs', label: 'Cost of goods sold', debit: Number(pnl.costOfGoodsSold ?? pnl.purchases), credit: 0, drill: 'pnl' },
+    { key: 'expenses', label: 'Operating expenses', debit: Number(pnl.operatingExpenses), credit: 0, drill: 'pnl' },
+    { key: 'otherIncome', label: 'Other income', debit: 0, credit: Number(pnl.otherIncome), drill: 'pnl' },
+  ];
+
+  const lines = [...positionLines, ...pnlLines];
+  const difference = lines.reduce((sum, line) => sum + line.debit - line.credit, 0);
+
+  return [
+    ...lines,
+    {
+      key: 'openingEquity',
+      label: "Opening owner's equity (derived)",
+      debit: difference < 0 ? -difference : 0,
+      credit: difference > 0 ? difference : 0,
+    },
+  ];
+};
@@ -0,0 +1,4 @@
+import { BankAccount } from '@/types/bankAccount';
+
+export const bankAccountLabel = (account: Pick<BankAccount, 'BankName' | 'AccountNumber'>) =>
+  `${account.BankName} - ${account.AccountNumber}`;
@@ -0,0 +1,242 @@
+import { differenceInCalendarDays, format, isValid, parse } from 'date-fns';
+import {
+  BankBookItem,
+  BankStatementLine,
+  ReconciliationMatch,
+  ReconciliationSummary,
+} from '@/types/bankReconciliation';
+
+// Banks label the same columns differently; the first header found wins
+const COLUMN_ALIASES = {
+  date: ['Date', 'Transaction Date', 'Txn Date', 'Value Date', 'Posting Date'],
+  description: ['Description', 'Narration', 'Particulars', 'Details', 'Remarks'],
+  reference: ['Reference', 'Ref', 'Ref No', 'Cheque No', 'Cheque Number', 'Chq No'],
+  debit: ['Debit', 'Withdrawal', 'Withdrawals', 'Dr'],
+  credit: ['Credit', 'Deposit', 'Deposits', 'Cr'],
+  amount: ['Amount'],
+  balance: ['Balance', 'Running Balance', 'Closing Balance'],
+};
+
+export const STATEMENT_TEMPLATE_HEADERS = ['Date', 'Description', 'Reference', 'Debit', 'Credit', 'Balance'];
+
+const AMOUNT_TOLERANCE = 0.005;
+
+const pick = (row: Record<string, unknown>, aliases: string[]): unknown => {
+  const normalized = new Map(
+    Object.keys(row).map(key => [key.trim().toLowerCase(), row[key]])
+  );
+  for (const alias of aliases) {
+    const value = normalized.get(alias.toLowerCase());
+    if (value !== undefined && value !== null && String(value).trim() !== '') {
+      return value;
+    }
+  }
+  return undefined;
+};
+
+const toNumber = (value: unknown): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value === 'number') return value;
+  // Strip thousands separators and currency prefixes such as "Rs."
+  const cleaned = String(value).replace(/rs\.?|,|\s/gi, '');
+  const negative = /^\(.*\)$/.test(cleaned);
+  const parsed = parseFloat(cleaned.replace(/[()]/g, ''));
+  if (isNaN(parsed)) return null;
+  return negative ? -parsed : parsed;
+};
+
+// Local bank exports write day first; ISO dates come from our own template
+const STATEMENT_DATE_FORMATS = ['dd/MM/yyyy', 'd/M/yyyy', 'dd-MM-yyyy', 'dd.MM.yyyy', 'yyyy-MM-dd'];
+
+// Sheet cells read with cellDates are local-midnight Dates, so format in local time rather than UTC
+const toISODate = (value: unknown): string | null => {
+  if (value instanceof Date) {
+    return isValid(value) ? format(value, 'yyyy-MM-dd') : null;
+  }
+  if (!value) return null;
+  // Drop any time part, e.g. "15/03/2026 10:42"
+  const text = String(value).trim().split(/\s+/)[0];
+  for (const pattern of STATEMENT_DATE_FORMATS) {
+    const parsed = parse(text, pattern, new Date());
+    if (isValid(parsed)) return format(parsed, 'yyyy-MM-dd');
+  }
+  return null;
+};
+
+/**
+ * Converts raw sheet rows into statement lines.
+ * Accepts either separate debit/credit columns or a single signed amount column.
+ */
+export const parseBankStatementRows = (rows: Record<string, unknown>[]) => {
+  const lines: BankStatementLine[] = [];
+  const errors: { row: number; message: string }[] = [];
+
+  rows.forEach((row, index) => {
+    // Header is row 1 in the spreadsheet
+    const rowNumber = index + 2;
+    const date = toISODate(pick(row, COLUMN_ALIASES.date));
+    const debit = toNumber(pick(row, COLUMN_ALIASES.debit));
+    const credit = toNumber(pick(row, COLUMN_ALIASES.credit));
+    const signedAmount = toNumber(pick(row, COLUMN_ALIASES.amount));
+
+    if (!date) {
+      errors.push({ row: rowNumber, message: 'Missing or invalid date' });
+      return;
+    }
+
+    let amount = 0;
+    let direction: BankStatementLine['Direction'] = 'IN';
+    if (credit) {
+      amount = Math.abs(credit);
+      direction = 'IN';
+    } else if (debit) {
+      amount = Math.abs(debit);
+      direction = 'OUT';
+    } else if (signedAmount) {
+      amount = Math.abs(signedAmount);
+      direction = signedAmount < 0 ? 'OUT' : 'IN';
+    }
+
+    if (!(amount > 0)) {
+      errors.push({ row: rowNumber, message: 'No debit or credit amount' });
+      return;
+    }
+
+    lines.push({
+      LineID: rowNumber,
+      TransactionDate: date,
+      Description: String(pick(row, COLUMN_ALIASES.description) ?? ''),
+      Reference: String(pick(row, COLUMN_ALIASES.reference) ?? ''),
+      Direction: direction,
+      Amount: amount,
+      Balance: toNumber(pick(row, COLUMN_ALIASES.balance)),
+    });
+  });
+
+  return { lines, errors };
+};
+
+const sameAmount = (a: number, b: number) => Math.abs(a - b) < AMOUNT_TOLERANCE;
+
+const mentionsCheque = (line: BankStatementLine, chequeNumber?: string) => {
+  if (!chequeNumber) return false;
+  const number = chequeNumber.trim().replace(/^0+/, '');
+  if (!number) return false;
+  const haystack = `${line.Reference} ${line.Description}`.replace(/\b0+(\d)/g, '$1');
+  return new RegExp(`\\b${number.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(haystack);
+};
+
+// Calendar day of a yyyy-MM-dd date or timestamp, in local time like the period bounds
+const localDay = (date: string) => parse(date.slice(0, 10), 'yyyy-MM-dd', new Date());
+
+const daysApart = (line: BankStatementLine, item: BankBookItem) =>
+  Math.abs(differenceInCalendarDays(localDay(line.TransactionDate), localDay(item.EntryDate)));
+
+export const isCandidateMatch = (
+  line: BankStatementLine,
+  item: BankBookItem,
+  dateWindowDays: number
+) =>
+  line.Direction === item.Direction &&
+  sameAmount(line.Amount, Number(item.Amount)) &&
+  daysApart(line, item) <= dateWindowDays;
+
+/**
+ * Pairs statement lines with book items, keeping any matches already made.
+ * A cheque number hit wins over a plain amount/date match; among amount/date
+ * candidates the closest date is taken so same-amount entries pair in order.
+ */
+export const autoMatchStatement = (
+  lines: BankStatementLine[],
+  bookItems: BankBookItem[],
+  dateWindowDays: number,
+  existing: ReconciliationMatch[] = []
+): ReconciliationMatch[] => {
+  const matches = [...existing];
+  const usedLines = new Set(existing.map(m => m.LineID));
+  const usedItems = new Set(existing.map(m => m.BookKey));
+
+  // Pass 1: cheque number, same direction and amount (bank may clear outside the window)
+  lines.forEach(line => {
+    if (usedLines.has(line.LineID)) return;
+    const item = bookItems.find(candidate =>
+      !usedItems.has(candidate.Key) &&
+      candidate.Direction === line.Direction &&
+      sameAmount(candidate.Amount, line.Amount) &&
+      mentionsCheque(line, candidate.ChequeNumber)
+    );
+    if (item) {
+      matches.push({ LineID: line.LineID, BookKey: item.Key, Method: 'CHEQUE_NUMBER' });
+      usedLines.add(line.LineID);
+      usedItems.add(item.Key);
+    }
+  });
+
+  // Pass 2: amount within the date window, nearest date first
+  lines.forEach(line => {
+    if (usedLines.has(line.LineID)) return;
+    const item = bookItems
+      .filter(candidate => !usedItems.has(candidate.Key) && isCandidateMatch(line, candidate, dateWindowDays))
+      .sort((a, b) => daysApart(line, a) - daysApart(line, b))[0];
+    if (item) {
+      matches.push({ LineID: line.LineID, BookKey: item.Key, Method: 'AMOUNT_DATE' });
+      usedLines.add(line.LineID);
+      usedItems.add(item.Key);
+    }
+  });
+
+  return matches;
+};
+
+const sumBy = <T>(items: T[], getAmount: (item: T) => number) =>
+  items.reduce((sum, item) => sum + getAmount(item), 0);
+
+/**
+ * Book items are loaded for a window around the statement so they can match lines near its edges,
+ * but only those dated within the statement period are outstanding against its closing balance.
+ */
+export const isWithinPeriod = (item: BankBookItem, period: { startDate: string; endDate: string }) => {
+  const date = item.EntryDate.slice(0, 10);
+  return date >= period.startDate && date <= period.endDate;
+};
+
+/**
+ * Standard two-sided reconciliation: the statement is adjusted for items only in
+ * the books, the books for items only on the statement, and the two should agree.
+ */
+export const buildReconciliationSummary = (
+  lines: BankStatementLine[],
+  bookItems: BankBookItem[],
+  matches: ReconciliationMatch[],
+  statementClosingBalance: number,
+  bookBalance: number,
+  period: { startDate: string; endDate: string } | null
+): ReconciliationSummary => {
+  const matchedLines = new Set(matches.map(m => m.LineID));
+  const matchedItems = new Set(matches.map(m => m.BookKey));
+
+  const unmatchedItems = bookItems.filter(
+    item => !matchedItems.has(item.Key) && (!period || isWithinPeriod(item, period))
+  );
+  const unmatchedLines = lines.filter(line => !matchedLines.has(line.LineID));
+
+  const depositsInTransit = sumBy(unmatchedItems.filter(i => i.Direction === 'IN'), i => Number(i.Amount));
+  const unpresentedPayments = sumBy(unmatchedItems.filter(i => i.Direction === 'OUT'), i => Number(i.Amount));
+  const unrecordedCredits = sumBy(unmatchedLines.filter(l => l.Direction === 'IN'), l => l.Amount);
+  const unrecordedDebits = sumBy(unmatchedLines.filter(l => l.Direction === 'OUT'), l => l.Amount);
+
+  const adjustedBankBalance = statementClosingBalance + depositsInTransit - unpresentedPayments;
+  const adjustedBookBalance = bookBalance + unrecordedCredits - unrecordedDebits;
+
+  return {
+    statementClosingBalance,
+    bookBalance,
+    depositsInTransit,
+    unpresentedPayments,
+    unrecordedCredits,
+    unrecordedDebits,
+    adjustedBankBalance,
+    adjustedBookBalance,
+    difference: adjustedBankBalance - adjustedBookBalance,
+  };
+};
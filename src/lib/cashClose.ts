@@ -0,0 +1,15 @@
+import { format } from 'date-fns';
+import axios from '@/lib/api/axios';
+import { CashClose } from '@/types/cashClose';
+
+export const closedDayMessage = (date: string) =>
+  `The cash register for ${date} is closed. Record the payment on another day or reopen the close.`;
+
+/** Whether the cash register for `date` (yyyy-MM-dd) has already been closed. */
+export const isCashDayClosed = async (businessLineId: number | null, date: string): Promise<boolean> => {
+  if (!businessLineId) return false;
+
+  const response = await axios.get('/cash-closes', { params: { businessLineId } });
+  const closes: CashClose[] = response.data.data || [];
+  return closes.some(close => format(new Date(close.CloseDate), 'yyyy-MM-dd') === date);
+};
@@ -0,0 +1,203 @@
+import api from '@/lib/api/axios';
+import { inventoryItemValue } from '@/lib/balanceSheet';
+import { InventoryValueItem } from '@/types/balanceSheet';
+import { CostingMethod, CostingMovement, ProductCostOfSales } from '@/types/costing';
+
+export const COSTING_METHOD_LABELS: Record<CostingMethod, string> = {
+  FIFO: 'FIFO',
+  WEIGHTED_AVERAGE: 'Weighted average',
+};
+
+interface CostLayer {
+  batchId?: number;
+  quantity: number;
+  unitCost: number;
+}
+
+interface ProductState {
+  layers: CostLayer[];
+  quantity: number;
+  averageCost: number;
+  lastCost: number;
+}
+
+const toTime = (value: string | Date) => new Date(value).getTime();
+
+/**
+ * Replays stock movements in date order and returns the cost of the units sold
+ * between `start` and `end` per product.
+ *
+ * FIFO keeps one cost layer per receipt; a sale that names its BatchID is taken
+ * from that batch first, then from the oldest layers. Weighted average re-prices
+ * the whole stock on every costed receipt. Only sales and customer returns count
+ * towards cost of sales; adjustments and transfers move stock at cost without
+ * touching it.
+ * Stock sold beyond what was received is costed at `fallbackCost` (e.g. the
+ * product's AverageCost) or the last known unit cost.
+ */
+export const computeCostOfSales = (
+  movements: CostingMovement[],
+  method: CostingMethod,
+  start: Date,
+  end: Date,
+  fallbackCost: (productId: number) => number = () => 0
+): Map<number, ProductCostOfSales> => {
+  const startTime = start.getTime();
+  const endTime = end.getTime();
+  const states = new Map<number, ProductState>();
+  const results = new Map<number, ProductCostOfSales>();
+
+  const sorted = [...movements]
+    .filter(movement => toTime(movement.Date) <= endTime)
+    .sort((a, b) => toTime(a.Date) - toTime(b.Date) || a.MovementID - b.MovementID);
+
+  sorted.forEach(movement => {
+    let state = states.get(movement.ProductID);
+    if (!state) {
+      state = { layers: [], quantity: 0, averageCost: 0, lastCost: 0 };
+      states.set(movement.ProductID, state);
+    }
+    const quantity = Number(movement.Quantity);
+    if (!(quantity > 0)) return;
+
+    if (movement.Direction === 'IN') {
+      // Returns and transfers without their own cost come back at the current cost
+      const unitCost =
+        movement.UnitCost != null && Number(movement.UnitCost) > 0
+          ? Number(movement.UnitCost)
+          : state.averageCost || state.lastCost || fallbackCost(movement.ProductID);
+
+      state.layers.push({ batchId: movement.BatchID, quantity, unitCost });
+      state.averageCost =
+        state.quantity > 0
+          ? (state.averageCost * state.quantity + unitCost * quantity) / (state.quantity + quantity)
+          : unitCost;
+      state.quantity += quantity;
+      state.lastCost = unitCost;
+
+      // A customer return takes its cost back out of the period's cost of sales
+      if (movement.movementType === 'RETURN' && toTime(movement.Date) >= startTime) {
+        const current = results.get(movement.ProductID) || {
+          ProductID: movement.ProductID,
+          unitsSold: 0,
+          costOfSales: 0,
+        };
+        current.unitsSold -= quantity;
+        current.costOfSales -= quantity * unitCost;
+        results.set(movement.ProductID, current);
+      }
+      return;
+    }
+
+    let cost = 0;
+    if (method === 'WEIGHTED_AVERAGE') {
+      cost = quantity * (state.averageCost || state.lastCost || fallbackCost(movement.ProductID));
+    } else {
+      let remaining = quantity;
+      const takeFrom = (layer: CostLayer) => {
+        const taken = Math.min(layer.quantity, remaining);
+        layer.quantity -= taken;
+        remaining -= taken;
+        cost += taken * layer.unitCost;
+      };
+      const batchLayer = movement.BatchID != null
+        ? state.layers.find(layer => layer.batchId === movement.BatchID && layer.quantity > 0)
+        : undefined;
+      if (batchLayer) takeFrom(batchLayer);
+      for (const layer of state.layers) {
+        if (remaining <= 0) break;
+        if (layer.quantity > 0) takeFrom(layer);
+      }
+      state.layers = state.layers.filter(layer => layer.quantity > 0);
+      if (remaining > 0) {
+        cost += remaining * (state.lastCost || fallbackCost(movement.ProductID));
+      }
+    }
+
+    state.quantity = Math.max(0, state.quantity - quantity);
+    if (state.quantity === 0) {
+      state.averageCost = 0;
+    }
+
+    if (movement.movementType === 'SALE' && toTime(movement.Date) >= startTime) {
+      const current = results.get(movement.ProductID) || {
+        ProductID: movement.ProductID,
+        unitsSold: 0,
+        costOfSales: 0,
+      };
+      current.unitsSold += quantity;
+      current.costOfSales += cost;
+      results.set(movement.ProductID, current);
+    }
+  });
+
+  return results;
+};
+
+export const totalCostOfSales = (costs: Map<number, ProductCostOfSales>) =>
+  Array.from(costs.values()).reduce((sum, product) => sum + product.costOfSales, 0);
+
+export const fetchCostingMethod = async (businessLineId: number | null): Promise<CostingMethod> => {
+  if (!businessLineId) return 'WEIGHTED_AVERAGE';
+
+  try {
+    const response = await api.get('/business-lines');
+    const businessLines: { BusinessLineID: number; CostingMethod?: CostingMethod | null }[] = response.data || [];
+    const current = businessLines.find(bl => Number(bl.BusinessLineID) === Number(businessLineId));
+    return current?.CostingMethod || 'WEIGHTED_AVERAGE';
+  } catch (error) {
+    console.error('Error fetching costing method:', error);
+    return 'WEIGHTED_AVERAGE';
+  }
+};
+
+/**
+ * The movements `computeCostOfSales` needs for `start` to `end`.
+ *
+ * Weighted average only needs the stock on hand just before `start` at its average
+ * cost, so that becomes one opening receipt per product ahead of the period's
+ * movements. FIFO has to know which batches that stock is in and what each cost, and
+ * only the movement history records that, so it still replays everything up to `end`.
+ */
+export const fetchMovementsForCosting = async (
+  businessLineId: number,
+  method: CostingMethod,
+  start: Date,
+  end: Date
+): Promise<CostingMovement[]> => {
+  if (method === 'FIFO') {
+    const response = await api.get('/inventory/movements', {
+      params: { businessLineId, endDate: end.toISOString() },
+    });
+    return Array.isArray(response.data) ? response.data : [];
+  }
+
+  const openingAt = new Date(start.getTime() - 1);
+  const [movementsRes, levelsRes] = await Promise.all([
+    api.get('/inventory/movements', {
+      params: { businessLineId, startDate: start.toISOString(), endDate: end.toISOString() },
+    }),
+    api.get(`/inventory/levels/${businessLineId}`, { params: { asOfDate: openingAt.toISOString() } }),
+  ]);
+
+  const levels: InventoryValueItem[] = Array.isArray(levelsRes.data) ? levelsRes.data : [];
+  const opening: CostingMovement[] = levels
+    .filter(item => Number(item.CurrentQTY) > 0)
+    .map((item, index) => ({
+      MovementID: -(index + 1),
+      ProductID: item.ProductID,
+      Direction: 'IN',
+      Quantity: Number(item.CurrentQTY),
+      Date: openingAt.toISOString(),
+      UnitCost: inventoryItemValue(item) / Number(item.CurrentQTY),
+    }));
+
+  return [...opening, ...(Array.isArray(movementsRes.data) ? movementsRes.data : [])];
+};
+
+/** The business line's costing method together with the movements it needs. */
+export const fetchCostingInputs = async (businessLineId: number, start: Date, end: Date) => {
+  const method = await fetchCostingMethod(businessLineId);
+  const movements = await fetchMovementsForCosting(businessLineId, method, start, end);
+  return { method, movements };
+};
@@ -0,0 +1,79 @@
+import { differenceInCalendarDays, eachMonthOfInterval, endOfMonth, format, getDaysInMonth, max, min, startOfMonth } from 'date-fns';
+import { BudgetVarianceRow, ExpenseBudget } from '@/types/expenseBudget';
+
+interface ExpenseEntry {
+  Direction: 'IN' | 'OUT';
+  Amount: number;
+  ExpenseCategoryID: number | null;
+  ExpenseCategoryName: string | null;
+  TransferID?: number | null;
+}
+
+export const monthKeysInRange = (start: Date, end: Date) =>
+  eachMonthOfInterval({ start, end }).map(month => format(month, 'yyyy-MM'));
+
+/**
+ * Budget per category for an arbitrary date range. Monthly budgets are
+ * prorated by the number of days of each month that fall inside the range.
+ */
+export const budgetsForRange = (budgets: ExpenseBudget[], start: Date, end: Date) => {
+  const totals = new Map<number, number>();
+  budgets.forEach(budget => {
+    const monthStart = startOfMonth(new Date(`${budget.Month}-01T00:00:00`));
+    const overlapStart = max([monthStart, start]);
+    const overlapEnd = min([endOfMonth(monthStart), end]);
+    const days = differenceInCalendarDays(overlapEnd, overlapStart) + 1;
+    if (days <= 0) return;
+
+    const share = Number(budget.Amount) * (days / getDaysInMonth(monthStart));
+    totals.set(budget.ExpenseCategoryID, (totals.get(budget.ExpenseCategoryID) || 0) + share);
+  });
+  return totals;
+};
+
+/**
+ * Budget vs actual per expense category. Actuals are cashbook OUT entries that
+ * carry an expense category, so supplier payments and transfers are ignored.
+ */
+export const buildBudgetVariance = (
+  categories: { ExpenseCategoryID: number; Name: string }[],
+  budgetTotals: Map<number, number>,
+  entries: ExpenseEntry[]
+): BudgetVarianceRow[] => {
+  const actuals = new Map<number, { name: string; amount: number }>();
+  entries
+    .filter(entry => entry.Direction === 'OUT' && !entry.TransferID && entry.ExpenseCategoryID !== null)
+    .forEach(entry => {
+      const id = entry.ExpenseCategoryID as number;
+      const current = actuals.get(id);
+      actuals.set(id, {
+        name: entry.ExpenseCategoryName || 'Uncategorized',
+        amount: (current?.amount || 0) + Number(entry.Amount),
+      });
+    });
+
+  const rows: BudgetVarianceRow[] = categories
+    .map(category => ({
+      id: category.ExpenseCategoryID,
+      name: category.Name,
+      budget: budgetTotals.get(category.ExpenseCategoryID) || 0,
+      actual: actuals.get(category.ExpenseCategoryID)?.amount || 0,
+    }))
+    .concat(
+      // Categories missing from the list still count, e.g. ones removed since the entry was made
+      Array.from(actuals.entries())
+        .filter(([id]) => !categories.some(category => category.ExpenseCategoryID === id))
+        .map(([id, actual]) => ({ id, name: actual.name, budget: 0, actual: actual.amount }))
+    )
+    .filter(row => row.budget > 0 || row.actual > 0)
+    .map(row => ({
+      ExpenseCategoryID: row.id,
+      Name: row.name,
+      Budget: row.budget,
+      Actual: row.actual,
+      Variance: row.budget - row.actual,
+      VariancePercent: row.budget > 0 ? ((row.budget - row.actual) / row.budget) * 100 : null,
+    }));
+
+  return rows.sort((a, b) => b.Actual - a.Actual);
+};
@@ -0,0 +1,214 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { format } from 'date-fns';
+import axios from '@/lib/api/axios';
+
+interface jsPDFWithPlugin extends jsPDF {
+  autoTable: typeof autoTable;
+  lastAutoTable?: {
+    finalY?: number;
+  };
+}
+
+export interface InvoicePDFLine {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+}
+
+export interface InvoicePDFPayment {
+  method: 'CASH' | 'CHEQUE' | 'CREDIT';
+  amount: number;
+  details?: string;
+}
+
+export interface InvoicePDFData {
+  businessLineName?: string;
+  // Defaults to a tax invoice; credit/debit notes override the heading and labels
+  title?: string;
+  numberLabel?: string;
+  totalLabel?: string;
+  reference?: string;
+  // Debit notes are addressed to a vendor rather than a customer
+  partyLabel?: string;
+  partySignatureLabel?: string;
+  invoiceNumber: string;
+  invoiceDate: string | Date;
+  customerName: string;
+  customerAddress?: string;
+  customerContact?: string;
+  salesPerson?: string;
+  lines: InvoicePDFLine[];
+  discount?: number;
+  payments: InvoicePDFPayment[];
+  notes?: string[];
+}
+
+const formatAmount = (amount: number) =>
+  Number(amount).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+const paymentMethodLabels: Record<InvoicePDFPayment['method'], string> = {
+  CASH: 'Cash',
+  CHEQUE: 'Cheque',
+  CREDIT: 'Credit',
+};
+
+/**
+ * Looks up the display name of a business line for invoice headers.
+ * Falls back to an empty string so printing never blocks on this call.
+ */
+export const fetchBusinessLineName = async (businessLineId: number | null): Promise<string> => {
+  if (!businessLineId) return '';
+
+  try {
+    const response = await axios.get('/auth/business-lines');
+    const businessLines: { id: string | number; name: string }[] = response.data || [];
+    const current = businessLines.find(bl => Number(bl.id) === Number(businessLineId));
+    return current?.name || '';
+  } catch (error) {
+    console.error('Error fetching business line name:', error);
+    return '';
+  }
+};
+
+export const generateInvoicePDF = (data: InvoicePDFData) => {
+  const doc = new jsPDF() as jsPDFWithPlugin;
+  const pageWidth = doc.internal.pageSize.width;
+  const invoiceDate = typeof data.invoiceDate === 'string' ? new Date(data.invoiceDate) : data.invoiceDate;
+
+  // Header
+  doc.setFontSize(18);
+  doc.text(data.businessLineName || 'Invoice', 14, 18);
+  doc.setFontSize(14);
+  doc.text(data.title || 'TAX INVOICE', pageWidth - 14, 18, { align: 'right' });
+
+  doc.setFontSize(10);
+  doc.text(`${data.numberLabel || 'Invoice No'}: ${data.invoiceNumber}`, pageWidth - 14, 26, { align: 'right' });
+  doc.text(`Date: ${format(invoiceDate, 'yyyy-MM-dd')}`, pageWidth - 14, 32, { align: 'right' });
+  let headerY = 32;
+  if (data.reference) {
+    headerY += 6;
+    doc.text(data.reference, pageWidth - 14, headerY, { align: 'right' });
+  }
+  if (data.salesPerson) {
+    headerY += 6;
+    doc.text(`Sales Person: ${data.salesPerson}`, pageWidth - 14, headerY, { align: 'right' });
+  }
+
+  // Bill to
+  doc.setFontSize(11);
+  doc.text(data.partyLabel || 'Bill To:', 14, 30);
+  doc.setFontSize(10);
+  let customerY = 36;
+  doc.text(data.customerName, 14, customerY);
+  if (data.customerAddress) {
+    const addressLines = doc.splitTextToSize(data.customerAddress, 90) as string[];
+    addressLines.forEach(line => {
+      customerY += 5;
+      doc.text(line, 14, customerY);
+    });
+  }
+  if (data.customerContact) {
+    customerY += 5;
+    doc.text(`Tel: ${data.customerContact}`, 14, customerY);
+  }
+
+  // Line items
+  const subtotal = data.lines.reduce((sum, line) => sum + Number(line.total), 0);
+  const discount = Number(data.discount) || 0;
+
+  autoTable(doc, {
+    startY: Math.max(customerY, headerY) + 8,
+    head: [['#', 'Description', 'Quantity', 'Unit Price (Rs.)', 'Amount (Rs.)']],
+    body: data.lines.map((line, index) => [
+      (index + 1).toString(),
+      line.description,
+      line.quantity.toString(),
+      formatAmount(line.unitPrice),
+      formatAmount(line.total),
+    ]),
+    headStyles: { fillColor: [51, 51, 51] },
+    theme: 'grid',
+    styles: {
+      cellPadding: 2,
+      fontSize: 10,
+      valign: 'middle',
+    },
+    columnStyles: {
+      0: { cellWidth: 10 },
+      2: { halign: 'right' },
+      3: { halign: 'right' },
+      4: { halign: 'right' },
+    },
+  });
+
+  // Totals
+  autoTable(doc, {
+    startY: (doc.lastAutoTable?.finalY || 60) + 4,
+    body: [
+      ['Subtotal', formatAmount(subtotal)],
+      ['Discount', formatAmount(discount)],
+      [data.totalLabel || 'Total Payable', formatAmount(subtotal - discount)],
+    ],
+    theme: 'plain',
+    styles: { fontSize: 10, cellPadding: 1.5 },
+    columnStyles: {
+      0: { halign: 'right', fontStyle: 'bold' },
+      1: { halign: 'right', cellWidth: 40 },
+    },
+    margin: { left: pageWidth - 104 },
+  });
+
+  // Payment split
+  if (data.payments.length > 0) {
+    autoTable(doc, {
+      startY: (doc.lastAutoTable?.finalY || 80) + 6,
+      head: [['Payment Method', 'Details', 'Amount (Rs.)']],
+      body: data.payments.map(payment => [
+        paymentMethodLabels[payment.method],
+        payment.details || '',
+        formatAmount(payment.amount),
+      ]),
+      headStyles: { fillColor: [51, 51, 51] },
+      theme: 'grid',
+      styles: {
+        cellPadding: 2,
+        fontSize: 10,
+        valign: 'middle',
+      },
+      columnStyles: {
+        2: { halign: 'right' },
+      },
+    });
+  }
+
+  if (data.notes && data.notes.length > 0) {
+    autoTable(doc, {
+      startY: (doc.lastAutoTable?.finalY || 80) + 6,
+      body: data.notes.map(note => [note]),
+      theme: 'plain',
+      styles: { fontSize: 10, cellPadding: 1.5 },
+    });
+  }
+
+  const finalY = doc.lastAutoTable?.finalY || 100;
+  const pageHeight = doc.internal.pageSize.height;
+  const signatureY = finalY + 30 > pageHeight - 20 ? 40 : finalY + 30;
+  if (signatureY === 40) {
+    doc.addPage();
+  }
+
+  doc.setDrawColor(150);
+  doc.line(14, signatureY, 74, signatureY);
+  doc.line(pageWidth - 74, signatureY, pageWidth - 14, signatureY);
+  doc.setFontSize(9);
+  doc.text('Authorized Signature', 14, signatureY + 5);
+  doc.text(data.partySignatureLabel || 'Customer Signature', pageWidth - 74, signatureY + 5);
+
+  const filePrefix = (data.title || 'invoice').toLowerCase().replace(/^tax /, '').replace(/\s+/g, '-');
+  doc.save(`${filePrefix}-${data.invoiceNumber}.pdf`);
+};
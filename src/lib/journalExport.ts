@@ -0,0 +1,230 @@
+import {
+  AccountRole,
+  ChartOfAccountsMapping,
+  JournalEntry,
+  JournalSourceTransaction,
+  JournalSourceType,
+  LedgerAccount,
+} from '@/types/journalExport';
+
+export const ACCOUNT_ROLE_LABELS: Record<AccountRole, string> = {
+  CASH: 'Cash in hand',
+  BANK: 'Bank (default)',
+  CHEQUES_IN_HAND: 'Cheques in hand',
+  ACCOUNTS_RECEIVABLE: 'Accounts receivable',
+  INVENTORY: 'Inventory',
+  ACCOUNTS_PAYABLE: 'Accounts payable',
+  SALES: 'Sales revenue',
+  OTHER_INCOME: 'Other income',
+  OTHER_EXPENSES: 'Other expenses (default)',
+  STOCK_ADJUSTMENTS: 'Stock adjustments',
+};
+
+export const DEFAULT_CHART_OF_ACCOUNTS: ChartOfAccountsMapping = {
+  accounts: {
+    CASH: { code: '1000', name: 'Cash in Hand' },
+    BANK: { code: '1010', name: 'Bank' },
+    CHEQUES_IN_HAND: { code: '1110', name: 'Cheques in Hand' },
+    ACCOUNTS_RECEIVABLE: { code: '1100', name: 'Accounts Receivable' },
+    INVENTORY: { code: '1200', name: 'Inventory' },
+    ACCOUNTS_PAYABLE: { code: '2000', name: 'Accounts Payable' },
+    SALES: { code: '4000', name: 'Sales' },
+    OTHER_INCOME: { code: '4900', name: 'Other Income' },
+    OTHER_EXPENSES: { code: '6000', name: 'General Expenses' },
+    STOCK_ADJUSTMENTS: { code: '5100', name: 'Stock Adjustments' },
+  },
+  expenseCategories: {},
+  bankAccounts: {},
+};
+
+export const SOURCE_TYPE_LABELS: Record<JournalSourceType, string> = {
+  SALE: 'Sales',
+  SALE_PAYMENT: 'Customer payments',
+  CHEQUE_REALIZED: 'Cheque realizations',
+  CHEQUE_BOUNCED: 'Cheque bounces',
+  PURCHASE: 'Purchases',
+  PURCHASE_PAYMENT: 'Vendor payments',
+  CASHBOOK: 'Cashbook entries',
+  STOCK_ADJUSTMENT: 'Stock adjustments',
+};
+
+const JOURNAL_PREFIXES: Record<JournalSourceType, string> = {
+  SALE: 'SAL',
+  SALE_PAYMENT: 'RCP',
+  CHEQUE_REALIZED: 'CHR',
+  CHEQUE_BOUNCED: 'CHB',
+  PURCHASE: 'PUR',
+  PURCHASE_PAYMENT: 'PAY',
+  CASHBOOK: 'CB',
+  STOCK_ADJUSTMENT: 'ADJ',
+};
+
+const SOURCE_ORDER = Object.keys(JOURNAL_PREFIXES) as JournalSourceType[];
+
+/** Fills roles missing from a saved mapping so new roles don't break older mappings. */
+export const withDefaultAccounts = (mapping?: Partial<ChartOfAccountsMapping> | null): ChartOfAccountsMapping => ({
+  accounts: { ...DEFAULT_CHART_OF_ACCOUNTS.accounts, ...(mapping?.accounts || {}) },
+  expenseCategories: mapping?.expenseCategories || {},
+  bankAccounts: mapping?.bankAccounts || {},
+});
+
+const toDateKey = (value: string) => value.split('T')[0];
+
+const compareIds = (a: number | string, b: number | string) =>
+  typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b), undefined, { numeric: true });
+
+/**
+ * Posts each source transaction as one balanced two-line journal. Transactions are
+ * sorted by date, source type and ID first, so the same period always exports
+ * identically regardless of the order the server returned them in.
+ */
+export const buildJournal = (
+  transactions: JournalSourceTransaction[],
+  mapping: ChartOfAccountsMapping
+): JournalEntry[] => {
+  const role = (accountRole: AccountRole) => mapping.accounts[accountRole];
+  const bank = (bankAccountId?: number | null) =>
+    (bankAccountId && mapping.bankAccounts[String(bankAccountId)]?.code
+      ? mapping.bankAccounts[String(bankAccountId)]
+      : role('BANK'));
+  const cashOrBank = (accountType?: 'CASH' | 'BANK' | null, bankAccountId?: number | null) =>
+    accountType === 'BANK' ? bank(bankAccountId) : role('CASH');
+  const expense = (categoryId?: number | null) =>
+    (categoryId && mapping.expenseCategories[String(categoryId)]?.code
+      ? mapping.expenseCategories[String(categoryId)]
+      : role('OTHER_EXPENSES'));
+
+  // Where money received or paid ended up, by payment method
+  const settlementAccount = (transaction: JournalSourceTransaction, received: boolean) => {
+    switch (transaction.PaymentMethod) {
+      case 'CHEQUE':
+        // Cheques received wait in hand until realized; cheques issued come straight off the bank
+        return received ? role('CHEQUES_IN_HAND') : bank(transaction.BankAccountID);
+      case 'BANK':
+        return bank(transaction.BankAccountID);
+      case 'CREDIT':
+        return received ? role('ACCOUNTS_RECEIVABLE') : role('ACCOUNTS_PAYABLE');
+      default:
+        return role('CASH');
+    }
+  };
+
+  const postingFor = (transaction: JournalSourceTransaction): [LedgerAccount, LedgerAccount] | null => {
+    switch (transaction.SourceType) {
+      case 'SALE':
+        return [settlementAccount(transaction, true), role('SALES')];
+      case 'SALE_PAYMENT':
+        return [settlementAccount(transaction, true), role('ACCOUNTS_RECEIVABLE')];
+      case 'CHEQUE_REALIZED':
+        return [bank(transaction.BankAccountID), role('CHEQUES_IN_HAND')];
+      case 'CHEQUE_BOUNCED':
+        return [role('ACCOUNTS_RECEIVABLE'), role('CHEQUES_IN_HAND')];
+      case 'PURCHASE':
+        return [role('INVENTORY'), settlementAccount(transaction, false)];
+      case 'PURCHASE_PAYMENT':
+        return [role('ACCOUNTS_PAYABLE'), settlementAccount(transaction, false)];
+      case 'STOCK_ADJUSTMENT':
+        return transaction.Direction === 'IN'
+          ? [role('INVENTORY'), role('STOCK_ADJUSTMENTS')]
+          : [role('STOCK_ADJUSTMENTS'), role('INVENTORY')];
+      case 'CASHBOOK': {
+        const account = cashOrBank(transaction.AccountType, transaction.BankAccountID);
+        if (transaction.TransferID) {
+          // Both legs of a transfer arrive; the OUT leg carries the whole movement
+          if (transaction.Direction !== 'OUT') return null;
+          return [cashOrBank(transaction.CounterpartAccountType, transaction.CounterpartBankAccountID), account];
+        }
+        return transaction.Direction === 'IN'
+          ? [account, role('OTHER_INCOME')]
+          : [expense(transaction.ExpenseCategoryID), account];
+      }
+    }
+  };
+
+  return [...transactions]
+    .sort(
+      (a, b) =>
+        toDateKey(a.Date).localeCompare(toDateKey(b.Date)) ||
+        SOURCE_ORDER.indexOf(a.SourceType) - SOURCE_ORDER.indexOf(b.SourceType) ||
+        compareIds(a.SourceID, b.SourceID)
+    )
+    .flatMap((transaction) => {
+      const posting = postingFor(transaction);
+      const amount = Math.round(Number(transaction.Amount) * 100) / 100;
+      if (!posting || amount === 0) return [];
+
+      // A negative amount reverses the posting rather than producing negative lines
+      const [debit, credit] = amount > 0 ? posting : [posting[1], posting[0]];
+      const value = Math.abs(amount);
+      const narration = [SOURCE_TYPE_LABELS[transaction.SourceType], transaction.Reference, transaction.Description]
+        .filter(Boolean)
+        .join(' - ');
+
+      return [
+        {
+          JournalNumber: `${JOURNAL_PREFIXES[transaction.SourceType]}-${transaction.SourceID}`,
+          Date: toDateKey(transaction.Date),
+          SourceType: transaction.SourceType,
+          Reference: transaction.Reference,
+          Narration: narration,
+          Lines: [
+            { AccountCode: debit.code, AccountName: debit.name, Debit: value, Credit: 0 },
+            { AccountCode: credit.code, AccountName: credit.name, Debit: 0, Credit: value },
+          ],
+        },
+      ];
+    });
+};
+
+/** Accounts used by the journal that have no code yet; the export is refused until they are mapped. */
+export const unmappedAccounts = (entries: JournalEntry[]) =>
+  Array.from(
+    new Set(
+      entries.flatMap((entry) => entry.Lines.filter((line) => !line.AccountCode.trim()).map((line) => line.AccountName))
+    )
+  );
+
+const csvCell = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: (string | number | null)[][]) => rows.map((row) => row.map(csvCell).join(',')).join('\n');
+
+/** One row per journal line with separate debit and credit columns. */
+export const journalToCsv = (entries: JournalEntry[]) =>
+  toCsv([
+    ['Date', 'Journal No', 'Source', 'Reference', 'Narration', 'Account Code', 'Account Name', 'Debit', 'Credit'],
+    ...entries.flatMap((entry) =>
+      entry.Lines.map((line) => [
+        entry.Date,
+        entry.JournalNumber,
+        SOURCE_TYPE_LABELS[entry.SourceType],
+        entry.Reference,
+        entry.Narration,
+        line.AccountCode,
+        line.AccountName,
+        line.Debit ? line.Debit.toFixed(2) : '',
+        line.Credit ? line.Credit.toFixed(2) : '',
+      ])
+    ),
+  ]);
+
+/**
+ * The layout most accounting packages accept for manual journal imports:
+ * lines grouped by journal number, debits positive and credits negative.
+ */
+export const journalToImportCsv = (entries: JournalEntry[]) =>
+  toCsv([
+    ['JournalNumber', 'JournalDate', 'Memo', 'AccountCode', 'LineDescription', 'Amount'],
+    ...entries.flatMap((entry) =>
+      entry.Lines.map((line) => [
+        entry.JournalNumber,
+        entry.Date,
+        entry.Narration,
+        line.AccountCode,
+        line.AccountName,
+        (line.Debit - line.Credit).toFixed(2),
+      ])
+    ),
+  ]);
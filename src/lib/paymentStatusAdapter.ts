@@ -1,4 +1,17 @@
-interface APIPayment {
+export type ChequeResolutionType = 'REDEPOSIT' | 'CASH' | 'CHEQUE' | 'CREDIT';
+
+interface APIChequeResolution {
+  ResolutionID: number | string;
+  ResolutionType: ChequeResolutionType;
+  ResolvedDate: string;
+  NewRealizeDate?: string | null;
+  ReplacementChequeNumber?: string | null;
+  ReplacementBank?: string | null;
+  ReplacementDueDate?: string | null;
+  Notes?: string | null;
+}
+
+export interface APIPayment {
   PaymentID: number | string;
   SaleID: number | string;
   InvoiceID?: string;
@@ -13,6 +26,14 @@ interface APIPayment {
     realizeDate?: string;
     dueDate?: string;
     status?: string;
+    // Every time this cheque bounced and was re-deposited or replaced, oldest first
+    resolutions?: APIChequeResolution[];
+    // Set on cheques/credits taken to replace a bounced cheque
+    replacesChequeNumber?: string;
+    // Our bank account the cheque was deposited into
+    depositBankAccountId?: number | null;
+    // How a settled credit was paid
+    settlementMethod?: 'CASH' | 'CHEQUE';
   };
   // Add these fields that should come from the backend
   ChequePaymentID?: number | string;
@@ -39,11 +60,34 @@ export interface PaymentStatusChange {
     settledDate?: string;
     bouncedDate?: string;
     notes?: string;
+    resolution?: string;
+    replacesChequeNumber?: string;
+    depositBankAccountId?: number | null;
   };
+  // True once a bounced cheque has been re-deposited or replaced
+  resolved?: boolean;
   chequePaymentId?: string | number;
   creditPaymentId?: string | number;
 }
 
+const resolutionStatus = (type: ChequeResolutionType) =>
+  type === 'REDEPOSIT' ? 'REDEPOSITED' : 'REPLACED';
+
+const describeResolution = (resolution: APIChequeResolution): string => {
+  switch (resolution.ResolutionType) {
+    case 'REDEPOSIT':
+      return `Re-deposited, new realize date ${resolution.NewRealizeDate?.split('T')[0] ?? 'N/A'}`;
+    case 'CASH':
+      return 'Replaced with cash';
+    case 'CHEQUE':
+      return `Replaced with cheque #${resolution.ReplacementChequeNumber ?? ''}${
+        resolution.ReplacementBank ? ` - ${resolution.ReplacementBank}` : ''
+      }`;
+    case 'CREDIT':
+      return `Replaced with credit due ${resolution.ReplacementDueDate?.split('T')[0] ?? 'N/A'}`;
+  }
+};
+
 /**
  * Transforms API payment data into status changes
  * 
@@ -56,6 +100,35 @@ export function transformPaymentsToStatusChanges(
 
   payments.forEach(payment => {
     if (payment.PaymentMethod === 'CHEQUE' && payment.paymentDetails) {
+      const resolutions = payment.paymentDetails.resolutions || [];
+      const lastResolution = resolutions[resolutions.length - 1];
+
+      // Each bounce that was followed by a re-deposit or replacement
+      resolutions.forEach((resolution) => {
+        statusChanges.push({
+          id: `${payment.PaymentID}-resolution-${resolution.ResolutionID}`,
+          paymentId: payment.PaymentID,
+          date: resolution.ResolvedDate,
+          customerId: payment.CustomerID,
+          customerName: payment.CustomerName,
+          invoiceId: payment.InvoiceID,
+          saleId: payment.SaleID,
+          paymentMethod: 'CHEQUE',
+          amount: payment.Amount,
+          fromStatus: 'BOUNCED',
+          toStatus: resolutionStatus(resolution.ResolutionType),
+          details: {
+            chequeNumber: payment.paymentDetails?.chequeNumber,
+            bank: payment.paymentDetails?.bank,
+            realizeDate: resolution.NewRealizeDate ?? undefined,
+            resolution: describeResolution(resolution),
+            notes: resolution.Notes ?? undefined,
+          },
+          resolved: true,
+          chequePaymentId: payment.ChequePaymentID
+        });
+      });
+
       if (payment.paymentDetails.status === 'REALIZED') {
         statusChanges.push({
           id: `${payment.PaymentID}-realized`,
@@ -67,12 +140,14 @@ export function transformPaymentsToStatusChanges(
           saleId: payment.SaleID,
           paymentMethod: 'CHEQUE',
           amount: payment.Amount,
-          fromStatus: 'PENDING',
+          fromStatus: lastResolution?.ResolutionType === 'REDEPOSIT' ? 'REDEPOSITED' : 'PENDING',
           toStatus: 'REALIZED',
           details: {
             chequeNumber: payment.paymentDetails.chequeNumber,
             bank: payment.paymentDetails.bank,
             realizeDate: payment.paymentDetails.realizeDate,
+            replacesChequeNumber: payment.paymentDetails.replacesChequeNumber,
+            depositBankAccountId: payment.paymentDetails.depositBankAccountId,
           },
           // FIXED: Use ChequePaymentID for deletion endpoint
           chequePaymentId: payment.ChequePaymentID
@@ -88,13 +163,16 @@ export function transformPaymentsToStatusChanges(
           saleId: payment.SaleID,
           paymentMethod: 'CHEQUE',
           amount: payment.Amount,
-          fromStatus: 'PENDING',
+          fromStatus: resolutions.some(r => r.ResolutionType === 'REDEPOSIT') ? 'REDEPOSITED' : 'PENDING',
           toStatus: 'BOUNCED',
           details: {
             chequeNumber: payment.paymentDetails.chequeNumber,
             bank: payment.paymentDetails.bank,
             bouncedDate: payment.PaymentDate,
+            replacesChequeNumber: payment.paymentDetails.replacesChequeNumber,
           },
+          // A replacement closes the bounce; a re-deposit that bounced again does not
+          resolved: !!lastResolution && lastResolution.ResolutionType !== 'REDEPOSIT',
           // FIXED: Use ChequePaymentID for deletion endpoint
           chequePaymentId: payment.ChequePaymentID
         });
@@ -116,6 +194,7 @@ export function transformPaymentsToStatusChanges(
           details: {
             dueDate: payment.paymentDetails.dueDate,
             settledDate: payment.PaymentDate,
+            replacesChequeNumber: payment.paymentDetails.replacesChequeNumber,
           },
           // FIXED: Use CreditPaymentID for deletion endpoint
           creditPaymentId: payment.CreditPaymentID
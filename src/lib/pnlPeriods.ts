@@ -0,0 +1,61 @@
+import { differenceInCalendarDays, endOfMonth, format, startOfMonth, subDays, subMonths, subYears } from 'date-fns';
+import { CostingMethod } from '@/types/costing';
+import { PnlPeriod, ProfitAndLoss } from '@/types/profitAndLoss';
+
+export const PNL_LINES: { key: keyof ProfitAndLoss; label: string; bold?: boolean }[] = [
+  { key: 'revenue', label: 'Sales Revenue' },
+  { key: 'costOfGoodsSold', label: 'Cost of Goods Sold' },
+  { key: 'grossProfit', label: 'Gross Profit', bold: true },
+  { key: 'operatingExpenses', label: 'Operating Expenses' },
+  { key: 'otherIncome', label: 'Other Income' },
+  { key: 'netProfit', label: 'Net Profit / (Loss)', bold: true },
+  { key: 'purchases', label: 'Purchases (memo)' },
+];
+
+/**
+ * The server's P&L nets purchases against revenue, so a month spent restocking
+ * shows as a loss. This swaps purchases for the cost of the units actually sold.
+ */
+export const applyCostOfSales = (
+  pnl: ProfitAndLoss,
+  costOfGoodsSold: number,
+  costingMethod: CostingMethod
+): ProfitAndLoss => {
+  const grossProfit = Number(pnl.revenue) - costOfGoodsSold;
+  return {
+    ...pnl,
+    costOfGoodsSold,
+    costingMethod,
+    grossProfit,
+    netProfit: grossProfit - Number(pnl.operatingExpenses) + Number(pnl.otherIncome),
+  };
+};
+
+/**
+ * The selected range, the range of equal length immediately before it,
+ * and the same dates one year earlier.
+ */
+export const comparativePeriods = (from: Date, to: Date): PnlPeriod[] => {
+  const length = differenceInCalendarDays(to, from);
+  const previousEnd = subDays(from, 1);
+  const previousStart = subDays(previousEnd, length);
+  const lastYearStart = subYears(from, 1);
+  const lastYearEnd = subYears(to, 1);
+
+  return [
+    { label: 'This Period', startDate: from, endDate: to },
+    { label: 'Previous Period', startDate: previousStart, endDate: previousEnd },
+    { label: 'Same Period Last Year', startDate: lastYearStart, endDate: lastYearEnd },
+  ];
+};
+
+// Calendar months ending with the month that contains `end`, oldest first
+export const trailingMonths = (end: Date, count = 12): PnlPeriod[] =>
+  Array.from({ length: count }, (_, index) => {
+    const month = subMonths(startOfMonth(end), count - 1 - index);
+    return { label: format(month, 'MMM yyyy'), startDate: month, endDate: endOfMonth(month) };
+  });
+
+// Percentage change against a base; null when the base is zero
+export const percentChange = (current: number, base: number) =>
+  base === 0 ? null : ((current - base) / Math.abs(base)) * 100;
@@ -0,0 +1,78 @@
+import { generateInvoicePDF } from '@/lib/invoicePdf';
+import { PurchaseOrder, PurchaseOrderItem, PurchaseOrderStatus } from '@/types/purchaseOrder';
+
+export const PO_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  DRAFT: 'Draft',
+  SENT: 'Sent',
+  PARTIALLY_RECEIVED: 'Partially Received',
+  RECEIVED: 'Received',
+  CANCELLED: 'Cancelled',
+};
+
+export const receivedQuantity = (item: PurchaseOrderItem) => Number(item.ReceivedQuantity || 0);
+
+export const outstandingQuantity = (item: PurchaseOrderItem) =>
+  Math.max(0, Number(item.Quantity) - receivedQuantity(item));
+
+export const orderTotal = (order: Pick<PurchaseOrder, 'items'>) =>
+  order.items.reduce((sum, item) => sum + Number(item.Quantity) * Number(item.UnitPrice), 0);
+
+export const receivedTotal = (order: Pick<PurchaseOrder, 'items'>) =>
+  order.items.reduce((sum, item) => sum + receivedQuantity(item) * Number(item.UnitPrice), 0);
+
+/** Sent orders take goods until every line is received or the order is invoiced. */
+export const canReceive = (order: PurchaseOrder) =>
+  (order.Status === 'SENT' || order.Status === 'PARTIALLY_RECEIVED') &&
+  !order.PurchaseID &&
+  order.items.some(item => outstandingQuantity(item) > 0);
+
+/**
+ * The purchase invoice bills what was actually received. Once converted, quantities
+ * still outstanding are closed on the order.
+ */
+export const canConvertToInvoice = (order: PurchaseOrder) =>
+  (order.Status === 'PARTIALLY_RECEIVED' || order.Status === 'RECEIVED') && !order.PurchaseID;
+
+/**
+ * Lines still to be received on sent orders. With `includeDrafts`, draft orders count
+ * too, as they are about to be sent and shouldn't be ordered again.
+ */
+export const outstandingLines = (orders: PurchaseOrder[], includeDrafts = false) =>
+  orders
+    .filter(order =>
+      order.Status === 'SENT' ||
+      order.Status === 'PARTIALLY_RECEIVED' ||
+      (includeDrafts && order.Status === 'DRAFT'))
+    .filter(order => !order.PurchaseID)
+    .flatMap(order =>
+      order.items
+        .filter(item => outstandingQuantity(item) > 0)
+        .map(item => ({ order, item, outstanding: outstandingQuantity(item) }))
+    );
+
+export const generatePurchaseOrderPDF = (order: PurchaseOrder, businessLineName?: string) =>
+  generateInvoicePDF({
+    businessLineName,
+    title: 'PURCHASE ORDER',
+    numberLabel: 'PO No',
+    totalLabel: 'Order Total',
+    reference: order.ExpectedDate ? `Expected By: ${order.ExpectedDate.slice(0, 10)}` : undefined,
+    partyLabel: 'Vendor:',
+    partySignatureLabel: 'Vendor Acceptance',
+    invoiceNumber: order.PONumber,
+    invoiceDate: order.OrderDate,
+    customerName: order.VendorName,
+    customerAddress: order.VendorAddress || undefined,
+    customerContact: order.VendorContact || undefined,
+    lines: order.items.map(item => ({
+      description: item.ProductName,
+      quantity: Number(item.Quantity),
+      unitPrice: Number(item.UnitPrice),
+      total: Number(item.Quantity) * Number(item.UnitPrice),
+    })),
+    payments: [],
+    notes: [
+      `Please quote ${order.PONumber} on your delivery note and invoice`,
+      ...(order.Notes ? [order.Notes] : []),
+    ],
+  });
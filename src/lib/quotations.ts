@@ -0,0 +1,50 @@
+import { format, startOfDay } from 'date-fns';
+import { generateInvoicePDF } from '@/lib/invoicePdf';
+import { Quotation } from '@/types/quotation';
+
+export type QuotationDisplayStatus = 'OPEN' | 'EXPIRED' | 'CONVERTED' | 'CANCELLED';
+
+export const QUOTATION_STATUS_LABELS: Record<QuotationDisplayStatus, string> = {
+  OPEN: 'Open',
+  EXPIRED: 'Expired',
+  CONVERTED: 'Converted',
+  CANCELLED: 'Cancelled',
+};
+
+/** A quote stays valid through the whole of its ValidUntil day. */
+export const quotationStatus = (quotation: Quotation, today = new Date()): QuotationDisplayStatus => {
+  if (quotation.Status !== 'OPEN') return quotation.Status;
+  const validUntil = startOfDay(new Date(`${quotation.ValidUntil.slice(0, 10)}T00:00:00`));
+  return validUntil < startOfDay(today) ? 'EXPIRED' : 'OPEN';
+};
+
+export const quotationTotal = (quotation: Pick<Quotation, 'items'>) =>
+  quotation.items.reduce((sum, item) => sum + Number(item.Quantity) * Number(item.UnitPrice), 0);
+
+export const generateQuotationPDF = (quotation: Quotation, businessLineName?: string) =>
+  generateInvoicePDF({
+    businessLineName,
+    title: 'QUOTATION',
+    numberLabel: 'Quotation No',
+    totalLabel: 'Quoted Total',
+    reference: `Valid Until: ${format(new Date(`${quotation.ValidUntil.slice(0, 10)}T00:00:00`), 'yyyy-MM-dd')}`,
+    partyLabel: 'Quotation For:',
+    partySignatureLabel: 'Customer Acceptance',
+    invoiceNumber: quotation.QuotationNumber,
+    invoiceDate: quotation.QuoteDate,
+    customerName: quotation.CustomerName,
+    customerAddress: quotation.Address || undefined,
+    customerContact: quotation.ContactNumber || undefined,
+    salesPerson: quotation.SalesPersonName || undefined,
+    lines: quotation.items.map(item => ({
+      description: item.ProductName,
+      quantity: Number(item.Quantity),
+      unitPrice: Number(item.UnitPrice),
+      total: Number(item.Quantity) * Number(item.UnitPrice),
+    })),
+    payments: [],
+    notes: [
+      'Prices are subject to stock availability at the time of order',
+      ...(quotation.Notes ? [quotation.Notes] : []),
+    ],
+  });
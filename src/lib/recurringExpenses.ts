@@ -0,0 +1,50 @@
+import { addDays, addMonths, format, getDaysInMonth, isAfter, isBefore, startOfDay } from 'date-fns';
+import { RecurringExpense } from '@/types/recurringExpense';
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const ordinal = (day: number) => {
+  const suffix = day % 100 >= 11 && day % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][day % 10] || 'th';
+  return `${day}${suffix}`;
+};
+
+type Schedule = Pick<RecurringExpense, 'Frequency' | 'DayOfMonth' | 'DayOfWeek' | 'StartDate' | 'EndDate'>;
+
+export const scheduleLabel = (schedule: Schedule) => {
+  switch (schedule.Frequency) {
+    case 'MONTHLY':
+      return `Monthly on the ${ordinal(schedule.DayOfMonth || 1)}`;
+    case 'WEEKLY':
+      return `Weekly on ${WEEKDAY_NAMES[schedule.DayOfWeek ?? 1]}`;
+    default:
+      return `Once on ${format(new Date(schedule.StartDate), 'yyyy-MM-dd')}`;
+  }
+};
+
+/**
+ * First due date on or after `from`, or null when the schedule has ended.
+ * Mirrors how the server generates drafts so the templates list can preview them.
+ */
+export const nextDueDate = (schedule: Schedule, from: Date = new Date()): Date | null => {
+  const start = startOfDay(new Date(schedule.StartDate));
+  const end = schedule.EndDate ? startOfDay(new Date(schedule.EndDate)) : null;
+  const earliest = isBefore(startOfDay(from), start) ? start : startOfDay(from);
+
+  let due: Date;
+  if (schedule.Frequency === 'ONCE') {
+    due = start;
+    if (isBefore(due, earliest)) return null;
+  } else if (schedule.Frequency === 'WEEKLY') {
+    const offset = ((schedule.DayOfWeek ?? 1) - earliest.getDay() + 7) % 7;
+    due = addDays(earliest, offset);
+  } else {
+    const dayInMonth = (month: Date) =>
+      new Date(month.getFullYear(), month.getMonth(), Math.min(schedule.DayOfMonth || 1, getDaysInMonth(month)));
+    due = dayInMonth(earliest);
+    if (isBefore(due, earliest)) {
+      due = dayInMonth(addMonths(new Date(earliest.getFullYear(), earliest.getMonth(), 1), 1));
+    }
+  }
+
+  return end && isAfter(due, end) ? null : due;
+};
@@ -0,0 +1,84 @@
+import { outstandingLines } from '@/lib/purchaseOrders';
+import { PurchaseOrder } from '@/types/purchaseOrder';
+import { ReplenishmentLine, ReplenishmentVendor } from '@/types/replenishment';
+
+interface StockLevel {
+  ProductID: number;
+  Name: string;
+  CurrentQTY: number;
+  MinimumQTY: number;
+  LastPurchasePrice?: number;
+}
+
+interface ProductSales {
+  ProductID: number;
+  totalQuantity: number;
+}
+
+interface ProductVendors {
+  ProductID: number;
+  Vendors?: ReplenishmentVendor[];
+}
+
+/**
+ * Enough to get back to the minimum plus `coverDays` of average sales, in whole units.
+ */
+export const suggestedOrderQuantity = (
+  currentQty: number,
+  minimumQty: number,
+  averageDailySales: number,
+  coverDays: number
+) => Math.max(0, Math.ceil(minimumQty + averageDailySales * coverDays - currentQty));
+
+/**
+ * Products below their minimum quantity, most urgent first. Average daily sales come
+ * from the product report totals for the last `windowDays` days. Quantities still
+ * outstanding on sent and draft purchase orders count towards the stock the suggestion tops up.
+ */
+export const buildReplenishment = (
+  levels: StockLevel[],
+  sales: ProductSales[],
+  products: ProductVendors[],
+  orders: PurchaseOrder[],
+  windowDays: number,
+  coverDays: number
+): ReplenishmentLine[] => {
+  const soldByProduct = new Map(sales.map(row => [Number(row.ProductID), Number(row.totalQuantity || 0)]));
+  const vendorsByProduct = new Map(products.map(product => [Number(product.ProductID), product.Vendors || []]));
+  const onOrderByProduct = new Map<number, number>();
+  const draftByProduct = new Map<number, number>();
+  outstandingLines(orders, true).forEach(({ order, item, outstanding }) => {
+    const productId = Number(item.ProductID);
+    onOrderByProduct.set(productId, (onOrderByProduct.get(productId) || 0) + outstanding);
+    if (order.Status === 'DRAFT') {
+      draftByProduct.set(productId, (draftByProduct.get(productId) || 0) + outstanding);
+    }
+  });
+
+  return levels
+    .filter(level => Number(level.MinimumQTY) > 0 && Number(level.CurrentQTY) < Number(level.MinimumQTY))
+    .map(level => {
+      const currentQty = Number(level.CurrentQTY);
+      const onOrderQty = onOrderByProduct.get(Number(level.ProductID)) || 0;
+      const averageDailySales = windowDays > 0 ? (soldByProduct.get(Number(level.ProductID)) || 0) / windowDays : 0;
+      return {
+        ProductID: level.ProductID,
+        Name: level.Name,
+        CurrentQTY: currentQty,
+        MinimumQTY: Number(level.MinimumQTY),
+        OnOrderQTY: onOrderQty,
+        DraftQTY: draftByProduct.get(Number(level.ProductID)) || 0,
+        AverageDailySales: averageDailySales,
+        DaysOfStock: averageDailySales > 0 ? Math.max(0, currentQty) / averageDailySales : null,
+        SuggestedQuantity: suggestedOrderQuantity(
+          currentQty + onOrderQty,
+          Number(level.MinimumQTY),
+          averageDailySales,
+          coverDays
+        ),
+        LastPurchasePrice: Number(level.LastPurchasePrice || 0),
+        Vendors: vendorsByProduct.get(Number(level.ProductID)) || [],
+      };
+    })
+    .sort((a, b) => (a.DaysOfStock ?? Infinity) - (b.DaysOfStock ?? Infinity) || a.Name.localeCompare(b.Name));
+};
@@ -0,0 +1,143 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { format } from 'date-fns';
+import { AGEING_BUCKETS, AgeingTotals } from '@/lib/ageing';
+
+interface jsPDFWithPlugin extends jsPDF {
+  autoTable: typeof autoTable;
+  lastAutoTable?: {
+    finalY?: number;
+  };
+}
+
+export interface StatementPDFRow {
+  date: string | Date;
+  reference: string;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+export interface StatementPDFData {
+  businessLineName?: string;
+  customerCode: string;
+  customerName: string;
+  customerAddress?: string;
+  customerContact?: string;
+  startDate: Date;
+  endDate: Date;
+  openingBalance: number;
+  rows: StatementPDFRow[];
+  closingBalance: number;
+  ageing: AgeingTotals;
+}
+
+const formatAmount = (amount: number) =>
+  Number(amount).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+export const generateStatementPDF = (data: StatementPDFData) => {
+  const doc = new jsPDF() as jsPDFWithPlugin;
+  const pageWidth = doc.internal.pageSize.width;
+
+  // Header
+  doc.setFontSize(18);
+  doc.text(data.businessLineName || 'Statement', 14, 18);
+  doc.setFontSize(14);
+  doc.text('STATEMENT OF ACCOUNT', pageWidth - 14, 18, { align: 'right' });
+
+  doc.setFontSize(10);
+  doc.text(`Customer No: ${data.customerCode}`, pageWidth - 14, 26, { align: 'right' });
+  doc.text(
+    `Period: ${format(data.startDate, 'yyyy-MM-dd')} to ${format(data.endDate, 'yyyy-MM-dd')}`,
+    pageWidth - 14,
+    32,
+    { align: 'right' }
+  );
+  doc.text(`Printed: ${format(new Date(), 'yyyy-MM-dd')}`, pageWidth - 14, 38, { align: 'right' });
+
+  doc.setFontSize(11);
+  doc.text('Customer:', 14, 30);
+  doc.setFontSize(10);
+  let customerY = 36;
+  doc.text(data.customerName, 14, customerY);
+  if (data.customerAddress) {
+    const addressLines = doc.splitTextToSize(data.customerAddress, 90) as string[];
+    addressLines.forEach(line => {
+      customerY += 5;
+      doc.text(line, 14, customerY);
+    });
+  }
+  if (data.customerContact) {
+    customerY += 5;
+    doc.text(`Tel: ${data.customerContact}`, 14, customerY);
+  }
+
+  // Transactions with running balance
+  autoTable(doc, {
+    startY: Math.max(customerY, 38) + 8,
+    head: [['Date', 'Reference', 'Description', 'Debit (Rs.)', 'Credit (Rs.)', 'Balance (Rs.)']],
+    body: [
+      [format(data.startDate, 'yyyy-MM-dd'), '', 'Opening balance', '', '', formatAmount(data.openingBalance)],
+      ...data.rows.map(row => [
+        format(new Date(row.date), 'yyyy-MM-dd'),
+        row.reference,
+        row.description,
+        row.debit ? formatAmount(row.debit) : '',
+        row.credit ? formatAmount(row.credit) : '',
+        formatAmount(row.balance),
+      ]),
+      [format(data.endDate, 'yyyy-MM-dd'), '', 'Closing balance', '', '', formatAmount(data.closingBalance)],
+    ],
+    headStyles: { fillColor: [51, 51, 51] },
+    theme: 'grid',
+    styles: {
+      cellPadding: 2,
+      fontSize: 9,
+      valign: 'middle',
+    },
+    columnStyles: {
+      0: { cellWidth: 22 },
+      3: { halign: 'right' },
+      4: { halign: 'right' },
+      5: { halign: 'right' },
+    },
+    didParseCell: (hookData) => {
+      const isBalanceRow = hookData.section === 'body' &&
+        (hookData.row.index === 0 || hookData.row.index === data.rows.length + 1);
+      if (isBalanceRow) {
+        hookData.cell.styles.fontStyle = 'bold';
+      }
+    },
+  });
+
+  // Ageing footer
+  autoTable(doc, {
+    startY: (doc.lastAutoTable?.finalY || 80) + 8,
+    head: [[...AGEING_BUCKETS.map(bucket => bucket.label), 'Total Due']],
+    body: [[
+      ...AGEING_BUCKETS.map(bucket => formatAmount(data.ageing[bucket.key])),
+      formatAmount(AGEING_BUCKETS.reduce((sum, bucket) => sum + data.ageing[bucket.key], 0)),
+    ]],
+    headStyles: { fillColor: [51, 51, 51], halign: 'right' },
+    theme: 'grid',
+    styles: {
+      cellPadding: 2,
+      fontSize: 10,
+      halign: 'right',
+    },
+  });
+
+  const finalY = doc.lastAutoTable?.finalY || 100;
+  doc.setFontSize(9);
+  doc.text(
+    'Please report any discrepancies within 14 days of receiving this statement.',
+    14,
+    Math.min(finalY + 10, doc.internal.pageSize.height - 10)
+  );
+
+  doc.save(`statement-${data.customerCode}-${format(data.endDate, 'yyyy-MM-dd')}.pdf`);
+};
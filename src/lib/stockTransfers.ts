@@ -0,0 +1,41 @@
+import { LocationStock } from '@/types/stockLocation';
+import { StockTransfer, StockTransferStatus } from '@/types/stockTransfer';
+
+export const TRANSFER_STATUS_LABELS: Record<StockTransferStatus, string> = {
+  DRAFT: 'Draft',
+  SENT: 'In Transit',
+  RECEIVED: 'Received',
+  REJECTED: 'Rejected',
+  CANCELLED: 'Cancelled',
+};
+
+export const transferValue = (transfer: Pick<StockTransfer, 'items'>) =>
+  transfer.items.reduce((sum, item) => sum + Number(item.Quantity) * Number(item.UnitCost), 0);
+
+/**
+ * Products are kept per business line, so the receiving side picks its own product
+ * for each line. Suggest the one with the same name when there is one.
+ */
+export const suggestDestinationProduct = <T extends { ProductID: number; Name: string }>(
+  productName: string,
+  products: T[]
+) => products.find(product => product.Name.trim().toLowerCase() === productName.trim().toLowerCase());
+
+/** Quantity available at one location; without a location (or a breakdown) the business line total. */
+export const quantityAtLocation = (
+  product: { CurrentQTY: number; LocationStock?: LocationStock[] },
+  locationId: string
+) => {
+  if (!locationId || !product.LocationStock) return Number(product.CurrentQTY);
+  const stock = product.LocationStock.find(location => String(location.LocationID) === locationId);
+  return stock ? Number(stock.Quantity) : 0;
+};
+
+const withLocation = (businessLine: string, location?: string | null) =>
+  location ? `${businessLine} · ${location}` : businessLine;
+
+export const transferSourceLabel = (transfer: StockTransfer) =>
+  withLocation(transfer.FromBusinessLineName, transfer.FromLocationName);
+
+export const transferDestinationLabel = (transfer: StockTransfer) =>
+  withLocation(transfer.ToBusinessLineName, transfer.ToLocationName);
@@ -0,0 +1,101 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { format } from 'date-fns';
+import { CashClose } from '@/types/cashClose';
+
+interface jsPDFWithPlugin extends jsPDF {
+  autoTable: typeof autoTable;
+  lastAutoTable?: {
+    finalY?: number;
+  };
+}
+
+const formatAmount = (amount: number) =>
+  Number(amount).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+/**
+ * End-of-day cash register report on a narrow page so it prints on
+ * receipt printers as well as A4.
+ */
+export const generateZReportPDF = (close: CashClose, businessLineName?: string) => {
+  const doc = new jsPDF({ format: [80, 200] }) as jsPDFWithPlugin;
+  const pageWidth = doc.internal.pageSize.width;
+  const closeDate = format(new Date(close.CloseDate), 'yyyy-MM-dd');
+
+  doc.setFontSize(12);
+  doc.text(businessLineName || 'Cash Register', pageWidth / 2, 10, { align: 'center' });
+  doc.setFontSize(10);
+  doc.text(`Z-REPORT  ${closeDate}`, pageWidth / 2, 16, { align: 'center' });
+  doc.setFontSize(7);
+  doc.text(
+    `Closed ${close.ClosedAt ? format(new Date(close.ClosedAt), 'yyyy-MM-dd HH:mm') : ''}${
+      close.ClosedByName ? ` by ${close.ClosedByName}` : ''
+    }`,
+    pageWidth / 2,
+    21,
+    { align: 'center' }
+  );
+
+  const tableStyles = {
+    theme: 'plain' as const,
+    margin: { left: 4, right: 4 },
+    styles: { fontSize: 8, cellPadding: 1 },
+    columnStyles: { 1: { halign: 'right' as const } },
+  };
+
+  autoTable(doc, {
+    ...tableStyles,
+    startY: 25,
+    body: [
+      ['Opening cash', formatAmount(close.OpeningCash)],
+      ['Cash sales', formatAmount(close.CashSales)],
+      ['Cash settlements', formatAmount(close.CashSettlements)],
+      ['Other cash in', formatAmount(close.OtherCashIn)],
+      ['Cash out', `(${formatAmount(close.CashOut)})`],
+      ['Expected cash', formatAmount(close.ExpectedCash)],
+    ],
+    didParseCell: (hookData) => {
+      if (hookData.row.index === 5) {
+        hookData.cell.styles.fontStyle = 'bold';
+      }
+    },
+  });
+
+  autoTable(doc, {
+    ...tableStyles,
+    startY: (doc.lastAutoTable?.finalY || 60) + 3,
+    head: [['Denomination', 'Count', 'Amount']],
+    headStyles: { fontStyle: 'bold' },
+    body: close.Denominations
+      .filter(denomination => denomination.count > 0)
+      .map(denomination => [
+        formatAmount(denomination.value),
+        String(denomination.count),
+        formatAmount(denomination.value * denomination.count),
+      ]),
+    columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right' } },
+  });
+
+  autoTable(doc, {
+    ...tableStyles,
+    startY: (doc.lastAutoTable?.finalY || 100) + 3,
+    body: [
+      ['Counted cash', formatAmount(close.CountedCash)],
+      [close.Variance < 0 ? 'Short' : close.Variance > 0 ? 'Over' : 'Variance', formatAmount(close.Variance)],
+    ],
+    didParseCell: (hookData) => {
+      hookData.cell.styles.fontStyle = 'bold';
+    },
+  });
+
+  if (close.Notes) {
+    const notesY = (doc.lastAutoTable?.finalY || 120) + 5;
+    doc.setFontSize(7);
+    doc.text(doc.splitTextToSize(`Notes: ${close.Notes}`, pageWidth - 8) as string[], 4, notesY);
+  }
+
+  doc.save(`z-report-${closeDate}.pdf`);
+};
@@ -0,0 +1,72 @@
+import { BankAccountBalance } from '@/types/bankAccount';
+import { IssuedCheque } from '@/types/issuedCheque';
+
+export interface OutstandingReceivable {
+  CustomerID: number;
+  CustomerName: string;
+  Amount: number;
+  DueDate?: string;
+  RealizeDate?: string;
+  BalanceDate?: string;
+  ChequeNumber?: string | null;
+  InvoiceNumber?: string | null;
+}
+
+export interface OutstandingPayable {
+  VendorCreditID: string | number;
+  InvoiceNumber: string;
+  VendorName: string;
+  PurchaseDate: string;
+  DueDate: string;
+  Amount: number;
+}
+
+export interface InventoryValueItem {
+  ProductID: number;
+  Name: string;
+  CurrentQTY: number;
+  AverageCost?: number;
+  Value?: number;
+}
+
+// Everything the balance sheet and trial balance are built from, as of one date
+export interface FinancialPositionSources {
+  cashBalance: number;
+  bankAccounts: BankAccountBalance[];
+  bankBalance: number;
+  pendingCredits: OutstandingReceivable[];
+  pendingCheques: OutstandingReceivable[];
+  pendingOpeningBalances: OutstandingReceivable[];
+  inventory: InventoryValueItem[];
+  payables: OutstandingPayable[];
+  unclearedCheques: IssuedCheque[];
+}
+
+export type DrillKey =
+  | 'cash'
+  | 'bank'
+  | 'receivables'
+  | 'chequesInHand'
+  | 'openingBalances'
+  | 'inventory'
+  | 'payables'
+  | 'unclearedCheques'
+  | 'pnl';
+
+export type BalanceSheetSection = 'ASSET' | 'LIABILITY' | 'EQUITY';
+
+export interface BalanceSheetLine {
+  key: string;
+  section: BalanceSheetSection;
+  label: string;
+  amount: number;
+  drill?: DrillKey;
+}
+
+export interface TrialBalanceLine {
+  key: string;
+  label: string;
+  debit: number;
+  credit: number;
+  drill?: DrillKey;
+}
@@ -0,0 +1,20 @@
+export interface BankAccount {
+  BankAccountID: number;
+  BusinessLineID: number;
+  BankName: string;
+  Branch: string;
+  AccountNumber: string;
+  AccountName?: string | null;
+  OpeningBalance: number;
+  OpeningBalanceDate: string;
+  IsActive: number | boolean;
+  // Opening balance plus all BANK cashbook movements on this account
+  Balance?: number;
+}
+
+export interface BankAccountBalance {
+  BankAccountID: number;
+  BankName: string;
+  AccountNumber: string;
+  Balance: number;
+}
@@ -0,0 +1,49 @@
+export type BankDirection = 'IN' | 'OUT';
+
+export interface BankStatementLine {
+  // Row number in the imported file, used as a stable key
+  LineID: number;
+  TransactionDate: string;
+  Description: string;
+  Reference: string;
+  Direction: BankDirection;
+  Amount: number;
+  Balance?: number | null;
+}
+
+export type BookItemSource = 'CASHBOOK' | 'CHEQUE';
+
+export interface BankBookItem {
+  // `${Source}-${id}` so cashbook entries and cheques never collide
+  Key: string;
+  Source: BookItemSource;
+  SourceID: number | string;
+  EntryDate: string;
+  Description: string;
+  Direction: BankDirection;
+  Amount: number;
+  ChequeNumber?: string;
+}
+
+export type ReconciliationMatchMethod = 'CHEQUE_NUMBER' | 'AMOUNT_DATE' | 'MANUAL';
+
+export interface ReconciliationMatch {
+  LineID: number;
+  BookKey: string;
+  Method: ReconciliationMatchMethod;
+}
+
+export interface ReconciliationSummary {
+  statementClosingBalance: number;
+  bookBalance: number;
+  // Book receipts the bank has not credited yet
+  depositsInTransit: number;
+  // Book payments the bank has not debited yet
+  unpresentedPayments: number;
+  // Statement lines never recorded in the books
+  unrecordedCredits: number;
+  unrecordedDebits: number;
+  adjustedBankBalance: number;
+  adjustedBookBalance: number;
+  difference: number;
+}
@@ -0,0 +1,23 @@
+export interface DenominationCount {
+  value: number;
+  count: number;
+}
+
+export interface CashClose {
+  CashCloseID: number;
+  CloseDate: string;
+  // Counted cash carried forward from the previous close
+  OpeningCash: number;
+  CashSales: number;
+  CashSettlements: number;
+  OtherCashIn: number;
+  CashOut: number;
+  ExpectedCash: number;
+  CountedCash: number;
+  // Counted minus expected; negative means the drawer is short
+  Variance: number;
+  Denominations: DenominationCount[];
+  Notes?: string | null;
+  ClosedByName?: string | null;
+  ClosedAt?: string | null;
+}
@@ -0,0 +1,19 @@
+export type CostingMethod = 'FIFO' | 'WEIGHTED_AVERAGE';
+
+// The fields of an inventory movement that matter for costing
+export interface CostingMovement {
+  MovementID: number;
+  ProductID: number;
+  Direction: 'IN' | 'OUT';
+  Quantity: number;
+  Date: string;
+  UnitCost?: number;
+  BatchID?: number;
+  movementType?: 'PURCHASE' | 'SALE' | 'ADJUSTMENT' | 'TRANSFER_IN' | 'TRANSFER_OUT' | 'RETURN';
+}
+
+export interface ProductCostOfSales {
+  ProductID: number;
+  unitsSold: number;
+  costOfSales: number;
+}
@@ -10,6 +10,7 @@ export interface Customer {
     BusinessRegNo?: string;
     CreditLimit?: number;
     Status?: string;
+    BounceCount?: number;
     BankDetails?: string;
     TotalOutstanding?: number;
     CashSale?: number;
@@ -0,0 +1,31 @@
+export type StatementEntryType =
+  | 'INVOICE'
+  | 'PAYMENT'
+  | 'CHEQUE_REALIZED'
+  | 'CHEQUE_BOUNCED'
+  | 'CREDIT_SETTLEMENT'
+  | 'CREDIT_NOTE';
+
+export interface StatementEntry {
+  EntryDate: string;
+  EntryType: StatementEntryType;
+  Reference: string;
+  Description?: string | null;
+  // Debit increases what the customer owes, credit reduces it
+  Debit: number;
+  Credit: number;
+}
+
+export interface StatementOpenItem {
+  Reference: string;
+  ItemDate: string;
+  DueDate?: string | null;
+  Outstanding: number;
+}
+
+export interface CustomerStatement {
+  openingBalance: number;
+  entries: StatementEntry[];
+  // Invoices and opening balances still unpaid at the end of the period
+  openItems: StatementOpenItem[];
+}
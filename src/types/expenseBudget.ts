@@ -0,0 +1,19 @@
+export interface ExpenseBudget {
+  BudgetID: number;
+  ExpenseCategoryID: number;
+  ExpenseCategoryName?: string | null;
+  // Budgets are monthly, keyed as yyyy-MM
+  Month: string;
+  Amount: number;
+}
+
+export interface BudgetVarianceRow {
+  ExpenseCategoryID: number;
+  Name: string;
+  Budget: number;
+  Actual: number;
+  // Budget minus actual; negative means overspent
+  Variance: number;
+  // Null when there is no budget to compare against
+  VariancePercent: number | null;
+}
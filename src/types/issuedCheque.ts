@@ -0,0 +1,24 @@
+export type IssuedChequeStatus = 'ISSUED' | 'PRESENTED' | 'CLEARED' | 'STOPPED';
+
+export interface IssuedCheque {
+  IssuedChequeID: number;
+  ChequeNumber: string;
+  BankAccount: string;
+  // Named cashbook bank account the cheque is drawn on
+  BankAccountID?: number | null;
+  VendorID: number;
+  VendorName: string;
+  Amount: number;
+  IssueDate: string;
+  ChequeDate: string;
+  Status: IssuedChequeStatus;
+  PresentedDate?: string | null;
+  ClearedDate?: string | null;
+  StoppedDate?: string | null;
+  StopReason?: string | null;
+  // Set when the cheque was written from an accounts payable settlement
+  VendorCreditID?: number | string | null;
+  InvoiceNumber?: string | null;
+  Notes?: string | null;
+  CreatedByName?: string | null;
+}
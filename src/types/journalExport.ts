@@ -0,0 +1,78 @@
+export type AccountRole =
+  | 'CASH'
+  | 'BANK'
+  | 'CHEQUES_IN_HAND'
+  | 'ACCOUNTS_RECEIVABLE'
+  | 'INVENTORY'
+  | 'ACCOUNTS_PAYABLE'
+  | 'SALES'
+  | 'OTHER_INCOME'
+  | 'OTHER_EXPENSES'
+  | 'STOCK_ADJUSTMENTS';
+
+export interface LedgerAccount {
+  code: string;
+  name: string;
+}
+
+// The accountant's chart of accounts, saved per business line
+export interface ChartOfAccountsMapping {
+  accounts: Record<AccountRole, LedgerAccount>;
+  // Keyed by ExpenseCategoryID; unmapped categories post to OTHER_EXPENSES
+  expenseCategories: Record<string, LedgerAccount>;
+  // Keyed by BankAccountID; unmapped accounts post to BANK
+  bankAccounts: Record<string, LedgerAccount>;
+}
+
+export type JournalSourceType =
+  | 'SALE'
+  | 'SALE_PAYMENT'
+  | 'CHEQUE_REALIZED'
+  | 'CHEQUE_BOUNCED'
+  | 'PURCHASE'
+  | 'PURCHASE_PAYMENT'
+  | 'CASHBOOK'
+  | 'STOCK_ADJUSTMENT';
+
+/**
+ * One business event in the period, as returned by /accounting-export/transactions.
+ * Cashbook rows are manual entries and transfers only; entries the cashbook posts
+ * for sales, purchases and payments arrive under their own source type.
+ */
+export interface JournalSourceTransaction {
+  SourceType: JournalSourceType;
+  SourceID: number | string;
+  Date: string;
+  // Invoice, cheque or adjustment number
+  Reference: string | null;
+  // Customer, vendor or cashbook description
+  Description: string | null;
+  Amount: number;
+  // How a sale, purchase or payment was settled
+  PaymentMethod?: 'CASH' | 'CHEQUE' | 'CREDIT' | 'BANK' | null;
+  BankAccountID?: number | null;
+  // Cashbook entries and stock adjustments
+  Direction?: 'IN' | 'OUT' | null;
+  AccountType?: 'CASH' | 'BANK' | null;
+  ExpenseCategoryID?: number | null;
+  TransferID?: number | null;
+  CounterpartAccountType?: 'CASH' | 'BANK' | null;
+  CounterpartBankAccountID?: number | null;
+}
+
+export interface JournalLine {
+  AccountCode: string;
+  AccountName: string;
+  Debit: number;
+  Credit: number;
+}
+
+export interface JournalEntry {
+  // Derived from the source record so re-exporting a period gives the same numbers
+  JournalNumber: string;
+  Date: string;
+  SourceType: JournalSourceType;
+  Reference: string | null;
+  Narration: string;
+  Lines: JournalLine[];
+}
@@ -0,0 +1,26 @@
+import { BankAccountBalance } from '@/types/bankAccount';
+import { CostingMethod } from '@/types/costing';
+
+export interface ProfitAndLoss {
+  period: { startDate: string; endDate: string };
+  revenue: number;
+  saleCount: number;
+  purchases: number;
+  purchaseCount: number;
+  // Cost of the units sold; gross and net profit are based on this, not on purchases
+  costOfGoodsSold?: number;
+  costingMethod?: CostingMethod;
+  grossProfit: number;
+  operatingExpenses: number;
+  otherIncome: number;
+  netProfit: number;
+  cashBalance: number;
+  bankBalance: number;
+  bankAccounts?: BankAccountBalance[];
+}
+
+export interface PnlPeriod {
+  label: string;
+  startDate: Date;
+  endDate: Date;
+}
@@ -0,0 +1,49 @@
+export type PurchaseOrderStatus = 'DRAFT' | 'SENT' | 'PARTIALLY_RECEIVED' | 'RECEIVED' | 'CANCELLED';
+
+export interface PurchaseOrderItem {
+  PurchaseOrderItemID: number;
+  ProductID: number;
+  ProductName: string;
+  Quantity: number;
+  UnitPrice: number;
+  // Total across all goods-received notes against this line
+  ReceivedQuantity?: number;
+}
+
+export interface GoodsReceiptItem {
+  PurchaseOrderItemID: number;
+  ProductID: number;
+  ProductName: string;
+  Quantity: number;
+}
+
+// A goods-received note: the only step on a purchase order that moves stock
+export interface GoodsReceipt {
+  GoodsReceiptID: number;
+  GRNNumber: string;
+  ReceivedDate: string;
+  LocationID?: number | null;
+  LocationName?: string | null;
+  ReceivedByName?: string | null;
+  Notes?: string | null;
+  items: GoodsReceiptItem[];
+}
+
+export interface PurchaseOrder {
+  PurchaseOrderID: number;
+  PONumber: string;
+  VendorID: number;
+  VendorName: string;
+  VendorAddress?: string | null;
+  VendorContact?: string | null;
+  Status: PurchaseOrderStatus;
+  OrderDate: string;
+  ExpectedDate?: string | null;
+  Notes?: string | null;
+  CreatedByName?: string | null;
+  // Set once the order has been converted into the vendor's purchase invoice
+  PurchaseID?: number | null;
+  InvoiceNumber?: string | null;
+  items: PurchaseOrderItem[];
+  receipts?: GoodsReceipt[];
+}
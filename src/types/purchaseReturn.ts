@@ -0,0 +1,27 @@
+export type PurchaseReturnSettlementMethod = 'CREDIT_ADJUSTMENT' | 'CASH_REFUND';
+
+export interface PurchaseReturnItem {
+  PurchaseReturnItemID: number;
+  PurchaseItemID: number | string;
+  ProductID: number | string;
+  ProductName: string;
+  Quantity: number;
+  UnitPrice: number;
+  TotalPrice: number;
+}
+
+export interface PurchaseReturn {
+  PurchaseReturnID: number;
+  DebitNoteNumber: string;
+  PurchaseID: number | string;
+  InvoiceNumber: string;
+  VendorID: number | string;
+  VendorName: string;
+  ReturnDate: string;
+  TotalAmount: number;
+  SettlementMethod: PurchaseReturnSettlementMethod;
+  RefundAccountType?: 'CASH' | 'BANK' | null;
+  Reason?: string | null;
+  CreatedByName?: string;
+  items: PurchaseReturnItem[];
+}
@@ -0,0 +1,30 @@
+// Stored status; whether an open quote has expired follows from ValidUntil
+export type QuotationStatus = 'OPEN' | 'CONVERTED' | 'CANCELLED';
+
+export interface QuotationItem {
+  QuotationItemID: number;
+  ProductID: number;
+  ProductName: string;
+  Quantity: number;
+  UnitPrice: number;
+}
+
+export interface Quotation {
+  QuotationID: number;
+  QuotationNumber: string;
+  CustomerID: number;
+  CustomerName: string;
+  ContactNumber?: string | null;
+  ContactPersonName?: string | null;
+  Address?: string | null;
+  SalesPersonID?: number | null;
+  SalesPersonName?: string | null;
+  QuoteDate: string;
+  ValidUntil: string;
+  Status: QuotationStatus;
+  Notes?: string | null;
+  // The sale the quote was converted into
+  SaleID?: number | null;
+  InvoiceID?: string | null;
+  items: QuotationItem[];
+}
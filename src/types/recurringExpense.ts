@@ -0,0 +1,42 @@
+export type RecurringFrequency = 'MONTHLY' | 'WEEKLY' | 'ONCE';
+
+export interface RecurringExpense {
+  RecurringExpenseID: number;
+  Name: string;
+  Amount: number;
+  ExpenseCategoryID: number;
+  ExpenseCategoryName?: string | null;
+  AccountType: 'CASH' | 'BANK';
+  BankAccountID?: number | null;
+  BankName?: string | null;
+  AccountNumber?: string | null;
+  Frequency: RecurringFrequency;
+  // 1-31 for MONTHLY; months shorter than this fall due on their last day
+  DayOfMonth?: number | null;
+  // 0 (Sunday) - 6 for WEEKLY
+  DayOfWeek?: number | null;
+  // First occurrence; the only one for ONCE
+  StartDate: string;
+  EndDate?: string | null;
+  Description?: string | null;
+  IsActive: number | boolean;
+}
+
+export type RecurringExpenseDraftStatus = 'PENDING' | 'CONFIRMED' | 'SKIPPED';
+
+// One generated occurrence of a template, waiting to become a cashbook entry
+export interface RecurringExpenseDraft {
+  DraftID: number;
+  RecurringExpenseID: number;
+  Name: string;
+  DueDate: string;
+  Amount: number;
+  ExpenseCategoryID: number;
+  ExpenseCategoryName?: string | null;
+  AccountType: 'CASH' | 'BANK';
+  BankAccountID?: number | null;
+  BankName?: string | null;
+  AccountNumber?: string | null;
+  Status: RecurringExpenseDraftStatus;
+  EntryID?: number | null;
+}
@@ -0,0 +1,22 @@
+export interface ReplenishmentVendor {
+  VendorID: number;
+  VendorName: string;
+}
+
+// A product below its minimum quantity with the order that would bring it back up
+export interface ReplenishmentLine {
+  ProductID: number;
+  Name: string;
+  CurrentQTY: number;
+  MinimumQTY: number;
+  // Still to be received on sent and draft purchase orders
+  OnOrderQTY: number;
+  // Part of OnOrderQTY that sits on draft orders not yet sent to the vendor
+  DraftQTY: number;
+  AverageDailySales: number;
+  // Days the current stock lasts at the average rate; null when nothing sold in the window
+  DaysOfStock: number | null;
+  SuggestedQuantity: number;
+  LastPurchasePrice: number;
+  Vendors: ReplenishmentVendor[];
+}
@@ -0,0 +1,27 @@
+export type ReturnSettlementMethod = 'CREDIT_ADJUSTMENT' | 'CASH_REFUND';
+
+export interface SalesReturnItem {
+  SalesReturnItemID: number;
+  SaleItemID: number | string;
+  ProductID: number | string;
+  ProductName: string;
+  Quantity: number;
+  UnitPrice: number;
+  TotalPrice: number;
+}
+
+export interface SalesReturn {
+  SalesReturnID: number;
+  CreditNoteNumber: string;
+  SaleID: number | string;
+  InvoiceID: string;
+  CustomerID: number | string;
+  CustomerName: string;
+  ReturnDate: string;
+  TotalAmount: number;
+  SettlementMethod: ReturnSettlementMethod;
+  RefundAccountType?: 'CASH' | 'BANK' | null;
+  Reason?: string | null;
+  CreatedByName?: string;
+  items: SalesReturnItem[];
+}
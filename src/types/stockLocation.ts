@@ -0,0 +1,16 @@
+export interface StockLocation {
+  LocationID: number;
+  BusinessLineID: number;
+  Name: string;
+  Address?: string | null;
+  // Receives and issues stock when no location is chosen, e.g. records made before locations existed
+  IsDefault: number | boolean;
+  IsActive: number | boolean;
+}
+
+// One product's quantity at one location, listed under the consolidated stock level
+export interface LocationStock {
+  LocationID: number;
+  LocationName: string;
+  Quantity: number;
+}
@@ -0,0 +1,40 @@
+// DRAFT moves nothing; SENT posts TRANSFER_OUT on the sending line; RECEIVED posts
+// TRANSFER_IN on the receiving line; REJECTED returns the stock to the sender
+export type StockTransferStatus = 'DRAFT' | 'SENT' | 'RECEIVED' | 'REJECTED' | 'CANCELLED';
+
+export interface StockTransferItem {
+  StockTransferItemID: number;
+  // Product on the sending business line
+  ProductID: number;
+  ProductName: string;
+  // Product on the receiving business line, chosen when the transfer is received
+  ToProductID?: number | null;
+  ToProductName?: string | null;
+  Quantity: number;
+  // Cost carried from the sending line into the receiving line's stock
+  UnitCost: number;
+}
+
+export interface StockTransfer {
+  StockTransferID: number;
+  TransferNumber: string;
+  FromBusinessLineID: number;
+  FromBusinessLineName: string;
+  ToBusinessLineID: number;
+  ToBusinessLineName: string;
+  // Stock locations on each side; a transfer within one business line moves stock between its locations
+  FromLocationID?: number | null;
+  FromLocationName?: string | null;
+  ToLocationID?: number | null;
+  ToLocationName?: string | null;
+  Status: StockTransferStatus;
+  TransferDate: string;
+  SentDate?: string | null;
+  ReceivedDate?: string | null;
+  Notes?: string | null;
+  RejectReason?: string | null;
+  CreatedByName?: string | null;
+  SentByName?: string | null;
+  ReceivedByName?: string | null;
+  items: StockTransferItem[];
+}